@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // sql.js loads its WASM binary from node_modules at runtime (local data source)
+  serverExternalPackages: ['sql.js'],
 };
 
 export default nextConfig;
@@ -4,7 +4,9 @@ import { useState } from "react";
 import dynamic from "next/dynamic";
 import { Button } from "@/components/Button";
 import TimeSeriesChart from "@/components/TimeSeriesChart";
+import { useScheme } from "@/components/SchemeProvider";
 import BatchRefreshButton from "@/components/BatchRefreshButton";
+import type { DistrictRisk } from "@/lib/bigquery";
 
 // Dynamic import for map (no SSR)
 const DistrictHeatmap = dynamic(
@@ -22,14 +24,17 @@ const DistrictHeatmap = dynamic(
   }
 );
 
-interface DistrictRisk {
-  residence_district: string;
-  anomaly_count: number;
-}
-
 export default function AnalyticsPage() {
   const [selectedDistrict, setSelectedDistrict] = useState<DistrictRisk | null>(null);
   const [refreshKey, setRefreshKey] = useState(0);
+  const { scheme, activeScheme } = useScheme();
+
+  // District counts belong to the previous scheme - drop the selection on a switch
+  const [prevScheme, setPrevScheme] = useState(scheme);
+  if (scheme !== prevScheme) {
+    setPrevScheme(scheme);
+    setSelectedDistrict(null);
+  }
 
   const handleDistrictClick = (district: DistrictRisk) => {
     setSelectedDistrict(district);
@@ -50,7 +55,8 @@ export default function AnalyticsPage() {
                 📊 Analytics & Insights
               </h1>
               <p className="text-gray-600 text-sm">
-                Geographic risk heatmaps • Temporal spike detection • Trend analysis
+                {activeScheme ? `${activeScheme.name} • ` : ""}Geographic risk heatmaps •
+                Temporal spike detection • Trend analysis
               </p>
             </div>
             <div className="flex items-center gap-3">
@@ -82,7 +88,9 @@ export default function AnalyticsPage() {
                     Selected: {selectedDistrict.residence_district}
                   </p>
                   <p className="text-xs text-gray-600">
-                    Anomalies: {selectedDistrict.anomaly_count.toLocaleString()}
+                    Anomalies: {selectedDistrict.anomaly_count === null
+                      ? "suppressed (small count)"
+                      : selectedDistrict.anomaly_count.toLocaleString()}
                   </p>
                 </div>
               )}
@@ -128,11 +136,16 @@ export default function AnalyticsPage() {
                 📈 Temporal Analysis
               </h2>
               <p className="text-sm text-gray-500">
-                Risk trends over time • Spike detection • Seasonal patterns
+                Risk trends from transaction dates • Spike detection • Click a district on the map to filter
               </p>
             </div>
             
-            <TimeSeriesChart key={refreshKey} days={30} showSpikes={true} />
+            <TimeSeriesChart
+              key={refreshKey}
+              days={30}
+              showSpikes={true}
+              district={selectedDistrict?.residence_district}
+            />
           </div>
 
           {/* Synopsis Alignment Box */}
@@ -145,8 +158,8 @@ export default function AnalyticsPage() {
                 <p className="font-medium text-gray-800 mb-2">✅ Implemented</p>
                 <ul className="space-y-1 text-gray-600">
                   <li>• Geographic Risk Heatmaps (District-level)</li>
-                  <li>• Temporal Spike Detection (1.5σ threshold)</li>
-                  <li>• Time-Series Risk Trends (7-90 days)</li>
+                  <li>• Temporal Spike Detection (rolling baseline z-scores)</li>
+                  <li>• Time-Series Risk Trends (daily / weekly / monthly)</li>
                   <li>• Stacked Area Charts (Risk distribution)</li>
                   <li>• Interactive Map with Tooltips</li>
                 </ul>
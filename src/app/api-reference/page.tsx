@@ -0,0 +1,305 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/Button";
+
+// The parts of the OpenAPI document (lib/openapi.ts) this page reads
+interface Parameter {
+  name: string;
+  in: "path" | "query";
+  required: boolean;
+  schema: Record<string, unknown>;
+}
+
+interface Operation {
+  tags: string[];
+  summary: string;
+  description?: string;
+  security?: unknown[];
+  "x-permission": string | null;
+  parameters: Parameter[];
+  requestBody?: { content: { "application/json": { schema: Record<string, unknown> } } };
+  responses: Record<string, { description: string; content?: Record<string, { schema: Record<string, unknown> }> }>;
+}
+
+interface OpenApiDocument {
+  info: { title: string; version: string; description: string };
+  paths: Record<string, Record<string, Operation>>;
+  components: { schemas: Record<string, Record<string, unknown>> };
+}
+
+interface Entry {
+  key: string;
+  method: string;
+  path: string;
+  operation: Operation;
+}
+
+interface TryResult {
+  status: number;
+  ms: number;
+  body: string;
+}
+
+function getMethodStyle(method: string) {
+  return method === "GET"
+    ? "bg-blue-100 text-blue-800 border-blue-300"
+    : "bg-green-100 text-green-800 border-green-300";
+}
+
+// Name of a $ref'd schema, for linking payloads to components.schemas
+function refName(schema: Record<string, unknown> | undefined): string | null {
+  const ref = schema?.$ref;
+  return typeof ref === "string" ? ref.split("/").pop() ?? null : null;
+}
+
+// Placeholder for a parameter input: its default, else its allowed values
+function describeSchema(schema: Record<string, unknown>): string {
+  if (schema.default !== undefined) return `default: ${JSON.stringify(schema.default)}`;
+  const values = (schema.enum ?? (schema.items as Record<string, unknown> | undefined)?.enum) as unknown[] | undefined;
+  if (values) return values.join(schema.type === "array" ? ", " : " | ");
+  return String(schema.type ?? "");
+}
+
+// Browse the API description and call routes with the current session
+export default function ApiReferencePage() {
+  const [doc, setDoc] = useState<OpenApiDocument | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [body, setBody] = useState("{}");
+  const [result, setResult] = useState<TryResult | null>(null);
+  const [sending, setSending] = useState(false);
+
+  useEffect(() => {
+    // The document is not wrapped in the response envelope, so it is fetched
+    // directly rather than through lib/client
+    fetch("/api/openapi.json")
+      .then((res) => {
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        return res.json();
+      })
+      .then(setDoc)
+      .catch((err) => setError(err instanceof Error ? err.message : "Failed to load the API description"));
+  }, []);
+
+  const entries = useMemo<Entry[]>(() => {
+    if (!doc) return [];
+    return Object.entries(doc.paths).flatMap(([path, methods]) =>
+      Object.entries(methods).map(([method, operation]) => ({
+        key: `${method.toUpperCase()} ${path}`,
+        method: method.toUpperCase(),
+        path,
+        operation,
+      })),
+    );
+  }, [doc]);
+
+  const byTag = useMemo(() => {
+    const groups = new Map<string, Entry[]>();
+    for (const entry of entries) {
+      const tag = entry.operation.tags[0] ?? "Other";
+      groups.set(tag, [...(groups.get(tag) ?? []), entry]);
+    }
+    return groups;
+  }, [entries]);
+
+  const selected = entries.find((entry) => entry.key === selectedKey) ?? entries[0] ?? null;
+  const successStatus = selected ? Object.keys(selected.operation.responses).find((status) => status.startsWith("2")) : undefined;
+  const payload = successStatus
+    ? (selected?.operation.responses[successStatus].content?.["application/json"]?.schema.properties as
+        | Record<string, Record<string, unknown>>
+        | undefined)?.data
+    : undefined;
+  const payloadName = refName(payload);
+  const bodyName = refName(selected?.operation.requestBody?.content["application/json"].schema);
+
+  const select = (entry: Entry) => {
+    setSelectedKey(entry.key);
+    setValues({});
+    setBody("{}");
+    setResult(null);
+  };
+
+  // Try-it calls go straight to the route so any status and body can be shown
+  const send = async () => {
+    if (!selected) return;
+    let path = selected.path;
+    const search = new URLSearchParams();
+    for (const param of selected.operation.parameters) {
+      const value = values[param.name]?.trim();
+      if (!value) continue;
+      if (param.in === "path") path = path.replace(`{${param.name}}`, encodeURIComponent(value));
+      else search.set(param.name, value);
+    }
+
+    setSending(true);
+    const started = performance.now();
+    try {
+      const res = await fetch(search.size > 0 ? `${path}?${search}` : path, {
+        method: selected.method,
+        ...(selected.operation.requestBody ? { headers: { "Content-Type": "application/json" }, body } : {}),
+        redirect: "manual",
+      });
+      const text = await res.text();
+      let pretty = text;
+      try {
+        pretty = JSON.stringify(JSON.parse(text), null, 2);
+      } catch {
+        // Not JSON (CSV export) - shown as is
+      }
+      setResult({ status: res.status, ms: Math.round(performance.now() - started), body: pretty });
+    } catch (err) {
+      setResult({ status: 0, ms: 0, body: err instanceof Error ? err.message : "Request failed" });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-white">
+      {/* Header */}
+      <section className="bg-white py-6 md:py-8 border-b border-gray-200">
+        <div className="max-w-7xl mx-auto px-4">
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <div>
+              <h1 className="text-2xl md:text-3xl font-heading font-bold text-gray-900 mb-1">
+                🔌 API Reference
+              </h1>
+              <p className="text-gray-600 text-sm max-w-3xl">
+                {doc ? doc.info.description : "Routes, parameters and payloads of the JanAvlokan API"}
+              </p>
+            </div>
+            <Button href="/api/openapi.json" variant="secondary">
+              OpenAPI JSON
+            </Button>
+          </div>
+        </div>
+      </section>
+
+      <section className="py-6">
+        <div className="max-w-7xl mx-auto px-4">
+          {error ? (
+            <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">⚠️ {error}</div>
+          ) : !doc || !selected ? (
+            <div className="p-8 text-center text-gray-500">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-2"></div>
+              Loading API description...
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              {/* Operations by tag */}
+              <nav className="bg-white border border-gray-200 rounded-lg shadow-sm overflow-hidden self-start">
+                {Array.from(byTag, ([tag, group]) => (
+                  <div key={tag} className="border-b border-gray-200 last:border-b-0">
+                    <h2 className="px-4 py-2 bg-gray-50 text-xs font-medium text-gray-500 uppercase">{tag}</h2>
+                    <ul>
+                      {group.map((entry) => (
+                        <li key={entry.key}>
+                          <button
+                            type="button"
+                            onClick={() => select(entry)}
+                            className={`w-full text-left px-4 py-2 flex items-center gap-2 text-sm hover:bg-gray-50 transition-colors ${
+                              entry.key === selected.key ? "bg-primary/5" : ""
+                            }`}
+                          >
+                            <span className={`w-12 text-center px-1 py-0.5 rounded text-xs font-medium border ${getMethodStyle(entry.method)}`}>
+                              {entry.method}
+                            </span>
+                            <span className="font-mono text-xs text-gray-800 truncate">{entry.path.replace(/^\/api/, "")}</span>
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+              </nav>
+
+              {/* Selected operation */}
+              <div className="lg:col-span-2 space-y-4">
+                <div className="bg-white border border-gray-200 rounded-lg shadow-sm p-4">
+                  <div className="flex items-center gap-2 mb-2">
+                    <span className={`px-2 py-1 rounded text-xs font-medium border ${getMethodStyle(selected.method)}`}>
+                      {selected.method}
+                    </span>
+                    <span className="font-mono text-sm text-gray-900">{selected.path}</span>
+                  </div>
+                  <p className="text-gray-900 font-medium">{selected.operation.summary}</p>
+                  {selected.operation.description && (
+                    <p className="text-sm text-gray-600 mt-1">{selected.operation.description}</p>
+                  )}
+                  <p className="text-xs text-gray-500 mt-2">
+                    {selected.operation.security?.length === 0
+                      ? "Public - no sign-in needed"
+                      : `Requires sign-in${selected.operation["x-permission"] ? ` and the ${selected.operation["x-permission"]} permission` : ""}`}
+                    {payloadName && ` • Returns ${payloadName}`}
+                    {bodyName && ` • Body ${bodyName}`}
+                  </p>
+                </div>
+
+                {/* Try it */}
+                <div className="bg-white border border-gray-200 rounded-lg shadow-sm overflow-hidden">
+                  <div className="px-4 py-3 border-b border-gray-200">
+                    <h2 className="font-heading font-semibold text-gray-900">Try it</h2>
+                    <p className="text-xs text-gray-500">Sent with your current session</p>
+                  </div>
+                  <div className="p-4 space-y-3">
+                    {selected.operation.parameters.map((param) => (
+                      <label key={`${param.in}:${param.name}`} className="block">
+                        <span className="text-xs font-medium text-gray-700">
+                          {param.name}
+                          <span className="text-gray-400 font-normal"> ({param.in}{param.required ? ", required" : ""})</span>
+                        </span>
+                        <input
+                          type="text"
+                          value={values[param.name] ?? ""}
+                          onChange={(e) => setValues((prev) => ({ ...prev, [param.name]: e.target.value }))}
+                          placeholder={describeSchema(param.schema)}
+                          className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono focus:outline-none focus:ring-2 focus:ring-primary/50"
+                        />
+                      </label>
+                    ))}
+                    {selected.operation.requestBody && (
+                      <label className="block">
+                        <span className="text-xs font-medium text-gray-700">Request body (JSON)</span>
+                        <textarea
+                          value={body}
+                          onChange={(e) => setBody(e.target.value)}
+                          rows={5}
+                          className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono focus:outline-none focus:ring-2 focus:ring-primary/50"
+                        />
+                      </label>
+                    )}
+                    <Button type="button" onClick={send} className="w-full">
+                      {sending ? "Sending..." : `Send ${selected.method} request`}
+                    </Button>
+                  </div>
+                  {result && (
+                    <div className="border-t border-gray-200">
+                      <div className="px-4 py-2 bg-gray-50 text-xs text-gray-600">
+                        HTTP {result.status} • {result.ms} ms
+                      </div>
+                      <pre className="p-4 text-xs font-mono text-gray-800 overflow-auto max-h-96">{result.body}</pre>
+                    </div>
+                  )}
+                </div>
+
+                {/* Schemas */}
+                {[payloadName, bodyName].filter((name): name is string => Boolean(name)).map((name) => (
+                  <details key={name} className="bg-white border border-gray-200 rounded-lg shadow-sm">
+                    <summary className="px-4 py-3 cursor-pointer font-heading font-semibold text-gray-900">
+                      Schema: {name}
+                    </summary>
+                    <pre className="px-4 pb-4 text-xs font-mono text-gray-800 overflow-auto max-h-96">
+                      {JSON.stringify(doc.components.schemas[name], null, 2)}
+                    </pre>
+                  </details>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </section>
+    </div>
+  );
+}
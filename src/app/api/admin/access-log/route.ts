@@ -0,0 +1,43 @@
+import { listAccessLog } from '@/lib/access';
+import { errorResponse, ok } from '@/lib/responses';
+import { accessLogQuery } from '@/lib/schemas';
+import { invalidField, parseQuery } from '@/lib/validation';
+import { NextRequest } from 'next/server';
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+// ISO timestamp for a from/to parameter; a bare date `to` covers that whole day
+function toTimestamp(value: string, endOfDay: boolean): string {
+  return new Date(DATE_ONLY.test(value) && endOfDay ? `${value}T23:59:59.999Z` : value).toISOString();
+}
+
+/**
+ * GET: Query the access log (privacy review)
+ *
+ * officer_id     - entries made by this officer
+ * beneficiary_id - entries that read this beneficiary's record
+ * outcome        - DENIED, VIEWED, SEARCHED, EXPORTED, REIDENTIFIED or ANOMALY
+ * from, to       - ISO date or timestamp bounds (inclusive)
+ */
+export async function GET(request: NextRequest) {
+  const started = Date.now();
+  try {
+    const query = parseQuery(request, accessLogQuery);
+    const from = query.from ? toTimestamp(query.from, false) : undefined;
+    const to = query.to ? toTimestamp(query.to, true) : undefined;
+    if (from && to && from > to) throw invalidField('from', 'must not be after to');
+
+    const entries = await listAccessLog({
+      officer_id: query.officer_id,
+      beneficiary_id: query.beneficiary_id,
+      outcome: query.outcome,
+      from,
+      to,
+      limit: query.limit,
+    });
+
+    return ok(entries, started, { pagination: { limit: query.limit } });
+  } catch (error) {
+    return errorResponse(error, 'Access Log Error');
+  }
+}
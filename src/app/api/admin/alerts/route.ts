@@ -0,0 +1,39 @@
+import { countPendingDeliveries, listAlerts, retryAlertDeliveries } from '@/lib/alerts';
+import type { AlertDeliveryReport, AlertRetryRun } from '@/lib/bigquery';
+import { getMailTransport } from '@/lib/mail';
+import { errorResponse, ok } from '@/lib/responses';
+import { alertListQuery } from '@/lib/schemas';
+import { parseQuery } from '@/lib/validation';
+import { NextRequest } from 'next/server';
+
+/**
+ * GET: Recent alerts with their email delivery status
+ *
+ * status - SENDING, SENT, QUEUED, FAILED or LOGGED
+ * kind   - RISK, RULE or ACCESS_ANOMALY
+ */
+export async function GET(request: NextRequest) {
+  const started = Date.now();
+  try {
+    const query = parseQuery(request, alertListQuery);
+    const [alerts, pending] = await Promise.all([listAlerts(query), countPendingDeliveries()]);
+    return ok<AlertDeliveryReport>(
+      { transport: getMailTransport().kind, pending, alerts },
+      started,
+      { pagination: { limit: query.limit } }
+    );
+  } catch (error) {
+    return errorResponse(error, 'Alert Delivery Status Error');
+  }
+}
+
+// POST: Retry alerts waiting after a transient delivery failure now
+export async function POST() {
+  const started = Date.now();
+  try {
+    const result = await retryAlertDeliveries();
+    return ok<AlertRetryRun>({ ...result, transport: getMailTransport().kind }, started);
+  } catch (error) {
+    return errorResponse(error, 'Alert Delivery Retry Error');
+  }
+}
@@ -0,0 +1,18 @@
+import { requireSession } from '@/lib/auth';
+import { checkContract } from '@/lib/contract';
+import { errorResponse, ok } from '@/lib/responses';
+import { NextRequest } from 'next/server';
+
+/**
+ * GET: Call every read-only route with the caller's session and check the
+ * responses against the OpenAPI document (see lib/contract.ts)
+ */
+export async function GET(request: NextRequest) {
+  const started = Date.now();
+  try {
+    const report = await checkContract(request, requireSession(request));
+    return ok(report, started);
+  } catch (error) {
+    return errorResponse(error, 'Contract Check Error');
+  }
+}
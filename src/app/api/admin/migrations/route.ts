@@ -0,0 +1,40 @@
+import type { MigrationReport } from '@/lib/bigquery';
+import { getConfig } from '@/lib/config';
+import { getDataSource } from '@/lib/datasource';
+import { applyMigrations, getMigrationStatus } from '@/lib/migrations';
+import { errorResponse, ok } from '@/lib/responses';
+
+// GET: Applied / pending schema migrations for the app-owned tables
+export async function GET() {
+  const started = Date.now();
+  try {
+    const dataSource = getDataSource();
+    const status = await getMigrationStatus(dataSource);
+
+    return ok<MigrationReport>({
+      backend: dataSource.kind,
+      auto_apply: getConfig().migrations.autoApply,
+      ...status,
+    }, started);
+  } catch (error) {
+    return errorResponse(error, 'Migration Status Error');
+  }
+}
+
+// POST: Apply pending migrations
+export async function POST() {
+  const started = Date.now();
+  try {
+    const dataSource = getDataSource();
+    const before = await getMigrationStatus(dataSource);
+    const status = await applyMigrations(dataSource);
+
+    return ok<MigrationReport>({
+      backend: dataSource.kind,
+      applied: before.pending - status.pending,
+      ...status,
+    }, started);
+  } catch (error) {
+    return errorResponse(error, 'Migration Apply Error');
+  }
+}
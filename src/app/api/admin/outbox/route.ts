@@ -0,0 +1,26 @@
+import type { OutboxReplay } from '@/lib/bigquery';
+import { getOutboxStatus, replayOutbox } from '@/lib/outbox';
+import { errorResponse, ok } from '@/lib/responses';
+
+// GET: Backlog of app-table writes waiting in the durable outbox
+export async function GET() {
+  const started = Date.now();
+  try {
+    const status = await getOutboxStatus();
+    return ok(status, started);
+  } catch (error) {
+    return errorResponse(error, 'Outbox Status Error');
+  }
+}
+
+// POST: Replay the outbox now, ignoring retry backoff
+export async function POST() {
+  const started = Date.now();
+  try {
+    const result = await replayOutbox(true);
+    const status = await getOutboxStatus();
+    return ok<OutboxReplay>({ replay: result, ...status }, started);
+  } catch (error) {
+    return errorResponse(error, 'Outbox Replay Error');
+  }
+}
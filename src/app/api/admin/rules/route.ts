@@ -0,0 +1,25 @@
+import type { AlertRuleEngineReport } from '@/lib/bigquery';
+import { errorResponse, ok } from '@/lib/responses';
+import { evaluateAllRules, getRuleRuns, listRules } from '@/lib/rules';
+
+// GET: Enabled alert rules and the latest evaluation of each scheme's rules
+export async function GET() {
+  const started = Date.now();
+  try {
+    const rules = await listRules({ enabled: true });
+    return ok<AlertRuleEngineReport>({ enabled_rules: rules.length, runs: getRuleRuns() }, started);
+  } catch (error) {
+    return errorResponse(error, 'Alert Rules Status Error');
+  }
+}
+
+// POST: Evaluate the alert rules of every enabled scheme now
+export async function POST() {
+  const started = Date.now();
+  try {
+    const [runs, rules] = await Promise.all([evaluateAllRules('manual'), listRules({ enabled: true })]);
+    return ok<AlertRuleEngineReport>({ enabled_rules: rules.length, runs }, started);
+  } catch (error) {
+    return errorResponse(error, 'Alert Rules Run Error');
+  }
+}
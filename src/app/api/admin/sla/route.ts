@@ -0,0 +1,30 @@
+import type { SlaReport, SlaRun } from '@/lib/bigquery';
+import { errorResponse, ok } from '@/lib/responses';
+import { schemeQuery } from '@/lib/schemas';
+import { resolveScheme } from '@/lib/schemes';
+import { getOverdueCases, getSlaCheckerStatus, runSlaCheck } from '@/lib/sla';
+import { parseQuery } from '@/lib/validation';
+import { NextRequest } from 'next/server';
+
+// GET: SLA checker status and the overdue cases of one scheme
+export async function GET(request: NextRequest) {
+  const started = Date.now();
+  try {
+    const scheme = resolveScheme(parseQuery(request, schemeQuery).scheme);
+    const overdue = await getOverdueCases(scheme);
+    return ok<SlaReport>({ checker: getSlaCheckerStatus(), overdue }, started, { scheme: scheme.id });
+  } catch (error) {
+    return errorResponse(error, 'SLA Status Error');
+  }
+}
+
+// POST: Run the SLA check for every enabled scheme now
+export async function POST() {
+  const started = Date.now();
+  try {
+    const results = await runSlaCheck();
+    return ok<SlaRun>({ results, checker: getSlaCheckerStatus() }, started);
+  } catch (error) {
+    return errorResponse(error, 'SLA Check Error');
+  }
+}
@@ -1,91 +1,75 @@
-import { getBigQueryClient } from '@/lib/bigquery';
-import { NextRequest, NextResponse } from 'next/server';
-
-interface AlertPayload {
-  beneficiary_id: string;
-  risk_score: number;
-  reason: string;
-}
-
-interface AlertCandidate {
-  beneficiary_id: string;
-  risk_score: number;
-}
+import { raiseAlert } from '@/lib/alerts';
+import type { AlertCandidate, AlertSent } from '@/lib/bigquery';
+import { getDataSource } from '@/lib/datasource';
+import { getScope } from '@/lib/jurisdiction';
+import { errorResponse, fail, ok, schemeMeta } from '@/lib/responses';
+import { alertBody, schemeQuery } from '@/lib/schemas';
+import { resolveScheme } from '@/lib/schemes';
+import { parseBody, parseQuery } from '@/lib/validation';
+import { NextRequest } from 'next/server';
 
+/**
+ * POST: Raise an alert for a beneficiary and email it to ALERT_RECIPIENT
+ *
+ * The alert is recorded either way; the answer says what happened to the email:
+ * 200 - accepted by the mail server
+ * 202 - queued: written to the development mail directory (MAIL_TRANSPORT=file)
+ *       or deferred after a transient failure and retried later
+ * 502 DELIVERY_FAILED - refused for good (bad address, rejected by the server)
+ */
 export async function POST(request: NextRequest) {
+  const started = Date.now();
   try {
-    const body: AlertPayload = await request.json();
+    const body = await parseBody(request, alertBody);
     const { beneficiary_id, risk_score, reason } = body;
+    const scheme = resolveScheme(body.scheme);
 
-    if (!beneficiary_id || risk_score === undefined) {
-      return NextResponse.json(
-        { success: false, error: 'beneficiary_id and risk_score are required' },
-        { status: 400 }
-      );
-    }
-
-    // TODO: Integrate with actual email service (SendGrid, AWS SES, etc.)
-    // For now, we'll log the alert and return success
-    console.log('🚨 ALERT TRIGGERED:', {
-      beneficiary_id,
-      risk_score,
-      reason,
-      timestamp: new Date().toISOString(),
-    });
+    const scope = await getScope(request);
+    await scope.requireBeneficiary(scheme.id, beneficiary_id);
 
-    // Simulate email sending
-    const alertRecord = {
-      beneficiary_id,
-      risk_score,
-      reason,
-      alert_sent: true,
-      sent_at: new Date().toISOString(),
-      recipient: 'audit-team@example.gov.in', // Placeholder
-    };
+    const alert = await raiseAlert({ scheme: scheme.id, beneficiary_id, risk_score, reason });
 
-    return NextResponse.json({
-      success: true,
-      message: 'Alert sent successfully',
-      alert: alertRecord,
-    });
+    if (alert.delivery_status === 'FAILED') {
+      return fail('DELIVERY_FAILED', `Alert ${alert.alert_id} was recorded but could not be emailed: ${alert.delivery_error}`);
+    }
+    if (alert.delivery_status === 'SENT') {
+      return ok<AlertSent>({ message: `Alert emailed to ${alert.recipient}`, alert }, started, { scheme: scheme.id });
+    }
+    const message = alert.delivery_error
+      ? `Alert recorded; email to ${alert.recipient} will be retried (${alert.delivery_error})`
+      : `Alert recorded; email written to the development mail directory, not sent`;
+    return ok<AlertSent>({ message, alert }, started, { scheme: scheme.id }, { status: 202 });
   } catch (error) {
-    console.error('Alert Email Error:', error);
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-    return NextResponse.json({ success: false, error: errorMessage }, { status: 500 });
+    return errorResponse(error, 'Alert Email Error');
   }
 }
 
 // GET: Fetch alert candidates (beneficiaries with high mean_squared_error)
-export async function GET() {
+export async function GET(request: NextRequest) {
+  const started = Date.now();
   try {
-    const bigquery = getBigQueryClient();
+    const scheme = resolveScheme(parseQuery(request, schemeQuery).scheme);
+    const scope = await getScope(request);
 
     const query = `
       SELECT
         beneficiary_id,
         mean_squared_error AS risk_score
-      FROM \`gfg-fot.lpg_fraud_detection.fraud_with_explanations\`
+      FROM ${scope.table('fraud_with_explanations', scheme.id)}
       WHERE risk_level = 'HIGH'
       ORDER BY mean_squared_error DESC
       LIMIT 10
     `;
 
-    const [job] = await bigquery.createQueryJob({ query });
-    const [rows] = await job.getQueryResults();
+    const rows = await getDataSource().query(query, scope.params);
 
     const results: AlertCandidate[] = rows.map((row) => ({
       beneficiary_id: row.beneficiary_id,
       risk_score: Number(row.risk_score),
     }));
 
-    return NextResponse.json({
-      success: true,
-      candidates: results,
-      total: results.length,
-    });
+    return ok(results, started, await schemeMeta(scheme.id));
   } catch (error) {
-    console.error('Alert Candidates Error:', error);
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-    return NextResponse.json({ success: false, error: errorMessage }, { status: 500 });
+    return errorResponse(error, 'Alert Candidates Error');
   }
 }
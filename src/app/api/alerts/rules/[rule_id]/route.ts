@@ -0,0 +1,62 @@
+import { requireSession } from '@/lib/auth';
+import type { AlertRuleDetail } from '@/lib/bigquery';
+import { errorResponse, ok } from '@/lib/responses';
+import { deleteRule, getRule, getRuleAlerts, updateRule } from '@/lib/rules';
+import { alertRuleBody } from '@/lib/schemas';
+import { resolveScheme } from '@/lib/schemes';
+import { parseBody } from '@/lib/validation';
+import { NextRequest } from 'next/server';
+
+// Alerts listed with a rule
+const RECENT_ALERTS = 20;
+
+// GET: The rule and the most recent alerts it raised
+// Officers reach their own rules, state admins every rule; any other ID answers 404
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ rule_id: string }> }
+) {
+  const started = Date.now();
+  try {
+    const { rule_id } = await params;
+    const rule = await getRule(rule_id, requireSession(request));
+    const alerts = await getRuleAlerts(rule.rule_id, RECENT_ALERTS);
+    return ok<AlertRuleDetail>({ rule, alerts }, started, { scheme: rule.scheme });
+  } catch (error) {
+    return errorResponse(error, 'Alert Rule Error');
+  }
+}
+
+// PUT: Replace the rule's settings (a new scheme or trigger starts it afresh)
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ rule_id: string }> }
+) {
+  const started = Date.now();
+  try {
+    const session = requireSession(request);
+    const { rule_id } = await params;
+    const body = await parseBody(request, alertRuleBody);
+    const scheme = resolveScheme(body.scheme);
+
+    const rule = await updateRule(session, rule_id, { ...body, scheme: scheme.id });
+    return ok(rule, started, { scheme: scheme.id });
+  } catch (error) {
+    return errorResponse(error, 'Alert Rule Save Error');
+  }
+}
+
+// DELETE: Remove the rule (the alerts it raised are kept)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ rule_id: string }> }
+) {
+  const started = Date.now();
+  try {
+    const { rule_id } = await params;
+    const rule = await deleteRule(requireSession(request), rule_id);
+    return ok(rule, started, { scheme: rule.scheme });
+  } catch (error) {
+    return errorResponse(error, 'Alert Rule Delete Error');
+  }
+}
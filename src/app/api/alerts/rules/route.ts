@@ -0,0 +1,42 @@
+import { requireSession } from '@/lib/auth';
+import { hasPermission } from '@/lib/rbac';
+import { errorResponse, ok } from '@/lib/responses';
+import { createRule, listRules } from '@/lib/rules';
+import { alertRuleBody, alertRuleQuery } from '@/lib/schemas';
+import { resolveScheme } from '@/lib/schemes';
+import { parseBody, parseQuery } from '@/lib/validation';
+import { NextRequest } from 'next/server';
+
+// GET: The signed-in officer's alert rules (every officer's for state admins)
+export async function GET(request: NextRequest) {
+  const started = Date.now();
+  try {
+    const session = requireSession(request);
+    const input = parseQuery(request, alertRuleQuery);
+    const scheme = input.scheme ? resolveScheme(input.scheme).id : undefined;
+
+    const rules = await listRules({
+      scheme,
+      owner_id: hasPermission(session.role, 'admin') ? undefined : session.officer_id,
+    });
+    return ok(rules, started, scheme ? { scheme } : {});
+  } catch (error) {
+    return errorResponse(error, 'Alert Rules Error');
+  }
+}
+
+// POST: Create an alert rule owned by the signed-in officer (201)
+// It is evaluated after the next batch refresh of its scheme
+export async function POST(request: NextRequest) {
+  const started = Date.now();
+  try {
+    const session = requireSession(request);
+    const body = await parseBody(request, alertRuleBody);
+    const scheme = resolveScheme(body.scheme);
+
+    const rule = await createRule(session, { ...body, scheme: scheme.id });
+    return ok(rule, started, { scheme: scheme.id }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error, 'Alert Rule Save Error');
+  }
+}
@@ -1,73 +1,195 @@
-import { getBigQueryClient } from '@/lib/bigquery';
-import { NextResponse } from 'next/server';
-
-export interface TemporalSpike {
-  date: string;
-  spike_type: string;
-  anomaly_count: number;
-  avg_baseline: number;
-  deviation_percentage: number;
-  affected_districts: string[];
+import type { SpikeContribution, TemporalSpike } from '@/lib/bigquery';
+import { getDataSource } from '@/lib/datasource';
+import { getConfig } from '@/lib/config';
+import { SUPPRESSED_DISTRICT, minPublishedCount, suppressGroup } from '@/lib/disclosure';
+import { getScope } from '@/lib/jurisdiction';
+import { errorResponse, ok, schemeMeta } from '@/lib/responses';
+import { temporalSpikesQuery } from '@/lib/schemas';
+import { resolveScheme } from '@/lib/schemes';
+import {
+  addDays,
+  daysBetween,
+  detectDailySpikes,
+  rollingBaseline,
+  toIsoDate,
+  zScore,
+  type DailySpike,
+} from '@/lib/analytics';
+import { invalidField, parseQuery } from '@/lib/validation';
+import { NextRequest } from 'next/server';
+
+const DEFAULT_RANGE_DAYS = 90;
+const MAX_RANGE_DAYS = 366;
+
+const round = (value: number, digits: number) => Number(value.toFixed(digits));
+
+function toTemporalSpike(
+  spike: DailySpike,
+  scope: TemporalSpike['scope'],
+  district: string | null,
+  contributions: SpikeContribution[]
+): TemporalSpike {
+  const { mean, stddev, window_from, window_to } = spike.baseline;
+  return {
+    date: spike.date,
+    scope,
+    district,
+    spike_type: spike.severity,
+    anomaly_count: spike.count,
+    avg_baseline: round(mean, 2),
+    baseline_stddev: round(stddev, 2),
+    z_score: round(spike.z_score, 2),
+    deviation_percentage: mean > 0 ? round(((spike.count - mean) / mean) * 100, 1) : 0,
+    baseline_window: {
+      from: window_from,
+      to: window_to,
+      days: daysBetween(window_from, window_to) + 1,
+    },
+    affected_districts: contributions.map((c) => c.district),   // Suppressed ones appear once, as 'Suppressed'
+    contributions,
+  };
 }
 
-export async function GET() {
+export async function GET(request: NextRequest) {
+  const started = Date.now();
   try {
-    const bigquery = getBigQueryClient();
+    const input = parseQuery(request, temporalSpikesQuery);
+    const spikeConfig = getConfig().spikes;
+    const scheme = resolveScheme(input.scheme);
+    const { scope, limit, from } = input;
+    const windowDays = input.window ?? spikeConfig.baselineDays;
+    const districtFilter = input.district ?? null;
+    let to = input.to;
 
-    // Detect district-level anomaly spikes
-    // Since we don't have transaction dates, we identify districts with high anomaly concentration
+    const jurisdiction = await getScope(request);
+    const dataSource = getDataSource();
+
+    if (!to) {
+      const latestRows = await dataSource.query(`
+        SELECT MAX(transaction_date) AS latest
+        FROM ${dataSource.table('Transactions', scheme.id)}
+      `);
+      to = toIsoDate(latestRows[0]?.latest) || new Date().toISOString().slice(0, 10);
+    }
+    const rangeStart = from || addDays(to, -(DEFAULT_RANGE_DAYS - 1));
+    if (rangeStart > to) throw invalidField('from', 'must not be after to');
+    if (daysBetween(rangeStart, to) >= MAX_RANGE_DAYS) {
+      throw invalidField('from', `range too long (max ${MAX_RANGE_DAYS} days)`);
+    }
+
+    // Daily anomaly counts per district: distinct HIGH/MEDIUM beneficiaries
+    // transacting that day. Fetch the baseline window before the range too.
+    // Outside statewide jurisdiction, 'state' spikes cover the officer's districts.
     const query = `
-      WITH district_stats AS (
-        SELECT
-          b.residence_district,
-          COUNT(*) AS anomaly_count,
-          COUNTIF(f.risk_level = 'HIGH') AS high_count,
-          COUNTIF(f.risk_level = 'MEDIUM') AS medium_count
-        FROM \`gfg-fot.lpg_fraud_detection.fraud_with_explanations\` f
-        JOIN \`gfg-fot.lpg_fraud_detection.Beneficiaries\` b
-        ON f.beneficiary_id = b.beneficiary_id
-        WHERE f.risk_level IN ('HIGH', 'MEDIUM')
-        GROUP BY b.residence_district
-      ),
-      baseline AS (
-        SELECT 
-          AVG(anomaly_count) AS avg_count,
-          STDDEV(anomaly_count) AS std_count
-        FROM district_stats
-      )
       SELECT
-        FORMAT_DATE('%Y-%m-%d', DATE_SUB(CURRENT_DATE(), INTERVAL CAST(ROW_NUMBER() OVER (ORDER BY ds.anomaly_count DESC) AS INT64) DAY)) AS date,
-        CASE 
-          WHEN ds.anomaly_count > (SELECT avg_count + 2.5 * std_count FROM baseline) THEN 'CRITICAL'
-          WHEN ds.anomaly_count > (SELECT avg_count + 2 * std_count FROM baseline) THEN 'HIGH'
-          ELSE 'MODERATE'
-        END AS spike_type,
-        ds.anomaly_count,
-        ROUND((SELECT avg_count FROM baseline), 2) AS avg_baseline,
-        ROUND((ds.anomaly_count - (SELECT avg_count FROM baseline)) / NULLIF((SELECT avg_count FROM baseline), 0) * 100, 1) AS deviation_percentage,
-        [ds.residence_district] AS affected_districts
-      FROM district_stats ds
-      WHERE ds.anomaly_count > (SELECT avg_count + 1.5 * std_count FROM baseline)
-      ORDER BY ds.anomaly_count DESC
-      LIMIT 20
+        t.transaction_date AS day,
+        b.residence_district,
+        COUNT(DISTINCT t.beneficiary_id) AS anomaly_count
+      FROM ${dataSource.table('Transactions', scheme.id)} t
+      JOIN ${dataSource.table('fraud_with_explanations', scheme.id)} f
+      ON t.beneficiary_id = f.beneficiary_id
+      JOIN ${jurisdiction.table('Beneficiaries', scheme.id)} b
+      ON t.beneficiary_id = b.beneficiary_id
+      WHERE f.risk_level IN ('HIGH', 'MEDIUM')
+      AND t.transaction_date BETWEEN DATE(@from) AND DATE(@to)
+      GROUP BY day, b.residence_district
     `;
 
-    const [job] = await bigquery.createQueryJob({ query });
-    const [rows] = await job.getQueryResults();
+    const rows = await dataSource.query(query, {
+      ...jurisdiction.params,
+      from: addDays(rangeStart, -windowDays),
+      to,
+    });
+
+    // Each beneficiary has one residence district, so district counts sum to the state count
+    const stateSeries = new Map<string, number>();
+    const districtSeries = new Map<string, Map<string, number>>();
+    for (const row of rows) {
+      const day = toIsoDate(row.day);
+      if (!day) continue;
+      const district: string = row.residence_district || 'Unknown';
+      const count = Number(row.anomaly_count);
+      stateSeries.set(day, (stateSeries.get(day) || 0) + count);
+      if (!districtSeries.has(district)) districtSeries.set(district, new Map());
+      districtSeries.get(district)!.set(day, count);
+    }
+
+    const detectOptions = {
+      windowDays,
+      minCount: spikeConfig.minCount,
+      bands: spikeConfig.sigma,
+    };
+
+    // Per-district excess over its own baseline on a given day
+    const contributionOf = (district: string, series: Map<string, number>, date: string): SpikeContribution => {
+      const count = series.get(date) || 0;
+      const baseline = rollingBaseline(series, date, windowDays);
+      return {
+        district,
+        anomaly_count: count,
+        avg_baseline: round(baseline.mean, 2),
+        excess: round(count - baseline.mean, 2),
+        z_score: round(zScore(count, baseline), 2),
+        suppressed: false,
+      };
+    };
+
+    // Districts on one day add up to the state count, so their small counts are
+    // suppressed as a group before any of them is published
+    const k = minPublishedCount();
+    const suppressedOn = (date: string): Set<string> => {
+      const districts = Array.from(districtSeries.keys());
+      const { cells } = suppressGroup(districts.map((district) => districtSeries.get(district)!.get(date) || 0), k);
+      return new Set(districts.filter((_, i) => cells[i] === null));
+    };
+    // Suppressed districts are folded into one entry that names none of them
+    // and reveals nothing of their counts or baselines
+    const suppressedContribution: SpikeContribution = {
+      district: SUPPRESSED_DISTRICT,
+      anomaly_count: null,
+      avg_baseline: null,
+      excess: null,
+      z_score: null,
+      suppressed: true,
+    };
+
+    const results: TemporalSpike[] = [];
+
+    // State-wide spikes, attributed to the districts that rose above their own baseline
+    if (scope !== 'district' && !districtFilter) {
+      for (const spike of detectDailySpikes(stateSeries, rangeStart, to, detectOptions)) {
+        if (spike.count < k) continue;
+        const small = suppressedOn(spike.date);
+        const rising = Array.from(districtSeries.entries())
+          .map(([district, series]) => contributionOf(district, series, spike.date))
+          .filter((c) => (c.excess ?? 0) > 0)
+          .sort((a, b) => (b.excess ?? 0) - (a.excess ?? 0));
+        const contributions = rising.filter((c) => !small.has(c.district));
+        if (contributions.length < rising.length) contributions.push(suppressedContribution);
+        results.push(toTemporalSpike(spike, 'STATE', null, contributions));
+      }
+    }
+
+    if (scope !== 'state') {
+      for (const [district, series] of districtSeries) {
+        if (districtFilter && district !== districtFilter) continue;
+        for (const spike of detectDailySpikes(series, rangeStart, to, detectOptions)) {
+          if (spike.count < k || suppressedOn(spike.date).has(district)) continue;
+          results.push(toTemporalSpike(spike, 'DISTRICT', district, [
+            contributionOf(district, series, spike.date),
+          ]));
+        }
+      }
+    }
 
-    const results: TemporalSpike[] = rows.map((row) => ({
-      date: row.date,
-      spike_type: row.spike_type,
-      anomaly_count: Number(row.anomaly_count),
-      avg_baseline: Number(row.avg_baseline),
-      deviation_percentage: Number(row.deviation_percentage),
-      affected_districts: row.affected_districts || [],
-    }));
+    // Strongest deviations first
+    results.sort((a, b) => b.z_score - a.z_score || b.date.localeCompare(a.date));
 
-    return NextResponse.json(results);
+    return ok(results.slice(0, limit), started, {
+      ...(await schemeMeta(scheme.id)),
+      pagination: { limit, total_count: results.length },
+    });
   } catch (error) {
-    console.error('Temporal Spikes Error:', error);
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-    return NextResponse.json({ success: false, error: errorMessage }, { status: 500 });
+    return errorResponse(error, 'Temporal Spikes Error');
   }
 }
@@ -1,68 +1,163 @@
-import { getBigQueryClient } from '@/lib/bigquery';
-import { NextRequest, NextResponse } from 'next/server';
-
-export interface TimeSeriesDataPoint {
-  date: string;
-  high_risk_count: number;
-  medium_risk_count: number;
-  low_risk_count: number;
-  total_anomalies: number;
+import type { TimeSeriesDataPoint } from '@/lib/bigquery';
+import { getDataSource, type DateBucket } from '@/lib/datasource';
+import { suppressCount, suppressGroup } from '@/lib/disclosure';
+import { findFlag, flagCondition } from '@/lib/flags';
+import { getScope } from '@/lib/jurisdiction';
+import { errorResponse, ok, schemeMeta } from '@/lib/responses';
+import { timeSeriesQuery } from '@/lib/schemas';
+import { resolveScheme } from '@/lib/schemes';
+import { addDays, daysBetween, enumerateBuckets, toIsoDate } from '@/lib/analytics';
+import { invalidField, parseQuery } from '@/lib/validation';
+import { NextRequest } from 'next/server';
+
+// Longest range allowed per bucket size (keeps charts readable and scans bounded)
+const MAX_RANGE_DAYS: Record<DateBucket, number> = {
+  day: 366,
+  week: 731,
+  month: 1827,
+};
+
+interface RiskCounts {
+  high: number;
+  medium: number;
+  low: number;
+}
+
+// HIGH and MEDIUM add up to total_anomalies, so they are suppressed together
+function toDataPoint(date: string, counts: RiskCounts): TimeSeriesDataPoint {
+  const anomalies = suppressGroup([counts.high, counts.medium]);
+  const low = suppressCount(counts.low);
+  return {
+    date,
+    high_risk_count: anomalies.cells[0],
+    medium_risk_count: anomalies.cells[1],
+    low_risk_count: low,
+    total_anomalies: anomalies.total,
+    suppressed: anomalies.suppressed || (low === null && counts.low > 0),
+  };
+}
+
+/**
+ * One district's point of a bucket, suppressed against the other districts
+ * Each beneficiary has one residence district, so the districts of a bucket
+ * add up to the series without a district filter: a count masked in any of
+ * these groups (as temporal-spikes does per day) is masked here too, or
+ * subtracting the published districts from the total would give it back.
+ */
+function toDistrictDataPoint(date: string, districts: Map<string, RiskCounts>, district: string): TimeSeriesDataPoint {
+  const names = Array.from(districts.keys());
+  const index = names.indexOf(district);
+  const counts = districts.get(district) ?? { high: 0, medium: 0, low: 0 };
+  if (index === -1) return toDataPoint(date, counts);
+
+  const maskedAcross = (count: (c: RiskCounts) => number) =>
+    suppressGroup(names.map((name) => count(districts.get(name)!))).cells[index] === null;
+
+  const point = toDataPoint(date, counts);
+  // Any one of HIGH, MEDIUM and their total gives the others away
+  if (maskedAcross((c) => c.high) || maskedAcross((c) => c.medium) || maskedAcross((c) => c.high + c.medium)) {
+    point.high_risk_count = counts.high > 0 ? null : 0;
+    point.medium_risk_count = counts.medium > 0 ? null : 0;
+    point.total_anomalies = counts.high + counts.medium > 0 ? null : 0;
+  }
+  if (maskedAcross((c) => c.low)) point.low_risk_count = null;
+  point.suppressed = [point.high_risk_count, point.medium_risk_count, point.low_risk_count, point.total_anomalies]
+    .some((cell) => cell === null);
+  return point;
 }
 
 export async function GET(request: NextRequest) {
+  const started = Date.now();
   try {
-    const searchParams = request.nextUrl.searchParams;
-    const days = Math.min(Number(searchParams.get('days')) || 30, 90); // Max 90 days
-
-    const bigquery = getBigQueryClient();
-
-    // Time-series query - Risk distribution over time
-    // Since we don't have transaction dates, we'll simulate using beneficiary data
-    // In production, this would use actual transaction timestamps
-    // For demo, we generate synthetic time-series based on risk distribution
-    const query = `
-      WITH risk_counts AS (
-        SELECT
-          risk_level,
-          COUNT(*) AS total_count
-        FROM \`gfg-fot.lpg_fraud_detection.fraud_with_explanations\`
-        GROUP BY risk_level
-      ),
-      date_series AS (
-        SELECT date
-        FROM UNNEST(GENERATE_DATE_ARRAY(
-          DATE_SUB(CURRENT_DATE(), INTERVAL @days DAY),
-          CURRENT_DATE()
-        )) AS date
-      )
+    const input = parseQuery(request, timeSeriesQuery);
+    const { bucket, district, from } = input;
+    const scheme = resolveScheme(input.scheme);
+
+    const flag = input.flag ? findFlag(scheme, input.flag) : undefined;
+    if (input.flag && !flag) {
+      throw invalidField('flag', `must be one of: ${scheme.flags.map((f) => f.id).join(', ')}`);
+    }
+    let to = input.to;
+
+    const scope = await getScope(request);
+    const dataSource = getDataSource();
+
+    // Without an explicit end date, end at the most recent transaction
+    // so the default window always shows data rather than today's empty days
+    if (!to) {
+      const latestRows = await dataSource.query(`
+        SELECT MAX(transaction_date) AS latest
+        FROM ${dataSource.table('Transactions', scheme.id)}
+      `);
+      to = toIsoDate(latestRows[0]?.latest) || new Date().toISOString().slice(0, 10);
+    }
+
+    // `days` is kept for older clients that only send a trailing window
+    const rangeStart = from || addDays(to, -(input.days - 1));
+
+    if (rangeStart > to) throw invalidField('from', 'must not be after to');
+    if (daysBetween(rangeStart, to) >= MAX_RANGE_DAYS[bucket]) {
+      throw invalidField(from ? 'from' : 'days', `range too long for '${bucket}' buckets (max ${MAX_RANGE_DAYS[bucket]} days)`);
+    }
+
+    // Distinct beneficiaries transacting in each bucket, split by their risk level
+    // SOURCE: Transactions (dates) joined with fraud_with_explanations (risk)
+    // The scoped risk table limits both to the officer's districts. With a
+    // district filter every district is counted, to suppress against the others.
+    let query = `
       SELECT
-        FORMAT_DATE('%Y-%m-%d', d.date) AS date,
-        -- Distribute counts across days with some variance
-        CAST(COALESCE((SELECT total_count FROM risk_counts WHERE risk_level = 'HIGH'), 0) / @days 
-          * (0.8 + 0.4 * RAND()) AS INT64) AS high_risk_count,
-        CAST(COALESCE((SELECT total_count FROM risk_counts WHERE risk_level = 'MEDIUM'), 0) / @days 
-          * (0.8 + 0.4 * RAND()) AS INT64) AS medium_risk_count,
-        CAST(COALESCE((SELECT total_count FROM risk_counts WHERE risk_level = 'LOW'), 0) / @days 
-          * (0.8 + 0.4 * RAND()) AS INT64) AS low_risk_count
-      FROM date_series d
-      ORDER BY d.date ASC
+        ${dataSource.sql.dateBucket('t.transaction_date', bucket)} AS bucket_start,
+        ${district ? 'b.residence_district,' : ''}
+        COUNT(DISTINCT CASE WHEN f.risk_level = 'HIGH' THEN t.beneficiary_id END) AS high_risk_count,
+        COUNT(DISTINCT CASE WHEN f.risk_level = 'MEDIUM' THEN t.beneficiary_id END) AS medium_risk_count,
+        COUNT(DISTINCT CASE WHEN f.risk_level = 'LOW' THEN t.beneficiary_id END) AS low_risk_count
+      FROM ${dataSource.table('Transactions', scheme.id)} t
+      JOIN ${scope.table('fraud_with_explanations', scheme.id)} f
+      ON t.beneficiary_id = f.beneficiary_id
     `;
 
-    const [job] = await bigquery.createQueryJob({ query, params: { days } });
-    const [rows] = await job.getQueryResults();
+    if (district) {
+      query += `
+      JOIN ${dataSource.table('Beneficiaries', scheme.id)} b
+      ON t.beneficiary_id = b.beneficiary_id
+      `;
+    }
+
+    query += `WHERE t.transaction_date BETWEEN DATE(@from) AND DATE(@to)\n`;
+    const params: Record<string, unknown> = { ...scope.params, from: rangeStart, to };
+
+    // Column name comes from the flag registry, never from the request
+    if (flag) {
+      query += `AND ${flagCondition(flag, true, 'f')}\n`;
+    }
+
+    query += `GROUP BY bucket_start${district ? ', b.residence_district' : ''}
+      ORDER BY bucket_start ASC`;
+
+    const rows = await dataSource.query(query, params);
+
+    // Bucket -> district ('' without a district filter) -> counts
+    const byBucket = new Map<string, Map<string, RiskCounts>>();
+    for (const row of rows) {
+      const date = toIsoDate(row.bucket_start);
+      if (!date) continue;
+      if (!byBucket.has(date)) byBucket.set(date, new Map());
+      byBucket.get(date)!.set(district ? row.residence_district ?? '' : '', {
+        high: Number(row.high_risk_count),
+        medium: Number(row.medium_risk_count),
+        low: Number(row.low_risk_count),
+      });
+    }
 
-    const results: TimeSeriesDataPoint[] = rows.map((row) => ({
-      date: row.date,
-      high_risk_count: Number(row.high_risk_count),
-      medium_risk_count: Number(row.medium_risk_count),
-      low_risk_count: Number(row.low_risk_count),
-      total_anomalies: Number(row.high_risk_count) + Number(row.medium_risk_count),
-    }));
+    // Fill empty buckets with zeros so gaps are visible on the chart
+    const empty: RiskCounts = { high: 0, medium: 0, low: 0 };
+    const results: TimeSeriesDataPoint[] = enumerateBuckets(rangeStart, to, bucket).map((date) => {
+      const districts = byBucket.get(date) ?? new Map<string, RiskCounts>();
+      return district ? toDistrictDataPoint(date, districts, district) : toDataPoint(date, districts.get('') ?? empty);
+    });
 
-    return NextResponse.json(results);
+    return ok(results, started, await schemeMeta(scheme.id));
   } catch (error) {
-    console.error('Time Series Error:', error);
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-    return NextResponse.json({ success: false, error: errorMessage }, { status: 500 });
+    return errorResponse(error, 'Time Series Error');
   }
 }
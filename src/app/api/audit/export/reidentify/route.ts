@@ -0,0 +1,55 @@
+import { recordDataAccess } from '@/lib/access';
+import type { Reidentification, ReidentifiedRow } from '@/lib/bigquery';
+import { getScope } from '@/lib/jurisdiction';
+import { loadExportMapping } from '@/lib/pseudonyms';
+import { errorResponse, ok } from '@/lib/responses';
+import { reidentifyBody } from '@/lib/schemas';
+import { parseBody } from '@/lib/validation';
+import { NextRequest } from 'next/server';
+
+/**
+ * POST: Resolve specific pseudonyms of an export back to beneficiary IDs
+ *
+ * Every request is written to the access log with the reason given and the
+ * IDs revealed before any ID is returned; if the entry can be neither written
+ * nor queued the request fails (503). Beneficiaries outside the officer's
+ * jurisdiction stay hidden.
+ */
+export async function POST(request: NextRequest) {
+  const started = Date.now();
+  try {
+    const scope = await getScope(request);
+    // reason - why the officer needs the real IDs (kept in the access log)
+    const { export_id: exportId, tokens, reason } = await parseBody(request, reidentifyBody);
+
+    const mapping = await loadExportMapping(exportId);
+    const found = tokens.map((token) => ({ token, id: mapping.lookup(token) }));
+    const visible = await scope.visibleBeneficiaries(
+      mapping.scheme,
+      found.flatMap((f) => (f.id ? [f.id] : []))
+    );
+
+    const results: ReidentifiedRow[] = found.map(({ token, id }) => {
+      if (!id) return { pseudonym: token, beneficiary_id: null, error: 'Not a pseudonym of this export' };
+      if (!visible.has(id)) return { pseudonym: token, beneficiary_id: null, error: 'Beneficiary is outside your jurisdiction' };
+      return { pseudonym: token, beneficiary_id: id, error: null };
+    });
+
+    // Fails closed: no ID leaves without its access log entry
+    await recordDataAccess(request, scope.session, {
+      outcome: 'REIDENTIFIED',
+      scheme: mapping.scheme,
+      beneficiary_ids: results.flatMap((r) => (r.beneficiary_id ? [r.beneficiary_id] : [])),
+      reason: `Export ${exportId} (${tokens.length} tokens): ${reason}`,
+    }, true);
+
+    return ok<Reidentification>({
+      export_id: mapping.export_id,
+      exported_at: mapping.created_at,
+      exported_by: mapping.officer_id,
+      results,
+    }, started, { scheme: mapping.scheme });
+  } catch (error) {
+    return errorResponse(error, 'Re-identification Error');
+  }
+}
@@ -1,27 +1,46 @@
-import { getBigQueryClient } from '@/lib/bigquery';
+import { recordDataAccess } from '@/lib/access';
+import { getChainHead, type ChainHead } from '@/lib/audit';
+import type { AuditExport, ExportRow } from '@/lib/bigquery';
+import { getDataSource } from '@/lib/datasource';
+import { SUPPRESSED_DISTRICT, minPublishedCount, suppressGroup } from '@/lib/disclosure';
+import { flagColumns, readFlags, severityScore } from '@/lib/flags';
+import { getScope } from '@/lib/jurisdiction';
+import { pseudonymize } from '@/lib/pseudonyms';
+import { authorize } from '@/lib/rbac';
+import { errorResponse, fail, ok, schemeMeta } from '@/lib/responses';
+import { auditExportQuery } from '@/lib/schemas';
+import { resolveScheme } from '@/lib/schemes';
+import { parseQuery } from '@/lib/validation';
 import { NextRequest, NextResponse } from 'next/server';
 
-interface ExportRow {
-  beneficiary_id: string;
-  risk_level: string;
-  mean_squared_error: number;
-  flag_high_recent_activity: boolean;
-  flag_multiple_dealers: boolean;
-  flag_cross_district: boolean;
-  flag_high_lifetime_usage: boolean;
-  residence_district?: string;
-}
-
-// GET: Export audit report as CSV data
+/**
+ * GET: Export audit report as CSV data (the officer's districts only)
+ *
+ * Rows are identified by pseudonyms drawn for this export; supervisors can
+ * resolve specific ones with POST /api/audit/export/reidentify and the
+ * export_id. identifiers=beneficiary_id exports the real IDs (admins only).
+ *
+ * In pseudonymized exports, districts with fewer rows than the disclosure
+ * threshold (and their complements) are replaced by 'Suppressed', and a
+ * district-filtered export must match at least that many rows.
+ *
+ * Every export carries the audit chain head at export time (audit_chain_head
+ * in JSON, a leading comment line in CSV) and fails if it cannot be read.
+ */
 export async function GET(request: NextRequest) {
+  const started = Date.now();
   try {
-    const searchParams = request.nextUrl.searchParams;
-    const riskLevel = searchParams.get('risk_level');
-    const district = searchParams.get('district');
-    const format = searchParams.get('format') || 'json'; // json or csv
-    const limit = Math.min(Number(searchParams.get('limit')) || 500, 5000);
+    const input = parseQuery(request, auditExportQuery);
+    const { identifiers, format, limit } = input;
+    const riskLevel = input.risk_level ?? null;
+    const district = input.district ?? null;
+    const scheme = resolveScheme(input.scheme);
 
-    const bigquery = getBigQueryClient();
+    const scope = await getScope(request);
+    if (identifiers === 'beneficiary_id') {
+      await authorize(request, scope.session, 'audit:export_ids');
+    }
+    const dataSource = getDataSource();
 
     // Build dynamic query based on filters
     let query = `
@@ -29,22 +48,19 @@ export async function GET(request: NextRequest) {
         f.beneficiary_id,
         f.risk_level,
         f.mean_squared_error,
-        f.flag_high_recent_activity,
-        f.flag_multiple_dealers,
-        f.flag_cross_district,
-        f.flag_high_lifetime_usage,
+        ${flagColumns(scheme, 'f')},
         b.residence_district
-      FROM \`gfg-fot.lpg_fraud_detection.fraud_with_explanations\` f
-      LEFT JOIN \`gfg-fot.lpg_fraud_detection.Beneficiaries\` b
+      FROM ${scope.table('fraud_with_explanations', scheme.id)} f
+      LEFT JOIN ${scope.table('Beneficiaries', scheme.id)} b
       ON f.beneficiary_id = b.beneficiary_id
       WHERE 1=1
     `;
 
-    const params: Record<string, unknown> = { limit };
+    const params: Record<string, unknown> = { ...scope.params, limit };
 
-    if (riskLevel && ['HIGH', 'MEDIUM', 'LOW'].includes(riskLevel.toUpperCase())) {
+    if (riskLevel) {
       query += ` AND f.risk_level = @risk_level`;
-      params.risk_level = riskLevel.toUpperCase();
+      params.risk_level = riskLevel;
     }
 
     if (district) {
@@ -54,68 +70,119 @@ export async function GET(request: NextRequest) {
 
     query += ` ORDER BY f.mean_squared_error DESC LIMIT @limit`;
 
-    const [job] = await bigquery.createQueryJob({ query, params });
-    const [rows] = await job.getQueryResults();
+    const rows = await dataSource.query(query, params);
+
+    // Pseudonymized rows must not be singled out by their district
+    const k = minPublishedCount();
+    if (identifiers === 'pseudonym' && district && rows.length > 0 && rows.length < k) {
+      return fail('BAD_REQUEST', `Fewer than ${k} records match this district - widen the filters`);
+    }
+    const hiddenDistricts = new Set<string>();
+    if (identifiers === 'pseudonym') {
+      const districtCounts = new Map<string, number>();
+      for (const row of rows) {
+        const name: string = row.residence_district || 'Unknown';
+        districtCounts.set(name, (districtCounts.get(name) || 0) + 1);
+      }
+      const names = Array.from(districtCounts.keys());
+      const { cells } = suppressGroup(names.map((name) => districtCounts.get(name)!), k);
+      names.forEach((name, i) => {
+        if (cells[i] === null) hiddenDistricts.add(name);
+      });
+    }
+
+    // Audit chain head at export time - kept with the report to verify later that
+    // the trail was not rewritten (GET /api/audit/verify?head=...)
+    const chainHead: ChainHead | null = await getChainHead();
+
+    // The mapping is stored before any row goes out
+    const pseudonyms = identifiers === 'pseudonym'
+      ? await pseudonymize(scheme.id, scope.session.officer_id, rows.map((row) => row.beneficiary_id))
+      : null;
 
-    const results: ExportRow[] = rows.map((row) => ({
-      beneficiary_id: row.beneficiary_id,
-      risk_level: row.risk_level,
-      mean_squared_error: Number(row.mean_squared_error),
-      flag_high_recent_activity: Boolean(row.flag_high_recent_activity),
-      flag_multiple_dealers: Boolean(row.flag_multiple_dealers),
-      flag_cross_district: Boolean(row.flag_cross_district),
-      flag_high_lifetime_usage: Boolean(row.flag_high_lifetime_usage),
-      residence_district: row.residence_district || 'Unknown',
-    }));
+    const results: ExportRow[] = rows.map((row) => {
+      const flags = readFlags(scheme, row);
+      const residenceDistrict: string = row.residence_district || 'Unknown';
+      return {
+        ...(pseudonyms
+          ? { pseudonym: pseudonyms.tokens.get(row.beneficiary_id) }
+          : { beneficiary_id: row.beneficiary_id }),
+        risk_level: row.risk_level,
+        mean_squared_error: Number(row.mean_squared_error),
+        flags,
+        flag_severity: severityScore(scheme, flags),
+        residence_district: hiddenDistricts.has(residenceDistrict) ? SUPPRESSED_DISTRICT : residenceDistrict,
+      };
+    });
+
+    // Privacy log of every record that left the system
+    await recordDataAccess(request, scope.session, {
+      outcome: 'EXPORTED',
+      scheme: scheme.id,
+      beneficiary_ids: rows.map((row) => row.beneficiary_id),
+      reason: `Audit report export (${format}; risk_level=${riskLevel ?? 'any'}, district=${district ?? 'any'}; ` +
+        (pseudonyms ? `pseudonymized, export ${pseudonyms.export_id})` : 'beneficiary IDs)'),
+    });
 
     if (format === 'csv') {
       // Generate CSV
       const headers = [
-        'Beneficiary ID',
+        pseudonyms ? 'Pseudonym' : 'Beneficiary ID',
         'Risk Level',
         'Anomaly Score (MSE)',
-        'High Recent Activity',
-        'Multiple Dealers',
-        'Cross District',
-        'High Lifetime Usage',
+        ...scheme.flags.map((flag) => flag.label),
+        'Flag Severity',
         'Residence District',
       ];
 
       const csvRows = results.map((r) =>
         [
-          r.beneficiary_id,
+          r.pseudonym ?? r.beneficiary_id,
           r.risk_level,
           r.mean_squared_error.toFixed(6),
-          r.flag_high_recent_activity ? 'Yes' : 'No',
-          r.flag_multiple_dealers ? 'Yes' : 'No',
-          r.flag_cross_district ? 'Yes' : 'No',
-          r.flag_high_lifetime_usage ? 'Yes' : 'No',
+          ...scheme.flags.map((flag) => (r.flags[flag.id] ? 'Yes' : 'No')),
+          r.flag_severity,
           r.residence_district,
         ].join(',')
       );
 
-      const csv = [headers.join(','), ...csvRows].join('\n');
+      // The head goes in the file itself so it survives saving the download
+      const chainLine = chainHead
+        ? `# audit_chain_seq=${chainHead.chain_seq} audit_chain_head=${chainHead.entry_hash}`
+        : '# audit_chain_head=none';
+      const csv = [chainLine, headers.join(','), ...csvRows].join('\n');
+      // The file name carries the export_id needed to re-identify its rows
+      const filename = `audit_report_${scheme.id}_${new Date().toISOString().split('T')[0]}` +
+        (pseudonyms ? `_${pseudonyms.export_id}` : '');
 
       return new NextResponse(csv, {
         status: 200,
         headers: {
           'Content-Type': 'text/csv',
-          'Content-Disposition': `attachment; filename="audit_report_${new Date().toISOString().split('T')[0]}.csv"`,
+          'Content-Disposition': `attachment; filename="${filename}.csv"`,
+          ...(pseudonyms && { 'X-Export-Id': pseudonyms.export_id }),
+          ...(chainHead && {
+            'X-Audit-Chain-Head': chainHead.entry_hash,
+            'X-Audit-Chain-Seq': String(chainHead.chain_seq),
+          }),
         },
       });
     }
 
     // Return JSON with metadata
-    return NextResponse.json({
-      success: true,
-      exported_at: new Date().toISOString(),
+    const report: AuditExport = {
+      export_id: pseudonyms?.export_id ?? null,
+      identifiers,
       filters: { risk_level: riskLevel, district },
-      total_records: results.length,
-      data: results,
+      jurisdiction: scope.jurisdiction.statewide ? 'statewide' : scope.jurisdiction.districts,
+      audit_chain_head: chainHead,
+      records: results,
+    };
+    return ok(report, started, {
+      ...(await schemeMeta(scheme.id)),
+      pagination: { limit, total_count: results.length },
     });
   } catch (error) {
-    console.error('Export Error:', error);
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-    return NextResponse.json({ success: false, error: errorMessage }, { status: 500 });
+    return errorResponse(error, 'Export Error');
   }
 }
@@ -1,169 +1,106 @@
-import { getBigQueryClient } from '@/lib/bigquery';
-import { NextRequest, NextResponse } from 'next/server';
-import { v4 as uuidv4 } from 'uuid';
-
-// Audit trail types
-export interface AuditEntry {
-  audit_id: string;
-  beneficiary_id: string;
-  action: 'REVIEWED' | 'FLAGGED' | 'CLEARED' | 'NOTE_ADDED' | 'EXPORTED';
-  officer_id: string;
-  officer_name: string;
-  notes: string;
-  previous_status: string;
-  new_status: string;
-  created_at: string;
-}
-
-export interface AuditRequest {
-  beneficiary_id: string;
-  action: 'REVIEWED' | 'FLAGGED' | 'CLEARED' | 'NOTE_ADDED';
-  officer_id?: string;
-  officer_name?: string;
-  notes?: string;
-  new_status?: string;
-}
+import { LEGACY_SCHEME, toAuditEntry, type AuditEntry } from '@/lib/audit';
+import type { AuditRecordResult } from '@/lib/bigquery';
+import { transitionCase } from '@/lib/cases';
+import { getDataSource } from '@/lib/datasource';
+import { getScope } from '@/lib/jurisdiction';
+import { actionPermission, authorize } from '@/lib/rbac';
+import { errorResponse, ok } from '@/lib/responses';
+import { auditEntryBody, auditTrailQuery } from '@/lib/schemas';
+import { getEnabledSchemes, resolveScheme } from '@/lib/schemes';
+import { parseBody, parseQuery } from '@/lib/validation';
+import { NextRequest } from 'next/server';
 
 // GET: Fetch audit trail for a beneficiary or all recent audits
+// Optional ?scheme= narrows to one scheme; without it every scheme is listed
+// Only entries for beneficiaries in the officer's jurisdiction are returned
 export async function GET(request: NextRequest) {
+  const started = Date.now();
   try {
-    const searchParams = request.nextUrl.searchParams;
-    const beneficiaryId = searchParams.get('beneficiary_id');
-    const limit = Math.min(Number(searchParams.get('limit')) || 50, 200);
+    const input = parseQuery(request, auditTrailQuery);
+    const scope = await getScope(request);
 
-    const bigquery = getBigQueryClient();
+    const conditions: string[] = [];
+    const params: Record<string, unknown> = { ...scope.params, limit: input.limit, legacy_scheme: LEGACY_SCHEME };
 
-    // Check if audit_trail table exists, if not return empty
-    // In production, this table would be created via migration
-    let query: string;
-    const params: Record<string, unknown> = { limit };
+    if (input.beneficiary_id) {
+      conditions.push('beneficiary_id = @beneficiary_id');
+      params.beneficiary_id = input.beneficiary_id;
+    }
 
-    if (beneficiaryId) {
-      query = `
-        SELECT *
-        FROM \`gfg-fot.lpg_fraud_detection.audit_trail\`
-        WHERE beneficiary_id = @beneficiary_id
-        ORDER BY created_at DESC
-        LIMIT @limit
-      `;
-      params.beneficiary_id = beneficiaryId;
-    } else {
-      query = `
-        SELECT *
-        FROM \`gfg-fot.lpg_fraud_detection.audit_trail\`
-        ORDER BY created_at DESC
-        LIMIT @limit
-      `;
+    if (input.scheme) {
+      const schemeId = resolveScheme(input.scheme).id;
+      conditions.push('COALESCE(scheme, @legacy_scheme) = @scheme');
+      conditions.push(scope.beneficiaryFilter('beneficiary_id', schemeId));
+      params.scheme = schemeId;
+    } else if (!scope.jurisdiction.statewide) {
+      const schemes = getEnabledSchemes();
+      conditions.push(`(${schemes.map((s, i) =>
+        `(COALESCE(scheme, @legacy_scheme) = @scope_scheme${i} AND ${scope.beneficiaryFilter('beneficiary_id', s.id)})`
+      ).join(' OR ')})`);
+      schemes.forEach((s, i) => { params[`scope_scheme${i}`] = s.id; });
     }
 
-    try {
-      const [job] = await bigquery.createQueryJob({ query, params });
-      const [rows] = await job.getQueryResults();
+    const dataSource = getDataSource();
+    const query = `
+      SELECT *
+      FROM ${dataSource.table('audit_trail')}
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY created_at DESC
+      LIMIT @limit
+    `;
+
+    const rows = await dataSource.query(query, params);
 
-      const results: AuditEntry[] = rows.map((row) => ({
-        audit_id: row.audit_id,
-        beneficiary_id: row.beneficiary_id,
-        action: row.action,
-        officer_id: row.officer_id,
-        officer_name: row.officer_name,
-        notes: row.notes || '',
-        previous_status: row.previous_status,
-        new_status: row.new_status,
-        created_at: row.created_at?.value || row.created_at,
-      }));
+    const results: AuditEntry[] = rows.map(toAuditEntry);
 
-      return NextResponse.json({ success: true, audits: results });
-    } catch {
-      // Table doesn't exist yet - return empty array
-      // In a real system, you'd create the table via migration
-      return NextResponse.json({ success: true, audits: [], message: 'Audit trail not initialized' });
-    }
+    return ok(results, started, { pagination: { limit: input.limit } });
   } catch (error) {
-    console.error('Audit Trail GET Error:', error);
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-    return NextResponse.json({ success: false, error: errorMessage }, { status: 500 });
+    return errorResponse(error, 'Audit Trail GET Error');
   }
 }
 
 // POST: Add audit entry
+// Actions are case lifecycle transitions (see lib/cases.ts) and are rejected
+// with 409 when the case's current state does not allow them. The acting
+// officer is the signed-in officer - other fields in the body are ignored
 export async function POST(request: NextRequest) {
+  const started = Date.now();
   try {
-    const body: AuditRequest = await request.json();
-    const { beneficiary_id, action, officer_id, officer_name, notes, new_status } = body;
+    const scope = await getScope(request);
+    const { session } = scope;
+    const body = await parseBody(request, auditEntryBody);
+    const { beneficiary_id, action, notes } = body;
 
-    if (!beneficiary_id || !action) {
-      return NextResponse.json(
-        { success: false, error: 'beneficiary_id and action are required' },
-        { status: 400 }
-      );
-    }
-
-    const bigquery = getBigQueryClient();
-
-    // Get current status of beneficiary
-    const statusQuery = `
-      SELECT risk_level
-      FROM \`gfg-fot.lpg_fraud_detection.fraud_with_explanations\`
-      WHERE beneficiary_id = @beneficiary_id
-    `;
-    
-    const [statusJob] = await bigquery.createQueryJob({ 
-      query: statusQuery, 
-      params: { beneficiary_id } 
-    });
-    const [statusRows] = await statusJob.getQueryResults();
-    const previousStatus = statusRows[0]?.risk_level || 'UNKNOWN';
+    await authorize(request, session, actionPermission(action));
 
-    // Create audit entry
-    const auditEntry: AuditEntry = {
-      audit_id: uuidv4(),
+    const scheme = resolveScheme(body.scheme);
+    await scope.requireBeneficiary(scheme.id, beneficiary_id);
+    const result = await transitionCase(scheme, {
       beneficiary_id,
       action,
-      officer_id: officer_id || 'SYSTEM',
-      officer_name: officer_name || 'System User',
-      notes: notes || '',
-      previous_status: previousStatus,
-      new_status: new_status || previousStatus,
-      created_at: new Date().toISOString(),
-    };
-
-    // Try to insert into audit_trail table
-    // If table doesn't exist, we'll create it or return success with local data
-    try {
-      const insertQuery = `
-        INSERT INTO \`gfg-fot.lpg_fraud_detection.audit_trail\`
-        (audit_id, beneficiary_id, action, officer_id, officer_name, notes, previous_status, new_status, created_at)
-        VALUES
-        (@audit_id, @beneficiary_id, @action, @officer_id, @officer_name, @notes, @previous_status, @new_status, @created_at)
-      `;
+      officer_id: session.officer_id,
+      officer_name: session.officer_name,
+      notes,
+    });
 
-      await bigquery.createQueryJob({
-        query: insertQuery,
-        params: {
-          audit_id: auditEntry.audit_id,
-          beneficiary_id: auditEntry.beneficiary_id,
-          action: auditEntry.action,
-          officer_id: auditEntry.officer_id,
-          officer_name: auditEntry.officer_name,
-          notes: auditEntry.notes,
-          previous_status: auditEntry.previous_status,
-          new_status: auditEntry.new_status,
-          created_at: auditEntry.created_at,
-        },
-      });
-    } catch {
-      // Table might not exist - log locally for demo
-      console.log('📝 AUDIT ENTRY (Table not created):', auditEntry);
+    // A failed warehouse write is queued in the durable outbox and replayed later,
+    // so the officer's action is never dropped
+    if (result.persisted === 'outbox') {
+      return ok<AuditRecordResult>({
+        persisted: result.persisted,
+        message: `Action '${action}' queued for beneficiary ${beneficiary_id} - it will be written to the audit trail once the warehouse is reachable`,
+        audit: result.audit,
+        case: result.case,
+      }, started, { scheme: scheme.id }, { status: 202 });
     }
 
-    return NextResponse.json({
-      success: true,
+    return ok<AuditRecordResult>({
+      persisted: result.persisted,
       message: `Action '${action}' recorded for beneficiary ${beneficiary_id}`,
-      audit: auditEntry,
-    });
+      audit: result.audit,
+      case: result.case,
+    }, started, { scheme: scheme.id });
   } catch (error) {
-    console.error('Audit Trail POST Error:', error);
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-    return NextResponse.json({ success: false, error: errorMessage }, { status: 500 });
+    return errorResponse(error, 'Audit Trail POST Error');
   }
 }
@@ -0,0 +1,24 @@
+import { verifyAuditChain } from '@/lib/audit';
+import type { AuditVerification } from '@/lib/bigquery';
+import { errorResponse, ok } from '@/lib/responses';
+import { auditVerifyQuery } from '@/lib/schemas';
+import { parseQuery } from '@/lib/validation';
+import { NextRequest } from 'next/server';
+
+/**
+ * GET: Walk the audit hash chain and report every break
+ *
+ * head - entry_hash of a previously exported chain head; reported missing
+ *        if the chain was truncated or rewritten since the export
+ */
+export async function GET(request: NextRequest) {
+  const started = Date.now();
+  try {
+    const { head } = parseQuery(request, auditVerifyQuery);
+
+    const verification = await verifyAuditChain(head);
+    return ok<AuditVerification>({ verified_at: new Date().toISOString(), ...verification }, started);
+  } catch (error) {
+    return errorResponse(error, 'Audit Verify Error');
+  }
+}
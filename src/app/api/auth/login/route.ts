@@ -0,0 +1,39 @@
+import { createSession, setSessionCookie, toSessionInfo, verifyPassword } from '@/lib/auth';
+import { getConfig } from '@/lib/config';
+import { getOfficerCredentials } from '@/lib/officers';
+import { errorResponse, fail, ok } from '@/lib/responses';
+import { MIN_PASSWORD_LENGTH, loginBody } from '@/lib/schemas';
+import { parseBody } from '@/lib/validation';
+import { NextRequest } from 'next/server';
+
+// Same answer for unknown officer, inactive officer and wrong password
+const INVALID_CREDENTIALS = 'Invalid officer ID or password';
+
+// POST: Sign in with officer ID and password (sets the session cookie)
+export async function POST(request: NextRequest) {
+  const started = Date.now();
+  try {
+    if (!getConfig().auth.localEnabled) {
+      return fail('BAD_REQUEST', 'Password sign-in is disabled');
+    }
+
+    const body = await parseBody(request, loginBody);
+    const officerId = body.officer_id;
+
+    // scrypt runs whether or not the officer exists (see verifyPassword)
+    const credentials = await getOfficerCredentials(officerId);
+    const valid = verifyPassword(body.password, credentials?.password_hash ?? null)
+      && body.password.length >= MIN_PASSWORD_LENGTH;
+    if (!credentials || !credentials.officer.active || !valid) {
+      console.warn(`Failed sign-in for officer ${officerId}`);
+      return fail('UNAUTHENTICATED', INVALID_CREDENTIALS);
+    }
+
+    const session = createSession(credentials.officer, 'local');
+    const response = ok({ session: toSessionInfo(session) }, started);
+    setSessionCookie(response, session);
+    return response;
+  } catch (error) {
+    return errorResponse(error, 'Sign-in Error');
+  }
+}
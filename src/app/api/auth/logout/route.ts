@@ -0,0 +1,9 @@
+import { clearSessionCookie } from '@/lib/auth';
+import { ok } from '@/lib/responses';
+
+// POST: Sign out (clears the session cookie)
+export async function POST() {
+  const response = ok(null);
+  clearSessionCookie(response);
+  return response;
+}
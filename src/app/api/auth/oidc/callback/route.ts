@@ -0,0 +1,26 @@
+import { AuthError, setSessionCookie } from '@/lib/auth';
+import { OIDC_STATE_COOKIE, completeOidcLogin } from '@/lib/oidc';
+import { NextRequest, NextResponse } from 'next/server';
+
+// GET: Return from the identity provider - sign in and go back to the app
+// Failures go back to the login page with the reason
+export async function GET(request: NextRequest) {
+  const origin = request.nextUrl.origin;
+  let response: NextResponse;
+  try {
+    const { session, next } = await completeOidcLogin(
+      request.nextUrl.searchParams,
+      request.cookies.get(OIDC_STATE_COOKIE)?.value
+    );
+    response = NextResponse.redirect(new URL(next, origin));
+    setSessionCookie(response, session);
+  } catch (error) {
+    if (!(error instanceof AuthError)) console.error('OIDC Callback Error:', error);
+    else console.warn(`Failed OIDC sign-in: ${error.message}`);
+    const loginUrl = new URL('/login', origin);
+    loginUrl.searchParams.set('error', error instanceof Error ? error.message : 'Sign-in failed');
+    response = NextResponse.redirect(loginUrl);
+  }
+  response.cookies.set(OIDC_STATE_COOKIE, '', { path: '/api/auth/oidc', maxAge: 0 });
+  return response;
+}
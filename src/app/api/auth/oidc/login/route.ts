@@ -0,0 +1,27 @@
+import { safeNextPath } from '@/lib/auth';
+import { getConfig } from '@/lib/config';
+import { OIDC_STATE_COOKIE, OIDC_STATE_TTL_MS, beginOidcLogin } from '@/lib/oidc';
+import { NextRequest, NextResponse } from 'next/server';
+
+// GET: Redirect to the identity provider (?next= is the page to return to)
+export async function GET(request: NextRequest) {
+  const next = safeNextPath(request.nextUrl.searchParams.get('next'));
+  try {
+    const { url, stateCookie } = await beginOidcLogin(request.nextUrl.origin, next);
+    const response = NextResponse.redirect(url);
+    response.cookies.set(OIDC_STATE_COOKIE, stateCookie, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: getConfig().auth.cookieSecure,
+      path: '/api/auth/oidc',
+      maxAge: OIDC_STATE_TTL_MS / 1000,
+    });
+    return response;
+  } catch (error) {
+    console.error('OIDC Sign-in Error:', error);
+    const message = error instanceof Error ? error.message : 'Single sign-on is unavailable';
+    const loginUrl = new URL('/login', request.nextUrl.origin);
+    loginUrl.search = new URLSearchParams({ next, error: message }).toString();
+    return NextResponse.redirect(loginUrl);
+  }
+}
@@ -0,0 +1,12 @@
+import type { AuthProviders } from '@/lib/bigquery';
+import { getConfig } from '@/lib/config';
+import { ok } from '@/lib/responses';
+
+// GET: Sign-in methods offered on the login page
+export async function GET() {
+  const { localEnabled, oidc } = getConfig().auth;
+  return ok<AuthProviders>({
+    local: localEnabled,
+    oidc: oidc ? { name: oidc.displayName } : null,
+  });
+}
@@ -0,0 +1,22 @@
+import { getSession, toSessionInfo } from '@/lib/auth';
+import type { SessionState } from '@/lib/bigquery';
+import { getJurisdiction, type Jurisdiction } from '@/lib/jurisdiction';
+import { fail, ok } from '@/lib/responses';
+import { NextRequest } from 'next/server';
+
+// GET: The signed-in officer and their jurisdiction (401 if not signed in)
+export async function GET(request: NextRequest) {
+  const session = getSession(request);
+  if (!session) {
+    return fail('UNAUTHENTICATED', 'Not signed in');
+  }
+
+  // Display only - every data route looks the jurisdiction up itself
+  let jurisdiction: Jurisdiction | null = null;
+  try {
+    jurisdiction = await getJurisdiction(session);
+  } catch (error) {
+    console.error('Jurisdiction lookup failed:', error instanceof Error ? error.message : error);
+  }
+  return ok<SessionState>({ session: toSessionInfo(session), jurisdiction });
+}
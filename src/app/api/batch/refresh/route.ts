@@ -1,25 +1,61 @@
-import { getBigQueryClient } from '@/lib/bigquery';
-import { NextRequest, NextResponse } from 'next/server';
-
-interface BatchJobStatus {
-  job_id: string;
-  status: 'QUEUED' | 'RUNNING' | 'COMPLETED' | 'FAILED';
-  started_at: string;
-  completed_at?: string;
-  records_processed?: number;
-  error_message?: string;
+import type { BatchJobStatus, BatchRefreshResult } from '@/lib/bigquery';
+import { minPublishedCount, suppressGroup } from '@/lib/disclosure';
+import { getDataSource, type DataRow, type DataSource } from '@/lib/datasource';
+import { errorResponse, fail, noteRefresh, ok, schemeMeta } from '@/lib/responses';
+import { evaluateRules } from '@/lib/rules';
+import { batchJobQuery, batchRefreshBody } from '@/lib/schemas';
+import { resolveScheme } from '@/lib/schemes';
+import { parseBody, parseQuery } from '@/lib/validation';
+import { NextRequest, after } from 'next/server';
+
+// Jobs listed by GET without a job_id
+const RECENT_JOBS = 10;
+
+function toJobStatus(row: DataRow): BatchJobStatus {
+  return {
+    job_id: row.job_id,
+    scheme: row.scheme,
+    job_type: row.job_type,
+    status: row.status,
+    started_at: row.started_at?.value || row.started_at,
+    completed_at: row.completed_at?.value || row.completed_at || undefined,
+    records_processed: row.records_processed === null ? undefined : Number(row.records_processed),
+    error_message: row.error_message || undefined,
+  };
 }
 
-// Simulated batch job status storage (in production, use Redis or DB)
-const batchJobs = new Map<string, BatchJobStatus>();
+// Record the outcome of a job started by POST
+async function finishJob(dataSource: DataSource, job: BatchJobStatus): Promise<void> {
+  const params: Record<string, unknown> = {
+    job_id: job.job_id,
+    status: job.status,
+    completed_at: job.completed_at,
+  };
+  const assignments = ['status = @status', 'completed_at = @completed_at'];
+  if (job.records_processed !== undefined) {
+    assignments.push('records_processed = @records_processed');
+    params.records_processed = job.records_processed;
+  }
+  if (job.error_message !== undefined) {
+    assignments.push('error_message = @error_message');
+    params.error_message = job.error_message;
+  }
+
+  await dataSource.execute(`
+    UPDATE ${dataSource.table('batch_jobs')}
+    SET ${assignments.join(', ')}
+    WHERE job_id = @job_id
+  `, params);
+}
 
-// POST: Trigger a batch refresh job
+// POST: Trigger a batch refresh job, then evaluate the scheme's alert rules
 export async function POST(request: NextRequest) {
+  const started = Date.now();
   try {
-    const body = await request.json().catch(() => ({}));
-    const { job_type = 'FULL_REFRESH' } = body;
+    const body = await parseBody(request, batchRefreshBody);
+    const scheme = resolveScheme(body.scheme);
 
-    const bigquery = getBigQueryClient();
+    const dataSource = getDataSource();
 
     // Generate job ID
     const jobId = `batch_${Date.now()}_${Math.random().toString(36).substring(7)}`;
@@ -27,11 +63,17 @@ export async function POST(request: NextRequest) {
     // Create job status
     const jobStatus: BatchJobStatus = {
       job_id: jobId,
+      scheme: scheme.id,
+      job_type: body.job_type,
       status: 'RUNNING',
       started_at: new Date().toISOString(),
     };
 
-    batchJobs.set(jobId, jobStatus);
+    await dataSource.execute(`
+      INSERT INTO ${dataSource.table('batch_jobs')}
+      (job_id, scheme, job_type, status, started_at)
+      VALUES (@job_id, @scheme, @job_type, @status, @started_at)
+    `, { ...jobStatus });
 
     // In a real system, this would trigger:
     // 1. Dataflow pipeline to process new transactions
@@ -46,80 +88,94 @@ export async function POST(request: NextRequest) {
         COUNT(*) AS total_processed,
         COUNTIF(risk_level = 'HIGH') AS high_risk,
         COUNTIF(risk_level = 'MEDIUM') AS medium_risk,
-        COUNTIF(risk_level = 'LOW') AS low_risk,
-        CURRENT_TIMESTAMP() AS last_updated
-      FROM \`gfg-fot.lpg_fraud_detection.fraud_with_explanations\`
+        COUNTIF(risk_level = 'LOW') AS low_risk
+      FROM ${dataSource.table('fraud_with_explanations', scheme.id)}
     `;
 
     try {
-      const [job] = await bigquery.createQueryJob({ query: simulationQuery });
-      const [rows] = await job.getQueryResults();
+      const rows = await dataSource.query(simulationQuery);
 
       // Update job status
       jobStatus.status = 'COMPLETED';
       jobStatus.completed_at = new Date().toISOString();
       jobStatus.records_processed = Number(rows[0]?.total_processed) || 0;
 
-      batchJobs.set(jobId, jobStatus);
+      await finishJob(dataSource, jobStatus);
+      noteRefresh(scheme.id, jobStatus.completed_at);
 
-      return NextResponse.json({
-        success: true,
+      // Alert rules run on the refreshed data once the response is sent
+      // (results: GET /api/admin/rules)
+      after(() => evaluateRules(scheme.id, `batch ${jobId}`).catch((error) => {
+        console.error('Alert rule evaluation failed:', error);
+      }));
+
+      const k = minPublishedCount();
+      const levels = suppressGroup([
+        Number(rows[0]?.high_risk) || 0,
+        Number(rows[0]?.medium_risk) || 0,
+        Number(rows[0]?.low_risk) || 0,
+      ], k);
+
+      return ok<BatchRefreshResult>({
         message: 'Batch refresh completed',
         job: jobStatus,
         summary: {
-          total_processed: rows[0]?.total_processed,
-          high_risk: rows[0]?.high_risk,
-          medium_risk: rows[0]?.medium_risk,
-          low_risk: rows[0]?.low_risk,
-          last_updated: rows[0]?.last_updated?.value || new Date().toISOString(),
+          total_processed: levels.total,
+          high_risk: levels.cells[0],
+          medium_risk: levels.cells[1],
+          low_risk: levels.cells[2],
+          min_count: k,
+          last_updated: jobStatus.completed_at,
         },
         note: 'In production, this triggers Vertex AI batch prediction pipeline',
-      });
+      }, started, await schemeMeta(scheme.id));
     } catch (queryError) {
       jobStatus.status = 'FAILED';
+      jobStatus.completed_at = new Date().toISOString();
       jobStatus.error_message = queryError instanceof Error ? queryError.message : 'Query failed';
-      batchJobs.set(jobId, jobStatus);
+      await finishJob(dataSource, jobStatus);
 
-      return NextResponse.json({
-        success: false,
-        job: jobStatus,
-        error: jobStatus.error_message,
-      }, { status: 500 });
+      return fail('INTERNAL_ERROR', `Batch job ${jobStatus.job_id} failed: ${jobStatus.error_message}`);
     }
   } catch (error) {
-    console.error('Batch Refresh Error:', error);
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-    return NextResponse.json({ success: false, error: errorMessage }, { status: 500 });
+    return errorResponse(error, 'Batch Refresh Error');
   }
 }
 
 // GET: Check batch job status
 export async function GET(request: NextRequest) {
+  const started = Date.now();
   try {
-    const searchParams = request.nextUrl.searchParams;
-    const jobId = searchParams.get('job_id');
+    const jobId = parseQuery(request, batchJobQuery).job_id;
+    const dataSource = getDataSource();
 
     if (jobId) {
-      const job = batchJobs.get(jobId);
-      if (!job) {
-        return NextResponse.json({ success: false, error: 'Job not found' }, { status: 404 });
+      const rows = await dataSource.query(`
+        SELECT *
+        FROM ${dataSource.table('batch_jobs')}
+        WHERE job_id = @job_id
+      `, { job_id: jobId });
+      if (rows.length === 0) {
+        return fail('NOT_FOUND', 'Job not found');
       }
-      return NextResponse.json({ success: true, job });
+      return ok(toJobStatus(rows[0]), started);
     }
 
     // Return recent jobs
-    const recentJobs = Array.from(batchJobs.values())
-      .sort((a, b) => new Date(b.started_at).getTime() - new Date(a.started_at).getTime())
-      .slice(0, 10);
-
-    return NextResponse.json({
-      success: true,
-      jobs: recentJobs,
-      total: batchJobs.size,
+    const [rows, countRows] = await Promise.all([
+      dataSource.query(`
+        SELECT *
+        FROM ${dataSource.table('batch_jobs')}
+        ORDER BY started_at DESC
+        LIMIT @limit
+      `, { limit: RECENT_JOBS }),
+      dataSource.query(`SELECT COUNT(*) AS total FROM ${dataSource.table('batch_jobs')}`),
+    ]);
+
+    return ok(rows.map(toJobStatus), started, {
+      pagination: { limit: RECENT_JOBS, total_count: Number(countRows[0]?.total) || 0 },
     });
   } catch (error) {
-    console.error('Batch Status Error:', error);
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-    return NextResponse.json({ success: false, error: errorMessage }, { status: 500 });
+    return errorResponse(error, 'Batch Status Error');
   }
 }
@@ -1,34 +1,35 @@
-import { getBigQueryClient, BeneficiaryDetail, generateReasonsFromFlags } from '@/lib/bigquery';
-import { generateGeminiExplanation, flagsToReasonCodes, getStaticExplanations, DEFAULT_LANGUAGE, type SupportedLanguage } from '@/lib/gemini';
-import { NextRequest, NextResponse } from 'next/server';
-
-// Allowlist for valid language codes
-const ALLOWED_LANGUAGES: readonly SupportedLanguage[] = ['en', 'hi', 'hinglish'] as const;
-
-function validateLanguage(lang: string | null): SupportedLanguage {
-  if (lang && ALLOWED_LANGUAGES.includes(lang as SupportedLanguage)) {
-    return lang as SupportedLanguage;
-  }
-  return DEFAULT_LANGUAGE;
-}
+import { recordDataAccess } from '@/lib/access';
+import { getDataSource } from '@/lib/datasource';
+import { BeneficiaryDetail, generateReasonsFromFlags } from '@/lib/bigquery';
+import { generateGeminiExplanation, flagsToReasonCodes, getStaticExplanations } from '@/lib/gemini';
+import { flagColumns, readFlags, severityScore } from '@/lib/flags';
+import { getScope } from '@/lib/jurisdiction';
+import { errorResponse, fail, ok, schemeMeta } from '@/lib/responses';
+import { beneficiaryDetailQuery } from '@/lib/schemas';
+import { resolveScheme } from '@/lib/schemes';
+import { parseQuery } from '@/lib/validation';
+import { NextRequest } from 'next/server';
 
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ beneficiary_id: string }> }
 ) {
+  const started = Date.now();
   try {
     const { beneficiary_id } = await params;
-    const searchParams = request.nextUrl.searchParams;
-    const language = validateLanguage(searchParams.get('lang'));
+    const input = parseQuery(request, beneficiaryDetailQuery);
+    const language = input.lang;
+    const scheme = resolveScheme(input.scheme);
 
     if (!beneficiary_id) {
-      return NextResponse.json(
-        { success: false, error: 'beneficiary_id is required' },
-        { status: 400 }
-      );
+      return fail('BAD_REQUEST', 'beneficiary_id is required');
     }
 
-    const bigquery = getBigQueryClient();
+    // 403 outside the officer's districts
+    const scope = await getScope(request);
+    await scope.requireBeneficiary(scheme.id, beneficiary_id);
+
+    const dataSource = getDataSource();
 
     // Get all data from fraud_with_explanations (single source of truth)
     const query = `
@@ -36,47 +37,27 @@ export async function GET(
         beneficiary_id,
         risk_level,
         mean_squared_error,
-        flag_high_recent_activity,
-        flag_multiple_dealers,
-        flag_cross_district,
-        flag_high_lifetime_usage
-      FROM \`gfg-fot.lpg_fraud_detection.fraud_with_explanations\`
+        ${flagColumns(scheme)}
+      FROM ${dataSource.table('fraud_with_explanations', scheme.id)}
       WHERE beneficiary_id = @beneficiary_id
     `;
 
-    const [job] = await bigquery.createQueryJob({ 
-      query, 
-      params: { beneficiary_id } 
-    });
-    const [rows] = await job.getQueryResults();
+    const rows = await dataSource.query(query, { beneficiary_id });
 
     if (rows.length === 0) {
-      return NextResponse.json(
-        { success: false, error: 'Beneficiary not found' },
-        { status: 404 }
-      );
+      return fail('NOT_FOUND', 'Beneficiary not found');
     }
 
     const row = rows[0];
     
     // Extract flags (deterministic - from BigQuery)
-    const flags = {
-      high_recent_activity: Boolean(row.flag_high_recent_activity),
-      multiple_dealers: Boolean(row.flag_multiple_dealers),
-      cross_district: Boolean(row.flag_cross_district),
-      high_lifetime_usage: Boolean(row.flag_high_lifetime_usage),
-    };
+    const flags = readFlags(scheme, row);
 
     // Generate deterministic reasons from flags
-    const reasons = generateReasonsFromFlags(flags);
+    const reasons = generateReasonsFromFlags(flags, scheme);
 
     // Generate AI-polished explanation via Gemini (optional, with fallback)
-    const reasonCodes = flagsToReasonCodes({
-      flag_high_recent_activity: flags.high_recent_activity,
-      flag_multiple_dealers: flags.multiple_dealers,
-      flag_cross_district: flags.cross_district,
-      flag_high_lifetime_usage: flags.high_lifetime_usage,
-    });
+    const reasonCodes = flagsToReasonCodes(flags, scheme);
     
     // Wrap Gemini call in try-catch to handle failures/timeouts gracefully
     let geminiExplanation: string;
@@ -84,28 +65,37 @@ export async function GET(
       geminiExplanation = await generateGeminiExplanation(
         row.risk_level,
         reasonCodes,
+        scheme,
         language
       );
     } catch (geminiError) {
       // Log error but don't crash the request - use deterministic fallback
       console.error('Gemini explanation failed:', geminiError instanceof Error ? geminiError.message : 'Unknown error');
       // Fallback: use static explanations derived from reasonCodes
-      geminiExplanation = getStaticExplanations(reasonCodes, language).join(' ');
+      geminiExplanation = getStaticExplanations(reasonCodes, scheme, language).join(' ');
     }
 
     const result: BeneficiaryDetail = {
       beneficiary_id: row.beneficiary_id,
+      scheme: scheme.id,
       risk_level: row.risk_level || 'UNKNOWN',
       mean_squared_error: Number(row.mean_squared_error) || 0,
       flags,
+      flag_severity: severityScore(scheme, flags),
       reasons,
       gemini_explanation: geminiExplanation,
     };
 
-    return NextResponse.json(result);
+    // Every opened risk profile is logged (and counted towards view-volume alerts)
+    await recordDataAccess(request, scope.session, {
+      outcome: 'VIEWED',
+      scheme: scheme.id,
+      beneficiary_ids: [beneficiary_id],
+      reason: 'Beneficiary risk profile',
+    });
+
+    return ok(result, started, await schemeMeta(scheme.id));
   } catch (error) {
-    console.error('Beneficiary Detail Error:', error);
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-    return NextResponse.json({ success: false, error: errorMessage }, { status: 500 });
+    return errorResponse(error, 'Beneficiary Detail Error');
   }
 }
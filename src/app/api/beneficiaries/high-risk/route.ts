@@ -1,58 +1,154 @@
-import { getBigQueryClient, HighRiskBeneficiary } from '@/lib/bigquery';
-import { NextRequest, NextResponse } from 'next/server';
+import { getDataSource } from '@/lib/datasource';
+import type { HighRiskBeneficiary } from '@/lib/bigquery';
+import { flagColumns, flagCondition, readFlags, severityExpression } from '@/lib/flags';
+import { getScope } from '@/lib/jurisdiction';
+import { errorResponse, ok, schemeMeta } from '@/lib/responses';
+import { booleanParam, highRiskQuery } from '@/lib/schemas';
+import { resolveScheme, type SchemeDefinition } from '@/lib/schemes';
+import {
+  decodeCursor,
+  encodeCursor,
+  formatSort,
+  keysetCondition,
+  orderByClause,
+  parseSort,
+  type SortColumn,
+} from '@/lib/pagination';
+import { parseField, parseQuery } from '@/lib/validation';
+import { NextRequest } from 'next/server';
+
+// Sortable fields -> SQL expressions (allowlist)
+// risk_level sorts by severity rank rather than alphabetically;
+// flag_severity is the weighted sum of the scheme's raised flags
+function sortColumns(scheme: SchemeDefinition): Record<string, SortColumn> {
+  return {
+    mean_squared_error: { expression: 'f.mean_squared_error', alias: 'mean_squared_error' },
+    beneficiary_id: { expression: 'f.beneficiary_id', alias: 'beneficiary_id' },
+    risk_level: {
+      expression: `CASE f.risk_level WHEN 'HIGH' THEN 3 WHEN 'MEDIUM' THEN 2 WHEN 'LOW' THEN 1 ELSE 0 END`,
+      alias: 'risk_rank',
+    },
+    flag_severity: { expression: severityExpression(scheme, 'f'), alias: 'flag_severity' },
+    residence_district: {
+      expression: `COALESCE(b.residence_district, 'Unknown')`,
+      alias: 'residence_district',
+    },
+  };
+}
+
+const DEFAULT_SORT = '-mean_squared_error';
 
 export async function GET(request: NextRequest) {
+  const started = Date.now();
   try {
-    const searchParams = request.nextUrl.searchParams;
-    const limit = Math.min(Number(searchParams.get('limit')) || 50, 100);
-    const riskLevel = searchParams.get('risk_level'); // Optional filter
+    const input = parseQuery(request, highRiskQuery);
+    const limit = input.limit;
+    const scheme = resolveScheme(input.scheme);
+    const scope = await getScope(request);
+
+    // --- Filters ---
+    const conditions: string[] = [];
+    const params: Record<string, unknown> = { ...scope.params };
+
+    // risk_level=HIGH or risk_level=HIGH,MEDIUM (for drill-down)
+    const levels = input.risk_level;
+    if (levels) {
+      conditions.push(`f.risk_level IN (${levels.map((_, i) => `@risk_level${i}`).join(', ')})`);
+      levels.forEach((level, i) => { params[`risk_level${i}`] = level; });
+    }
 
-    const bigquery = getBigQueryClient();
+    const district = input.district;
+    if (district) {
+      conditions.push('b.residence_district = @district');
+      params.district = district;
+    }
+
+    // flag_<id>=true|false - any combination of the scheme's rule flags
+    for (const flag of scheme.flags) {
+      const value = parseField(`flag_${flag.id}`, input[`flag_${flag.id}`], booleanParam.optional());
+      if (value === undefined) continue;
+      conditions.push(flagCondition(flag, value, 'f'));
+    }
+
+    for (const [param, op] of [['min_score', '>='], ['max_score', '<=']] as const) {
+      const value = input[param];
+      if (value === undefined) continue;
+      conditions.push(`f.mean_squared_error ${op} @${param}`);
+      params[param] = value;
+    }
+
+    // --- Sorting & cursor ---
+    const columns = sortColumns(scheme);
+    const sortKeys = parseSort(input.sort ?? null, columns, DEFAULT_SORT, 'beneficiary_id');
+    const cursor = input.cursor;
+    const pageConditions = [...conditions];
+    const pageParams = { ...params };
+    if (cursor) {
+      const keyset = keysetCondition(sortKeys, decodeCursor(cursor, sortKeys));
+      pageConditions.push(keyset.sql);
+      Object.assign(pageParams, keyset.params);
+    }
+
+    const dataSource = getDataSource();
+    const from = `
+      FROM ${scope.table('fraud_with_explanations', scheme.id)} f
+      LEFT JOIN ${scope.table('Beneficiaries', scheme.id)} b
+      ON f.beneficiary_id = b.beneficiary_id
+    `;
+    const where = (c: string[]) => (c.length > 0 ? `WHERE ${c.join(' AND ')}` : '');
 
     // Main Table with flag columns for explainability
     // SOURCE: fraud_with_explanations
-    let query = `
+    // Fetch one extra row to know whether another page exists
+    const query = `
       SELECT
-        beneficiary_id,
-        risk_level,
-        mean_squared_error,
-        flag_high_recent_activity,
-        flag_multiple_dealers,
-        flag_cross_district,
-        flag_high_lifetime_usage
-      FROM \`gfg-fot.lpg_fraud_detection.fraud_with_explanations\`
+        f.beneficiary_id,
+        f.risk_level,
+        f.mean_squared_error,
+        ${flagColumns(scheme, 'f')},
+        COALESCE(b.residence_district, 'Unknown') AS residence_district,
+        ${columns.risk_level.expression} AS risk_rank,
+        ${columns.flag_severity.expression} AS flag_severity
+      ${from}
+      ${where(pageConditions)}
+      ${orderByClause(sortKeys)}
+      LIMIT @limit
     `;
-    
-    // Add filter if risk_level specified (for drill-down)
-    if (riskLevel && ['HIGH', 'MEDIUM', 'LOW'].includes(riskLevel.toUpperCase())) {
-      query += `WHERE risk_level = @riskLevel\n`;
-    }
-    
-    query += `ORDER BY mean_squared_error DESC
-      LIMIT @limit`;
 
-    const params: Record<string, unknown> = { limit };
-    if (riskLevel) {
-      params.riskLevel = riskLevel.toUpperCase();
-    }
+    const countQuery = `
+      SELECT COUNT(*) AS total_count
+      ${from}
+      ${where(conditions)}
+    `;
+
+    const [rows, countRows] = await Promise.all([
+      dataSource.query(query, { ...pageParams, limit: limit + 1 }),
+      dataSource.query(countQuery, params),
+    ]);
 
-    const [job] = await bigquery.createQueryJob({ query, params });
-    const [rows] = await job.getQueryResults();
+    const hasMore = rows.length > limit;
+    const pageRows = rows.slice(0, limit);
 
-    const results: HighRiskBeneficiary[] = rows.map((row) => ({
+    const results: HighRiskBeneficiary[] = pageRows.map((row) => ({
       beneficiary_id: row.beneficiary_id,
       risk_level: row.risk_level || 'UNKNOWN',
       mean_squared_error: Number(row.mean_squared_error) || 0,
-      flag_high_recent_activity: Boolean(row.flag_high_recent_activity),
-      flag_multiple_dealers: Boolean(row.flag_multiple_dealers),
-      flag_cross_district: Boolean(row.flag_cross_district),
-      flag_high_lifetime_usage: Boolean(row.flag_high_lifetime_usage),
+      flags: readFlags(scheme, row),
+      flag_severity: Number(row.flag_severity) || 0,
+      residence_district: row.residence_district,
     }));
 
-    return NextResponse.json(results);
+    return ok(results, started, {
+      ...(await schemeMeta(scheme.id)),
+      pagination: {
+        limit,
+        sort: formatSort(sortKeys),
+        next_cursor: hasMore ? encodeCursor(sortKeys, pageRows[pageRows.length - 1]) : null,
+        has_more: hasMore,
+        total_count: Number(countRows[0]?.total_count) || 0,
+      },
+    });
   } catch (error) {
-    console.error('High-Risk Beneficiaries Error:', error);
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-    return NextResponse.json({ success: false, error: errorMessage }, { status: 500 });
+    return errorResponse(error, 'High-Risk Beneficiaries Error');
   }
 }
@@ -0,0 +1,99 @@
+import { recordDataAccess } from '@/lib/access';
+import { getDataSource } from '@/lib/datasource';
+import type { BeneficiarySearchResult } from '@/lib/bigquery';
+import { flagCondition } from '@/lib/flags';
+import { getScope } from '@/lib/jurisdiction';
+import { errorResponse, ok, schemeMeta } from '@/lib/responses';
+import { booleanParam, searchQuery } from '@/lib/schemas';
+import { resolveScheme } from '@/lib/schemes';
+import { invalidField, parseField, parseQuery } from '@/lib/validation';
+import { NextRequest } from 'next/server';
+
+/**
+ * Look up beneficiaries by ID for auditors working from phone calls / field reports
+ *
+ * q      - beneficiary ID (case-insensitive); exact or prefix match
+ * match  - 'prefix' (default, exact hit ranked first) or 'exact'
+ * district, flag_<id>=true|false - narrow the results
+ *
+ * Searches the Beneficiaries table, so IDs without a risk score are found too.
+ * Only beneficiaries in the officer's jurisdiction are searched. The IDs
+ * returned are written to the access log.
+ */
+export async function GET(request: NextRequest) {
+  const started = Date.now();
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const input = parseQuery(request, searchQuery);
+    const { limit, match } = input;
+    const scheme = resolveScheme(input.scheme);
+    const q = input.q ?? '';
+
+    const conditions: string[] = [];
+    const params: Record<string, unknown> = { q };
+
+    if (q) {
+      // SUBSTR comparison instead of LIKE so IDs containing % or _ need no escaping
+      conditions.push(match === 'exact'
+        ? 'UPPER(b.beneficiary_id) = @q'
+        : 'SUBSTR(UPPER(b.beneficiary_id), 1, @q_length) = @q');
+      params.q_length = q.length;
+    }
+
+    const district = input.district;
+    if (district) {
+      conditions.push('b.residence_district = @district');
+      params.district = district;
+    }
+
+    for (const flag of scheme.flags) {
+      const value = parseField(`flag_${flag.id}`, input[`flag_${flag.id}`], booleanParam.optional());
+      if (value === undefined) continue;
+      conditions.push(flagCondition(flag, value, 'f'));
+    }
+
+    if (conditions.length === 0) {
+      throw invalidField('query', 'Provide q, district or at least one flag_<id> filter');
+    }
+
+    const scope = await getScope(request);
+    const dataSource = getDataSource();
+
+    // Exact ID hit first, then riskiest first so typeahead surfaces what matters
+    const query = `
+      SELECT
+        b.beneficiary_id,
+        b.residence_district,
+        f.risk_level,
+        f.mean_squared_error,
+        CASE WHEN UPPER(b.beneficiary_id) = @q THEN 1 ELSE 0 END AS exact_match
+      FROM ${scope.table('Beneficiaries', scheme.id)} b
+      LEFT JOIN ${scope.table('fraud_with_explanations', scheme.id)} f
+      ON b.beneficiary_id = f.beneficiary_id
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY exact_match DESC, COALESCE(f.mean_squared_error, 0) DESC, b.beneficiary_id ASC
+      LIMIT @limit
+    `;
+
+    const rows = await dataSource.query(query, { ...params, ...scope.params, limit });
+
+    const results: BeneficiarySearchResult[] = rows.map((row) => ({
+      beneficiary_id: row.beneficiary_id,
+      residence_district: row.residence_district || 'Unknown',
+      risk_level: row.risk_level || 'UNKNOWN',
+      mean_squared_error: row.mean_squared_error === null ? null : Number(row.mean_squared_error),
+      exact_match: Boolean(Number(row.exact_match)),
+    }));
+
+    await recordDataAccess(request, scope.session, {
+      outcome: 'SEARCHED',
+      scheme: scheme.id,
+      beneficiary_ids: results.map((r) => r.beneficiary_id),
+      reason: `Beneficiary search (${searchParams.toString()})`,
+    });
+
+    return ok(results, started, { ...(await schemeMeta(scheme.id)), pagination: { limit } });
+  } catch (error) {
+    return errorResponse(error, 'Beneficiary Search Error');
+  }
+}
@@ -0,0 +1,59 @@
+import type { CaseTransitionResult } from '@/lib/bigquery';
+import { getCase, transitionCase } from '@/lib/cases';
+import { getScope } from '@/lib/jurisdiction';
+import { actionPermission, authorize } from '@/lib/rbac';
+import { errorResponse, ok } from '@/lib/responses';
+import { caseTransitionBody, schemeQuery } from '@/lib/schemas';
+import { resolveScheme } from '@/lib/schemes';
+import { parseBody, parseQuery } from '@/lib/validation';
+import { NextRequest } from 'next/server';
+
+// GET: Case state, allowed next actions and full history
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ beneficiary_id: string }> }
+) {
+  const started = Date.now();
+  try {
+    const { beneficiary_id } = await params;
+    const scheme = resolveScheme(parseQuery(request, schemeQuery).scheme);
+    const scope = await getScope(request);
+    await scope.requireBeneficiary(scheme.id, beneficiary_id);
+
+    const detail = await getCase(scheme.id, beneficiary_id);
+    return ok(detail, started, { scheme: scheme.id });
+  } catch (error) {
+    return errorResponse(error, 'Case Detail Error');
+  }
+}
+
+// POST: Move the case through its lifecycle (409 if the transition is not allowed)
+// The signed-in officer is recorded as the acting officer; closing a case
+// (CONFIRMED / CLEARED) needs the cases:close permission
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ beneficiary_id: string }> }
+) {
+  const started = Date.now();
+  try {
+    const scope = await getScope(request);
+    const { session } = scope;
+    const { beneficiary_id } = await params;
+    const body = await parseBody(request, caseTransitionBody);
+    await authorize(request, session, actionPermission(body.action));
+
+    const scheme = resolveScheme(body.scheme);
+    await scope.requireBeneficiary(scheme.id, beneficiary_id);
+    const result = await transitionCase(scheme, {
+      beneficiary_id,
+      action: body.action,
+      officer_id: session.officer_id,
+      officer_name: session.officer_name,
+      notes: body.notes,
+    });
+
+    return ok<CaseTransitionResult>(result, started, { scheme: scheme.id }, { status: result.persisted === 'outbox' ? 202 : 200 });
+  } catch (error) {
+    return errorResponse(error, 'Case Transition Error');
+  }
+}
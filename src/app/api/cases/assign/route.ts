@@ -0,0 +1,45 @@
+import { assignCases } from '@/lib/assignment';
+import type { AssignmentReport } from '@/lib/bigquery';
+import { getScope } from '@/lib/jurisdiction';
+import { errorResponse, ok } from '@/lib/responses';
+import { assignBody } from '@/lib/schemas';
+import { resolveScheme } from '@/lib/schemes';
+import { parseBody } from '@/lib/validation';
+import { NextRequest } from 'next/server';
+
+/**
+ * POST: Assign cases to officers within their districts
+ *
+ * strategy - manual (with officer_id), round_robin or least_loaded
+ *
+ * Cases that cannot be assigned (outside the signed-in officer's
+ * jurisdiction or every officer's districts, or already under review) are listed with an error; the rest are assigned.
+ * The signed-in officer is recorded as having made the assignment.
+ */
+export async function POST(request: NextRequest) {
+  const started = Date.now();
+  try {
+    const scope = await getScope(request);
+    const { session } = scope;
+    const body = await parseBody(request, assignBody);
+
+    const scheme = resolveScheme(body.scheme);
+    const results = await assignCases(scheme, {
+      beneficiary_ids: body.beneficiary_ids,
+      strategy: body.strategy,
+      officer_id: body.officer_id,
+      assigned_by_id: session.officer_id,
+      assigned_by_name: session.officer_name,
+      scope,
+      notes: body.notes,
+    });
+
+    return ok<AssignmentReport>({
+      strategy: body.strategy,
+      assigned: results.filter((r) => r.assigned).length,
+      results,
+    }, started, { scheme: scheme.id });
+  } catch (error) {
+    return errorResponse(error, 'Case Assignment Error');
+  }
+}
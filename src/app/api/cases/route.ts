@@ -0,0 +1,47 @@
+import type { CaseList } from '@/lib/bigquery';
+import { loadCases, type CaseState } from '@/lib/cases';
+import { getScope } from '@/lib/jurisdiction';
+import { errorResponse, ok } from '@/lib/responses';
+import { CASE_STATES, casesQuery } from '@/lib/schemas';
+import { resolveScheme } from '@/lib/schemes';
+import { parseQuery } from '@/lib/validation';
+import { NextRequest } from 'next/server';
+
+/**
+ * Current state of cases, derived from the audit history
+ *
+ * beneficiary_id - comma-separated IDs to look up (untouched cases come back OPEN)
+ * state          - only cases in this state (e.g. ESCALATED)
+ *
+ * Without beneficiary_id, every case with audit activity is listed, most
+ * recently updated first. counts covers all listed cases before the limit.
+ * Cases outside the officer's jurisdiction are left out.
+ */
+export async function GET(request: NextRequest) {
+  const started = Date.now();
+  try {
+    const input = parseQuery(request, casesQuery);
+    const { limit, state } = input;
+    const scheme = resolveScheme(input.scheme);
+
+    const scope = await getScope(request);
+    const loaded = Array.from((await loadCases(scheme.id, input.beneficiary_id)).values());
+    const visible = await scope.visibleBeneficiaries(scheme.id, loaded.map((c) => c.beneficiary_id));
+    const cases = loaded.filter((c) => visible.has(c.beneficiary_id));
+
+    const counts = Object.fromEntries(CASE_STATES.map((s) => [s, 0])) as Record<CaseState, number>;
+    for (const c of cases) counts[c.state]++;
+
+    const listed = cases
+      .filter((c) => !state || c.state === state)
+      .sort((a, b) => (b.updated_at ?? '').localeCompare(a.updated_at ?? ''))
+      .slice(0, limit);
+
+    return ok<CaseList>({ cases: listed, counts }, started, {
+      scheme: scheme.id,
+      pagination: { limit, total_count: state ? counts[state] : cases.length },
+    });
+  } catch (error) {
+    return errorResponse(error, 'Cases Error');
+  }
+}
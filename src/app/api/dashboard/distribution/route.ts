@@ -1,9 +1,18 @@
-import { getBigQueryClient, RiskDistribution } from '@/lib/bigquery';
-import { NextResponse } from 'next/server';
+import { getDataSource } from '@/lib/datasource';
+import { getScope } from '@/lib/jurisdiction';
+import { RiskDistribution } from '@/lib/bigquery';
+import { suppressGroup } from '@/lib/disclosure';
+import { errorResponse, ok, schemeMeta } from '@/lib/responses';
+import { schemeQuery } from '@/lib/schemas';
+import { resolveScheme } from '@/lib/schemes';
+import { parseQuery } from '@/lib/validation';
+import { NextRequest } from 'next/server';
 
-export async function GET() {
+export async function GET(request: NextRequest) {
+  const started = Date.now();
   try {
-    const bigquery = getBigQueryClient();
+    const scheme = resolveScheme(parseQuery(request, schemeQuery).scheme);
+    const scope = await getScope(request);
 
     // Risk Distribution for Pie/Bar chart
     // SOURCE: fraud_with_explanations
@@ -11,22 +20,22 @@ export async function GET() {
       SELECT
         risk_level,
         COUNT(*) AS count
-      FROM \`gfg-fot.lpg_fraud_detection.fraud_with_explanations\`
+      FROM ${scope.table('fraud_with_explanations', scheme.id)}
       GROUP BY risk_level
     `;
 
-    const [job] = await bigquery.createQueryJob({ query });
-    const [rows] = await job.getQueryResults();
+    const rows = await getDataSource().query(query, scope.params);
 
-    const results: RiskDistribution[] = rows.map((row) => ({
+    // Levels add up to the beneficiary total shown beside the chart
+    const { cells } = suppressGroup(rows.map((row) => Number(row.count)));
+    const results: RiskDistribution[] = rows.map((row, i) => ({
       risk_level: row.risk_level || 'UNKNOWN',
-      count: Number(row.count),
+      count: cells[i],
+      suppressed: cells[i] === null,
     }));
 
-    return NextResponse.json(results);
+    return ok(results, started, await schemeMeta(scheme.id));
   } catch (error) {
-    console.error('Risk Distribution Error:', error);
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-    return NextResponse.json({ success: false, error: errorMessage }, { status: 500 });
+    return errorResponse(error, 'Risk Distribution Error');
   }
 }
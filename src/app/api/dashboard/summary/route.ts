@@ -1,9 +1,19 @@
-import { getBigQueryClient, DashboardSummary } from '@/lib/bigquery';
-import { NextResponse } from 'next/server';
+import { getDataSource } from '@/lib/datasource';
+import { getScope } from '@/lib/jurisdiction';
+import { DashboardSummary } from '@/lib/bigquery';
+import { minPublishedCount, suppressCount, suppressGroup } from '@/lib/disclosure';
+import { errorResponse, ok, schemeMeta } from '@/lib/responses';
+import { schemeQuery } from '@/lib/schemas';
+import { resolveScheme } from '@/lib/schemes';
+import { getOverdueCases } from '@/lib/sla';
+import { parseQuery } from '@/lib/validation';
+import { NextRequest } from 'next/server';
 
-export async function GET() {
+export async function GET(request: NextRequest) {
+  const started = Date.now();
   try {
-    const bigquery = getBigQueryClient();
+    const scheme = resolveScheme(parseQuery(request, schemeQuery).scheme);
+    const scope = await getScope(request);
 
     // KPIs - Top summary cards
     // SOURCE: fraud_with_explanations (has flag columns for explainability)
@@ -13,32 +23,55 @@ export async function GET() {
         COUNTIF(risk_level = 'HIGH') AS high_risk,
         COUNTIF(risk_level = 'MEDIUM') AS medium_risk,
         COUNTIF(risk_level = 'LOW') AS low_risk
-      FROM \`gfg-fot.lpg_fraud_detection.fraud_with_explanations\`
+      FROM ${scope.table('fraud_with_explanations', scheme.id)}
     `;
 
-    const [job] = await bigquery.createQueryJob({ query });
-    const [rows] = await job.getQueryResults();
+    const rows = await getDataSource().query(query, scope.params);
+    const k = minPublishedCount();
+
+    // Best effort - the risk KPIs do not depend on the app tables
+    let overdueCases: number | null = null;
+    try {
+      overdueCases = (await getOverdueCases(scheme, new Date(), scope)).length;
+    } catch (slaError) {
+      console.error('Overdue case count failed:', slaError instanceof Error ? slaError.message : slaError);
+    }
 
     if (rows.length === 0) {
-      return NextResponse.json({
+      const empty: DashboardSummary = {
         total_beneficiaries: 0,
         high_risk: 0,
         medium_risk: 0,
         low_risk: 0,
-      } as DashboardSummary);
+        overdue_cases: overdueCases === null ? null : suppressCount(overdueCases, k),
+        min_count: k,
+        suppressed: false,
+      };
+      return ok(empty, started, await schemeMeta(scheme.id));
     }
 
+    // The risk levels and the beneficiaries without a score add up to the
+    // total, so they are suppressed as a group (the unscored count itself is
+    // not published)
+    const high = Number(rows[0].high_risk);
+    const medium = Number(rows[0].medium_risk);
+    const low = Number(rows[0].low_risk);
+    const unscored = Number(rows[0].total_beneficiaries) - high - medium - low;
+    const levels = suppressGroup([high, medium, low, unscored], k);
+    const [highRisk, mediumRisk, lowRisk] = levels.cells;
+
     const result: DashboardSummary = {
-      total_beneficiaries: Number(rows[0].total_beneficiaries),
-      high_risk: Number(rows[0].high_risk),
-      medium_risk: Number(rows[0].medium_risk),
-      low_risk: Number(rows[0].low_risk),
+      total_beneficiaries: levels.total,
+      high_risk: highRisk,
+      medium_risk: mediumRisk,
+      low_risk: lowRisk,
+      overdue_cases: overdueCases === null ? null : suppressCount(overdueCases, k),
+      min_count: k,
+      suppressed: levels.suppressed || (overdueCases !== null && overdueCases > 0 && overdueCases < k),
     };
 
-    return NextResponse.json(result);
+    return ok(result, started, await schemeMeta(scheme.id));
   } catch (error) {
-    console.error('Dashboard Summary Error:', error);
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-    return NextResponse.json({ success: false, error: errorMessage }, { status: 500 });
+    return errorResponse(error, 'Dashboard Summary Error');
   }
 }
@@ -1,37 +1,48 @@
-import { getBigQueryClient, DistrictRisk } from '@/lib/bigquery';
-import { NextResponse } from 'next/server';
+import { getDataSource } from '@/lib/datasource';
+import { DistrictRisk } from '@/lib/bigquery';
+import { suppressGroup } from '@/lib/disclosure';
+import { getScope } from '@/lib/jurisdiction';
+import { errorResponse, ok, schemeMeta } from '@/lib/responses';
+import { schemeQuery } from '@/lib/schemas';
+import { resolveScheme } from '@/lib/schemes';
+import { parseQuery } from '@/lib/validation';
+import { NextRequest } from 'next/server';
 
-export async function GET() {
+export async function GET(request: NextRequest) {
+  const started = Date.now();
   try {
-    const bigquery = getBigQueryClient();
+    const scheme = resolveScheme(parseQuery(request, schemeQuery).scheme);
+    const scope = await getScope(request);
+    const dataSource = getDataSource();
 
     // District-wise anomaly count for heatmap
     // Using fraud_with_explanations joined with Beneficiaries
-    // Counts HIGH and MEDIUM risk as anomalies
+    // Counts HIGH and MEDIUM risk as anomalies, in the officer's districts only
     const query = `
       SELECT
         b.residence_district,
         COUNT(*) AS anomaly_count
-      FROM \`gfg-fot.lpg_fraud_detection.fraud_with_explanations\` f
-      JOIN \`gfg-fot.lpg_fraud_detection.Beneficiaries\` b
+      FROM ${scope.table('fraud_with_explanations', scheme.id)} f
+      JOIN ${scope.table('Beneficiaries', scheme.id)} b
       ON f.beneficiary_id = b.beneficiary_id
       WHERE f.risk_level IN ('HIGH', 'MEDIUM')
       GROUP BY b.residence_district
       ORDER BY anomaly_count DESC
     `;
 
-    const [job] = await bigquery.createQueryJob({ query });
-    const [rows] = await job.getQueryResults();
+    const rows = await dataSource.query(query, scope.params);
 
-    const results: DistrictRisk[] = rows.map((row) => ({
+    // District counts add up to the total anomalies shown elsewhere, so small
+    // ones are suppressed together with their complements
+    const { cells } = suppressGroup(rows.map((row) => Number(row.anomaly_count)));
+    const results: DistrictRisk[] = rows.map((row, i) => ({
       residence_district: row.residence_district || 'Unknown',
-      anomaly_count: Number(row.anomaly_count),
+      anomaly_count: cells[i],
+      suppressed: cells[i] === null,
     }));
 
-    return NextResponse.json(results);
+    return ok(results, started, await schemeMeta(scheme.id));
   } catch (error) {
-    console.error('District Risk Error:', error);
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-    return NextResponse.json({ success: false, error: errorMessage }, { status: 500 });
+    return errorResponse(error, 'District Risk Error');
   }
 }
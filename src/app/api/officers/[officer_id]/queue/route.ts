@@ -0,0 +1,67 @@
+import { getOfficerQueue } from '@/lib/assignment';
+import type { OfficerQueue } from '@/lib/bigquery';
+import { getDataSource } from '@/lib/datasource';
+import { getScope } from '@/lib/jurisdiction';
+import { getOfficer } from '@/lib/officers';
+import { errorResponse, fail, ok, schemeMeta } from '@/lib/responses';
+import { schemeQuery } from '@/lib/schemas';
+import { resolveScheme } from '@/lib/schemes';
+import { parseQuery } from '@/lib/validation';
+import { NextRequest } from 'next/server';
+
+// GET: Open cases assigned to an officer in one scheme ("My queue"),
+// with each beneficiary's risk level and district. Cases outside the
+// signed-in officer's jurisdiction are left out.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ officer_id: string }> }
+) {
+  const started = Date.now();
+  try {
+    const { officer_id } = await params;
+    const scheme = resolveScheme(parseQuery(request, schemeQuery).scheme);
+    const scope = await getScope(request);
+
+    const officer = await getOfficer(officer_id);
+    if (!officer) {
+      return fail('NOT_FOUND', 'Officer not found');
+    }
+
+    const queue = await getOfficerQueue(scheme, officer_id);
+    const visible = await scope.visibleBeneficiaries(scheme.id, queue.map((c) => c.beneficiary_id));
+    const cases = queue.filter((c) => visible.has(c.beneficiary_id));
+    const risk = new Map<string, { risk_level: string; mean_squared_error: number; residence_district: string | null }>();
+
+    if (cases.length > 0) {
+      const dataSource = getDataSource();
+      const idParams = Object.fromEntries(cases.map((c, i) => [`beneficiary_id${i}`, c.beneficiary_id]));
+      const rows = await dataSource.query(`
+        SELECT f.beneficiary_id, f.risk_level, f.mean_squared_error, b.residence_district
+        FROM ${dataSource.table('fraud_with_explanations', scheme.id)} f
+        LEFT JOIN ${dataSource.table('Beneficiaries', scheme.id)} b
+          ON f.beneficiary_id = b.beneficiary_id
+        WHERE f.beneficiary_id IN (${cases.map((_, i) => `@beneficiary_id${i}`).join(', ')})
+      `, idParams);
+      for (const row of rows) {
+        risk.set(row.beneficiary_id, {
+          risk_level: row.risk_level,
+          mean_squared_error: Number(row.mean_squared_error),
+          residence_district: row.residence_district ?? null,
+        });
+      }
+    }
+
+    const queued: OfficerQueue = {
+      officer,
+      cases: cases.map((c) => ({
+        ...c,
+        risk_level: risk.get(c.beneficiary_id)?.risk_level ?? null,
+        mean_squared_error: risk.get(c.beneficiary_id)?.mean_squared_error ?? null,
+        residence_district: risk.get(c.beneficiary_id)?.residence_district ?? null,
+      })),
+    };
+    return ok(queued, started, await schemeMeta(scheme.id));
+  } catch (error) {
+    return errorResponse(error, 'Officer Queue Error');
+  }
+}
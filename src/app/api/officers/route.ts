@@ -0,0 +1,52 @@
+import { getWorkloads } from '@/lib/assignment';
+import { hashPassword } from '@/lib/auth';
+import type { RosterOfficer } from '@/lib/bigquery';
+import { listOfficers, saveOfficer } from '@/lib/officers';
+import { hasPermission } from '@/lib/rbac';
+import { errorResponse, ok } from '@/lib/responses';
+import { officerBody } from '@/lib/schemas';
+import { parseBody } from '@/lib/validation';
+import { NextRequest } from 'next/server';
+
+// GET: Officer roster with each officer's open cases (all schemes) and
+// whether cases can be assigned to them
+export async function GET() {
+  const started = Date.now();
+  try {
+    const [officers, workloads] = await Promise.all([listOfficers(), getWorkloads()]);
+
+    const roster: RosterOfficer[] = officers.map((officer) => ({
+      ...officer,
+      assignable: officer.active && hasPermission(officer.role, 'cases:act'),
+      open_cases: workloads.get(officer.officer_id)?.open_cases ?? 0,
+      last_assigned_at: workloads.get(officer.officer_id)?.last_assigned_at ?? null,
+    }));
+    return ok(roster, started);
+  } catch (error) {
+    return errorResponse(error, 'Officers Error');
+  }
+}
+
+// POST: Add an officer or update an existing one (matched by officer_id)
+// An omitted password leaves the officer's current password unchanged
+export async function POST(request: NextRequest) {
+  const started = Date.now();
+  try {
+    const body = await parseBody(request, officerBody);
+
+    const { officer, created } = await saveOfficer({
+      officer_id: body.officer_id,
+      officer_name: body.officer_name,
+      email: body.email || null,
+      districts: body.districts,
+      statewide: body.statewide,
+      role: body.role,
+      active: body.active,
+      password_hash: body.password ? hashPassword(body.password) : undefined,
+    });
+
+    return ok(officer, started, {}, { status: created ? 201 : 200 });
+  } catch (error) {
+    return errorResponse(error, 'Officer Save Error');
+  }
+}
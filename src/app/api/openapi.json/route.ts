@@ -0,0 +1,12 @@
+import { getOpenApiDocument } from '@/lib/openapi';
+import { NextResponse } from 'next/server';
+
+/**
+ * GET: OpenAPI 3.1 description of every route
+ *
+ * Answers with the bare document rather than the response envelope so API
+ * tooling can load it directly. Public, like the login page that links to it.
+ */
+export function GET() {
+  return NextResponse.json(getOpenApiDocument());
+}
@@ -0,0 +1,21 @@
+import type { SchemeInfo } from '@/lib/bigquery';
+import { getConfig } from '@/lib/config';
+import { errorResponse, ok } from '@/lib/responses';
+import { getEnabledSchemes } from '@/lib/schemes';
+
+// GET: Schemes served by this deployment (drives the scheme switcher)
+export async function GET() {
+  const started = Date.now();
+  try {
+    const schemes: SchemeInfo[] = getEnabledSchemes().map((scheme) => ({
+      id: scheme.id,
+      name: scheme.name,
+      short_name: scheme.shortName,
+      flags: scheme.flags.map((flag) => ({ id: flag.id, label: flag.label, weight: flag.weight })),
+    }));
+
+    return ok({ default_scheme: getConfig().schemes.default, schemes }, started);
+  } catch (error) {
+    return errorResponse(error, 'Schemes Error');
+  }
+}
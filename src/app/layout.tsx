@@ -3,6 +3,8 @@ import { Inter, Outfit } from "next/font/google";
 import "./globals.css";
 import Header from "@/components/Header";
 import Footer from "@/components/Footer";
+import SchemeProvider from "@/components/SchemeProvider";
+import OfficerProvider from "@/components/OfficerProvider";
 
 const inter = Inter({
   variable: "--font-inter",
@@ -27,13 +29,17 @@ export default function RootLayout({
   return (
     <html lang="en">
       <body className={`${inter.variable} ${outfit.variable} antialiased`}>
-        <div className="min-h-screen flex flex-col">
-          <Header />
-          <main className="flex-1">
-            {children}
-          </main>
-          <Footer />
-        </div>
+        <SchemeProvider>
+          <OfficerProvider>
+            <div className="min-h-screen flex flex-col">
+              <Header />
+              <main className="flex-1">
+                {children}
+              </main>
+              <Footer />
+            </div>
+          </OfficerProvider>
+        </SchemeProvider>
       </body>
     </html>
   );
@@ -0,0 +1,123 @@
+"use client";
+
+import { Suspense, useEffect, useState } from "react";
+import { useSearchParams } from "next/navigation";
+import type { AuthProviders } from "@/lib/bigquery";
+import { api } from "@/lib/client";
+
+// Only same-origin paths are followed after sign-in
+function safeNext(value: string | null): string {
+  return value && value.startsWith("/") && !value.startsWith("//") && !value.startsWith("/\\") ? value : "/dashboard";
+}
+
+function LoginForm() {
+  const searchParams = useSearchParams();
+  const next = safeNext(searchParams.get("next"));
+  const [providers, setProviders] = useState<AuthProviders | null>(null);
+  const [officerId, setOfficerId] = useState("");
+  const [password, setPassword] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(searchParams.get("error"));
+
+  useEffect(() => {
+    api.auth
+      .providers()
+      .then((res) => setProviders(res.data))
+      .catch(() => setError("Sign-in is unavailable - please try again later"));
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+
+    try {
+      await api.auth.login({ officer_id: officerId.trim(), password });
+      // Full navigation so every provider picks up the new session
+      window.location.assign(next);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Sign-in failed");
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="w-full max-w-md bg-white border border-gray-200 rounded-lg shadow-sm p-6">
+      <h1 className="text-2xl font-heading font-bold text-gray-900 mb-1">🔐 Officer Sign-in</h1>
+      <p className="text-sm text-gray-600 mb-6">
+        Audit actions are recorded against the officer you sign in as.
+      </p>
+
+      {error && <div className="mb-4 p-3 bg-red-50 text-red-700 rounded text-sm">⚠️ {error}</div>}
+
+      {providers?.local && (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label htmlFor="officer_id" className="block text-sm font-medium text-gray-700 mb-1">
+              Officer ID
+            </label>
+            <input
+              type="text"
+              id="officer_id"
+              required
+              autoComplete="username"
+              value={officerId}
+              onChange={(e) => setOfficerId(e.target.value)}
+              className="w-full px-3 py-2 rounded border border-gray-300 focus:outline-none focus:ring-2 focus:ring-primary/30 focus:border-primary"
+              placeholder="e.g. AO-1001"
+            />
+          </div>
+          <div>
+            <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-1">
+              Password
+            </label>
+            <input
+              type="password"
+              id="password"
+              required
+              autoComplete="current-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="w-full px-3 py-2 rounded border border-gray-300 focus:outline-none focus:ring-2 focus:ring-primary/30 focus:border-primary"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={loading}
+            className="w-full px-4 py-2 rounded bg-primary text-white text-sm font-medium hover:bg-primary/90 disabled:opacity-50 transition-colors"
+          >
+            {loading ? "Signing in..." : "Sign in"}
+          </button>
+        </form>
+      )}
+
+      {providers?.local && providers.oidc && (
+        <div className="my-4 flex items-center gap-3 text-xs text-gray-400">
+          <span className="flex-1 border-t border-gray-200"></span>
+          or
+          <span className="flex-1 border-t border-gray-200"></span>
+        </div>
+      )}
+
+      {providers?.oidc && (
+        <a
+          href={`/api/auth/oidc/login?next=${encodeURIComponent(next)}`}
+          className="block w-full px-4 py-2 rounded border border-gray-300 bg-white text-center text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors"
+        >
+          Continue with {providers.oidc.name}
+        </a>
+      )}
+    </div>
+  );
+}
+
+export default function LoginPage() {
+  return (
+    <div className="min-h-[70vh] bg-gray-50 flex items-center justify-center px-4 py-12">
+      {/* useSearchParams needs a Suspense boundary for static rendering */}
+      <Suspense fallback={null}>
+        <LoginForm />
+      </Suspense>
+    </div>
+  );
+}
@@ -0,0 +1,196 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/Button";
+import AuditPanel from "@/components/AuditPanel";
+import CaseStatusBadge from "@/components/CaseStatusBadge";
+import { useOfficer } from "@/components/OfficerProvider";
+import { useScheme } from "@/components/SchemeProvider";
+import type { QueueCase } from "@/lib/bigquery";
+import type { CaseDetail } from "@/lib/cases";
+import { api } from "@/lib/client";
+
+function getRiskBadgeStyle(level: string | null) {
+  switch (level) {
+    case "HIGH":
+      return "bg-red-100 text-red-800 border-red-300";
+    case "MEDIUM":
+      return "bg-yellow-100 text-yellow-800 border-yellow-300";
+    case "LOW":
+      return "bg-green-100 text-green-800 border-green-300";
+    default:
+      return "bg-gray-100 text-gray-800 border-gray-300";
+  }
+}
+
+// Open cases assigned to the signed-in officer
+export default function QueuePage() {
+  const [cases, setCases] = useState<QueueCase[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<QueueCase | null>(null);
+  const { scheme, ready, activeScheme } = useScheme();
+  const { officer, refreshOfficers } = useOfficer();
+  const officerId = officer?.officer_id ?? null;
+
+  // The queue belongs to the previous scheme - drop the selection on a switch
+  const [prevKey, setPrevKey] = useState(`${officerId}:${scheme}`);
+  if (`${officerId}:${scheme}` !== prevKey) {
+    setPrevKey(`${officerId}:${scheme}`);
+    setSelected(null);
+  }
+
+  useEffect(() => {
+    if (!ready || !officerId) return;
+    let cancelled = false;
+
+    async function loadQueue() {
+      setLoading(true);
+      setError(null);
+      try {
+        const res = await api.officers.queue(officerId as string, { scheme });
+        if (!cancelled) setCases(res.data.cases);
+      } catch (err) {
+        if (!cancelled) {
+          setCases([]);
+          setError(err instanceof Error ? err.message : "Failed to load queue");
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    loadQueue();
+    return () => {
+      cancelled = true;
+    };
+  }, [officerId, scheme, ready]);
+
+  // Closed or reassigned cases leave the queue; everything else updates in place
+  const handleCaseUpdate = (updated: CaseDetail) => {
+    if (updated.state === "CLOSED" || updated.assignee_id !== officerId) {
+      setCases((prev) => prev.filter((c) => c.beneficiary_id !== updated.beneficiary_id));
+      setSelected(null);
+      refreshOfficers();
+      return;
+    }
+    setCases((prev) =>
+      prev.map((c) =>
+        c.beneficiary_id === updated.beneficiary_id
+          ? { ...c, state: updated.state, resolution: updated.resolution, updated_at: updated.updated_at }
+          : c,
+      ),
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-white">
+      {/* Header */}
+      <section className="bg-white py-6 md:py-8 border-b border-gray-200">
+        <div className="max-w-7xl mx-auto px-4">
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <div>
+              <h1 className="text-2xl md:text-3xl font-heading font-bold text-gray-900 mb-1">
+                🗂️ My Queue
+              </h1>
+              <p className="text-gray-600 text-sm">
+                {activeScheme ? `${activeScheme.name} • ` : ""}
+                {officer
+                  ? `${officer.officer_name} (${officer.officer_id}) • ${officer.districts.join(", ")}`
+                  : "Cases assigned to you"}
+              </p>
+            </div>
+            <Button href="/dashboard" variant="secondary">
+              ← Back to Dashboard
+            </Button>
+          </div>
+        </div>
+      </section>
+
+      <section className="py-6">
+        <div className="max-w-7xl mx-auto px-4">
+          {!officer ? (
+            <div className="p-6 bg-amber-50 border border-amber-200 rounded-lg text-amber-800 text-sm">
+              Sign in to see the cases assigned to you.
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              <div className="lg:col-span-2 bg-white border border-gray-200 rounded-lg shadow-sm overflow-hidden">
+                <div className="px-4 py-3 border-b border-gray-200 flex items-center justify-between">
+                  <h2 className="font-heading font-semibold text-gray-900">Assigned Cases</h2>
+                  <span className="text-sm text-gray-500">{cases.length} open</span>
+                </div>
+
+                {loading ? (
+                  <div className="p-8 text-center text-gray-500">
+                    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-2"></div>
+                    Loading queue...
+                  </div>
+                ) : error ? (
+                  <div className="p-4 bg-red-50 text-red-700 text-sm">⚠️ {error}</div>
+                ) : cases.length === 0 ? (
+                  <div className="p-8 text-center text-gray-500 text-sm">
+                    No open cases are assigned to you in this scheme.
+                  </div>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="w-full">
+                      <thead className="bg-gray-50">
+                        <tr>
+                          <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Beneficiary ID</th>
+                          <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">District</th>
+                          <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Risk Level</th>
+                          <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                          <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Assigned</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-200">
+                        {cases.map((c) => (
+                          <tr
+                            key={c.beneficiary_id}
+                            onClick={() => setSelected(c)}
+                            className={`cursor-pointer hover:bg-gray-50 transition-colors ${
+                              selected?.beneficiary_id === c.beneficiary_id ? "bg-primary/5" : ""
+                            }`}
+                          >
+                            <td className="px-4 py-3 text-sm font-mono text-gray-900">{c.beneficiary_id}</td>
+                            <td className="px-4 py-3 text-sm text-gray-600">{c.residence_district ?? "—"}</td>
+                            <td className="px-4 py-3 text-sm">
+                              <span className={`px-2 py-1 rounded text-xs font-medium border ${getRiskBadgeStyle(c.risk_level)}`}>
+                                {c.risk_level ?? "UNKNOWN"}
+                              </span>
+                            </td>
+                            <td className="px-4 py-3 text-sm">
+                              <CaseStatusBadge state={c.state} resolution={c.resolution} />
+                            </td>
+                            <td className="px-4 py-3 text-sm text-gray-600">
+                              {c.assigned_at ? new Date(c.assigned_at).toLocaleDateString() : "—"}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+
+              <div>
+                {selected ? (
+                  <AuditPanel
+                    beneficiaryId={selected.beneficiary_id}
+                    riskLevel={selected.risk_level ?? ""}
+                    onAuditComplete={handleCaseUpdate}
+                  />
+                ) : (
+                  <div className="p-6 bg-gray-50 border border-gray-200 rounded-lg text-center text-sm text-gray-500">
+                    Select a case to review it
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </section>
+    </div>
+  );
+}
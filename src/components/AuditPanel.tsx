@@ -1,14 +1,31 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import type { CaseAction } from "@/lib/audit";
+import type { CaseDetail } from "@/lib/cases";
+import { ApiError, api } from "@/lib/client";
+import CaseStatusBadge from "./CaseStatusBadge";
+import { useOfficer } from "./OfficerProvider";
+import { useScheme } from "./SchemeProvider";
+
+type AssignmentStrategy = "manual" | "least_loaded";
 
 interface AuditPanelProps {
   beneficiaryId: string;
   riskLevel: string;
-  onAuditComplete?: () => void;
+  onAuditComplete?: (updated: CaseDetail) => void;
 }
 
-type AuditAction = "REVIEWED" | "FLAGGED" | "CLEARED" | "NOTE_ADDED";
+// Buttons in lifecycle order; only the actions the server allows are shown
+// (assignment has its own controls - it goes through /api/cases/assign)
+const ACTION_BUTTONS: { action: CaseAction; label: string; className: string }[] = [
+  { action: "REVIEW_STARTED", label: "🔍 Start Review", className: "bg-blue-100 text-blue-800 hover:bg-blue-200" },
+  { action: "FIELD_VERIFICATION_REQUESTED", label: "📍 Field Verification", className: "bg-purple-100 text-purple-800 hover:bg-purple-200" },
+  { action: "ESCALATED", label: "🚩 Escalate", className: "bg-orange-100 text-orange-800 hover:bg-orange-200" },
+  { action: "CONFIRMED", label: "⚠️ Confirm Fraud", className: "bg-red-100 text-red-800 hover:bg-red-200" },
+  { action: "CLEARED", label: "✓ Clear / False Positive", className: "bg-green-100 text-green-800 hover:bg-green-200" },
+  { action: "NOTE_ADDED", label: "📝 Add Note Only", className: "bg-gray-100 text-gray-800 hover:bg-gray-200" },
+];
 
 export default function AuditPanel({
   beneficiaryId,
@@ -16,14 +33,42 @@ export default function AuditPanel({
   onAuditComplete,
 }: AuditPanelProps) {
   const [notes, setNotes] = useState("");
-  const [officerName, setOfficerName] = useState("");
+  const [assignTo, setAssignTo] = useState("");
   const [loading, setLoading] = useState(false);
   const [success, setSuccess] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [caseInfo, setCaseInfo] = useState<CaseDetail | null>(null);
+  const { scheme } = useScheme();
+  const { officer, officers, can, refreshOfficers } = useOfficer();
+  const assignee = officers.find((o) => o.officer_id === caseInfo?.assignee_id);
+
+  // Current case state decides which actions are offered
+  useEffect(() => {
+    let cancelled = false;
+    async function loadCase() {
+      try {
+        const res = await api.cases.get(beneficiaryId, { scheme });
+        if (!cancelled) setCaseInfo(res.data);
+      } catch (err) {
+        if (!cancelled) {
+          setCaseInfo(null);
+          setError(err instanceof Error ? err.message : "Failed to load case");
+        }
+      }
+    }
+
+    setCaseInfo(null);
+    setError(null);
+    setSuccess(null);
+    loadCase();
+    return () => {
+      cancelled = true;
+    };
+  }, [beneficiaryId, scheme]);
 
-  const handleAuditAction = async (action: AuditAction) => {
-    if (!officerName.trim()) {
-      setError("Please enter your name/ID");
+  const handleAuditAction = async (action: CaseAction) => {
+    if (!officer) {
+      setError("Sign in to record actions");
       return;
     }
 
@@ -32,46 +77,81 @@ export default function AuditPanel({
     setSuccess(null);
 
     try {
-      const res = await fetch("/api/audit", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          beneficiary_id: beneficiaryId,
-          action,
-          officer_name: officerName.trim(),
-          officer_id: officerName.trim().replace(/\s+/g, "_").toUpperCase(),
-          notes: notes.trim(),
-          new_status: action === "CLEARED" ? "LOW" : riskLevel,
-        }),
-      });
+      const { data } = await api.cases.transition(beneficiaryId, { scheme, action, notes: notes.trim() });
+
+      setCaseInfo(data.case);
+      setSuccess(
+        data.persisted === "outbox"
+          ? `⏳ Action "${action}" saved and queued - it will reach the audit trail once the warehouse is back.`
+          : `✅ Action "${action}" recorded successfully!`,
+      );
+      setNotes("");
+      onAuditComplete?.(data.case);
 
-      const data = await res.json();
+      // Clear success message after 3 seconds
+      setTimeout(() => setSuccess(null), 3000);
+    } catch (err) {
+      // 409: someone else moved the case on - show its current state
+      if (err instanceof ApiError && err.state && caseInfo) {
+        setCaseInfo({ ...caseInfo, state: err.state });
+      }
+      setError(err instanceof Error ? err.message : "Failed to record action");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Assignment is scoped to the officer's districts on the server
+  const handleAssign = async (strategy: AssignmentStrategy, officerId?: string) => {
+    if (!officer) {
+      setError("Sign in to record actions");
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    setSuccess(null);
 
-      if (!res.ok || !data.success) {
-        throw new Error(data.error || "Failed to record audit action");
+    try {
+      const { data } = await api.cases.assign({
+        scheme,
+        strategy,
+        officer_id: officerId,
+        beneficiary_ids: [beneficiaryId],
+        notes: notes.trim() || undefined,
+      });
+      const [result] = data.results;
+      if (!result.assigned) {
+        throw new Error(result.error || "Case could not be assigned");
       }
 
-      setSuccess(`✅ Action "${action}" recorded successfully!`);
+      const updated = await api.cases.get(beneficiaryId, { scheme }).catch(() => null);
+      if (updated) {
+        setCaseInfo(updated.data);
+        onAuditComplete?.(updated.data);
+      }
+      setSuccess(`✅ Assigned to ${result.officer_name}`);
       setNotes("");
-      onAuditComplete?.();
+      setAssignTo("");
+      refreshOfficers();
 
-      // Clear success message after 3 seconds
       setTimeout(() => setSuccess(null), 3000);
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to record action");
+      setError(err instanceof Error ? err.message : "Failed to assign case");
     } finally {
       setLoading(false);
     }
   };
 
-  const handleExport = async () => {
+  // Rows are pseudonymized unless an admin asks for beneficiary IDs
+  const handleExport = async (identifiers: "pseudonym" | "beneficiary_id" = "pseudonym") => {
     try {
       // Open CSV download in new tab
       window.open(
-        `/api/audit/export?format=csv&risk_level=${riskLevel}`,
+        api.audit.exportUrl({ scheme, risk_level: riskLevel, identifiers }),
         "_blank"
       );
-    } catch (err) {
+    } catch {
       setError("Failed to export report");
     }
   };
@@ -85,73 +165,140 @@ export default function AuditPanel({
         </span>
       </h4>
 
-      {/* Officer Name Input */}
-      <div className="mb-3">
-        <label className="block text-sm text-gray-600 mb-1">
-          Officer Name/ID <span className="text-red-500">*</span>
-        </label>
-        <input
-          type="text"
-          value={officerName}
-          onChange={(e) => setOfficerName(e.target.value)}
-          placeholder="e.g., Rajesh Kumar / AO-12345"
-          className="w-full px-3 py-2 border border-gray-300 rounded text-sm focus:outline-none focus:ring-2 focus:ring-primary/30"
-        />
+      {/* Case Status */}
+      <div className="mb-3 flex items-center justify-between text-sm">
+        <span className="text-gray-600">Case status</span>
+        {caseInfo ? (
+          <CaseStatusBadge state={caseInfo.state} resolution={caseInfo.resolution} />
+        ) : (
+          <span className="text-xs text-gray-400">Loading…</span>
+        )}
       </div>
+      {caseInfo?.updated_at && (
+        <p className="-mt-2 mb-3 text-xs text-gray-500 text-right">
+          Last action by {caseInfo.last_officer} on {new Date(caseInfo.updated_at).toLocaleString()}
+        </p>
+      )}
 
-      {/* Notes Input */}
-      <div className="mb-3">
-        <label className="block text-sm text-gray-600 mb-1">
-          Notes (optional)
-        </label>
-        <textarea
-          value={notes}
-          onChange={(e) => setNotes(e.target.value)}
-          placeholder="Add observations, findings, or justification..."
-          rows={3}
-          className="w-full px-3 py-2 border border-gray-300 rounded text-sm focus:outline-none focus:ring-2 focus:ring-primary/30 resize-none"
-        />
-      </div>
+      {/* Assignment */}
+      {caseInfo?.assignee_id && (
+        <p className="mb-3 text-sm text-gray-600">
+          Assigned to{" "}
+          <span className="font-medium text-gray-900">
+            {assignee ? `${assignee.officer_name} (${assignee.officer_id})` : caseInfo.assignee_id}
+          </span>
+        </p>
+      )}
+      {caseInfo?.allowed_actions.includes("ASSIGNED") && can("cases:assign") && officers.length > 0 && (
+        <div className="mb-3 p-2 bg-sky-50 border border-sky-100 rounded">
+          <div className="flex gap-2 mb-2">
+            <select
+              value={assignTo}
+              onChange={(e) => setAssignTo(e.target.value)}
+              className="flex-1 min-w-0 px-2 py-1.5 border border-gray-300 rounded text-sm bg-white focus:outline-none focus:ring-2 focus:ring-primary/30"
+              aria-label="Assign to officer"
+            >
+              <option value="">Assign to…</option>
+              {officers
+                .filter((o) => o.assignable)
+                .map((o) => (
+                  <option key={o.officer_id} value={o.officer_id}>
+                    {o.officer_name} · {o.open_cases} open
+                  </option>
+                ))}
+            </select>
+            <button
+              onClick={() => handleAssign("manual", assignTo)}
+              disabled={loading || !assignTo}
+              className="px-3 py-1.5 rounded text-sm font-medium bg-sky-100 text-sky-800 hover:bg-sky-200 disabled:opacity-50 transition-colors"
+            >
+              Assign
+            </button>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <button
+              onClick={() => officer && handleAssign("manual", officer.officer_id)}
+              disabled={loading || !officer?.assignable}
+              className="px-3 py-1.5 rounded text-sm font-medium bg-sky-100 text-sky-800 hover:bg-sky-200 disabled:opacity-50 transition-colors"
+            >
+              👤 Assign to Me
+            </button>
+            <button
+              onClick={() => handleAssign("least_loaded")}
+              disabled={loading}
+              className="px-3 py-1.5 rounded text-sm font-medium bg-sky-100 text-sky-800 hover:bg-sky-200 disabled:opacity-50 transition-colors"
+              title="Assign to the officer covering this district with the fewest open cases"
+            >
+              ⚖️ Auto-assign
+            </button>
+          </div>
+        </div>
+      )}
 
-      {/* Action Buttons */}
-      <div className="grid grid-cols-2 gap-2 mb-3">
-        <button
-          onClick={() => handleAuditAction("REVIEWED")}
-          disabled={loading}
-          className="px-3 py-2 bg-blue-100 text-blue-800 rounded text-sm font-medium hover:bg-blue-200 disabled:opacity-50 transition-colors"
-        >
-          ✓ Mark Reviewed
-        </button>
-        <button
-          onClick={() => handleAuditAction("FLAGGED")}
-          disabled={loading}
-          className="px-3 py-2 bg-red-100 text-red-800 rounded text-sm font-medium hover:bg-red-200 disabled:opacity-50 transition-colors"
-        >
-          🚩 Flag for Action
-        </button>
+      {officer && !can("cases:act") ? (
+        <p className="mb-3 p-2 bg-gray-50 text-gray-600 rounded text-xs">
+          Your role ({officer.role.replace("_", " ")}) can view this case but not act on it.
+        </p>
+      ) : (
+        <>
+          {/* Notes Input */}
+          <div className="mb-3">
+            <label className="block text-sm text-gray-600 mb-1">
+              Notes (optional)
+            </label>
+            <textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Add observations, findings, or justification..."
+              rows={3}
+              className="w-full px-3 py-2 border border-gray-300 rounded text-sm focus:outline-none focus:ring-2 focus:ring-primary/30 resize-none"
+            />
+          </div>
+
+          {!officer && (
+            <p className="mb-3 p-2 bg-amber-50 text-amber-800 rounded text-xs">
+              Sign in to record actions.
+            </p>
+          )}
+
+          {/* Action Buttons - closing a case (confirm / clear) is for supervisors */}
+          <div className="grid grid-cols-2 gap-2 mb-3">
+            {ACTION_BUTTONS.filter(
+              ({ action }) =>
+                caseInfo?.allowed_actions.includes(action) &&
+                can(action === "CONFIRMED" || action === "CLEARED" ? "cases:close" : "cases:act"),
+            ).map(({ action, label, className }) => (
+              <button
+                key={action}
+                onClick={() => handleAuditAction(action)}
+                disabled={loading || !officer || (action === "NOTE_ADDED" && !notes.trim())}
+                className={`px-3 py-2 rounded text-sm font-medium disabled:opacity-50 transition-colors ${className}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+
+      {/* Export Button */}
+      {can("audit:export") && (
         <button
-          onClick={() => handleAuditAction("CLEARED")}
-          disabled={loading}
-          className="px-3 py-2 bg-green-100 text-green-800 rounded text-sm font-medium hover:bg-green-200 disabled:opacity-50 transition-colors"
+          onClick={() => handleExport()}
+          className="w-full px-3 py-2 bg-primary text-white rounded text-sm font-medium hover:bg-primary/90 transition-colors flex items-center justify-center gap-2"
+          title="Beneficiaries are replaced by pseudonyms; the file name carries the export ID for re-identification"
         >
-          ✓ Clear / False Positive
+          📥 Export Report (CSV)
         </button>
+      )}
+      {can("audit:export_ids") && (
         <button
-          onClick={() => handleAuditAction("NOTE_ADDED")}
-          disabled={loading || !notes.trim()}
-          className="px-3 py-2 bg-gray-100 text-gray-800 rounded text-sm font-medium hover:bg-gray-200 disabled:opacity-50 transition-colors"
+          onClick={() => handleExport("beneficiary_id")}
+          className="w-full mt-2 px-3 py-1.5 rounded border border-gray-300 bg-white text-xs font-medium text-gray-700 hover:bg-gray-50 transition-colors"
         >
-          📝 Add Note Only
+          Export with beneficiary IDs
         </button>
-      </div>
-
-      {/* Export Button */}
-      <button
-        onClick={handleExport}
-        className="w-full px-3 py-2 bg-primary text-white rounded text-sm font-medium hover:bg-primary/90 transition-colors flex items-center justify-center gap-2"
-      >
-        📥 Export Report (CSV)
-      </button>
+      )}
 
       {/* Status Messages */}
       {loading && (
@@ -1,51 +1,38 @@
 "use client";
 
 import { useState } from "react";
+import { apiFailure, type ApiResponse } from "@/lib/api";
+import type { BatchRefreshResult } from "@/lib/bigquery";
+import { ApiError, api } from "@/lib/client";
+import { useOfficer } from "./OfficerProvider";
+import { useScheme } from "./SchemeProvider";
 
 interface BatchRefreshButtonProps {
   onRefreshComplete?: () => void;
 }
 
-interface RefreshResult {
-  success: boolean;
-  message?: string;
-  summary?: {
-    total_processed: number;
-    high_risk: number;
-    medium_risk: number;
-    low_risk: number;
-    last_updated: string;
-  };
-  error?: string;
-}
-
 export default function BatchRefreshButton({ onRefreshComplete }: BatchRefreshButtonProps) {
   const [loading, setLoading] = useState(false);
-  const [result, setResult] = useState<RefreshResult | null>(null);
+  const [result, setResult] = useState<ApiResponse<BatchRefreshResult> | null>(null);
   const [showDetails, setShowDetails] = useState(false);
+  const { scheme } = useScheme();
+  const { can } = useOfficer();
+
+  // Re-scoring is for state administrators only
+  if (!can("batch:refresh")) return null;
 
   const handleRefresh = async () => {
     setLoading(true);
     setResult(null);
 
     try {
-      const res = await fetch("/api/batch/refresh", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ job_type: "FULL_REFRESH" }),
-      });
-
-      const data = await res.json();
-      setResult(data);
-
-      if (data.success) {
-        onRefreshComplete?.();
-      }
+      setResult(await api.batch.refresh({ job_type: "FULL_REFRESH", scheme }));
+      onRefreshComplete?.();
     } catch (err) {
-      setResult({
-        success: false,
-        error: err instanceof Error ? err.message : "Failed to trigger refresh",
-      });
+      setResult(apiFailure(
+        err instanceof ApiError ? err.code : "INTERNAL_ERROR",
+        err instanceof Error ? err.message : "Failed to trigger refresh",
+      ));
     } finally {
       setLoading(false);
     }
@@ -111,41 +98,41 @@ export default function BatchRefreshButton({ onRefreshComplete }: BatchRefreshBu
             </button>
           </div>
 
-          {result.success && result.summary && (
+          {result.success && (
             <div className="text-sm">
               <div className="grid grid-cols-2 gap-2 mb-2">
                 <div className="bg-white/50 p-2 rounded">
                   <p className="text-gray-500 text-xs">Total</p>
                   <p className="font-bold text-gray-900">
-                    {result.summary.total_processed?.toLocaleString()}
+                    {result.data.summary.total_processed?.toLocaleString() ?? `< ${result.data.summary.min_count}`}
                   </p>
                 </div>
                 <div className="bg-white/50 p-2 rounded">
                   <p className="text-gray-500 text-xs">High Risk</p>
                   <p className="font-bold text-red-600">
-                    {result.summary.high_risk?.toLocaleString()}
+                    {result.data.summary.high_risk?.toLocaleString() ?? `< ${result.data.summary.min_count}`}
                   </p>
                 </div>
                 <div className="bg-white/50 p-2 rounded">
                   <p className="text-gray-500 text-xs">Medium Risk</p>
                   <p className="font-bold text-amber-600">
-                    {result.summary.medium_risk?.toLocaleString()}
+                    {result.data.summary.medium_risk?.toLocaleString() ?? `< ${result.data.summary.min_count}`}
                   </p>
                 </div>
                 <div className="bg-white/50 p-2 rounded">
                   <p className="text-gray-500 text-xs">Low Risk</p>
                   <p className="font-bold text-green-600">
-                    {result.summary.low_risk?.toLocaleString()}
+                    {result.data.summary.low_risk?.toLocaleString() ?? `< ${result.data.summary.min_count}`}
                   </p>
                 </div>
               </div>
               <p className="text-xs text-gray-500">
-                Updated: {new Date(result.summary.last_updated).toLocaleString("en-IN")}
+                Updated: {new Date(result.data.summary.last_updated).toLocaleString("en-IN")}
               </p>
             </div>
           )}
 
-          {result.error && (
+          {!result.success && (
             <p className="text-sm text-red-700">{result.error}</p>
           )}
 
@@ -0,0 +1,158 @@
+"use client";
+
+import { useState, useEffect, useId, useRef } from "react";
+import type { BeneficiarySearchResult } from "@/lib/bigquery";
+import { api } from "@/lib/client";
+import { useScheme } from "./SchemeProvider";
+
+interface BeneficiarySearchProps {
+  onSelect: (beneficiaryId: string) => void;
+}
+
+const DEBOUNCE_MS = 250;
+
+const RISK_DOT: Record<string, string> = {
+  HIGH: "bg-red-500",
+  MEDIUM: "bg-amber-500",
+  LOW: "bg-green-500",
+};
+
+export default function BeneficiarySearch({ onSelect }: BeneficiarySearchProps) {
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<BeneficiarySearchResult[]>([]);
+  const [open, setOpen] = useState(false);
+  const [searching, setSearching] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const listboxId = useId();
+  const { scheme } = useScheme();
+
+  // Debounced typeahead; stale responses are dropped via the abort signal
+  useEffect(() => {
+    const q = query.trim();
+    if (!q) {
+      setResults([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setSearching(true);
+      try {
+        const res = await api.beneficiaries.search({ scheme, q, limit: 8 }, controller.signal);
+        setResults(res.data);
+        setActiveIndex(-1);
+      } catch (err) {
+        if (!controller.signal.aborted) {
+          console.error("Beneficiary search failed:", err);
+          setResults([]);
+        }
+      } finally {
+        if (!controller.signal.aborted) setSearching(false);
+      }
+    }, DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query, scheme]);
+
+  // Close the dropdown on outside click
+  useEffect(() => {
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, []);
+
+  const select = (beneficiaryId: string) => {
+    onSelect(beneficiaryId);
+    setQuery(beneficiaryId);
+    setOpen(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setOpen(true);
+      setActiveIndex((i) => Math.min(i + 1, results.length - 1));
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setActiveIndex((i) => Math.max(i - 1, 0));
+    } else if (e.key === "Enter") {
+      // Enter picks the highlighted row, else the exact / first match
+      const chosen = results[activeIndex] ?? results.find((r) => r.exact_match) ?? results[0];
+      if (chosen) select(chosen.beneficiary_id);
+    } else if (e.key === "Escape") {
+      setOpen(false);
+    }
+  };
+
+  const showDropdown = open && query.trim().length > 0;
+
+  return (
+    <div ref={containerRef} className="relative w-full md:w-64">
+      <input
+        type="search"
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onKeyDown={handleKeyDown}
+        placeholder="🔍 Search beneficiary ID..."
+        className="w-full px-3 py-2 rounded border border-gray-300 text-sm focus:outline-none focus:ring-2 focus:ring-primary/30"
+        aria-label="Search beneficiaries by ID"
+        aria-autocomplete="list"
+        aria-expanded={showDropdown}
+        aria-controls={listboxId}
+        role="combobox"
+      />
+
+      {showDropdown && (
+        <ul
+          id={listboxId}
+          role="listbox"
+          className="absolute z-20 mt-1 w-full bg-white border border-gray-200 rounded shadow-lg max-h-72 overflow-y-auto text-sm"
+        >
+          {searching && results.length === 0 && (
+            <li className="px-3 py-2 text-gray-500">Searching...</li>
+          )}
+          {!searching && results.length === 0 && (
+            <li className="px-3 py-2 text-gray-500">No matching beneficiaries</li>
+          )}
+          {results.map((r, i) => (
+            <li
+              key={r.beneficiary_id}
+              role="option"
+              aria-selected={i === activeIndex}
+              onMouseDown={(e) => {
+                // mousedown so the pick lands before the input loses focus
+                e.preventDefault();
+                select(r.beneficiary_id);
+              }}
+              onMouseEnter={() => setActiveIndex(i)}
+              className={`flex items-center justify-between px-3 py-2 cursor-pointer ${
+                i === activeIndex ? "bg-primary/5" : "hover:bg-gray-50"
+              }`}
+            >
+              <span className="flex items-center gap-2">
+                <span className={`w-2 h-2 rounded-full ${RISK_DOT[r.risk_level] || "bg-gray-400"}`} />
+                <span className="font-medium text-gray-900">{r.beneficiary_id}</span>
+                {r.exact_match && (
+                  <span className="text-xs text-primary">exact</span>
+                )}
+              </span>
+              <span className="text-xs text-gray-500">{r.residence_district}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+"use client";
+
+export type CaseState =
+  | "OPEN"
+  | "ASSIGNED"
+  | "UNDER_REVIEW"
+  | "FIELD_VERIFICATION"
+  | "ESCALATED"
+  | "CLOSED";
+
+export type CaseResolution = "CONFIRMED" | "CLEARED";
+
+const STATE_LABELS: Record<CaseState, string> = {
+  OPEN: "Open",
+  ASSIGNED: "Assigned",
+  UNDER_REVIEW: "Under Review",
+  FIELD_VERIFICATION: "Field Verification",
+  ESCALATED: "Escalated",
+  CLOSED: "Closed",
+};
+
+const STATE_STYLES: Record<CaseState, string> = {
+  OPEN: "bg-gray-100 text-gray-700 border-gray-300",
+  ASSIGNED: "bg-sky-50 text-sky-800 border-sky-200",
+  UNDER_REVIEW: "bg-blue-100 text-blue-800 border-blue-300",
+  FIELD_VERIFICATION: "bg-purple-100 text-purple-800 border-purple-300",
+  ESCALATED: "bg-orange-100 text-orange-800 border-orange-300",
+  CLOSED: "bg-gray-50 text-gray-500 border-gray-200",
+};
+
+// Closed cases are colored by outcome rather than by state
+const RESOLUTION_STYLES: Record<CaseResolution, string> = {
+  CONFIRMED: "bg-red-50 text-red-800 border-red-200",
+  CLEARED: "bg-green-50 text-green-800 border-green-200",
+};
+
+interface CaseStatusBadgeProps {
+  state: CaseState;
+  resolution?: CaseResolution | null;
+}
+
+// Case lifecycle state as shown next to the risk level
+export default function CaseStatusBadge({ state, resolution }: CaseStatusBadgeProps) {
+  const closed = state === "CLOSED" && resolution;
+  const style = closed ? RESOLUTION_STYLES[resolution] : STATE_STYLES[state];
+  const label = closed
+    ? `Closed · ${resolution === "CONFIRMED" ? "Confirmed" : "Cleared"}`
+    : STATE_LABELS[state];
+
+  return (
+    <span className={`px-2 py-1 rounded text-xs font-medium border whitespace-nowrap ${style}`}>
+      {label}
+    </span>
+  );
+}
@@ -2,6 +2,9 @@
 
 import { useEffect, useState } from "react";
 import dynamic from "next/dynamic";
+import type { DistrictRisk } from "@/lib/bigquery";
+import { api } from "@/lib/client";
+import { useScheme } from "./SchemeProvider";
 
 // District coordinates for Indian states (approximate centroids)
 // In production, use proper GeoJSON boundaries
@@ -91,10 +94,10 @@ function getRadius(count: number, maxCount: number): number {
   return minRadius + ratio * (maxRadius - minRadius);
 }
 
-interface DistrictRisk {
-  residence_district: string;
-  anomaly_count: number;
-}
+// Small counts are withheld by the API; drawn alike so size and color reveal nothing
+const SUPPRESSED_COLOR = "#9ca3af";
+const SUPPRESSED_RADIUS = 8;
+const SUPPRESSED_LABEL = "Suppressed (small count)";
 
 interface DistrictHeatmapProps {
   data?: DistrictRisk[];
@@ -132,6 +135,7 @@ export default function DistrictHeatmap({ data = [], onDistrictClick }: District
   const [mapData, setMapData] = useState<DistrictRisk[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const { scheme, ready: schemeReady } = useScheme();
 
   // Ensure client-side rendering
   useEffect(() => {
@@ -148,10 +152,8 @@ export default function DistrictHeatmap({ data = [], onDistrictClick }: District
 
     async function fetchDistrictData() {
       try {
-        const res = await fetch("/api/geo/district-risk");
-        if (!res.ok) throw new Error(`HTTP ${res.status}`);
-        const json = await res.json();
-        setMapData(json);
+        const res = await api.geo.districtRisk({ scheme });
+        setMapData(res.data);
       } catch (err) {
         setError(err instanceof Error ? err.message : "Failed to load map data");
       } finally {
@@ -159,11 +161,13 @@ export default function DistrictHeatmap({ data = [], onDistrictClick }: District
       }
     }
 
-    fetchDistrictData();
-  }, [data]);
+    if (schemeReady) {
+      fetchDistrictData();
+    }
+  }, [data, scheme, schemeReady]);
 
   // Calculate max for scaling
-  const maxAnomalyCount = Math.max(...mapData.map((d) => d.anomaly_count), 1);
+  const maxAnomalyCount = Math.max(...mapData.map((d) => d.anomaly_count ?? 0), 1);
 
   if (!isClient) {
     return (
@@ -222,6 +226,10 @@ export default function DistrictHeatmap({ data = [], onDistrictClick }: District
             <span className="w-3 h-3 rounded-full bg-green-500"></span>
             <span>Low (&lt;20%)</span>
           </div>
+          <div className="flex items-center gap-2">
+            <span className="w-3 h-3 rounded-full bg-gray-400"></span>
+            <span>{SUPPRESSED_LABEL}</span>
+          </div>
         </div>
       </div>
 
@@ -238,8 +246,9 @@ export default function DistrictHeatmap({ data = [], onDistrictClick }: District
         
         {mapData.map((district) => {
           const coords = getDistrictCoordinates(district.residence_district);
-          const color = getHeatColor(district.anomaly_count, maxAnomalyCount);
-          const radius = getRadius(district.anomaly_count, maxAnomalyCount);
+          const count = district.anomaly_count;
+          const color = count === null ? SUPPRESSED_COLOR : getHeatColor(count, maxAnomalyCount);
+          const radius = count === null ? SUPPRESSED_RADIUS : getRadius(count, maxAnomalyCount);
 
           return (
             <CircleMarker
@@ -259,19 +268,25 @@ export default function DistrictHeatmap({ data = [], onDistrictClick }: District
               <Tooltip direction="top" offset={[0, -10]} opacity={1}>
                 <div className="text-sm">
                   <p className="font-semibold">{district.residence_district}</p>
-                  <p>Anomalies: {district.anomaly_count.toLocaleString()}</p>
+                  <p>Anomalies: {count === null ? SUPPRESSED_LABEL : count.toLocaleString()}</p>
                 </div>
               </Tooltip>
               <Popup>
                 <div className="text-sm">
                   <p className="font-bold text-lg">{district.residence_district}</p>
                   <p className="text-gray-600">Detected Anomalies</p>
-                  <p className="text-2xl font-bold" style={{ color }}>
-                    {district.anomaly_count.toLocaleString()}
-                  </p>
-                  <p className="text-xs text-gray-500 mt-1">
-                    {((district.anomaly_count / maxAnomalyCount) * 100).toFixed(1)}% of max
-                  </p>
+                  {count === null ? (
+                    <p className="text-gray-500 mt-1">{SUPPRESSED_LABEL}</p>
+                  ) : (
+                    <>
+                      <p className="text-2xl font-bold" style={{ color }}>
+                        {count.toLocaleString()}
+                      </p>
+                      <p className="text-xs text-gray-500 mt-1">
+                        {((count / maxAnomalyCount) * 100).toFixed(1)}% of max
+                      </p>
+                    </>
+                  )}
                 </div>
               </Popup>
             </CircleMarker>
@@ -10,7 +10,7 @@ const footerLinks = {
     resources: [
         { path: '/contact', label: 'Help & Support' },
         { path: '#', label: 'Documentation' },
-        { path: '#', label: 'API Reference' },
+        { path: '/api-reference', label: 'API Reference' },
         { path: '#', label: 'FAQs' },
     ],
     government: [
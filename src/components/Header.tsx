@@ -3,6 +3,8 @@
 import { useState } from 'react';
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
+import OfficerMenu from './OfficerMenu';
+import SchemeSwitcher from './SchemeSwitcher';
 
 const navLinks = [
     { path: '/', label: 'Home' },
@@ -11,12 +13,17 @@ const navLinks = [
     { path: '/technology', label: 'Technology' },
     { path: '/dashboard', label: 'Dashboard' },
     { path: '/analytics', label: 'Analytics' },
+    { path: '/queue', label: 'My Queue' },
     { path: '/contact', label: 'Support' },
 ];
 
+// Pages whose data is scoped to the selected welfare scheme
+const schemeScopedPaths = ['/dashboard', '/analytics', '/queue'];
+
 export default function Header() {
     const [isMenuOpen, setIsMenuOpen] = useState(false);
     const pathname = usePathname();
+    const isSchemeScoped = schemeScopedPaths.some((path) => pathname?.startsWith(path));
 
     return (
         <header className="sticky top-0 z-50">
@@ -69,6 +76,12 @@ export default function Header() {
                             ))}
                         </div>
 
+                        {/* Signed-in Officer & Scheme Switcher (data views only) */}
+                        <div className="flex items-center gap-2">
+                            {isSchemeScoped && <SchemeSwitcher />}
+                            <OfficerMenu />
+                        </div>
+
                         {/* Mobile Menu Button */}
                         <button
                             onClick={() => setIsMenuOpen(!isMenuOpen)}
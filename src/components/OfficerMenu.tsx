@@ -0,0 +1,45 @@
+"use client";
+
+import Link from "next/link";
+import { usePathname } from "next/navigation";
+import { useOfficer } from "./OfficerProvider";
+
+// Signed-in officer with a sign-out button, or a sign-in link
+export default function OfficerMenu() {
+  const { officer, jurisdiction, ready, signOut } = useOfficer();
+  const pathname = usePathname();
+
+  if (!ready || pathname === "/login") return null;
+
+  if (!officer) {
+    return (
+      <Link
+        href={`/login?next=${encodeURIComponent(pathname || "/dashboard")}`}
+        className="px-3 py-1.5 rounded-full border border-gray-300 bg-white text-sm font-medium text-gray-700 hover:bg-gray-50"
+      >
+        Sign in
+      </Link>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <span
+        className="hidden lg:inline text-sm font-medium text-gray-700"
+        title={`Officer recorded on audit actions and shown in My Queue${
+          jurisdiction
+            ? `\nJurisdiction: ${jurisdiction.statewide ? "statewide" : jurisdiction.districts.join(", ") || "no districts"}`
+            : ""
+        }`}
+      >
+        {officer.officer_name} ({officer.officer_id}) · {officer.role.replace("_", " ")}
+      </span>
+      <button
+        onClick={signOut}
+        className="px-3 py-1.5 rounded-full border border-gray-300 bg-white text-sm font-medium text-gray-700 hover:bg-gray-50"
+      >
+        Sign out
+      </button>
+    </div>
+  );
+}
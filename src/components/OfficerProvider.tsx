@@ -0,0 +1,103 @@
+"use client";
+
+import { createContext, useCallback, useContext, useEffect, useState } from "react";
+
+import type { SessionInfo } from "@/lib/auth";
+import type { RosterOfficer } from "@/lib/bigquery";
+import { ApiError, api } from "@/lib/client";
+import type { Jurisdiction } from "@/lib/jurisdiction";
+import type { Permission } from "@/lib/rbac";
+
+// Roster fields the UI shows; the signed-in officer falls back to these
+export type OfficerInfo = Pick<
+  RosterOfficer,
+  "officer_id" | "officer_name" | "districts" | "role" | "active" | "assignable" | "open_cases"
+>;
+
+interface OfficerContextValue {
+  officers: OfficerInfo[];
+  officer: OfficerInfo | null;        // Signed-in officer (null = not signed in)
+  jurisdiction: Jurisdiction | null;  // Districts whose data the officer sees
+  ready: boolean;                     // Session has been checked
+  can: (permission: Permission) => boolean;   // Only hides controls - the server enforces
+  refreshOfficers: () => Promise<void>;   // Reload roster and workloads after assignments
+  signOut: () => Promise<void>;
+}
+
+const OfficerContext = createContext<OfficerContextValue>({
+  officers: [],
+  officer: null,
+  jurisdiction: null,
+  ready: false,
+  can: () => false,
+  refreshOfficers: async () => {},
+  signOut: async () => {},
+});
+
+// Signed-in officer and the officer roster; the server records audit
+// actions against the session, so this identity is for display only
+export default function OfficerProvider({ children }: { children: React.ReactNode }) {
+  const [officers, setOfficers] = useState<OfficerInfo[]>([]);
+  const [session, setSession] = useState<SessionInfo | null>(null);
+  const [jurisdiction, setJurisdiction] = useState<Jurisdiction | null>(null);
+  const [ready, setReady] = useState(false);
+
+  const refreshOfficers = useCallback(async () => {
+    try {
+      const res = await api.officers.list();
+      setOfficers(res.data);
+    } catch (err) {
+      // Assignment controls stay hidden without a roster
+      console.error("Failed to load officers:", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    async function loadSession() {
+      try {
+        const res = await api.auth.session();
+        setSession(res.data.session);
+        setJurisdiction(res.data.jurisdiction);
+        await refreshOfficers();
+      } catch (err) {
+        // Not signed in is expected on the login page
+        if (!(err instanceof ApiError && err.code === "UNAUTHENTICATED")) {
+          console.error("Failed to load session:", err);
+        }
+      } finally {
+        setReady(true);
+      }
+    }
+    loadSession();
+  }, [refreshOfficers]);
+
+  const signOut = async () => {
+    await api.auth.logout().catch(() => {});
+    window.location.assign("/login");
+  };
+
+  // Roster entry carries districts and workload; fall back to the session alone
+  const officer = session
+    ? officers.find((o) => o.officer_id === session.officer_id) ?? {
+        officer_id: session.officer_id,
+        officer_name: session.officer_name,
+        districts: [],
+        role: session.role,
+        active: true,
+        assignable: false,
+        open_cases: 0,
+      }
+    : null;
+
+  const can = (permission: Permission) => session?.permissions.includes(permission) ?? false;
+
+  return (
+    <OfficerContext.Provider value={{ officers, officer, jurisdiction, ready, can, refreshOfficers, signOut }}>
+      {children}
+    </OfficerContext.Provider>
+  );
+}
+
+export function useOfficer(): OfficerContextValue {
+  return useContext(OfficerContext);
+}
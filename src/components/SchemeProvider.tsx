@@ -0,0 +1,69 @@
+"use client";
+
+import { createContext, useContext, useEffect, useState } from "react";
+import type { SchemeInfo } from "@/lib/bigquery";
+import { api } from "@/lib/client";
+
+interface SchemeContextValue {
+  schemes: SchemeInfo[];
+  scheme: string | null;              // Selected scheme id (null = server default)
+  activeScheme: SchemeInfo | null;
+  ready: boolean;                     // Scheme list loaded - data views wait for this
+  setScheme: (id: string) => void;
+}
+
+const STORAGE_KEY = "janavlokan.scheme";
+
+const SchemeContext = createContext<SchemeContextValue>({
+  schemes: [],
+  scheme: null,
+  activeScheme: null,
+  ready: false,
+  setScheme: () => {},
+});
+
+// Selected welfare scheme, shared by every dashboard / analytics view
+// and remembered across visits
+export default function SchemeProvider({ children }: { children: React.ReactNode }) {
+  const [schemes, setSchemes] = useState<SchemeInfo[]>([]);
+  const [scheme, setSchemeState] = useState<string | null>(null);
+  const [ready, setReady] = useState(false);
+
+  useEffect(() => {
+    async function loadSchemes() {
+      try {
+        const { data } = await api.schemes.list();
+        const stored = window.localStorage.getItem(STORAGE_KEY);
+
+        setSchemes(data.schemes);
+        setSchemeState(
+          data.schemes.some((s) => s.id === stored) ? stored : data.default_scheme,
+        );
+      } catch (err) {
+        // Views still work against the server's default scheme
+        console.error("Failed to load schemes:", err);
+      } finally {
+        setReady(true);
+      }
+    }
+
+    loadSchemes();
+  }, []);
+
+  const setScheme = (id: string) => {
+    setSchemeState(id);
+    window.localStorage.setItem(STORAGE_KEY, id);
+  };
+
+  const activeScheme = schemes.find((s) => s.id === scheme) ?? null;
+
+  return (
+    <SchemeContext.Provider value={{ schemes, scheme, activeScheme, ready, setScheme }}>
+      {children}
+    </SchemeContext.Provider>
+  );
+}
+
+export function useScheme(): SchemeContextValue {
+  return useContext(SchemeContext);
+}
@@ -0,0 +1,27 @@
+"use client";
+
+import { useScheme } from "./SchemeProvider";
+
+// Dropdown re-scoping every data view to one welfare scheme
+export default function SchemeSwitcher() {
+  const { schemes, scheme, setScheme } = useScheme();
+
+  // Nothing to switch between on single-scheme deployments
+  if (schemes.length < 2) return null;
+
+  return (
+    <select
+      value={scheme ?? ""}
+      onChange={(e) => setScheme(e.target.value)}
+      className="px-3 py-1.5 rounded-full border border-gray-300 bg-white text-sm font-medium text-gray-700 focus:outline-none focus:ring-2 focus:ring-primary/30"
+      aria-label="Select welfare scheme"
+      title="Welfare scheme shown on the dashboard and analytics"
+    >
+      {schemes.map((s) => (
+        <option key={s.id} value={s.id}>
+          {s.short_name}
+        </option>
+      ))}
+    </select>
+  );
+}
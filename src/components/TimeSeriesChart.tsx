@@ -13,35 +13,33 @@ import {
   Area,
   CartesianGrid,
 } from "recharts";
+import type { TemporalSpike, TimeSeriesDataPoint } from "@/lib/bigquery";
+import { api } from "@/lib/client";
+import { useScheme } from "./SchemeProvider";
 
-interface TimeSeriesDataPoint {
-  date: string;
-  high_risk_count: number;
-  medium_risk_count: number;
-  low_risk_count: number;
-  total_anomalies: number;
-}
+type Bucket = "day" | "week" | "month";
 
-interface TemporalSpike {
-  date: string;
-  spike_type: string;
-  anomaly_count: number;
-  avg_baseline: number;
-  deviation_percentage: number;
-  affected_districts: string[];
-}
+const BUCKET_LABELS: Record<Bucket, string> = {
+  day: "Daily",
+  week: "Weekly",
+  month: "Monthly",
+};
 
 interface TimeSeriesChartProps {
   days?: number;
   showSpikes?: boolean;
+  district?: string;   // Optional residence_district filter
+  flag?: string;       // Optional rule flag filter (e.g. multiple_dealers)
 }
 
-export default function TimeSeriesChart({ days = 30, showSpikes = true }: TimeSeriesChartProps) {
+export default function TimeSeriesChart({ days = 30, showSpikes = true, district, flag }: TimeSeriesChartProps) {
   const [timeSeriesData, setTimeSeriesData] = useState<TimeSeriesDataPoint[]>([]);
   const [spikesData, setSpikesData] = useState<TemporalSpike[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [selectedDays, setSelectedDays] = useState(days);
+  const [bucket, setBucket] = useState<Bucket>("day");
+  const { scheme, ready: schemeReady } = useScheme();
 
   useEffect(() => {
     async function fetchData() {
@@ -49,21 +47,17 @@ export default function TimeSeriesChart({ days = 30, showSpikes = true }: TimeSe
       setError(null);
 
       try {
+        // Spikes are an overlay - the chart is still drawn without them
         const [timeSeriesRes, spikesRes] = await Promise.all([
-          fetch(`/api/analytics/time-series?days=${selectedDays}`),
-          showSpikes ? fetch("/api/analytics/temporal-spikes") : Promise.resolve(null),
+          api.analytics.timeSeries({ scheme, days: selectedDays, bucket, district, flag }),
+          showSpikes
+            ? api.analytics.temporalSpikes({ scheme, district }).catch(() => null)
+            : Promise.resolve(null),
         ]);
 
-        if (!timeSeriesRes.ok) {
-          throw new Error(`Time series API error: ${timeSeriesRes.status}`);
-        }
-
-        const timeSeriesJson = await timeSeriesRes.json();
-        setTimeSeriesData(Array.isArray(timeSeriesJson) ? timeSeriesJson : []);
-
-        if (spikesRes && spikesRes.ok) {
-          const spikesJson = await spikesRes.json();
-          setSpikesData(Array.isArray(spikesJson) ? spikesJson : []);
+        setTimeSeriesData(timeSeriesRes.data);
+        if (spikesRes) {
+          setSpikesData(spikesRes.data);
         }
       } catch (err) {
         setError(err instanceof Error ? err.message : "Failed to load data");
@@ -72,12 +66,17 @@ export default function TimeSeriesChart({ days = 30, showSpikes = true }: TimeSe
       }
     }
 
-    fetchData();
-  }, [selectedDays, showSpikes]);
+    if (schemeReady) {
+      fetchData();
+    }
+  }, [selectedDays, showSpikes, bucket, district, flag, scheme, schemeReady]);
 
-  // Format date for display
+  // Format date for display (bucket start date; monthly buckets show the month)
   const formatDate = (dateStr: string) => {
     const date = new Date(dateStr);
+    if (bucket === "month") {
+      return date.toLocaleDateString("en-IN", { month: "short", year: "numeric" });
+    }
     return date.toLocaleDateString("en-IN", { month: "short", day: "numeric" });
   };
 
@@ -121,20 +120,37 @@ export default function TimeSeriesChart({ days = 30, showSpikes = true }: TimeSe
             <h3 className="font-heading font-semibold text-gray-900">
               📈 Risk Trends Over Time
             </h3>
-            <p className="text-sm text-gray-500">Daily anomaly distribution</p>
+            <p className="text-sm text-gray-500">
+              {BUCKET_LABELS[bucket]} flagged beneficiaries with transactions
+              {district ? ` • ${district}` : ""}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <select
+              value={bucket}
+              onChange={(e) => setBucket(e.target.value as Bucket)}
+              className="px-3 py-1.5 rounded border border-gray-300 text-sm focus:outline-none focus:ring-2 focus:ring-primary/30"
+              aria-label="Select bucket size"
+            >
+              <option value="day">Daily</option>
+              <option value="week">Weekly</option>
+              <option value="month">Monthly</option>
+            </select>
+            <select
+              value={selectedDays}
+              onChange={(e) => setSelectedDays(Number(e.target.value))}
+              className="px-3 py-1.5 rounded border border-gray-300 text-sm focus:outline-none focus:ring-2 focus:ring-primary/30"
+              aria-label="Select time range"
+            >
+              <option value={7}>Last 7 days</option>
+              <option value={14}>Last 14 days</option>
+              <option value={30}>Last 30 days</option>
+              <option value={60}>Last 60 days</option>
+              <option value={90}>Last 90 days</option>
+              <option value={180}>Last 180 days</option>
+              <option value={365}>Last 365 days</option>
+            </select>
           </div>
-          <select
-            value={selectedDays}
-            onChange={(e) => setSelectedDays(Number(e.target.value))}
-            className="px-3 py-1.5 rounded border border-gray-300 text-sm focus:outline-none focus:ring-2 focus:ring-primary/30"
-            aria-label="Select time range"
-          >
-            <option value={7}>Last 7 days</option>
-            <option value={14}>Last 14 days</option>
-            <option value={30}>Last 30 days</option>
-            <option value={60}>Last 60 days</option>
-            <option value={90}>Last 90 days</option>
-          </select>
         </div>
 
         <div className="h-80">
@@ -154,7 +170,7 @@ export default function TimeSeriesChart({ days = 30, showSpikes = true }: TimeSe
                   border: "1px solid #e5e7eb",
                   borderRadius: "8px",
                 }}
-                labelFormatter={(label) => `Date: ${formatDate(label)}`}
+                labelFormatter={(label) => `${bucket === "day" ? "Date" : "Period from"}: ${formatDate(label)}`}
               />
               <Legend />
               <Area
@@ -193,7 +209,8 @@ export default function TimeSeriesChart({ days = 30, showSpikes = true }: TimeSe
             ⚡ Detected Temporal Spikes
           </h3>
           <p className="text-sm text-gray-500 mb-4">
-            Days with anomaly counts significantly above baseline (1.5σ+)
+            Days where flagged-household activity rose well above the rolling baseline
+            of the preceding {spikesData[0].baseline_window.days} days (z-score)
           </p>
 
           <div className="overflow-x-auto">
@@ -201,16 +218,20 @@ export default function TimeSeriesChart({ days = 30, showSpikes = true }: TimeSe
               <thead>
                 <tr className="border-b border-gray-200 bg-gray-50">
                   <th className="px-4 py-2 text-left font-semibold">Date</th>
+                  <th className="px-4 py-2 text-left font-semibold">Scope</th>
                   <th className="px-4 py-2 text-left font-semibold">Severity</th>
                   <th className="px-4 py-2 text-left font-semibold">Anomalies</th>
                   <th className="px-4 py-2 text-left font-semibold">vs Baseline</th>
-                  <th className="px-4 py-2 text-left font-semibold">Affected Districts</th>
+                  <th className="px-4 py-2 text-left font-semibold">Contributing Districts</th>
                 </tr>
               </thead>
               <tbody className="divide-y divide-gray-200">
-                {spikesData.map((spike, idx) => (
-                  <tr key={idx} className="hover:bg-gray-50">
+                {spikesData.map((spike) => (
+                  <tr key={`${spike.scope}-${spike.district ?? "state"}-${spike.date}`} className="hover:bg-gray-50">
                     <td className="px-4 py-3 font-medium">{formatDate(spike.date)}</td>
+                    <td className="px-4 py-3 text-gray-600">
+                      {spike.scope === "STATE" ? "State-wide" : spike.district}
+                    </td>
                     <td className="px-4 py-3">
                       <span
                         className={`px-2 py-1 rounded text-xs font-medium ${
@@ -227,10 +248,13 @@ export default function TimeSeriesChart({ days = 30, showSpikes = true }: TimeSe
                     <td className="px-4 py-3 font-mono">{spike.anomaly_count}</td>
                     <td className="px-4 py-3">
                       <span className="text-red-600 font-medium">
-                        +{spike.deviation_percentage}%
+                        {spike.z_score}σ
                       </span>
-                      <span className="text-gray-400 ml-1 text-xs">
-                        (avg: {spike.avg_baseline})
+                      <span
+                        className="text-gray-400 ml-1 text-xs"
+                        title={`Baseline ${spike.baseline_window.from} – ${spike.baseline_window.to}`}
+                      >
+                        (avg: {spike.avg_baseline} ± {spike.baseline_stddev})
                       </span>
                     </td>
                     <td className="px-4 py-3 text-gray-600">
@@ -271,7 +295,7 @@ export default function TimeSeriesChart({ days = 30, showSpikes = true }: TimeSe
                   border: "1px solid #e5e7eb",
                   borderRadius: "8px",
                 }}
-                labelFormatter={(label) => `Date: ${formatDate(label)}`}
+                labelFormatter={(label) => `${bucket === "day" ? "Date" : "Period from"}: ${formatDate(label)}`}
               />
               <Line
                 type="monotone"
@@ -10,3 +10,9 @@ export { default as DistrictHeatmap } from './DistrictHeatmap';
 export { default as TimeSeriesChart } from './TimeSeriesChart';
 export { default as AuditPanel } from './AuditPanel';
 export { default as BatchRefreshButton } from './BatchRefreshButton';
+export { default as BeneficiarySearch } from './BeneficiarySearch';
+export { default as SchemeProvider } from './SchemeProvider';
+export { default as SchemeSwitcher } from './SchemeSwitcher';
+export { default as CaseStatusBadge } from './CaseStatusBadge';
+export { default as OfficerProvider } from './OfficerProvider';
+export { default as OfficerMenu } from './OfficerMenu';
@@ -0,0 +1,26 @@
+// Runs once when the Next.js server starts
+// Validates configuration up front so a misconfigured deployment fails
+// immediately with a full report instead of on the first API request,
+// then starts the background SLA checker and resumes alert emails left
+// waiting by the previous process.
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  const { getConfig, ConfigError } = await import('@/lib/config');
+  try {
+    const config = getConfig();
+    console.log(`✅ Configuration loaded (data source: ${config.dataSource.kind})`);
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      console.error(`❌ ${error.message}`);
+    }
+    throw error;
+  }
+
+  const { startSlaChecker } = await import('@/lib/sla');
+  startSlaChecker();
+
+  const { resumeAlertDeliveries } = await import('@/lib/alerts');
+  await resumeAlertDeliveries();
+}
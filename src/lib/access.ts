@@ -0,0 +1,247 @@
+// Access log
+// Everything privacy review needs about who touched beneficiary data lives in
+// the access_log table:
+//
+//   DENIED   - a request refused by access control, with why it was refused
+//   VIEWED   - a beneficiary's detail (risk profile) was opened
+//   SEARCHED - beneficiary search results, with the IDs returned
+//   EXPORTED - an audit report export, with the IDs it contained
+//   REIDENTIFIED - export pseudonyms resolved back to beneficiary IDs
+//   ANOMALY  - an officer viewed far more records in a day than usual
+//
+// An officer's record views are checked against their own usual daily volume
+// after each view; the first day that exceeds it is logged as an ANOMALY and
+// raised as an alert to the privacy office.
+//
+// Logging never changes the outcome of the request: a failed write is
+// queued in the durable outbox, and if that fails too it is only reported
+// on the console. Re-identification is the exception - it fails closed, so
+// real IDs are only revealed once the entry has been written or queued.
+//
+// Server-side only.
+
+import { raiseAlert } from '@/lib/alerts';
+import type { Session } from '@/lib/auth';
+import { getConfig } from '@/lib/config';
+import { getDataSource, type DataRow } from '@/lib/datasource';
+import { insertWithOutbox } from '@/lib/outbox';
+import type { ACCESS_OUTCOMES } from '@/lib/schemas';
+import type { SchemeId } from '@/lib/schemes';
+import type { NextRequest } from 'next/server';
+import { v4 as uuidv4 } from 'uuid';
+
+export type AccessOutcome = (typeof ACCESS_OUTCOMES)[number];
+
+// Outcomes recording a read of beneficiary records
+const DATA_ACCESS_OUTCOMES = ['VIEWED', 'SEARCHED', 'EXPORTED', 'REIDENTIFIED'] as const;
+export type DataAccessOutcome = (typeof DATA_ACCESS_OUTCOMES)[number];
+
+export interface AccessInput {
+  officer_id: string;
+  officer_name: string;
+  role: string;
+  method: string;
+  path: string;
+  permission: string | null;    // null = not a missing permission (no rule covers the route, out of jurisdiction, or a read)
+  outcome: AccessOutcome;
+  reason: string;
+  scheme?: SchemeId;
+  beneficiary_ids?: string[];   // Records read (VIEWED / SEARCHED / EXPORTED / REIDENTIFIED)
+}
+
+export interface AccessRecord extends Omit<AccessInput, 'scheme' | 'beneficiary_ids'> {
+  log_id: string;
+  scheme: string | null;
+  beneficiary_ids: string[];
+  record_count: number | null;  // Records read; null for other outcomes
+  created_at: string;
+}
+
+export interface AccessLogQuery {
+  officer_id?: string;
+  beneficiary_id?: string;      // Entries that read this record
+  outcome?: AccessOutcome;
+  from?: string;                // ISO timestamps, inclusive
+  to?: string;
+  limit: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Outcomes worth a console line; routine reads are only written to the table
+const CONSOLE_OUTCOMES: readonly AccessOutcome[] = ['DENIED', 'REIDENTIFIED', 'ANOMALY'];
+
+// A required access log entry could be neither written nor queued
+export class AccessLogError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AccessLogError';
+  }
+}
+
+/**
+ * Write an access log entry
+ * @param required - Throw AccessLogError if the entry is lost instead of only reporting it
+ */
+export async function recordAccess(input: AccessInput, required = false): Promise<AccessRecord> {
+  const { scheme, beneficiary_ids, ...rest } = input;
+  const reads = (DATA_ACCESS_OUTCOMES as readonly AccessOutcome[]).includes(input.outcome);
+  const record: AccessRecord = {
+    log_id: uuidv4(),
+    ...rest,
+    scheme: scheme ?? null,
+    beneficiary_ids: beneficiary_ids ?? [],
+    record_count: reads ? beneficiary_ids?.length ?? 0 : null,
+    created_at: new Date().toISOString(),
+  };
+  if (CONSOLE_OUTCOMES.includes(record.outcome)) {
+    console.warn(`🚫 ACCESS ${record.outcome}: ${record.officer_id} (${record.role}) ${record.method} ${record.path} - ${record.reason}`);
+  }
+
+  // Omit null columns - BigQuery cannot type null parameters
+  const row = Object.fromEntries(
+    Object.entries({ ...record, beneficiary_ids: record.beneficiary_ids.join(',') || null })
+      .filter(([, value]) => value !== null)
+  );
+  try {
+    await insertWithOutbox('access_log', row);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (required) throw new AccessLogError(`Access log unavailable (${message}) - try again later`);
+    console.error('Access log write failed:', message);
+  }
+  return record;
+}
+
+/**
+ * Record that the signed-in officer read beneficiary records
+ * Record views are then checked against the officer's usual volume; the check
+ * only reports its own failures.
+ * @param required - Throw AccessLogError if the entry cannot be written or queued
+ */
+export async function recordDataAccess(
+  request: NextRequest,
+  session: Session,
+  access: { outcome: DataAccessOutcome; scheme: SchemeId; beneficiary_ids: string[]; reason: string },
+  required = false
+): Promise<void> {
+  await recordAccess({
+    officer_id: session.officer_id,
+    officer_name: session.officer_name,
+    role: session.role,
+    method: request.method,
+    path: request.nextUrl.pathname,
+    permission: null,
+    ...access,
+  }, required);
+
+  if (access.outcome !== 'VIEWED' || access.beneficiary_ids.length === 0) return;
+  try {
+    await checkViewVolume(request, session, access.scheme);
+  } catch (error) {
+    console.error('View volume check failed:', error instanceof Error ? error.message : error);
+  }
+}
+
+// Flag the officer's first day above their usual volume; the ANOMALY entry
+// keeps later views that day from raising the alert again
+async function checkViewVolume(request: NextRequest, session: Session, scheme: SchemeId): Promise<void> {
+  const { baselineDays, minViews, multiplier, recipient } = getConfig().accessMonitor;
+  const dataSource = getDataSource();
+  const dayStart = new Date(new Date().toISOString().slice(0, 10));
+  const baselineStart = new Date(dayStart.getTime() - baselineDays * DAY_MS);
+
+  const rows = await dataSource.query(`
+    SELECT
+      SUM(CASE WHEN outcome = 'VIEWED' AND created_at >= @day_start THEN record_count ELSE 0 END) AS views_today,
+      SUM(CASE WHEN outcome = 'VIEWED' AND created_at < @day_start THEN record_count ELSE 0 END) AS views_before,
+      SUM(CASE WHEN outcome = 'ANOMALY' AND created_at >= @day_start THEN 1 ELSE 0 END) AS flagged_today
+    FROM ${dataSource.table('access_log')}
+    WHERE officer_id = @officer_id
+      AND outcome IN ('VIEWED', 'ANOMALY')
+      AND created_at >= @baseline_start
+  `, {
+    officer_id: session.officer_id,
+    day_start: dayStart.toISOString(),
+    baseline_start: baselineStart.toISOString(),
+  });
+
+  const viewsToday = Number(rows[0]?.views_today ?? 0);
+  const usual = Number(rows[0]?.views_before ?? 0) / baselineDays;
+  const threshold = Math.max(minViews, usual * multiplier);
+  if (viewsToday <= threshold || Number(rows[0]?.flagged_today ?? 0) > 0) return;
+
+  const reason = `${session.officer_name} (${session.officer_id}) viewed ${viewsToday} beneficiary records today ` +
+    `- usually ${usual.toFixed(1)} a day over the last ${baselineDays} days`;
+  await recordAccess({
+    officer_id: session.officer_id,
+    officer_name: session.officer_name,
+    role: session.role,
+    method: request.method,
+    path: request.nextUrl.pathname,
+    permission: null,
+    outcome: 'ANOMALY',
+    reason,
+    scheme,
+  });
+  // An officer-level alert: no beneficiary is implicated
+  await raiseAlert({ scheme, officer_id: session.officer_id, view_count: viewsToday, reason, recipient });
+}
+
+function toAccessRecord(row: DataRow): AccessRecord {
+  return {
+    log_id: row.log_id,
+    officer_id: row.officer_id,
+    officer_name: row.officer_name,
+    role: row.role,
+    method: row.method,
+    path: row.path,
+    permission: row.permission ?? null,
+    outcome: row.outcome,
+    reason: row.reason ?? '',
+    scheme: row.scheme ?? null,
+    beneficiary_ids: row.beneficiary_ids ? String(row.beneficiary_ids).split(',') : [],
+    record_count: row.record_count === null || row.record_count === undefined ? null : Number(row.record_count),
+    created_at: row.created_at?.value || row.created_at,
+  };
+}
+
+/**
+ * Access log entries, most recent first
+ */
+export async function listAccessLog(query: AccessLogQuery): Promise<AccessRecord[]> {
+  const dataSource = getDataSource();
+  const conditions: string[] = [];
+  const params: Record<string, unknown> = { limit: query.limit };
+
+  if (query.officer_id) {
+    conditions.push('officer_id = @officer_id');
+    params.officer_id = query.officer_id;
+  }
+  if (query.beneficiary_id) {
+    // beneficiary_ids is comma-separated; match whole IDs only (INSTR and || work on both backends)
+    conditions.push("INSTR(',' || beneficiary_ids || ',', @beneficiary_token) > 0");
+    params.beneficiary_token = `,${query.beneficiary_id},`;
+  }
+  if (query.outcome) {
+    conditions.push('outcome = @outcome');
+    params.outcome = query.outcome;
+  }
+  if (query.from) {
+    conditions.push('created_at >= @from');
+    params.from = query.from;
+  }
+  if (query.to) {
+    conditions.push('created_at <= @to');
+    params.to = query.to;
+  }
+
+  const rows = await dataSource.query(`
+    SELECT *
+    FROM ${dataSource.table('access_log')}
+    ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+    ORDER BY created_at DESC
+    LIMIT @limit
+  `, params);
+  return rows.map(toAccessRecord);
+}
@@ -0,0 +1,51 @@
+import fs from 'fs';
+import { listAlerts, raiseAlert, retryAlertDeliveries } from '@/lib/alerts';
+import { getConfig } from '@/lib/config';
+import { getDataSource } from '@/lib/datasource';
+import { describe, expect, it } from 'vitest';
+
+const shared = globalThis as typeof globalThis & { __janavlokanAlertRetry?: unknown };
+
+function sentMessages(): number {
+  const dir = getConfig().mail.dir;
+  return fs.existsSync(dir) ? fs.readdirSync(dir).length : 0;
+}
+
+// Put an alert back into a delivery state, as a failed or crashed attempt leaves it
+async function setDelivery(alertId: string, status: string, error: string | null, claimedAt: string) {
+  const dataSource = getDataSource();
+  await dataSource.execute(`
+    UPDATE ${dataSource.table('alerts')}
+    SET delivery_status = @status, delivery_error = ${error === null ? 'NULL' : '@error'}, claimed_at = @claimed_at
+    WHERE alert_id = @alert_id
+  `, { alert_id: alertId, status, claimed_at: claimedAt, ...(error === null ? {} : { error }) });
+}
+
+describe('alert delivery', () => {
+  it('sends a deferred alert once when two retry passes overlap', async () => {
+    const alert = await raiseAlert({ scheme: 'lpg', beneficiary_id: 'B-1', reason: 'Test' });
+    expect(alert.delivery_status).toBe('QUEUED');
+    await setDelivery(alert.alert_id, 'QUEUED', 'Connection refused', alert.created_at);
+    const before = sentMessages();
+
+    // A second module instance has its own view of the retry in flight
+    const first = retryAlertDeliveries();
+    delete shared.__janavlokanAlertRetry;
+    const second = retryAlertDeliveries();
+    const results = await Promise.all([first, second]);
+
+    expect(results.reduce((sum, result) => sum + result.attempted, 0)).toBe(1);
+    expect(sentMessages()).toBe(before + 1);
+  });
+
+  it('leaves an alert being sent alone until its claim goes stale', async () => {
+    const alert = await raiseAlert({ scheme: 'lpg', beneficiary_id: 'B-2', reason: 'Test' });
+    await setDelivery(alert.alert_id, 'SENDING', null, new Date().toISOString());
+    expect((await retryAlertDeliveries()).attempted).toBe(0);
+
+    await setDelivery(alert.alert_id, 'SENDING', null, new Date(Date.now() - 60 * 60_000).toISOString());
+    expect((await retryAlertDeliveries()).attempted).toBe(1);
+    const [latest] = await listAlerts({ limit: 1 });
+    expect(latest).toMatchObject({ alert_id: alert.alert_id, delivery_status: 'QUEUED', delivery_attempts: 2 });
+  });
+});
@@ -0,0 +1,455 @@
+// Alerts
+// Every alert raised - by an officer from the dashboard or by a background
+// check - is kept in the alerts table and emailed through the configured mail
+// transport (lib/mail). The row records how delivery went:
+//   SENDING - claimed by a delivery attempt that has not finished
+//   SENT    - accepted by the SMTP server
+//   QUEUED  - written to the development mail directory, or waiting for a
+//             retry after a transient failure (retried every MAIL_RETRY_INTERVAL_MS
+//             until MAIL_MAX_ATTEMPTS)
+//   FAILED  - permanently refused, or out of attempts
+//   LOGGED  - raised before email delivery existed
+//
+// An attempt first claims the row (SENDING with a fresh delivery_claim), so two
+// retry passes - or a retry and the first send - never email the same alert
+// twice. A claim left behind by a crash is taken over once it is CLAIM_STALE_MS
+// old. The retry state lives on globalThis: instrumentation and the routes are
+// separate module instances in Next.js.
+//
+// Each alert has a kind:
+//   RISK           - a beneficiary at risk (dashboard, SLA escalation)
+//   RULE           - raised by an alert rule (lib/rules.ts), with its rule_id;
+//                    those about a dealer or district have no beneficiary_id
+//   ACCESS_ANOMALY - an officer viewed unusually many records (lib/access.ts),
+//                    with the officer_id and view_count; no beneficiary
+// Rows written before kinds existed are RISK, or RULE if they have a rule_id.
+//
+// Server-side only.
+
+import { getConfig } from '@/lib/config';
+import { getDataSource, isMissingTableError, type DataRow, type QueryParams } from '@/lib/datasource';
+import { MailDeliveryError, getMailTransport, parseRecipients, type MailTransportKind } from '@/lib/mail';
+import type { ALERT_KINDS, DELIVERY_STATUSES } from '@/lib/schemas';
+import { SCHEMES, type SchemeId } from '@/lib/schemes';
+import { v4 as uuidv4 } from 'uuid';
+
+export type DeliveryStatus = (typeof DELIVERY_STATUSES)[number];
+export type AlertKind = (typeof ALERT_KINDS)[number];
+
+// The kind follows from what is set: rule_id -> RULE, officer_id -> ACCESS_ANOMALY, else RISK
+export interface AlertInput {
+  scheme: SchemeId;
+  beneficiary_id?: string;      // Unset for rule alerts about a dealer or district and for access anomalies
+  risk_score?: number;
+  reason: string;
+  recipient?: string;           // Comma-separated; unset = ALERT_RECIPIENT
+  rule_id?: string;             // Alert rule that raised it
+  officer_id?: string;          // Officer whose record views were unusual
+  view_count?: number;          // Records the officer viewed that day
+}
+
+export interface AlertRecord {
+  alert_id: string;
+  kind: AlertKind;
+  scheme: SchemeId;
+  beneficiary_id: string | null;
+  risk_score: number | null;
+  rule_id: string | null;
+  officer_id: string | null;
+  view_count: number | null;
+  reason: string;
+  recipient: string;
+  delivery_status: DeliveryStatus;
+  transport: MailTransportKind | null;    // Last transport tried (null for LOGGED alerts)
+  delivery_attempts: number;
+  delivered_at: string | null;            // When the mail server accepted it
+  delivery_error: string | null;          // Why the last attempt failed
+  message_id: string | null;
+  created_at: string;
+}
+
+export interface AlertRetryResult {
+  attempted: number;
+  sent: number;
+  queued: number;
+  failed: number;
+  pending: number;              // Still waiting for a retry
+}
+
+const RETRY_BATCH = 50;
+// A SENDING claim older than this was left by a process that died mid-delivery
+const CLAIM_STALE_MS = 10 * 60_000;
+
+// Alerts a retry pass should pick up: deferred, or claimed by a dead attempt
+const RETRY_DUE_SQL = "((delivery_status = 'QUEUED' AND delivery_error IS NOT NULL) OR (delivery_status = 'SENDING' AND claimed_at < @stale_before))";
+
+interface RetryState {
+  retryInFlight: Promise<AlertRetryResult> | null;
+  retryTimer: ReturnType<typeof setInterval> | null;
+}
+
+// One retry state per process, shared by every module instance
+const shared = globalThis as typeof globalThis & { __janavlokanAlertRetry?: RetryState };
+
+function retryState(): RetryState {
+  shared.__janavlokanAlertRetry ??= { retryInFlight: null, retryTimer: null };
+  return shared.__janavlokanAlertRetry;
+}
+
+const staleBefore = () => new Date(Date.now() - CLAIM_STALE_MS).toISOString();
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function toIso(value: unknown): string | null {
+  const raw = (value as { value?: unknown } | null)?.value ?? value;
+  return raw ? new Date(raw as string).toISOString() : null;
+}
+
+// Kind of rows written before the kind column existed
+const LEGACY_KIND_SQL = "COALESCE(kind, CASE WHEN rule_id IS NOT NULL THEN 'RULE' ELSE 'RISK' END)";
+
+const toNumber = (value: unknown) => (value === null || value === undefined ? null : Number(value));
+
+function toAlertRecord(row: DataRow): AlertRecord {
+  return {
+    alert_id: row.alert_id,
+    kind: row.kind ?? (row.rule_id ? 'RULE' : 'RISK'),
+    scheme: row.scheme,
+    // Stored empty - the column predates alerts without a beneficiary
+    beneficiary_id: row.beneficiary_id || null,
+    risk_score: toNumber(row.risk_score),
+    rule_id: row.rule_id ?? null,
+    officer_id: row.officer_id ?? null,
+    view_count: toNumber(row.view_count),
+    reason: row.reason ?? '',
+    recipient: row.recipient ?? '',
+    delivery_status: row.delivery_status,
+    transport: row.transport ?? null,
+    delivery_attempts: Number(row.delivery_attempts ?? 0),
+    delivered_at: toIso(row.delivered_at),
+    delivery_error: row.delivery_error ?? null,
+    message_id: row.message_id ?? null,
+    created_at: toIso(row.created_at) as string,
+  };
+}
+
+// Subject, opening line and closing line of an alert email
+function alertWording(alert: AlertRecord, schemeName: string): [string, string, string] {
+  if (alert.kind === 'ACCESS_ANOMALY') {
+    return [
+      `access anomaly - officer ${alert.officer_id}`,
+      `Officer ${alert.officer_id} viewed an unusual number of beneficiary records (${schemeName}).`,
+      'Review their entries in the JanAvlokan access log.',
+    ];
+  }
+  if (alert.beneficiary_id) {
+    return [
+      `beneficiary ${alert.beneficiary_id}`,
+      `An alert was raised for beneficiary ${alert.beneficiary_id} (${schemeName}).`,
+      'Review the case in JanAvlokan.',
+    ];
+  }
+  return ['alert rule match', `An alert rule matched (${schemeName}).`, 'Review the matching cases in JanAvlokan.'];
+}
+
+function alertMessage(alert: AlertRecord) {
+  const scheme = SCHEMES[alert.scheme];
+  const [about, opening, closing] = alertWording(alert, scheme.name);
+  return {
+    to: parseRecipients(alert.recipient),
+    subject: `[JanAvlokan] ${scheme.shortName} alert - ${about}`,
+    text: [
+      opening,
+      '',
+      `Reason: ${alert.reason || 'Not given'}`,
+      ...(alert.risk_score === null ? [] : [`Risk score: ${alert.risk_score}`]),
+      ...(alert.view_count === null ? [] : [`Records viewed today: ${alert.view_count}`]),
+      `Raised at: ${alert.created_at}`,
+      `Alert ID: ${alert.alert_id}`,
+      ...(alert.rule_id ? [`Rule ID: ${alert.rule_id}`] : []),
+      '',
+      closing,
+    ].join('\n'),
+    headers: {
+      'X-JanAvlokan-Alert-Id': alert.alert_id,
+      ...(alert.rule_id ? { 'X-JanAvlokan-Rule-Id': alert.rule_id } : {}),
+    },
+  };
+}
+
+// Nullable columns are written as NULL literals - BigQuery cannot type a null parameter.
+// Only the holder of the claim writes the outcome.
+async function saveDelivery(alert: AlertRecord, claim: string): Promise<void> {
+  const params: QueryParams = {
+    alert_id: alert.alert_id,
+    claim,
+    delivery_status: alert.delivery_status,
+    transport: alert.transport,
+    delivery_attempts: alert.delivery_attempts,
+  };
+  const nullable = { delivered_at: alert.delivered_at, delivery_error: alert.delivery_error, message_id: alert.message_id };
+  const assignments = Object.entries(nullable).map(([column, value]) => {
+    if (value === null) return `${column} = NULL`;
+    params[column] = value;
+    return `${column} = @${column}`;
+  });
+
+  const dataSource = getDataSource();
+  await dataSource.execute(`
+    UPDATE ${dataSource.table('alerts')}
+    SET delivery_status = @delivery_status, transport = @transport, delivery_attempts = @delivery_attempts,
+        ${assignments.join(', ')}
+    WHERE alert_id = @alert_id AND delivery_claim = @claim
+  `, params);
+}
+
+/**
+ * Claim a waiting alert for one delivery attempt
+ * @returns The claim, or null if another attempt holds the alert or it is no longer waiting
+ */
+async function claimDelivery(alert: AlertRecord): Promise<string | null> {
+  const claim = uuidv4();
+  const dataSource = getDataSource();
+  try {
+    await dataSource.execute(`
+      UPDATE ${dataSource.table('alerts')}
+      SET delivery_status = 'SENDING', delivery_claim = @claim, claimed_at = @claimed_at
+      WHERE alert_id = @alert_id AND delivery_attempts = @delivery_attempts AND ${RETRY_DUE_SQL}
+    `, {
+      claim,
+      claimed_at: new Date().toISOString(),
+      alert_id: alert.alert_id,
+      delivery_attempts: alert.delivery_attempts,
+      stale_before: staleBefore(),
+    });
+    const rows = await dataSource.query(`
+      SELECT delivery_claim
+      FROM ${dataSource.table('alerts')}
+      WHERE alert_id = @alert_id
+    `, { alert_id: alert.alert_id });
+    return rows[0]?.delivery_claim === claim ? claim : null;
+  } catch (error) {
+    // Still waiting - the next pass tries again
+    console.error(`Alert ${alert.alert_id} could not be claimed for delivery:`, errorMessage(error));
+    return null;
+  }
+}
+
+// Retry on an interval while alerts are waiting; stops once none are
+function ensureRetryTimer(): void {
+  const state = retryState();
+  if (state.retryTimer) return;
+  state.retryTimer = setInterval(() => {
+    retryAlertDeliveries().catch((error) => console.error('Alert delivery retry failed:', error));
+  }, getConfig().mail.retryIntervalMs);
+  // Never keep the process alive just for retries
+  state.retryTimer.unref?.();
+}
+
+function stopRetryTimer(): void {
+  const state = retryState();
+  if (state.retryTimer) clearInterval(state.retryTimer);
+  state.retryTimer = null;
+}
+
+// One delivery attempt under a claim; the outcome is written back to the alert's row
+async function deliver(alert: AlertRecord, claim: string): Promise<AlertRecord> {
+  const { maxAttempts } = getConfig().mail;
+  const transport = getMailTransport();
+  const attempt: AlertRecord = { ...alert, transport: transport.kind, delivery_attempts: alert.delivery_attempts + 1 };
+
+  let result: AlertRecord;
+  try {
+    const delivery = await transport.send(alertMessage(alert));
+    result = {
+      ...attempt,
+      delivery_status: delivery.status,
+      delivered_at: delivery.status === 'SENT' ? new Date().toISOString() : null,
+      delivery_error: null,
+      message_id: delivery.message_id,
+    };
+  } catch (error) {
+    const permanent = error instanceof MailDeliveryError && error.permanent;
+    const retry = !permanent && attempt.delivery_attempts < maxAttempts;
+    result = { ...attempt, delivery_status: retry ? 'QUEUED' : 'FAILED', delivery_error: errorMessage(error) };
+    console.error(`Alert ${alert.alert_id} email ${retry ? 'deferred' : 'failed'}:`, result.delivery_error);
+    if (retry) ensureRetryTimer();
+  }
+
+  try {
+    await saveDelivery(result, claim);
+  } catch (error) {
+    // The message may be out already - report what happened rather than fail the alert
+    console.error(`Delivery status of alert ${alert.alert_id} not recorded:`, errorMessage(error));
+  }
+  return result;
+}
+
+/**
+ * Raise an alert, record it in the alerts table and email it
+ * @returns The alert with the outcome of the first delivery attempt
+ * @throws If the alerts table cannot be written
+ */
+export async function raiseAlert(input: AlertInput): Promise<AlertRecord> {
+  const alert: AlertRecord = {
+    alert_id: uuidv4(),
+    kind: input.rule_id ? 'RULE' : input.officer_id ? 'ACCESS_ANOMALY' : 'RISK',
+    scheme: input.scheme,
+    beneficiary_id: input.beneficiary_id || null,
+    risk_score: input.risk_score === undefined ? null : Number(input.risk_score),
+    rule_id: input.rule_id || null,
+    officer_id: input.officer_id || null,
+    view_count: input.view_count === undefined ? null : Number(input.view_count),
+    reason: input.reason || '',
+    recipient: input.recipient || getConfig().mail.alertRecipient,
+    delivery_status: 'SENDING',
+    transport: getMailTransport().kind,
+    delivery_attempts: 0,
+    delivered_at: null,
+    delivery_error: null,
+    message_id: null,
+    created_at: new Date().toISOString(),
+  };
+
+  // Recorded before sending so an alert is never emailed without a trace, and
+  // claimed by this attempt from the start
+  const claim = uuidv4();
+  const params: QueryParams = {
+    alert_id: alert.alert_id,
+    kind: alert.kind,
+    scheme: alert.scheme,
+    beneficiary_id: alert.beneficiary_id ?? '',
+    reason: alert.reason,
+    recipient: alert.recipient,
+    delivery_status: alert.delivery_status,
+    transport: alert.transport,
+    delivery_attempts: alert.delivery_attempts,
+    delivery_claim: claim,
+    claimed_at: alert.created_at,
+    created_at: alert.created_at,
+  };
+  const nullable = {
+    risk_score: alert.risk_score,
+    rule_id: alert.rule_id,
+    officer_id: alert.officer_id,
+    view_count: alert.view_count,
+  };
+  const values = Object.entries(nullable).map(([column, value]) => {
+    if (value === null) return 'NULL';
+    params[column] = value;
+    return `@${column}`;
+  });
+
+  const dataSource = getDataSource();
+  await dataSource.execute(`
+    INSERT INTO ${dataSource.table('alerts')}
+    (alert_id, kind, scheme, beneficiary_id, reason, recipient, delivery_status, transport, delivery_attempts, delivery_claim, claimed_at, created_at, ${Object.keys(nullable).join(', ')})
+    VALUES (@alert_id, @kind, @scheme, @beneficiary_id, @reason, @recipient, @delivery_status, @transport, @delivery_attempts, @delivery_claim, @claimed_at, @created_at, ${values.join(', ')})
+  `, params);
+
+  return deliver(alert, claim);
+}
+
+/**
+ * Most recent alerts, optionally only those with one delivery status, of one
+ * kind or raised by one alert rule
+ */
+export async function listAlerts(
+  options: { status?: DeliveryStatus; kind?: AlertKind; rule_id?: string; limit: number }
+): Promise<AlertRecord[]> {
+  const params: QueryParams = { limit: options.limit };
+  const conditions: string[] = [];
+  if (options.status) {
+    conditions.push('delivery_status = @status');
+    params.status = options.status;
+  }
+  if (options.kind) {
+    conditions.push(`${LEGACY_KIND_SQL} = @kind`);
+    params.kind = options.kind;
+  }
+  if (options.rule_id) {
+    conditions.push('rule_id = @rule_id');
+    params.rule_id = options.rule_id;
+  }
+
+  const dataSource = getDataSource();
+  const rows = await dataSource.query(`
+    SELECT *
+    FROM ${dataSource.table('alerts')}
+    ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+    ORDER BY created_at DESC
+    LIMIT @limit
+  `, params);
+  return rows.map(toAlertRecord);
+}
+
+/**
+ * Alerts waiting for a delivery retry or being delivered
+ */
+export async function countPendingDeliveries(): Promise<number> {
+  const dataSource = getDataSource();
+  const rows = await dataSource.query(`
+    SELECT COUNT(*) AS pending
+    FROM ${dataSource.table('alerts')}
+    WHERE (delivery_status = 'QUEUED' AND delivery_error IS NOT NULL) OR delivery_status = 'SENDING'
+  `);
+  return Number(rows[0]?.pending ?? 0);
+}
+
+/**
+ * Retry every alert waiting after a transient delivery failure
+ * Concurrent calls share one run.
+ */
+export function retryAlertDeliveries(): Promise<AlertRetryResult> {
+  const state = retryState();
+  if (!state.retryInFlight) {
+    state.retryInFlight = retryPending().finally(() => {
+      state.retryInFlight = null;
+    });
+  }
+  return state.retryInFlight;
+}
+
+async function retryPending(): Promise<AlertRetryResult> {
+  const dataSource = getDataSource();
+  const rows = await dataSource.query(`
+    SELECT *
+    FROM ${dataSource.table('alerts')}
+    WHERE ${RETRY_DUE_SQL}
+    ORDER BY created_at ASC
+    LIMIT @limit
+  `, { limit: RETRY_BATCH, stale_before: staleBefore() });
+
+  const result: AlertRetryResult = { attempted: 0, sent: 0, queued: 0, failed: 0, pending: 0 };
+  for (const row of rows) {
+    const alert = toAlertRecord(row);
+    const claim = await claimDelivery(alert);
+    if (!claim) continue;
+    result.attempted++;
+    const delivered = await deliver(alert, claim);
+    if (delivered.delivery_status === 'SENT') result.sent++;
+    else if (delivered.delivery_status === 'FAILED') result.failed++;
+    else result.queued++;
+  }
+
+  result.pending = await countPendingDeliveries();
+  if (result.pending === 0) stopRetryTimer();
+  if (result.attempted > 0) {
+    console.log(`Alert delivery retry: ${result.sent} sent, ${result.queued} queued, ${result.failed} failed, ${result.pending} pending`);
+  }
+  return result;
+}
+
+/**
+ * Pick up alerts left waiting by a previous server process
+ * (called once at startup; a missing alerts table just means nothing is waiting)
+ */
+export async function resumeAlertDeliveries(): Promise<void> {
+  try {
+    if ((await countPendingDeliveries()) > 0) ensureRetryTimer();
+  } catch (error) {
+    if (!isMissingTableError(error)) console.error('Alert delivery resume failed:', errorMessage(error));
+  }
+}
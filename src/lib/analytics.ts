@@ -0,0 +1,148 @@
+// Date helpers for the analytics routes
+// All dates are calendar dates in 'YYYY-MM-DD' form, handled in UTC so
+// bucket boundaries match what BigQuery / SQLite compute server-side.
+
+import type { DateBucket } from '@/lib/datasource';
+
+const DAY_MS = 86_400_000;
+
+/**
+ * Normalize a DATE column value from either backend
+ * BigQuery returns { value: 'YYYY-MM-DD' }, SQLite returns the string itself
+ */
+export function toIsoDate(value: unknown): string | null {
+  if (value && typeof value === 'object' && 'value' in value) {
+    return toIsoDate((value as { value: unknown }).value);
+  }
+  return typeof value === 'string' ? value.slice(0, 10) : null;
+}
+
+export function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+// Whole days from `from` to `to` (0 when equal)
+export function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+}
+
+// Start of the bucket containing `date` (weeks start on Monday)
+export function bucketStart(date: string, bucket: DateBucket): string {
+  if (bucket === 'month') return `${date.slice(0, 7)}-01`;
+  if (bucket === 'week') {
+    const weekday = new Date(`${date}T00:00:00Z`).getUTCDay(); // 0 = Sunday
+    return addDays(date, -((weekday + 6) % 7));
+  }
+  return date;
+}
+
+/**
+ * Every bucket start between two dates (inclusive), so empty periods
+ * show up as zero instead of disappearing from the chart
+ */
+export function enumerateBuckets(from: string, to: string, bucket: DateBucket): string[] {
+  const buckets: string[] = [];
+  let current = bucketStart(from, bucket);
+  while (current <= to) {
+    buckets.push(current);
+    if (bucket === 'month') {
+      const [year, month] = current.split('-').map(Number);
+      current = new Date(Date.UTC(year, month, 1)).toISOString().slice(0, 10);
+    } else {
+      current = addDays(current, bucket === 'week' ? 7 : 1);
+    }
+  }
+  return buckets;
+}
+
+// ============================================
+// Temporal spike detection
+// Rolling baseline over the preceding N days (the spike day itself is
+// excluded), z-score against the baseline standard deviation.
+// DETERMINISTIC - same input always yields the same spikes
+// ============================================
+
+export type SpikeSeverity = 'CRITICAL' | 'HIGH' | 'MODERATE';
+
+export interface SpikeBands {
+  critical: number;
+  high: number;
+  moderate: number;
+}
+
+export interface BaselineStats {
+  window_from: string;
+  window_to: string;
+  mean: number;
+  stddev: number;
+}
+
+export interface DailySpike {
+  date: string;
+  count: number;
+  baseline: BaselineStats;
+  z_score: number;
+  severity: SpikeSeverity;
+}
+
+// Counts are whole households, so never let a flat baseline make a
+// single extra household look like a many-sigma event
+const MIN_STDDEV = 1;
+
+export function zScore(count: number, baseline: BaselineStats): number {
+  return (count - baseline.mean) / Math.max(baseline.stddev, MIN_STDDEV);
+}
+
+export function classifySpike(zScore: number, bands: SpikeBands): SpikeSeverity | null {
+  if (zScore >= bands.critical) return 'CRITICAL';
+  if (zScore >= bands.high) return 'HIGH';
+  if (zScore >= bands.moderate) return 'MODERATE';
+  return null;
+}
+
+/**
+ * Baseline mean / standard deviation for `date` from the `windowDays` days before it
+ * @param series - Daily counts keyed by 'YYYY-MM-DD' (missing days count as 0)
+ */
+export function rollingBaseline(
+  series: Map<string, number>,
+  date: string,
+  windowDays: number
+): BaselineStats {
+  const windowFrom = addDays(date, -windowDays);
+  const windowTo = addDays(date, -1);
+  const values: number[] = [];
+  for (let day = windowFrom; day <= windowTo; day = addDays(day, 1)) {
+    values.push(series.get(day) || 0);
+  }
+  const mean = values.reduce((a, b) => a + b, 0) / values.length;
+  const variance = values.length > 1
+    ? values.reduce((a, b) => a + (b - mean) ** 2, 0) / (values.length - 1)
+    : 0;
+  return { window_from: windowFrom, window_to: windowTo, mean, stddev: Math.sqrt(variance) };
+}
+
+/**
+ * Find days in [from, to] whose count sits above the rolling baseline
+ * by at least the moderate sigma band
+ */
+export function detectDailySpikes(
+  series: Map<string, number>,
+  from: string,
+  to: string,
+  options: { windowDays: number; minCount: number; bands: SpikeBands }
+): DailySpike[] {
+  const spikes: DailySpike[] = [];
+  for (let date = from; date <= to; date = addDays(date, 1)) {
+    const count = series.get(date) || 0;
+    if (count < options.minCount) continue;
+
+    const baseline = rollingBaseline(series, date, options.windowDays);
+    const z = zScore(count, baseline);
+    const severity = classifySpike(z, options.bands);
+    if (severity) {
+      spikes.push({ date, count, baseline, z_score: z, severity });
+    }
+  }
+  return spikes;
+}
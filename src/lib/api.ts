@@ -0,0 +1,80 @@
+// API response envelope
+// Every JSON route answers in one of two shapes:
+//
+//   { success: true,  data, meta }                 - data is the payload
+//   { success: false, error, code, fields?, ... }  - code says what went wrong
+//
+// meta says when the response was built, how long the route took, which
+// scheme it covers, how fresh that scheme's data is and, for listings, how
+// the results are paged. Routes build responses with lib/responses.ts;
+// browser code reads them through the typed client in lib/client.ts.
+//
+// Shared with the browser - import nothing server-side here.
+
+import type { CASE_STATES, SCHEME_IDS } from '@/lib/schemas';
+
+// ============================================
+// Failures
+// ============================================
+
+// Error code -> HTTP status
+export const ERROR_STATUS = {
+  BAD_REQUEST: 400,
+  VALIDATION_FAILED: 400,
+  UNAUTHENTICATED: 401,
+  FORBIDDEN: 403,
+  NOT_FOUND: 404,
+  CONFLICT: 409,
+  DELIVERY_FAILED: 502,
+  MIGRATIONS_REQUIRED: 503,
+  ACCESS_LOG_UNAVAILABLE: 503,
+  INTERNAL_ERROR: 500,
+} as const;
+
+export type ErrorCode = keyof typeof ERROR_STATUS;
+
+export interface FieldError {
+  field: string;                // Parameter or body path, e.g. 'limit' or 'beneficiary_ids.3'
+  code: string;                 // zod issue code, e.g. 'invalid_value', 'too_big'
+  message: string;
+}
+
+export interface ApiFailure {
+  success: false;
+  error: string;                // Human-readable; all field messages in one line for VALIDATION_FAILED
+  code: ErrorCode;
+  fields?: FieldError[];        // VALIDATION_FAILED only
+  state?: (typeof CASE_STATES)[number];   // CONFLICT on a case transition: the case's current state
+}
+
+export function apiFailure(code: ErrorCode, error: string, extra: Pick<ApiFailure, 'fields' | 'state'> = {}): ApiFailure {
+  return { success: false, error, code, ...extra };
+}
+
+// ============================================
+// Successes
+// ============================================
+
+export interface Pagination {
+  limit: number;
+  total_count?: number;         // Rows matching the filters across all pages
+  sort?: string;                // Effective sort spec, e.g. "-mean_squared_error,beneficiary_id"
+  next_cursor?: string | null;  // Keyset listings only
+  has_more?: boolean;
+}
+
+export interface ResponseMeta {
+  generated_at: string;         // ISO timestamp
+  query_ms: number;             // Time the route took to answer
+  scheme?: (typeof SCHEME_IDS)[number];
+  data_freshness?: string | null;   // Last completed batch refresh of the scheme (null = none recorded)
+  pagination?: Pagination;
+}
+
+export interface ApiSuccess<T> {
+  success: true;
+  data: T;
+  meta: ResponseMeta;
+}
+
+export type ApiResponse<T> = ApiSuccess<T> | ApiFailure;
@@ -0,0 +1,216 @@
+// Case assignment
+// Cases are handed to officers from the roster (lib/officers.ts) whose role
+// lets them work cases, always within the officer's districts:
+//
+//   manual       - a named officer (rejected per case outside their districts)
+//   round_robin  - the eligible officer who was assigned a case least recently
+//   least_loaded - the eligible officer with the fewest open cases
+//
+// Workload is derived from case state like everything else - an officer's
+// open cases are the non-closed cases whose latest ASSIGNED entry names them,
+// across every enabled scheme. Nothing about assignment is stored outside
+// the audit trail, so the strategies need no counters of their own.
+//
+// Server-side only.
+
+import { getDataSource } from '@/lib/datasource';
+import { loadCases, transitionCase, CaseTransitionError, type CaseSummary } from '@/lib/cases';
+import { JurisdictionError, type Scope } from '@/lib/jurisdiction';
+import { coversDistrict, getOfficer, listOfficers, type Officer } from '@/lib/officers';
+import type { WriteOutcome } from '@/lib/outbox';
+import { hasPermission } from '@/lib/rbac';
+import type { ASSIGNMENT_STRATEGIES } from '@/lib/schemas';
+import { getEnabledSchemes, type SchemeDefinition } from '@/lib/schemes';
+
+export type AssignmentStrategy = (typeof ASSIGNMENT_STRATEGIES)[number];
+
+export interface OfficerWorkload {
+  open_cases: number;
+  last_assigned_at: string | null;
+}
+
+export interface AssignmentRequest {
+  beneficiary_ids: string[];
+  strategy: AssignmentStrategy;
+  officer_id?: string;                 // manual only
+  assigned_by_id?: string;             // Who made the assignment (recorded as the acting officer)
+  assigned_by_name?: string;
+  scope?: Scope;                       // Jurisdiction of the assigning officer (cases outside it are refused)
+  notes?: string;
+}
+
+export interface AssignmentResult {
+  beneficiary_id: string;
+  district: string | null;             // residence_district used for scoping
+  assigned: boolean;
+  officer_id: string | null;
+  officer_name: string | null;
+  persisted: WriteOutcome | null;
+  error: string | null;                // Why the case was not assigned
+}
+
+// The request as a whole cannot be carried out (unknown or inactive officer)
+export class AssignmentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AssignmentError';
+  }
+}
+
+/**
+ * Open cases and most recent assignment of every officer with assigned cases
+ * (summed over all enabled schemes)
+ */
+export async function getWorkloads(): Promise<Map<string, OfficerWorkload>> {
+  const workloads = new Map<string, OfficerWorkload>();
+  const perScheme = await Promise.all(getEnabledSchemes().map((scheme) => loadCases(scheme.id)));
+
+  for (const cases of perScheme) {
+    for (const c of cases.values()) {
+      if (!c.assignee_id) continue;
+      const workload = workloads.get(c.assignee_id) ?? { open_cases: 0, last_assigned_at: null };
+      if (c.state !== 'CLOSED') workload.open_cases++;
+      if (c.assigned_at && (!workload.last_assigned_at || c.assigned_at > workload.last_assigned_at)) {
+        workload.last_assigned_at = c.assigned_at;
+      }
+      workloads.set(c.assignee_id, workload);
+    }
+  }
+  return workloads;
+}
+
+/**
+ * Open cases assigned to one officer in a scheme, most recently assigned first
+ */
+export async function getOfficerQueue(scheme: SchemeDefinition, officerId: string): Promise<CaseSummary[]> {
+  const cases = await loadCases(scheme.id);
+  return Array.from(cases.values())
+    .filter((c) => c.assignee_id === officerId && c.state !== 'CLOSED')
+    .sort((a, b) => (b.assigned_at ?? '').localeCompare(a.assigned_at ?? ''));
+}
+
+async function readDistricts(scheme: SchemeDefinition, beneficiaryIds: string[]): Promise<Map<string, string>> {
+  const dataSource = getDataSource();
+  const params = Object.fromEntries(beneficiaryIds.map((id, i) => [`beneficiary_id${i}`, id]));
+  const rows = await dataSource.query(`
+    SELECT beneficiary_id, residence_district
+    FROM ${dataSource.table('Beneficiaries', scheme.id)}
+    WHERE beneficiary_id IN (${beneficiaryIds.map((_, i) => `@beneficiary_id${i}`).join(', ')})
+  `, params);
+  return new Map(rows.map((row) => [row.beneficiary_id, row.residence_district]));
+}
+
+const NEVER = '';
+
+// Pick an officer for one case; ties go to whoever was assigned least recently, then by id
+function pickOfficer(
+  strategy: Exclude<AssignmentStrategy, 'manual'>,
+  eligible: Officer[],
+  workloads: Map<string, OfficerWorkload>
+): Officer | null {
+  const load = (officer: Officer) => workloads.get(officer.officer_id) ?? { open_cases: 0, last_assigned_at: null };
+  const sorted = [...eligible].sort((a, b) => {
+    if (strategy === 'least_loaded') {
+      const byLoad = load(a).open_cases - load(b).open_cases;
+      if (byLoad !== 0) return byLoad;
+    }
+    const byRecency = (load(a).last_assigned_at ?? NEVER).localeCompare(load(b).last_assigned_at ?? NEVER);
+    return byRecency !== 0 ? byRecency : a.officer_id.localeCompare(b.officer_id);
+  });
+  return sorted[0] ?? null;
+}
+
+/**
+ * Assign cases in one scheme to officers
+ * Cases are processed in the given order; each automatic pick accounts for the
+ * ones made before it, so a batch is spread across the eligible officers.
+ * Per-case problems (outside the assigning officer's jurisdiction, no officer
+ * covers the district, case not assignable in its current state) are reported in the result rather than thrown.
+ * @throws AssignmentError if a manual assignment names an unknown or inactive
+ * officer, or one whose role cannot work cases
+ */
+export async function assignCases(
+  scheme: SchemeDefinition,
+  request: AssignmentRequest
+): Promise<AssignmentResult[]> {
+  let officers: Officer[];
+  if (request.strategy === 'manual') {
+    const officer = request.officer_id ? await getOfficer(request.officer_id) : null;
+    if (!officer) throw new AssignmentError(`Unknown officer: ${request.officer_id ?? '(none)'}`);
+    if (!officer.active) throw new AssignmentError(`Officer ${officer.officer_id} is inactive`);
+    if (!hasPermission(officer.role, 'cases:act')) {
+      throw new AssignmentError(`Officer ${officer.officer_id} (${officer.role}) cannot work cases`);
+    }
+    officers = [officer];
+  } else {
+    officers = (await listOfficers()).filter((officer) => officer.active && hasPermission(officer.role, 'cases:act'));
+  }
+
+  const [districts, workloads] = await Promise.all([
+    readDistricts(scheme, request.beneficiary_ids),
+    getWorkloads(),
+  ]);
+
+  const results: AssignmentResult[] = [];
+  for (const beneficiaryId of request.beneficiary_ids) {
+    // Out-of-scope cases read as unknown ones, without their district
+    const found = districts.get(beneficiaryId) ?? null;
+    const district = !request.scope || request.scope.includes(found) ? found : null;
+    const result: AssignmentResult = {
+      beneficiary_id: beneficiaryId,
+      district,
+      assigned: false,
+      officer_id: null,
+      officer_name: null,
+      persisted: null,
+      error: null,
+    };
+    results.push(result);
+
+    if (found && !district) {
+      result.error = new JurisdictionError(beneficiaryId).message;
+      continue;
+    }
+    if (!district) {
+      result.error = 'Beneficiary not found in this scheme';
+      continue;
+    }
+    const eligible = officers.filter((officer) => coversDistrict(officer, district));
+    const officer = request.strategy === 'manual'
+      ? eligible[0] ?? null
+      : pickOfficer(request.strategy, eligible, workloads);
+    if (!officer) {
+      result.error = request.strategy === 'manual'
+        ? `${district} is outside the officer's districts`
+        : `No active officer covers ${district}`;
+      continue;
+    }
+
+    try {
+      const { case: updated, persisted } = await transitionCase(scheme, {
+        beneficiary_id: beneficiaryId,
+        action: 'ASSIGNED',
+        assignee_id: officer.officer_id,
+        officer_id: request.assigned_by_id,
+        officer_name: request.assigned_by_name,
+        notes: request.notes || `Assigned to ${officer.officer_name} (${request.strategy})`,
+      });
+      Object.assign(result, {
+        assigned: true,
+        officer_id: officer.officer_id,
+        officer_name: officer.officer_name,
+        persisted,
+      });
+
+      const workload = workloads.get(officer.officer_id) ?? { open_cases: 0, last_assigned_at: null };
+      workloads.set(officer.officer_id, {
+        open_cases: workload.open_cases + 1,
+        last_assigned_at: updated.assigned_at,
+      });
+    } catch (error) {
+      if (!(error instanceof CaseTransitionError)) throw error;
+      result.error = error.message;
+    }
+  }
+  return results;
+}
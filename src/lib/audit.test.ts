@@ -0,0 +1,114 @@
+import { recordAuditEntry, verifyAuditChain, type NewAuditEntry } from '@/lib/audit';
+import { getDataSource } from '@/lib/datasource';
+import { beforeEach, describe, expect, it } from 'vitest';
+
+const shared = globalThis as typeof globalThis & { __janavlokanAuditChain?: unknown };
+
+function newEntry(n: number, createdAt = new Date().toISOString()): NewAuditEntry {
+  return {
+    audit_id: `audit-${n}`,
+    beneficiary_id: `B-${n}`,
+    scheme: 'lpg',
+    action: 'NOTE_ADDED',
+    officer_id: 'AO-1002',
+    officer_name: 'Field Auditor',
+    notes: `Note ${n}`,
+    previous_status: 'HIGH',
+    new_status: 'HIGH',
+    created_at: createdAt,
+  };
+}
+
+// Written straight to the table, as before the chain existed (or by someone bypassing it)
+async function insertUnchained(entry: NewAuditEntry) {
+  const dataSource = getDataSource();
+  await dataSource.execute(`
+    INSERT INTO ${dataSource.table('audit_trail')}
+    (audit_id, beneficiary_id, scheme, action, officer_id, officer_name, notes, previous_status, new_status, created_at)
+    VALUES (@audit_id, @beneficiary_id, @scheme, @action, @officer_id, @officer_name, @notes, @previous_status, @new_status, @created_at)
+  `, { ...entry });
+}
+
+async function recordEntries(count: number) {
+  for (let n = 1; n <= count; n++) await recordAuditEntry(newEntry(n));
+}
+
+describe('audit hash chain', () => {
+  beforeEach(async () => {
+    const dataSource = getDataSource();
+    await dataSource.execute(`DELETE FROM ${dataSource.table('audit_trail')}`);
+    delete shared.__janavlokanAuditChain;
+  });
+
+  it('links appended entries into a valid chain', async () => {
+    await recordEntries(3);
+    const result = await verifyAuditChain();
+    expect(result).toMatchObject({ valid: true, entries: 3, legacy_entries: 0, break_count: 0 });
+    expect(result.head?.chain_seq).toBe(3);
+  });
+
+  it('reports an edited entry', async () => {
+    await recordEntries(3);
+    const dataSource = getDataSource();
+    await dataSource.execute(`UPDATE ${dataSource.table('audit_trail')} SET notes = 'Rewritten' WHERE audit_id = 'audit-2'`);
+
+    const result = await verifyAuditChain();
+    expect(result.valid).toBe(false);
+    expect(result.breaks).toEqual([expect.objectContaining({ kind: 'content', chain_seq: 2, audit_id: 'audit-2' })]);
+  });
+
+  it('reports a deleted entry', async () => {
+    await recordEntries(3);
+    const dataSource = getDataSource();
+    await dataSource.execute(`DELETE FROM ${dataSource.table('audit_trail')} WHERE audit_id = 'audit-2'`);
+
+    const result = await verifyAuditChain();
+    expect(result.valid).toBe(false);
+    expect(result.breaks.map((b) => [b.kind, b.chain_seq])).toEqual([['gap', 3], ['link', 3]]);
+  });
+
+  it('reports a cut-off tail against an earlier head', async () => {
+    await recordEntries(3);
+    const { head } = await verifyAuditChain();
+    const dataSource = getDataSource();
+    await dataSource.execute(`DELETE FROM ${dataSource.table('audit_trail')} WHERE audit_id = 'audit-3'`);
+
+    expect(await verifyAuditChain(head?.entry_hash)).toMatchObject({ valid: false, expected_head_found: false });
+  });
+
+  it('accepts entries written before the chain as legacy', async () => {
+    await insertUnchained(newEntry(100, '2024-01-01T00:00:00.000Z'));
+    await insertUnchained(newEntry(101, '2024-02-01T00:00:00.000Z'));
+    await recordEntries(2);
+
+    expect(await verifyAuditChain()).toMatchObject({ valid: true, entries: 2, legacy_entries: 2 });
+  });
+
+  it('reports an entry inserted with a backdated created_at', async () => {
+    await insertUnchained(newEntry(100, '2024-01-01T00:00:00.000Z'));
+    await recordEntries(2);
+    await insertUnchained(newEntry(102, '2024-03-01T00:00:00.000Z'));
+
+    const result = await verifyAuditChain();
+    expect(result).toMatchObject({ valid: false, legacy_entries: 1 });
+    expect(result.breaks).toEqual([expect.objectContaining({ kind: 'unchained', audit_id: 'audit-102' })]);
+  });
+
+  it('reports an entry inserted after the chain started', async () => {
+    await recordEntries(2);
+    await insertUnchained(newEntry(200));
+
+    const result = await verifyAuditChain();
+    expect(result.breaks).toEqual([expect.objectContaining({ kind: 'unchained', audit_id: 'audit-200' })]);
+  });
+
+  it('reports a deleted legacy entry', async () => {
+    await insertUnchained(newEntry(100, '2024-01-01T00:00:00.000Z'));
+    await recordEntries(1);
+    const dataSource = getDataSource();
+    await dataSource.execute(`DELETE FROM ${dataSource.table('audit_trail')} WHERE audit_id = 'audit-100'`);
+
+    const result = await verifyAuditChain();
+    expect(result.breaks).toEqual([expect.objectContaining({ kind: 'gap', chain_seq: 1 })]);
+  });
+});
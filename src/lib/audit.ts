@@ -0,0 +1,382 @@
+// Audit trail
+// Every officer action on a beneficiary is an append-only audit_trail row.
+// Case state (lib/cases.ts) is derived from this history - it is never
+// stored or updated separately.
+//
+// The trail is tamper-evident: entries form one hash chain across all schemes.
+// Each entry gets the next chain_seq, the previous entry's hash (prev_hash)
+// and entry_hash = SHA-256 (hex) of the JSON array
+//
+//   [chain_seq, audit_id, beneficiary_id, scheme, action, officer_id,
+//    officer_name, notes, previous_status, new_status, assignee_id | null,
+//    created_at (ISO-8601, ms), prev_hash]
+//
+// with prev_hash of the first entry = 64 zeros. The first entry also records
+// how many entries were written before the chain existed (legacy_entries,
+// appended to its array), so a row inserted later with a backdated created_at
+// cannot pass as legacy. Editing an entry breaks its hash, deleting one leaves
+// a gap in chain_seq, and truncating the tail is caught by comparing with a
+// previously exported chain head.
+// Appends are serialized per server process. Next.js loads this module
+// separately for instrumentation (the SLA checker) and the routes, so the lock
+// and the last written head live on globalThis and are shared by all of them.
+//
+// Server-side only.
+
+import crypto from 'crypto';
+import { getDataSource, isMissingTableError, type DataRow } from '@/lib/datasource';
+import { insertWithOutbox, pendingRows, type WriteOutcome } from '@/lib/outbox';
+import type { CASE_ACTIONS } from '@/lib/schemas';
+import type { SchemeId } from '@/lib/schemes';
+
+// Actions that move a case through its lifecycle (see lib/cases.ts), plus notes
+export type CaseAction = (typeof CASE_ACTIONS)[number];
+
+// Written before the case lifecycle existed; still found in older history
+export type LegacyAuditAction = 'REVIEWED' | 'FLAGGED' | 'EXPORTED';
+
+// Recorded by background checks, never accepted from officers (case state unchanged)
+export type SystemAuditAction = 'SLA_BREACHED';
+
+export type AuditAction = CaseAction | LegacyAuditAction | SystemAuditAction;
+
+export interface AuditEntry {
+  audit_id: string;
+  beneficiary_id: string;
+  scheme: SchemeId;
+  action: AuditAction;
+  officer_id: string;
+  officer_name: string;
+  notes: string;
+  previous_status: string;     // Risk level before the action
+  new_status: string;          // Risk level after the action (LOW once cleared)
+  assignee_id?: string;        // ASSIGNED only: officer the case was given to
+  created_at: string;
+  chain_seq?: number;          // Position in the hash chain (unset on entries written before it)
+  prev_hash?: string;
+  entry_hash?: string;
+  legacy_entries?: number;     // First chain entry only: entries written before the chain started
+}
+
+// Chain fields are assigned by recordAuditEntry
+export type NewAuditEntry = Omit<AuditEntry, 'chain_seq' | 'prev_hash' | 'entry_hash' | 'legacy_entries'>;
+
+export interface ChainHead {
+  chain_seq: number;
+  entry_hash: string;
+  created_at: string;
+}
+
+export type ChainBreakKind =
+  | 'content'         // entry_hash does not match the entry (edited)
+  | 'link'            // prev_hash does not match the previous entry (reordered / replaced)
+  | 'gap'             // chain_seq values missing, or legacy entries fewer than recorded (deleted)
+  | 'duplicate'       // chain_seq used twice (forked by concurrent writers, or inserted)
+  | 'unchained';      // Entry without chain fields beyond those there when the chain started
+
+export interface ChainBreak {
+  kind: ChainBreakKind;
+  chain_seq: number | null;
+  audit_id: string;
+  message: string;
+}
+
+export interface ChainVerification {
+  valid: boolean;
+  entries: number;             // Chained entries checked (including queued ones)
+  legacy_entries: number;      // Written before the chain existed - not covered
+  pending_entries: number;     // Still in the outbox, checked as part of the chain
+  head: ChainHead | null;
+  expected_head_found: boolean | null;   // Whether expectedHead is still in the chain (null = not asked)
+  break_count: number;
+  breaks: ChainBreak[];                  // First MAX_REPORTED_BREAKS breaks
+}
+
+const GENESIS_HASH = '0'.repeat(64);
+const MAX_REPORTED_BREAKS = 100;
+
+// Entries written before audit_trail had a scheme column are LPG
+export const LEGACY_SCHEME: SchemeId = 'lpg';
+
+export function toAuditEntry(row: DataRow): AuditEntry {
+  return {
+    audit_id: row.audit_id,
+    beneficiary_id: row.beneficiary_id,
+    scheme: row.scheme || LEGACY_SCHEME,
+    action: row.action,
+    officer_id: row.officer_id,
+    officer_name: row.officer_name,
+    notes: row.notes || '',
+    previous_status: row.previous_status,
+    new_status: row.new_status,
+    assignee_id: row.assignee_id || undefined,
+    created_at: row.created_at?.value || row.created_at,
+    chain_seq: row.chain_seq === null || row.chain_seq === undefined ? undefined : Number(row.chain_seq),
+    prev_hash: row.prev_hash || undefined,
+    entry_hash: row.entry_hash || undefined,
+    legacy_entries: row.legacy_entries === null || row.legacy_entries === undefined ? undefined : Number(row.legacy_entries),
+  };
+}
+
+export function computeEntryHash(
+  entry: NewAuditEntry & { chain_seq: number; prev_hash: string; legacy_entries?: number }
+): string {
+  const content = [
+    entry.chain_seq,
+    entry.audit_id,
+    entry.beneficiary_id,
+    entry.scheme,
+    entry.action,
+    entry.officer_id,
+    entry.officer_name,
+    entry.notes,
+    entry.previous_status,
+    entry.new_status,
+    entry.assignee_id ?? null,
+    new Date(entry.created_at).toISOString(),
+    entry.prev_hash,
+    // Chains started before the count was recorded hash without it
+    ...(entry.legacy_entries === undefined ? [] : [entry.legacy_entries]),
+  ];
+  return crypto.createHash('sha256').update(JSON.stringify(content)).digest('hex');
+}
+
+/**
+ * Full history of the given beneficiaries (or of every beneficiary with
+ * activity) in one scheme, oldest first
+ * Includes entries still queued in the outbox, so a recorded action is
+ * visible before it reaches the warehouse.
+ */
+export async function readAuditHistory(scheme: SchemeId, beneficiaryIds?: string[]): Promise<AuditEntry[]> {
+  const dataSource = getDataSource();
+  const conditions = ['COALESCE(scheme, @legacy_scheme) = @scheme'];
+  const params: Record<string, unknown> = { scheme, legacy_scheme: LEGACY_SCHEME };
+
+  if (beneficiaryIds) {
+    if (beneficiaryIds.length === 0) return [];
+    conditions.push(`beneficiary_id IN (${beneficiaryIds.map((_, i) => `@beneficiary_id${i}`).join(', ')})`);
+    beneficiaryIds.forEach((id, i) => { params[`beneficiary_id${i}`] = id; });
+  }
+
+  const [rows, queued] = await Promise.all([
+    dataSource.query(`
+      SELECT *
+      FROM ${dataSource.table('audit_trail')}
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY created_at ASC
+    `, params),
+    pendingRows('audit_trail'),
+  ]);
+
+  const stored = rows.map(toAuditEntry);
+  const storedIds = new Set(stored.map((entry) => entry.audit_id));
+  const wanted = beneficiaryIds ? new Set(beneficiaryIds) : null;
+  const pending = queued
+    .map(toAuditEntry)
+    .filter((entry) => entry.scheme === scheme && !storedIds.has(entry.audit_id))
+    .filter((entry) => !wanted || wanted.has(entry.beneficiary_id));
+
+  // ISO-8601 timestamps sort chronologically as strings
+  return [...stored, ...pending].sort((a, b) => String(a.created_at).localeCompare(String(b.created_at)));
+}
+
+interface ChainState {
+  lock: Promise<unknown>;       // Appends are serialized so each entry links to the one written before it
+  head: ChainHead | null;       // Last head written by this process - lets appends continue while the warehouse is down
+}
+
+// One chain state per process, whichever module instance writes
+const shared = globalThis as typeof globalThis & { __janavlokanAuditChain?: ChainState };
+
+function chainState(): ChainState {
+  shared.__janavlokanAuditChain ??= { lock: Promise.resolve(), head: null };
+  return shared.__janavlokanAuditChain;
+}
+
+function withChainLock<T>(operation: () => Promise<T>): Promise<T> {
+  const state = chainState();
+  const result = state.lock.then(operation);
+  state.lock = result.catch(() => undefined);
+  return result;
+}
+
+function laterHead(a: ChainHead | null, b: ChainHead | null): ChainHead | null {
+  if (!a) return b;
+  if (!b) return a;
+  return b.chain_seq > a.chain_seq ? b : a;
+}
+
+// Entries without chain fields, counted when the chain starts
+async function countUnchainedEntries(): Promise<number> {
+  const queued = (await pendingRows('audit_trail')).filter((row) => row.chain_seq === null || row.chain_seq === undefined);
+  const dataSource = getDataSource();
+  try {
+    const rows = await dataSource.query(`
+      SELECT COUNT(*) AS unchained
+      FROM ${dataSource.table('audit_trail')}
+      WHERE chain_seq IS NULL
+    `);
+    return Number(rows[0]?.unchained ?? 0) + queued.length;
+  } catch (error) {
+    if (isMissingTableError(error)) return queued.length;
+    throw error;
+  }
+}
+
+function headOf(entry: AuditEntry): ChainHead | null {
+  if (entry.chain_seq === undefined || !entry.entry_hash) return null;
+  return { chain_seq: entry.chain_seq, entry_hash: entry.entry_hash, created_at: entry.created_at };
+}
+
+/**
+ * Latest entry of the hash chain, including entries still queued in the outbox
+ * @returns null while the chain is empty
+ */
+export async function getChainHead(): Promise<ChainHead | null> {
+  const queued = (await pendingRows('audit_trail')).map(toAuditEntry);
+  let head = queued.reduce<ChainHead | null>((latest, entry) => laterHead(latest, headOf(entry)), null);
+
+  const cachedHead = chainState().head;
+  const dataSource = getDataSource();
+  try {
+    const rows = await dataSource.query(`
+      SELECT *
+      FROM ${dataSource.table('audit_trail')}
+      WHERE chain_seq IS NOT NULL
+      ORDER BY chain_seq DESC
+      LIMIT 1
+    `);
+    head = laterHead(head, rows[0] ? headOf(toAuditEntry(rows[0])) : null);
+  } catch (error) {
+    // No table yet means no chain yet (the entry is queued until migrations run);
+    // during an outage this process can still extend the chain it last wrote
+    if (isMissingTableError(error)) return laterHead(head, cachedHead);
+    if (!cachedHead) throw error;
+    console.error('Audit chain head lookup failed, using cached head:', error instanceof Error ? error.message : error);
+  }
+  return laterHead(head, cachedHead);
+}
+
+/**
+ * Append an entry to the audit trail, linked into the hash chain
+ * A failed warehouse write is queued in the durable outbox, never dropped.
+ * @param validate - Runs under the append lock before the entry is chained;
+ *   throw to refuse the entry (checks that must not race other appends)
+ * @returns The entry as stored (with its chain fields) and where it was persisted
+ */
+export function recordAuditEntry(
+  entry: NewAuditEntry,
+  validate?: () => Promise<void>
+): Promise<{ entry: AuditEntry; persisted: WriteOutcome }> {
+  return withChainLock(async () => {
+    await validate?.();
+    const head = await getChainHead();
+    const chain_seq = (head?.chain_seq ?? 0) + 1;
+    const prev_hash = head?.entry_hash ?? GENESIS_HASH;
+    const legacy_entries = chain_seq === 1 ? await countUnchainedEntries() : undefined;
+    const chained: AuditEntry = {
+      ...entry,
+      chain_seq,
+      prev_hash,
+      legacy_entries,
+      entry_hash: computeEntryHash({ ...entry, chain_seq, prev_hash, legacy_entries }),
+    };
+
+    // Unset optional columns are left out rather than bound as untyped NULLs
+    const row = Object.fromEntries(Object.entries(chained).filter(([, value]) => value !== undefined));
+    const persisted = await insertWithOutbox('audit_trail', row);
+    chainState().head = headOf(chained);
+    return { entry: chained, persisted };
+  });
+}
+
+/**
+ * Walk the whole hash chain and report every break
+ * @param expectedHead - entry_hash from an earlier export; checked to still be in the chain
+ */
+export async function verifyAuditChain(expectedHead?: string): Promise<ChainVerification> {
+  const dataSource = getDataSource();
+  const [rows, queued] = await Promise.all([
+    dataSource.query(`
+      SELECT *
+      FROM ${dataSource.table('audit_trail')}
+    `),
+    pendingRows('audit_trail'),
+  ]);
+
+  const stored = rows.map(toAuditEntry);
+  const storedIds = new Set(stored.map((entry) => entry.audit_id));
+  const pending = queued.map(toAuditEntry).filter((entry) => !storedIds.has(entry.audit_id));
+  const all = [...stored, ...pending];
+
+  const chained = all
+    .filter((entry) => entry.chain_seq !== undefined)
+    .sort((a, b) => (a.chain_seq as number) - (b.chain_seq as number));
+  const unchained = all
+    .filter((entry) => entry.chain_seq === undefined)
+    .sort((a, b) => String(a.created_at).localeCompare(String(b.created_at)));
+  const genesis = chained[0]?.chain_seq === 1 ? chained[0] : null;
+  const chainStart = chained[0]?.created_at ? new Date(chained[0].created_at).getTime() : Infinity;
+
+  const breaks: ChainBreak[] = [];
+  const report = (kind: ChainBreakKind, entry: AuditEntry, message: string) => {
+    breaks.push({ kind, chain_seq: entry.chain_seq ?? null, audit_id: entry.audit_id, message });
+  };
+
+  // Plain inserts after the chain started bypassed recordAuditEntry; so did
+  // backdated ones, beyond the legacy count the first entry recorded (chains
+  // started before the count existed can only be checked by date)
+  const recordedLegacy = genesis?.legacy_entries;
+  let legacyEntries = 0;
+  for (const entry of unchained) {
+    if (new Date(entry.created_at).getTime() >= chainStart) {
+      report('unchained', entry, 'Entry has no chain fields but was written after the chain started');
+    } else if (recordedLegacy !== undefined && legacyEntries >= recordedLegacy) {
+      report('unchained', entry, `Entry has no chain fields, but only ${recordedLegacy} entries predate the chain (backdated insert)`);
+    } else {
+      legacyEntries++;
+    }
+  }
+  if (genesis && recordedLegacy !== undefined && legacyEntries < recordedLegacy) {
+    report('gap', genesis, `${recordedLegacy - legacyEntries} of the ${recordedLegacy} entries written before the chain started are missing`);
+  }
+
+  let previous: AuditEntry | null = null;
+  for (const entry of chained) {
+    const seq = entry.chain_seq as number;
+    const expectedSeq = previous ? (previous.chain_seq as number) + 1 : 1;
+
+    if (previous && seq === previous.chain_seq) {
+      report('duplicate', entry, `chain_seq ${seq} is used by ${previous.audit_id} as well`);
+    } else if (seq !== expectedSeq) {
+      report('gap', entry, `Entries ${expectedSeq}..${seq - 1} are missing`);
+    }
+
+    const expectedPrev = previous?.entry_hash ?? GENESIS_HASH;
+    if (entry.prev_hash !== expectedPrev && !(previous && seq === previous.chain_seq)) {
+      report('link', entry, 'prev_hash does not match the previous entry');
+    }
+
+    // Only the first entry may carry the legacy count
+    const legacyCount = seq === 1 ? entry.legacy_entries : undefined;
+    if (
+      !entry.prev_hash ||
+      computeEntryHash({ ...entry, chain_seq: seq, prev_hash: entry.prev_hash, legacy_entries: legacyCount }) !== entry.entry_hash
+    ) {
+      report('content', entry, 'entry_hash does not match the entry contents');
+    }
+    previous = entry;
+  }
+
+  const expectedHeadFound = expectedHead ? chained.some((entry) => entry.entry_hash === expectedHead) : null;
+  return {
+    valid: breaks.length === 0 && expectedHeadFound !== false,
+    entries: chained.length,
+    legacy_entries: legacyEntries,
+    pending_entries: pending.length,
+    head: previous ? headOf(previous) : null,
+    expected_head_found: expectedHeadFound,
+    break_count: breaks.length,
+    breaks: breaks.slice(0, MAX_REPORTED_BREAKS),
+  };
+}
@@ -0,0 +1,235 @@
+// Authentication and officer sessions
+// Officers sign in with their officer ID and password (local provider) or
+// through the configured OIDC identity provider (see lib/oidc.ts). Either way
+// the result is a session cookie naming the officer and their role; API routes
+// take the acting officer from it, never from the request body.
+//
+// Cookie format: base64url(JSON payload) + '.' + base64url(HMAC-SHA256).
+// Sessions are stateless - they end when the cookie expires or the officer
+// signs out on that browser. A role change takes effect at the next sign-in.
+//
+// Server-side only.
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { getConfig } from '@/lib/config';
+import { isRole, permissionsFor, type Permission, type Role } from '@/lib/rbac';
+import type { NextRequest, NextResponse } from 'next/server';
+
+export type AuthProvider = 'local' | 'oidc';
+
+export interface Session {
+  officer_id: string;
+  officer_name: string;
+  role: Role;
+  provider: AuthProvider;
+  issued_at: number;            // Epoch ms
+  expires_at: number;
+}
+
+// Session as returned by the auth APIs
+export interface SessionInfo {
+  officer_id: string;
+  officer_name: string;
+  role: Role;
+  permissions: Permission[];    // Lets the UI hide controls the officer cannot use
+  provider: AuthProvider;
+  issued_at: string;
+  expires_at: string;
+}
+
+export const SESSION_COOKIE = 'janavlokan_session';
+
+// Without AUTH_SECRET (local data source only) a generated secret is kept here
+// so sessions survive restarts and every server bundle signs with the same key
+const LOCAL_SECRET_FILE = path.join('.data', 'auth-secret');
+
+// scrypt cost parameters for new password hashes (stored with each hash)
+const SCRYPT_N = 16384;
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+const SCRYPT_KEYLEN = 64;
+
+// Request is not signed in (or the session is no longer valid)
+export class AuthError extends Error {
+  constructor(message = 'Authentication required') {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+let cachedSecret: Buffer | null = null;
+
+function getSecret(): Buffer {
+  if (cachedSecret) return cachedSecret;
+
+  const { secret } = getConfig().auth;
+  if (secret) {
+    cachedSecret = Buffer.from(secret);
+    return cachedSecret;
+  }
+
+  const file = path.resolve(LOCAL_SECRET_FILE);
+  try {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    // 'wx' fails if another process created it first - then use theirs
+    fs.writeFileSync(file, crypto.randomBytes(32).toString('hex'), { flag: 'wx', mode: 0o600 });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+  }
+  cachedSecret = Buffer.from(fs.readFileSync(file, 'utf8').trim());
+  return cachedSecret;
+}
+
+/**
+ * Key for another purpose derived from the session secret (HKDF-SHA256), so
+ * deployments need only the one secret
+ */
+export function deriveKey(purpose: string): Buffer {
+  return Buffer.from(crypto.hkdfSync('sha256', getSecret(), Buffer.alloc(0), `janavlokan:${purpose}`, 32));
+}
+
+function hmac(data: string): string {
+  return crypto.createHmac('sha256', getSecret()).update(data).digest('base64url');
+}
+
+/**
+ * Sign a JSON value for a cookie (sessions, OIDC login state)
+ */
+export function signValue(value: unknown): string {
+  const payload = Buffer.from(JSON.stringify(value)).toString('base64url');
+  return `${payload}.${hmac(payload)}`;
+}
+
+/**
+ * Verify a value produced by signValue
+ * @returns The decoded value, or null if it is malformed or was tampered with
+ */
+export function verifyValue<T>(token: string | undefined): T | null {
+  if (!token) return null;
+  const [payload, signature, ...rest] = token.split('.');
+  if (!payload || !signature || rest.length > 0) return null;
+
+  const expected = Buffer.from(hmac(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) return null;
+
+  try {
+    return JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as T;
+  } catch {
+    return null;
+  }
+}
+
+export function createSession(
+  officer: { officer_id: string; officer_name: string; role: Role },
+  provider: AuthProvider
+): Session {
+  const now = Date.now();
+  return {
+    officer_id: officer.officer_id,
+    officer_name: officer.officer_name,
+    role: officer.role,
+    provider,
+    issued_at: now,
+    expires_at: now + getConfig().auth.sessionTtlMs,
+  };
+}
+
+export function toSessionInfo(session: Session): SessionInfo {
+  return {
+    officer_id: session.officer_id,
+    officer_name: session.officer_name,
+    role: session.role,
+    permissions: permissionsFor(session.role),
+    provider: session.provider,
+    issued_at: new Date(session.issued_at).toISOString(),
+    expires_at: new Date(session.expires_at).toISOString(),
+  };
+}
+
+// Only same-origin paths are followed after sign-in (no open redirects)
+export function safeNextPath(value: string | null | undefined): string {
+  return value && value.startsWith('/') && !value.startsWith('//') && !value.startsWith('/\\') ? value : '/dashboard';
+}
+
+/**
+ * Session carried by the request's cookie
+ * @returns null if there is none, or it is invalid or expired
+ */
+export function getSession(request: NextRequest): Session | null {
+  const session = verifyValue<Session>(request.cookies.get(SESSION_COOKIE)?.value);
+  if (!session || typeof session.officer_id !== 'string' || typeof session.expires_at !== 'number') return null;
+  // Sessions issued before roles existed must sign in again
+  if (!isRole(session.role)) return null;
+  return session.expires_at > Date.now() ? session : null;
+}
+
+/**
+ * Session of the signed-in officer
+ * @throws AuthError if the request is not signed in
+ */
+export function requireSession(request: NextRequest): Session {
+  const session = getSession(request);
+  if (!session) throw new AuthError();
+  return session;
+}
+
+export function setSessionCookie(response: NextResponse, session: Session): void {
+  response.cookies.set(SESSION_COOKIE, signValue(session), {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: getConfig().auth.cookieSecure,
+    path: '/',
+    expires: new Date(session.expires_at),
+  });
+}
+
+export function clearSessionCookie(response: NextResponse): void {
+  response.cookies.set(SESSION_COOKIE, '', {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: getConfig().auth.cookieSecure,
+    path: '/',
+    maxAge: 0,
+  });
+}
+
+/**
+ * Hash a password for officers.password_hash
+ * Format: scrypt$N$r$p$salt$hash (salt and hash base64url)
+ */
+export function hashPassword(password: string): string {
+  const salt = crypto.randomBytes(16);
+  const hash = crypto.scryptSync(password, salt, SCRYPT_KEYLEN, { N: SCRYPT_N, r: SCRYPT_R, p: SCRYPT_P });
+  return ['scrypt', SCRYPT_N, SCRYPT_R, SCRYPT_P, salt.toString('base64url'), hash.toString('base64url')].join('$');
+}
+
+// Stands in for a missing hash, so an unknown officer costs the same scrypt
+// work as a known one and response times do not reveal which IDs exist
+let dummyHash: string | null = null;
+
+// Constant-time; false for a missing or malformed stored hash
+export function verifyPassword(password: string, stored: string | null): boolean {
+  if (stored === null) {
+    dummyHash ??= hashPassword(crypto.randomBytes(16).toString('base64url'));
+    verifyPassword(password, dummyHash);
+    return false;
+  }
+
+  const [scheme, n, r, p, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, 'base64url');
+  try {
+    const actual = crypto.scryptSync(password, Buffer.from(salt, 'base64url'), expected.length, {
+      N: Number(n),
+      r: Number(r),
+      p: Number(p),
+    });
+    return crypto.timingSafeEqual(expected, actual);
+  } catch {
+    return false;
+  }
+}
@@ -1,15 +1,29 @@
 import { BigQuery } from '@google-cloud/bigquery';
-import path from 'path';
+import { getConfig } from '@/lib/config';
+import { getStaticExplanations, flagsToReasonCodes } from '@/lib/gemini';
+import type { AlertRecord, AlertRetryResult } from '@/lib/alerts';
+import type { SpikeSeverity } from '@/lib/analytics';
+import type { AssignmentResult, AssignmentStrategy } from '@/lib/assignment';
+import type { AuditEntry, ChainHead, ChainVerification } from '@/lib/audit';
+import type { SessionInfo } from '@/lib/auth';
+import type { CaseDetail, CaseState, CaseSummary } from '@/lib/cases';
+import type { DataSourceKind } from '@/lib/datasource';
+import type { Jurisdiction } from '@/lib/jurisdiction';
+import type { MailTransportKind } from '@/lib/mail';
+import type { MigrationStatus } from '@/lib/migrations';
+import type { Officer } from '@/lib/officers';
+import type { OutboxStatus, ReplayResult, WriteOutcome } from '@/lib/outbox';
+import type { AlertRule, AlertRuleRun } from '@/lib/rules';
+import type { OverdueCase, SlaCheckResult, SlaCheckerStatus } from '@/lib/sla';
+import type { SchemeDefinition, SchemeId } from '@/lib/schemes';
 
 // Singleton BigQuery client
 let bigqueryClient: BigQuery | null = null;
 
 export function getBigQueryClient(): BigQuery {
   if (!bigqueryClient) {
-    bigqueryClient = new BigQuery({
-      projectId: 'gfg-fot',
-      keyFilename: path.join(process.cwd(), 'gcp-key.json'),
-    });
+    const { projectId, keyFilename } = getConfig().bigquery;
+    bigqueryClient = new BigQuery({ projectId, keyFilename });
   }
   return bigqueryClient;
 }
@@ -19,79 +33,275 @@ export function getBigQueryClient(): BigQuery {
 // Using NEW table: fraud_with_explanations
 // ============================================
 
+// Beneficiary counts below config disclosure.minCount are null (see lib/disclosure)
 export interface DashboardSummary {
-  total_beneficiaries: number;
-  high_risk: number;
-  medium_risk: number;
-  low_risk: number;
+  total_beneficiaries: number | null;
+  high_risk: number | null;
+  medium_risk: number | null;
+  low_risk: number | null;
+  overdue_cases: number | null;   // Unreviewed past their SLA (null = SLA tracking unavailable)
+  min_count: number;              // Smallest count published
+  suppressed: boolean;
 }
 
 export interface RiskDistribution {
   risk_level: string;
-  count: number;
+  count: number | null;
+  suppressed: boolean;
 }
 
-// NEW: Updated to include flag columns from fraud_with_explanations
+// Rule flags are computed upstream in fraud_with_explanations; each scheme has
+// its own set - see the registry in lib/flags.ts
 export interface HighRiskBeneficiary {
   beneficiary_id: string;
   risk_level: string;
   mean_squared_error: number;
-  flag_high_recent_activity: boolean;
-  flag_multiple_dealers: boolean;
-  flag_cross_district: boolean;
-  flag_high_lifetime_usage: boolean;
+  flags: Record<string, boolean>;   // <flag id> -> raised
+  flag_severity: number;            // Sum of the weights of the raised flags
+  residence_district: string;
+}
+
+export interface BeneficiarySearchResult {
+  beneficiary_id: string;
+  residence_district: string;
+  risk_level: string;                 // 'UNKNOWN' when the beneficiary has no risk score
+  mean_squared_error: number | null;
+  exact_match: boolean;
 }
 
 export interface BeneficiaryDetail {
   beneficiary_id: string;
+  scheme: SchemeId;
   risk_level: string;
   mean_squared_error: number;
-  flags: {
-    high_recent_activity: boolean;
-    multiple_dealers: boolean;
-    cross_district: boolean;
-    high_lifetime_usage: boolean;
-  };
+  flags: Record<string, boolean>;
+  flag_severity: number;
   reasons: string[];           // Human-readable reasons (static)
   gemini_explanation?: string; // AI-polished explanation (optional)
 }
 
 export interface DistrictRisk {
   residence_district: string;
+  anomaly_count: number | null;   // null = small count, suppressed
+  suppressed: boolean;
+}
+
+// Counts below config disclosure.minCount are null (see lib/disclosure)
+export interface TimeSeriesDataPoint {
+  date: string;               // Bucket start (YYYY-MM-DD)
+  high_risk_count: number | null;
+  medium_risk_count: number | null;
+  low_risk_count: number | null;
+  total_anomalies: number | null;
+  suppressed: boolean;
+}
+
+// Small district counts are null, with the figures derived from them (see lib/disclosure)
+export interface SpikeContribution {
+  district: string;
+  anomaly_count: number | null;
+  avg_baseline: number | null;
+  excess: number | null;      // anomaly_count - avg_baseline
+  z_score: number | null;
+  suppressed: boolean;
+}
+
+export interface TemporalSpike {
+  date: string;                // Actual day of the spike (YYYY-MM-DD)
+  scope: 'STATE' | 'DISTRICT';
+  district: string | null;     // Set for DISTRICT scope
+  spike_type: SpikeSeverity;
   anomaly_count: number;
+  avg_baseline: number;
+  baseline_stddev: number;
+  z_score: number;
+  deviation_percentage: number;
+  baseline_window: { from: string; to: string; days: number };
+  affected_districts: string[];
+  contributions: SpikeContribution[];
+}
+
+export interface AlertCandidate {
+  beneficiary_id: string;
+  risk_score: number;
+}
+
+export interface ExportRow {
+  pseudonym?: string;               // Default exports
+  beneficiary_id?: string;          // identifiers=beneficiary_id (admins only)
+  risk_level: string;
+  mean_squared_error: number;
+  flags: Record<string, boolean>;   // Scheme-specific rule flags
+  flag_severity: number;            // Weighted sum of the raised flags
+  residence_district?: string;      // 'Suppressed' where too few rows share it
+}
+
+export interface AuditExport {
+  export_id: string | null;         // Pseudonymized exports only
+  identifiers: 'pseudonym' | 'beneficiary_id';
+  filters: { risk_level: string | null; district: string | null };
+  jurisdiction: 'statewide' | string[];
+  audit_chain_head: ChainHead | null;
+  records: ExportRow[];
+}
+
+export interface ReidentifiedRow {
+  pseudonym: string;
+  beneficiary_id: string | null;
+  error: string | null;         // Why the row was not resolved
+}
+
+// Officer roster entry with the officer's open cases across all schemes
+export interface RosterOfficer extends Officer {
+  assignable: boolean;          // Active and allowed to act on cases
+  open_cases: number;
+  last_assigned_at: string | null;
+}
+
+// An open case in an officer's queue, with the beneficiary's current risk
+export interface QueueCase extends CaseSummary {
+  risk_level: string | null;
+  mean_squared_error: number | null;
+  residence_district: string | null;
+}
+
+export interface OfficerQueue {
+  officer: Officer;
+  cases: QueueCase[];
+}
+
+export interface SchemeInfo {
+  id: SchemeId;
+  name: string;
+  short_name: string;
+  flags: { id: string; label: string; weight: number }[];   // weight: 1 = weak signal ... 3 = strong signal
+}
+
+export interface SchemeList {
+  default_scheme: SchemeId;
+  schemes: SchemeInfo[];
+}
+
+export interface BatchJobStatus {
+  job_id: string;
+  scheme: SchemeId;
+  job_type: string;
+  status: 'QUEUED' | 'RUNNING' | 'COMPLETED' | 'FAILED';
+  started_at: string;
+  completed_at?: string;
+  records_processed?: number;
+  error_message?: string;
+}
+
+export interface BatchRefreshResult {
+  message: string;
+  job: BatchJobStatus;
+  summary: {
+    total_processed: number | null;
+    high_risk: number | null;
+    medium_risk: number | null;
+    low_risk: number | null;
+    min_count: number;
+    last_updated: string;
+  };
+  note: string;
+}
+
+export interface CaseList {
+  cases: CaseSummary[];
+  counts: Record<CaseState, number>;   // Visible cases per state, before the state filter
+}
+
+// 202 when persisted = 'outbox': accepted, written once the warehouse is back
+export interface CaseTransitionResult {
+  case: CaseDetail;
+  audit: AuditEntry;
+  persisted: WriteOutcome;
+}
+
+export interface AuditRecordResult extends CaseTransitionResult {
+  message: string;
+}
+
+export interface AssignmentReport {
+  strategy: AssignmentStrategy;
+  assigned: number;             // Results with assigned = true
+  results: AssignmentResult[];
+}
+
+export interface AuditVerification extends ChainVerification {
+  verified_at: string;
+}
+
+export interface Reidentification {
+  export_id: string;
+  exported_at: string;
+  exported_by: string;
+  results: ReidentifiedRow[];
+}
+
+export interface AlertSent {
+  message: string;
+  alert: AlertRecord;
+}
+
+export interface AuthProviders {
+  local: boolean;
+  oidc: { name: string } | null;
+}
+
+export interface SessionState {
+  session: SessionInfo;
+  jurisdiction: Jurisdiction | null;   // null if the lookup failed
+}
+
+export interface SlaReport {
+  checker: SlaCheckerStatus;
+  overdue: OverdueCase[];
+}
+
+export interface SlaRun {
+  results: SlaCheckResult[];
+  checker: SlaCheckerStatus;
+}
+
+export interface AlertDeliveryReport {
+  transport: MailTransportKind;
+  pending: number;              // Waiting for a delivery retry
+  alerts: AlertRecord[];
+}
+
+export interface AlertRetryRun extends AlertRetryResult {
+  transport: MailTransportKind;
+}
+
+export interface AlertRuleDetail {
+  rule: AlertRule;
+  alerts: AlertRecord[];        // Most recent alerts the rule raised
+}
+
+export interface AlertRuleEngineReport {
+  enabled_rules: number;
+  runs: AlertRuleRun[];         // GET: latest run per scheme; POST: the runs just made
+}
+
+export interface OutboxReplay extends OutboxStatus {
+  replay: ReplayResult;
+}
+
+export interface MigrationReport extends MigrationStatus {
+  backend: DataSourceKind;
+  auto_apply?: boolean;         // GET only
+  applied?: number;             // POST only: migrations applied by this request
 }
 
 // ============================================
 // Helper: Generate human-readable reasons from flags
 // DETERMINISTIC - No AI inference here
 // ============================================
-export function generateReasonsFromFlags(flags: {
-  high_recent_activity: boolean;
-  multiple_dealers: boolean;
-  cross_district: boolean;
-  high_lifetime_usage: boolean;
-}): string[] {
-  const reasons: string[] = [];
-  
-  if (flags.high_recent_activity) {
-    reasons.push('Unusually high number of LPG refills in the last 30 days');
-  }
-  
-  if (flags.multiple_dealers) {
-    reasons.push('Refills taken from multiple dealers');
-  }
-  
-  if (flags.cross_district) {
-    reasons.push('LPG refills detected across districts');
-  }
-  
-  if (flags.high_lifetime_usage) {
-    reasons.push('Higher-than-expected lifetime refill count');
-  }
-  
-  if (reasons.length === 0) {
-    reasons.push('Refill behavior aligns with historical and regional norms');
-  }
-  
-  return reasons;
+export function generateReasonsFromFlags(
+  flags: Record<string, boolean>,
+  scheme: SchemeDefinition
+): string[] {
+  return getStaticExplanations(flagsToReasonCodes(flags, scheme), scheme, 'en');
 }
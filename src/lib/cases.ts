@@ -0,0 +1,228 @@
+// Case lifecycle
+// A case is one beneficiary in one scheme. Its state is derived by replaying
+// the beneficiary's audit history through the state machine below:
+//
+//   OPEN -> ASSIGNED -> UNDER_REVIEW -> FIELD_VERIFICATION -> ESCALATED -> CLOSED
+//                                                            (confirmed | cleared)
+//
+// Beneficiaries without audit history are implicitly OPEN. New actions are
+// validated against the current state before they are written; history is
+// replayed as recorded (older entries predate the lifecycle).
+//
+// Server-side only.
+
+import { getDataSource } from '@/lib/datasource';
+import {
+  readAuditHistory,
+  recordAuditEntry,
+  type AuditAction,
+  type AuditEntry,
+  type CaseAction,
+} from '@/lib/audit';
+import type { WriteOutcome } from '@/lib/outbox';
+import { CASE_ACTIONS, type CASE_STATES } from '@/lib/schemas';
+import type { SchemeDefinition, SchemeId } from '@/lib/schemes';
+import { v4 as uuidv4 } from 'uuid';
+
+export type CaseState = (typeof CASE_STATES)[number];
+
+export type CaseResolution = 'CONFIRMED' | 'CLEARED';
+
+interface Transition {
+  from: readonly CaseState[] | 'ANY';
+  to: CaseState | null;              // null = state unchanged
+  resolution?: CaseResolution;
+}
+
+// Allowed transitions - the single place the lifecycle is defined
+const TRANSITIONS: Record<CaseAction, Transition> = {
+  ASSIGNED: { from: ['OPEN', 'ASSIGNED'], to: 'ASSIGNED' },
+  // Also resumes review when a field report or escalation comes back
+  REVIEW_STARTED: { from: ['ASSIGNED', 'FIELD_VERIFICATION', 'ESCALATED'], to: 'UNDER_REVIEW' },
+  FIELD_VERIFICATION_REQUESTED: { from: ['UNDER_REVIEW'], to: 'FIELD_VERIFICATION' },
+  ESCALATED: { from: ['UNDER_REVIEW', 'FIELD_VERIFICATION'], to: 'ESCALATED' },
+  CONFIRMED: { from: ['UNDER_REVIEW', 'FIELD_VERIFICATION', 'ESCALATED'], to: 'CLOSED', resolution: 'CONFIRMED' },
+  CLEARED: { from: ['UNDER_REVIEW', 'FIELD_VERIFICATION', 'ESCALATED'], to: 'CLOSED', resolution: 'CLEARED' },
+  NOTE_ADDED: { from: 'ANY', to: null },
+};
+
+// Pre-lifecycle actions, mapped to their closest equivalent when replaying history
+const LEGACY_ACTIONS: Partial<Record<AuditAction, CaseAction>> = {
+  REVIEWED: 'REVIEW_STARTED',
+  FLAGGED: 'ESCALATED',
+};
+
+export interface CaseSummary {
+  beneficiary_id: string;
+  scheme: SchemeId;
+  state: CaseState;
+  resolution: CaseResolution | null;   // Set once CLOSED
+  opened_at: string | null;            // First audit entry (null = no activity yet)
+  updated_at: string | null;
+  last_action: AuditAction | null;
+  last_officer: string | null;
+  assignee_id: string | null;          // Officer the case is assigned to (see lib/assignment.ts)
+  assigned_at: string | null;
+  entries: number;
+}
+
+export interface CaseDetail extends CaseSummary {
+  allowed_actions: CaseAction[];
+  history: AuditEntry[];
+}
+
+export interface TransitionRequest {
+  beneficiary_id: string;
+  action: CaseAction;
+  officer_id?: string;
+  officer_name?: string;
+  notes?: string;
+  assignee_id?: string;                // Required for ASSIGNED
+}
+
+export class CaseTransitionError extends Error {
+  readonly state: CaseState;
+
+  constructor(message: string, state: CaseState) {
+    super(message);
+    this.name = 'CaseTransitionError';
+    this.state = state;
+  }
+}
+
+export function allowedActions(state: CaseState): CaseAction[] {
+  return CASE_ACTIONS.filter((action) => {
+    const { from } = TRANSITIONS[action];
+    return from === 'ANY' || from.includes(state);
+  });
+}
+
+function emptyCase(beneficiaryId: string, scheme: SchemeId): CaseSummary {
+  return {
+    beneficiary_id: beneficiaryId,
+    scheme,
+    state: 'OPEN',
+    resolution: null,
+    opened_at: null,
+    updated_at: null,
+    last_action: null,
+    last_officer: null,
+    assignee_id: null,
+    assigned_at: null,
+    entries: 0,
+  };
+}
+
+// Replay one entry on top of a case (history is taken as recorded, not re-validated)
+function applyEntry(current: CaseSummary, entry: AuditEntry): CaseSummary {
+  const action = LEGACY_ACTIONS[entry.action] ?? entry.action;
+  const transition = TRANSITIONS[action as CaseAction];
+  const next = { ...current };
+
+  if (transition?.to) {
+    next.state = transition.to;
+    next.resolution = transition.resolution ?? null;
+  }
+  if (action === 'ASSIGNED') {
+    // Entries from before the roster existed were officers taking the case themselves
+    next.assignee_id = entry.assignee_id ?? entry.officer_id;
+    next.assigned_at = entry.created_at;
+  }
+  next.opened_at = current.opened_at ?? entry.created_at;
+  next.updated_at = entry.created_at;
+  next.last_action = entry.action;
+  next.last_officer = entry.officer_name;
+  next.entries = current.entries + 1;
+  return next;
+}
+
+/**
+ * Current state of cases in one scheme
+ * @param beneficiaryIds - Cases to load (untouched ones come back OPEN);
+ *   omit for every case with audit activity
+ */
+export async function loadCases(scheme: SchemeId, beneficiaryIds?: string[]): Promise<Map<string, CaseSummary>> {
+  const history = await readAuditHistory(scheme, beneficiaryIds);
+  const cases = new Map<string, CaseSummary>(
+    (beneficiaryIds ?? []).map((id) => [id, emptyCase(id, scheme)])
+  );
+  for (const entry of history) {
+    const current = cases.get(entry.beneficiary_id) ?? emptyCase(entry.beneficiary_id, scheme);
+    cases.set(entry.beneficiary_id, applyEntry(current, entry));
+  }
+  return cases;
+}
+
+export async function getCase(scheme: SchemeId, beneficiaryId: string): Promise<CaseDetail> {
+  const history = await readAuditHistory(scheme, [beneficiaryId]);
+  const summary = history.reduce(applyEntry, emptyCase(beneficiaryId, scheme));
+  return { ...summary, allowed_actions: allowedActions(summary.state), history };
+}
+
+function assertAllowed(current: CaseDetail, action: CaseAction): void {
+  const allowed = allowedActions(current.state);
+  if (!allowed.includes(action)) {
+    throw new CaseTransitionError(
+      `Cannot apply ${action} to a case in state ${current.state} (allowed: ${allowed.join(', ')})`,
+      current.state
+    );
+  }
+}
+
+/**
+ * Validate an action against the case's current state and record it
+ * The state is checked again under the audit append lock, so concurrent
+ * actions on one case cannot both pass against the same state.
+ * @throws CaseTransitionError if the lifecycle does not allow the action now
+ */
+export async function transitionCase(
+  scheme: SchemeDefinition,
+  request: TransitionRequest
+): Promise<{ case: CaseDetail; audit: AuditEntry; persisted: WriteOutcome }> {
+  let current = await getCase(scheme.id, request.beneficiary_id);
+  const transition = TRANSITIONS[request.action];
+  assertAllowed(current, request.action);
+  if (request.action === 'ASSIGNED' && !request.assignee_id) {
+    throw new Error('ASSIGNED requires an assignee_id');
+  }
+
+  // Risk level at the time of the action
+  const dataSource = getDataSource();
+  let riskLevel = 'UNKNOWN';
+  try {
+    const rows = await dataSource.query(`
+      SELECT risk_level
+      FROM ${dataSource.table('fraud_with_explanations', scheme.id)}
+      WHERE beneficiary_id = @beneficiary_id
+    `, { beneficiary_id: request.beneficiary_id });
+    riskLevel = rows[0]?.risk_level || 'UNKNOWN';
+  } catch (statusError) {
+    // Best effort - during a warehouse outage the action is still queued
+    console.error('Case risk lookup failed:', statusError instanceof Error ? statusError.message : statusError);
+  }
+
+  const { entry: audit, persisted } = await recordAuditEntry({
+    audit_id: uuidv4(),
+    beneficiary_id: request.beneficiary_id,
+    scheme: scheme.id,
+    action: request.action,
+    officer_id: request.officer_id || 'SYSTEM',
+    officer_name: request.officer_name || 'System User',
+    notes: request.notes || '',
+    previous_status: riskLevel,
+    new_status: transition.resolution === 'CLEARED' ? 'LOW' : riskLevel,
+    assignee_id: request.action === 'ASSIGNED' ? request.assignee_id : undefined,
+    created_at: new Date().toISOString(),
+  }, async () => {
+    current = await getCase(scheme.id, request.beneficiary_id);
+    assertAllowed(current, request.action);
+  });
+  const history = [...current.history, audit];
+  const summary = applyEntry(current, audit);
+
+  return {
+    case: { ...summary, allowed_actions: allowedActions(summary.state), history },
+    audit,
+    persisted,
+  };
+}
@@ -0,0 +1,218 @@
+// Typed API client
+// One method per route, typed with the same request schemas (lib/schemas.ts)
+// and response types (lib/bigquery.ts and the lib modules) the routes use, so
+// a change to a route's payload breaks its callers at compile time. Methods
+// resolve to the envelope ({ data, meta }) and throw ApiError on a failure.
+//
+// Shared with the browser - server modules are imported for their types only.
+
+import type { AccessRecord } from '@/lib/access';
+import type { ApiResponse, ApiSuccess, ErrorCode, FieldError } from '@/lib/api';
+import type { AuditEntry } from '@/lib/audit';
+import type { SessionInfo } from '@/lib/auth';
+import type {
+  AlertCandidate,
+  AlertDeliveryReport,
+  AlertRetryRun,
+  AlertRuleDetail,
+  AlertRuleEngineReport,
+  AlertSent,
+  AssignmentReport,
+  AuditExport,
+  AuditRecordResult,
+  AuditVerification,
+  AuthProviders,
+  BatchJobStatus,
+  BatchRefreshResult,
+  BeneficiaryDetail,
+  BeneficiarySearchResult,
+  CaseList,
+  CaseTransitionResult,
+  DashboardSummary,
+  DistrictRisk,
+  HighRiskBeneficiary,
+  MigrationReport,
+  OfficerQueue,
+  OutboxReplay,
+  Reidentification,
+  RiskDistribution,
+  RosterOfficer,
+  SchemeList,
+  SessionState,
+  SlaReport,
+  SlaRun,
+  TemporalSpike,
+  TimeSeriesDataPoint,
+} from '@/lib/bigquery';
+import type { CaseDetail, CaseState } from '@/lib/cases';
+import type { Officer } from '@/lib/officers';
+import type { OutboxStatus } from '@/lib/outbox';
+import type { AlertRule } from '@/lib/rules';
+import {
+  toSearchParams,
+  type AccessLogQuery,
+  type AlertBody,
+  type AlertListQuery,
+  type AlertRuleBody,
+  type AlertRuleQuery,
+  type AssignBody,
+  type AuditEntryBody,
+  type AuditExportQuery,
+  type AuditTrailQuery,
+  type AuditVerifyQuery,
+  type BatchJobQuery,
+  type BatchRefreshBody,
+  type BeneficiaryDetailQuery,
+  type CasesQuery,
+  type CaseTransitionBody,
+  type HighRiskQuery,
+  type LoginBody,
+  type OfficerBody,
+  type ReidentifyBody,
+  type SchemeQuery,
+  type SearchQuery,
+  type TemporalSpikesQuery,
+  type TimeSeriesQuery,
+} from '@/lib/schemas';
+
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly code: ErrorCode,
+    public readonly fields: FieldError[] = [],
+    public readonly state: CaseState | null = null   // CONFLICT on a case transition
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+interface RequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  query?: object;
+  body?: unknown;
+  signal?: AbortSignal;
+}
+
+/**
+ * Call a route and unwrap its envelope
+ * @throws ApiError for a failure envelope or a response that is not JSON
+ */
+async function request<T>(path: string, { method = 'GET', query, body, signal }: RequestOptions = {}): Promise<ApiSuccess<T>> {
+  const search = query ? toSearchParams(query).toString() : '';
+  const res = await fetch(search ? `${path}?${search}` : path, {
+    method,
+    signal,
+    ...(body === undefined ? {} : { headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) }),
+  });
+
+  let payload: ApiResponse<T>;
+  try {
+    payload = await res.json();
+  } catch {
+    throw new ApiError(`HTTP ${res.status}`, res.status, 'INTERNAL_ERROR');
+  }
+  if (!payload.success) {
+    throw new ApiError(payload.error, res.status, payload.code, payload.fields, payload.state ?? null);
+  }
+  return payload;
+}
+
+function segment(value: string): string {
+  return encodeURIComponent(value);
+}
+
+export const api = {
+  auth: {
+    providers: () => request<AuthProviders>('/api/auth/providers'),
+    session: () => request<SessionState>('/api/auth/session'),
+    login: (body: LoginBody) => request<{ session: SessionInfo }>('/api/auth/login', { method: 'POST', body }),
+    logout: () => request<null>('/api/auth/logout', { method: 'POST' }),
+  },
+
+  schemes: {
+    list: () => request<SchemeList>('/api/schemes'),
+  },
+
+  dashboard: {
+    summary: (query: SchemeQuery = {}) => request<DashboardSummary>('/api/dashboard/summary', { query }),
+    distribution: (query: SchemeQuery = {}) => request<RiskDistribution[]>('/api/dashboard/distribution', { query }),
+  },
+
+  geo: {
+    districtRisk: (query: SchemeQuery = {}) => request<DistrictRisk[]>('/api/geo/district-risk', { query }),
+  },
+
+  beneficiaries: {
+    highRisk: (query: HighRiskQuery) => request<HighRiskBeneficiary[]>('/api/beneficiaries/high-risk', { query }),
+    search: (query: SearchQuery, signal?: AbortSignal) =>
+      request<BeneficiarySearchResult[]>('/api/beneficiaries/search', { query, signal }),
+    detail: (beneficiaryId: string, query: BeneficiaryDetailQuery = {}) =>
+      request<BeneficiaryDetail>(`/api/beneficiaries/${segment(beneficiaryId)}`, { query }),
+  },
+
+  analytics: {
+    timeSeries: (query: TimeSeriesQuery) => request<TimeSeriesDataPoint[]>('/api/analytics/time-series', { query }),
+    temporalSpikes: (query: TemporalSpikesQuery) => request<TemporalSpike[]>('/api/analytics/temporal-spikes', { query }),
+  },
+
+  cases: {
+    list: (query: CasesQuery) => request<CaseList>('/api/cases', { query }),
+    get: (beneficiaryId: string, query: SchemeQuery = {}) =>
+      request<CaseDetail>(`/api/cases/${segment(beneficiaryId)}`, { query }),
+    transition: (beneficiaryId: string, body: CaseTransitionBody) =>
+      request<CaseTransitionResult>(`/api/cases/${segment(beneficiaryId)}`, { method: 'POST', body }),
+    assign: (body: AssignBody) => request<AssignmentReport>('/api/cases/assign', { method: 'POST', body }),
+  },
+
+  audit: {
+    trail: (query: AuditTrailQuery = {}) => request<AuditEntry[]>('/api/audit', { query }),
+    record: (body: AuditEntryBody) => request<AuditRecordResult>('/api/audit', { method: 'POST', body }),
+    verify: (query: AuditVerifyQuery = {}) => request<AuditVerification>('/api/audit/verify', { query }),
+    export: (query: Omit<AuditExportQuery, 'format'> = {}) =>
+      request<AuditExport>('/api/audit/export', { query: { ...query, format: 'json' } }),
+    // CSV exports are downloaded rather than parsed, so only the URL is built
+    exportUrl: (query: Omit<AuditExportQuery, 'format'> = {}) =>
+      `/api/audit/export?${toSearchParams({ ...query, format: 'csv' })}`,
+    reidentify: (body: ReidentifyBody) => request<Reidentification>('/api/audit/export/reidentify', { method: 'POST', body }),
+  },
+
+  officers: {
+    list: () => request<RosterOfficer[]>('/api/officers'),
+    save: (body: OfficerBody) => request<Officer>('/api/officers', { method: 'POST', body }),
+    queue: (officerId: string, query: SchemeQuery = {}) =>
+      request<OfficerQueue>(`/api/officers/${segment(officerId)}/queue`, { query }),
+  },
+
+  alerts: {
+    candidates: (query: SchemeQuery = {}) => request<AlertCandidate[]>('/api/alerts/email', { query }),
+    send: (body: AlertBody) => request<AlertSent>('/api/alerts/email', { method: 'POST', body }),
+    rules: (query: AlertRuleQuery = {}) => request<AlertRule[]>('/api/alerts/rules', { query }),
+    rule: (ruleId: string) => request<AlertRuleDetail>(`/api/alerts/rules/${segment(ruleId)}`),
+    createRule: (body: AlertRuleBody) => request<AlertRule>('/api/alerts/rules', { method: 'POST', body }),
+    updateRule: (ruleId: string, body: AlertRuleBody) =>
+      request<AlertRule>(`/api/alerts/rules/${segment(ruleId)}`, { method: 'PUT', body }),
+    deleteRule: (ruleId: string) => request<AlertRule>(`/api/alerts/rules/${segment(ruleId)}`, { method: 'DELETE' }),
+  },
+
+  batch: {
+    refresh: (body: BatchRefreshBody = {}) => request<BatchRefreshResult>('/api/batch/refresh', { method: 'POST', body }),
+    job: (jobId: string) => request<BatchJobStatus>('/api/batch/refresh', { query: { job_id: jobId } satisfies BatchJobQuery }),
+    jobs: () => request<BatchJobStatus[]>('/api/batch/refresh'),
+  },
+
+  admin: {
+    accessLog: (query: AccessLogQuery = {}) => request<AccessRecord[]>('/api/admin/access-log', { query }),
+    alerts: (query: AlertListQuery = {}) => request<AlertDeliveryReport>('/api/admin/alerts', { query }),
+    retryAlerts: () => request<AlertRetryRun>('/api/admin/alerts', { method: 'POST' }),
+    rules: () => request<AlertRuleEngineReport>('/api/admin/rules'),
+    evaluateRules: () => request<AlertRuleEngineReport>('/api/admin/rules', { method: 'POST' }),
+    sla: (query: SchemeQuery = {}) => request<SlaReport>('/api/admin/sla', { query }),
+    runSla: () => request<SlaRun>('/api/admin/sla', { method: 'POST' }),
+    outbox: () => request<OutboxStatus>('/api/admin/outbox'),
+    replayOutbox: () => request<OutboxReplay>('/api/admin/outbox', { method: 'POST' }),
+    migrations: () => request<MigrationReport>('/api/admin/migrations'),
+    applyMigrations: () => request<MigrationReport>('/api/admin/migrations', { method: 'POST' }),
+  },
+};
@@ -0,0 +1,539 @@
+// Application configuration
+// Every deployment-specific value (GCP project, dataset, table names, key file,
+// enabled schemes, Gemini settings) is resolved from the environment here - nowhere else.
+// The config is validated as a whole so a misconfigured deployment reports
+// every problem at once instead of failing on the first query.
+//
+// Server-side only: never import this from client components.
+
+import fs from 'fs';
+import path from 'path';
+import type { DataSourceKind, SchemeTableName, SharedTableName } from '@/lib/datasource';
+import type { MailTransportKind } from '@/lib/mail';
+import { SCHEME_IDS } from '@/lib/schemas';
+import type { SchemeId } from '@/lib/schemes';
+
+export interface BigQueryConfig {
+  projectId: string;
+  datasetId: string;
+  keyFilename?: string;         // Unset = Application Default Credentials
+  tables: Record<SharedTableName, string>;
+  schemeTables: Record<SchemeId, Record<SchemeTableName, string>>;
+}
+
+export interface SchemesConfig {
+  enabled: SchemeId[];          // Offered in the scheme switcher and accepted by the APIs
+  default: SchemeId;            // Used when a request does not name a scheme
+}
+
+export interface GeminiConfig {
+  apiKey: string;               // Empty = static explanations only
+  apiUrl: string;
+  timeoutMs: number;
+}
+
+export interface SpikeDetectionConfig {
+  // z-score lower bounds for each severity band (critical > high > moderate)
+  sigma: { critical: number; high: number; moderate: number };
+  baselineDays: number;         // Rolling baseline window length
+  minCount: number;             // Ignore days with fewer anomalies than this
+}
+
+export interface OutboxConfig {
+  dir: string;                  // Directory holding the append-only outbox file
+  retryBaseMs: number;          // Delay before the first retry (doubles per attempt)
+  retryMaxMs: number;           // Upper bound for the retry delay
+}
+
+export interface SlaConfig {
+  // Days a case at each risk level may go without review once flagged
+  reviewDays: { HIGH: number; MEDIUM: number };
+  checkerEnabled: boolean;      // Run the background breach checker in this process
+  checkIntervalMs: number;
+  escalationRecipient: string;  // Where breach alerts are addressed
+}
+
+export interface ExportsConfig {
+  mappingDir: string;           // Encrypted pseudonym mappings, one file per export
+  mappingKey?: string;          // Encrypts the mappings; unset = derived from the session secret
+}
+
+export interface AccessMonitorConfig {
+  baselineDays: number;         // Days of an officer's history their usual view volume is taken from
+  minViews: number;             // Never flag a day with fewer record views than this
+  multiplier: number;           // Flag a day with more views than this many times the usual daily volume
+  recipient: string;            // Where view-volume alerts are addressed
+}
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean;              // TLS from the first byte (port 465); otherwise STARTTLS when offered
+  user?: string;                // Unset = no AUTH
+  password?: string;
+  timeoutMs: number;            // Per reply
+}
+
+export interface MailConfig {
+  transport: MailTransportKind;
+  from: string;                 // From header, e.g. 'JanAvlokan Alerts <alerts@example.gov.in>'
+  dir: string;                  // Where the file transport writes .eml files
+  smtp: SmtpConfig | null;      // null unless MAIL_TRANSPORT=smtp
+  alertRecipient: string;       // Where alerts raised from the dashboard are addressed
+  maxAttempts: number;          // Transient failures are retried until this many attempts
+  retryIntervalMs: number;
+}
+
+export interface DisclosureConfig {
+  minCount: number;             // k - aggregate counts below it are masked (1 = no suppression)
+}
+
+export interface OidcConfig {
+  issuer: string;               // Discovery document at <issuer>/.well-known/openid-configuration
+  clientId: string;
+  clientSecret: string;
+  redirectUri?: string;         // Unset = <request origin>/api/auth/oidc/callback
+  scopes: string;
+  officerClaim: string;         // ID token claim holding the email matched against officers.email
+  displayName: string;          // Label of the sign-in button
+}
+
+export interface AuthConfig {
+  secret?: string;              // Signs session cookies; unset only with DATA_SOURCE=local
+  sessionTtlMs: number;
+  cookieSecure: boolean;        // Send the session cookie over HTTPS only
+  localEnabled: boolean;        // Officer ID + password sign-in
+  oidc: OidcConfig | null;      // null = OIDC sign-in not configured
+}
+
+export interface MigrationsConfig {
+  autoApply: boolean;           // Apply pending migrations before the first query
+}
+
+export interface AppConfig {
+  dataSource: {
+    kind: DataSourceKind;
+    fixturesDir: string;
+  };
+  migrations: MigrationsConfig;
+  outbox: OutboxConfig;
+  sla: SlaConfig;
+  accessMonitor: AccessMonitorConfig;
+  mail: MailConfig;
+  exports: ExportsConfig;
+  disclosure: DisclosureConfig;
+  auth: AuthConfig;
+  bigquery: BigQueryConfig;
+  schemes: SchemesConfig;
+  gemini: GeminiConfig;
+  spikes: SpikeDetectionConfig;
+}
+
+export class ConfigError extends Error {
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid configuration:\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+    this.name = 'ConfigError';
+    this.issues = issues;
+  }
+}
+
+type Env = Record<string, string | undefined>;
+
+const DATA_SOURCE_KINDS: readonly DataSourceKind[] = ['bigquery', 'local'] as const;
+const MAIL_TRANSPORTS: readonly MailTransportKind[] = ['smtp', 'file'] as const;
+
+
+// LPG was the original (and only) scheme, so its tables keep the unprefixed names
+const LEGACY_SCHEME: SchemeId = 'lpg';
+
+const SCHEME_TABLES: readonly SchemeTableName[] = ['fraud_with_explanations', 'Beneficiaries', 'Transactions'] as const;
+
+// Logical table name -> env var that may override the physical name
+const SHARED_TABLE_ENV_VARS: Record<SharedTableName, string> = {
+  audit_trail: 'BQ_TABLE_AUDIT_TRAIL',
+  batch_jobs: 'BQ_TABLE_BATCH_JOBS',
+  alerts: 'BQ_TABLE_ALERTS',
+  alert_rules: 'BQ_TABLE_ALERT_RULES',
+  alert_rule_matches: 'BQ_TABLE_ALERT_RULE_MATCHES',
+  officers: 'BQ_TABLE_OFFICERS',
+  case_sla: 'BQ_TABLE_CASE_SLA',
+  access_log: 'BQ_TABLE_ACCESS_LOG',
+  schema_migrations: 'BQ_TABLE_SCHEMA_MIGRATIONS',
+};
+
+// Identifiers are interpolated into SQL, so only allow what BigQuery allows
+const PROJECT_ID_PATTERN = /^[a-z][a-z0-9-]{4,28}[a-z0-9]$/;
+const IDENTIFIER_PATTERN = /^[A-Za-z_][A-Za-z0-9_]{0,1023}$/;
+
+const DEFAULT_GEMINI_MODEL = 'gemini-3-flash';
+const DEFAULT_GEMINI_TIMEOUT_MS = 10_000;
+const DEFAULT_KEY_FILE = 'gcp-key.json';
+const DEFAULT_SPIKE_SIGMA = { critical: 2.5, high: 2, moderate: 1.5 };
+const DEFAULT_SPIKE_BASELINE_DAYS = 28;
+const DEFAULT_SPIKE_MIN_COUNT = 3;
+const DEFAULT_OUTBOX_DIR = path.join('.data', 'outbox');
+const DEFAULT_OUTBOX_RETRY_BASE_MS = 30_000;
+const DEFAULT_OUTBOX_RETRY_MAX_MS = 30 * 60_000;
+const DEFAULT_SLA_DAYS = { HIGH: 7, MEDIUM: 30 };
+const DEFAULT_SLA_CHECK_INTERVAL_MS = 15 * 60_000;
+const DEFAULT_SLA_ESCALATION_RECIPIENT = 'district-supervisors@example.gov.in';
+const DEFAULT_ACCESS_BASELINE_DAYS = 14;
+const DEFAULT_ACCESS_MIN_VIEWS = 50;
+const DEFAULT_ACCESS_MULTIPLIER = 3;
+const DEFAULT_ACCESS_ALERT_RECIPIENT = 'privacy-office@example.gov.in';
+const DEFAULT_ALERT_RECIPIENT = 'audit-team@example.gov.in';
+const DEFAULT_MAIL_FROM = 'JanAvlokan Alerts <alerts@janavlokan.local>';
+const DEFAULT_MAIL_DIR = path.join('.data', 'mail');
+const DEFAULT_SMTP_PORT = 587;
+const SMTPS_PORT = 465;
+const DEFAULT_SMTP_TIMEOUT_MS = 15_000;
+const DEFAULT_MAIL_MAX_ATTEMPTS = 5;
+const DEFAULT_MAIL_RETRY_INTERVAL_MS = 5 * 60_000;
+// Placeholder recipients must not be used for real mail
+const PLACEHOLDER_MAIL_DOMAIN = '@example.gov.in';
+const DEFAULT_EXPORT_MAPPING_DIR = path.join('.data', 'export-mappings');
+const DEFAULT_DISCLOSURE_MIN_COUNT = 5;
+const DEFAULT_SESSION_TTL_MS = 8 * 60 * 60_000;
+const MIN_AUTH_SECRET_LENGTH = 32;
+const DEFAULT_OIDC_SCOPES = 'openid email profile';
+const DEFAULT_OIDC_OFFICER_CLAIM = 'email';
+
+/**
+ * Physical table name used when no override is configured
+ * (also the fixture file name for the local backend), e.g. pds_Transactions
+ */
+export function defaultTableName(scheme: SchemeId, table: SchemeTableName): string {
+  return scheme === LEGACY_SCHEME ? table : `${scheme}_${table}`;
+}
+
+// e.g. BQ_TABLE_PDS_FRAUD_WITH_EXPLANATIONS; LPG also accepts the original BQ_TABLE_<TABLE>
+function tableEnvVars(scheme: SchemeId, table: SchemeTableName): string[] {
+  const suffix = table.toUpperCase();
+  const scoped = `BQ_TABLE_${scheme.toUpperCase()}_${suffix}`;
+  return scheme === LEGACY_SCHEME ? [scoped, `BQ_TABLE_${suffix}`] : [scoped];
+}
+
+function read(env: Env, name: string): string | undefined {
+  const value = env[name]?.trim();
+  return value ? value : undefined;
+}
+
+function readBoolean(env: Env, name: string, fallback: boolean, issues: string[]): boolean {
+  const raw = read(env, name);
+  if (raw === undefined) return fallback;
+  if (['true', '1', 'yes'].includes(raw.toLowerCase())) return true;
+  if (['false', '0', 'no'].includes(raw.toLowerCase())) return false;
+  issues.push(`${name} must be true or false (got '${raw}')`);
+  return fallback;
+}
+
+function readNumber(
+  env: Env,
+  name: string,
+  fallback: number,
+  issues: string[],
+  { integer = false, min = 0 }: { integer?: boolean; min?: number } = {}
+): number {
+  const raw = read(env, name);
+  if (raw === undefined) return fallback;
+  const value = Number(raw);
+  if (!Number.isFinite(value) || (integer && !Number.isInteger(value)) || value <= min) {
+    issues.push(`${name} must be a ${integer ? 'whole number' : 'number'} greater than ${min} (got '${raw}')`);
+    return fallback;
+  }
+  return value;
+}
+
+/**
+ * Resolve and validate configuration from environment variables
+ * @param env - Environment to read (defaults to process.env)
+ * @throws ConfigError listing every invalid or missing setting
+ */
+export function loadConfig(env: Env = process.env): AppConfig {
+  const issues: string[] = [];
+
+  // --- Data source ---
+  const rawKind = (read(env, 'DATA_SOURCE') || 'bigquery').toLowerCase();
+  const kind = DATA_SOURCE_KINDS.includes(rawKind as DataSourceKind)
+    ? (rawKind as DataSourceKind)
+    : undefined;
+  if (!kind) {
+    issues.push(`DATA_SOURCE must be one of ${DATA_SOURCE_KINDS.join(', ')} (got '${rawKind}')`);
+  }
+
+  const fixturesDir = path.resolve(read(env, 'LOCAL_FIXTURES_DIR') || path.join('fixtures', 'local'));
+  if (kind === 'local' && !fs.existsSync(fixturesDir)) {
+    issues.push(`LOCAL_FIXTURES_DIR does not exist: ${fixturesDir}`);
+  }
+
+  // --- Migrations ---
+  // The local database is rebuilt in memory on every start, so it always needs
+  // the app tables; warehouse schema changes are applied deliberately by default
+  const autoApply = readBoolean(env, 'MIGRATIONS_AUTO_APPLY', kind === 'local', issues);
+
+  // --- Outbox for failed app-table writes ---
+  const outboxDir = path.resolve(read(env, 'OUTBOX_DIR') || DEFAULT_OUTBOX_DIR);
+  const retryBaseMs = readNumber(env, 'OUTBOX_RETRY_BASE_MS', DEFAULT_OUTBOX_RETRY_BASE_MS, issues, { integer: true });
+  const retryMaxMs = readNumber(env, 'OUTBOX_RETRY_MAX_MS', DEFAULT_OUTBOX_RETRY_MAX_MS, issues, { integer: true });
+  if (retryMaxMs < retryBaseMs) {
+    issues.push('OUTBOX_RETRY_MAX_MS must be at least OUTBOX_RETRY_BASE_MS');
+  }
+
+  // --- Review SLAs ---
+  const reviewDays = {
+    HIGH: readNumber(env, 'SLA_DAYS_HIGH', DEFAULT_SLA_DAYS.HIGH, issues),
+    MEDIUM: readNumber(env, 'SLA_DAYS_MEDIUM', DEFAULT_SLA_DAYS.MEDIUM, issues),
+  };
+  const checkerEnabled = readBoolean(env, 'SLA_CHECK_ENABLED', true, issues);
+  const checkIntervalMs = readNumber(env, 'SLA_CHECK_INTERVAL_MS', DEFAULT_SLA_CHECK_INTERVAL_MS, issues, { integer: true });
+  const escalationRecipient = read(env, 'SLA_ESCALATION_RECIPIENT') || DEFAULT_SLA_ESCALATION_RECIPIENT;
+
+  // --- Beneficiary record access monitoring ---
+  const accessMonitor = {
+    baselineDays: readNumber(env, 'ACCESS_ANOMALY_BASELINE_DAYS', DEFAULT_ACCESS_BASELINE_DAYS, issues, { integer: true }),
+    minViews: readNumber(env, 'ACCESS_ANOMALY_MIN_VIEWS', DEFAULT_ACCESS_MIN_VIEWS, issues, { integer: true }),
+    multiplier: readNumber(env, 'ACCESS_ANOMALY_MULTIPLIER', DEFAULT_ACCESS_MULTIPLIER, issues, { min: 1 }),
+    recipient: read(env, 'ACCESS_ANOMALY_RECIPIENT') || DEFAULT_ACCESS_ALERT_RECIPIENT,
+  };
+
+  // --- Alert email ---
+  // Without an SMTP relay, messages are written to MAIL_DIR (and reported as
+  // queued, not sent)
+  const smtpHost = read(env, 'SMTP_HOST');
+  const rawTransport = (read(env, 'MAIL_TRANSPORT') || (smtpHost ? 'smtp' : 'file')).toLowerCase();
+  const mailTransport = MAIL_TRANSPORTS.includes(rawTransport as MailTransportKind)
+    ? (rawTransport as MailTransportKind)
+    : 'file';
+  if (!MAIL_TRANSPORTS.includes(rawTransport as MailTransportKind)) {
+    issues.push(`MAIL_TRANSPORT must be one of ${MAIL_TRANSPORTS.join(', ')} (got '${rawTransport}')`);
+  }
+
+  const mailFrom = read(env, 'MAIL_FROM');
+  const alertRecipient = read(env, 'ALERT_RECIPIENT') || DEFAULT_ALERT_RECIPIENT;
+  let smtp: SmtpConfig | null = null;
+  if (mailTransport === 'smtp') {
+    if (!smtpHost) issues.push('SMTP_HOST is required when MAIL_TRANSPORT=smtp');
+    if (!mailFrom) issues.push('MAIL_FROM is required when MAIL_TRANSPORT=smtp');
+    const placeholders = [
+      ['ALERT_RECIPIENT', alertRecipient],
+      ['SLA_ESCALATION_RECIPIENT', escalationRecipient],
+      ['ACCESS_ANOMALY_RECIPIENT', accessMonitor.recipient],
+    ].filter(([, recipient]) => recipient.includes(PLACEHOLDER_MAIL_DOMAIN));
+    for (const [name] of placeholders) {
+      issues.push(`${name} must be set to a real address when MAIL_TRANSPORT=smtp`);
+    }
+
+    const port = readNumber(env, 'SMTP_PORT', DEFAULT_SMTP_PORT, issues, { integer: true });
+    const user = read(env, 'SMTP_USER');
+    const password = read(env, 'SMTP_PASSWORD');
+    if (Boolean(user) !== Boolean(password)) {
+      issues.push('SMTP_USER and SMTP_PASSWORD must be set together');
+    }
+    smtp = {
+      host: smtpHost ?? '',
+      port,
+      secure: readBoolean(env, 'SMTP_SECURE', port === SMTPS_PORT, issues),
+      user,
+      password,
+      timeoutMs: readNumber(env, 'SMTP_TIMEOUT_MS', DEFAULT_SMTP_TIMEOUT_MS, issues, { integer: true }),
+    };
+  }
+  const mail: MailConfig = {
+    transport: mailTransport,
+    from: mailFrom || DEFAULT_MAIL_FROM,
+    dir: path.resolve(read(env, 'MAIL_DIR') || DEFAULT_MAIL_DIR),
+    smtp,
+    alertRecipient,
+    maxAttempts: readNumber(env, 'MAIL_MAX_ATTEMPTS', DEFAULT_MAIL_MAX_ATTEMPTS, issues, { integer: true }),
+    retryIntervalMs: readNumber(env, 'MAIL_RETRY_INTERVAL_MS', DEFAULT_MAIL_RETRY_INTERVAL_MS, issues, { integer: true }),
+  };
+
+  // --- Pseudonymized exports ---
+  const mappingDir = path.resolve(read(env, 'EXPORT_MAPPING_DIR') || DEFAULT_EXPORT_MAPPING_DIR);
+  const mappingKey = read(env, 'EXPORT_MAPPING_KEY');
+  if (mappingKey && mappingKey.length < MIN_AUTH_SECRET_LENGTH) {
+    issues.push(`EXPORT_MAPPING_KEY must be at least ${MIN_AUTH_SECRET_LENGTH} characters`);
+  }
+
+  // --- Small-count suppression ---
+  const disclosureMinCount = readNumber(env, 'DISCLOSURE_MIN_COUNT', DEFAULT_DISCLOSURE_MIN_COUNT, issues, { integer: true });
+
+  // --- Authentication ---
+  // The local backend holds fixture data only, so it may sign sessions with a
+  // generated secret; a warehouse deployment must configure one
+  const authSecret = read(env, 'AUTH_SECRET');
+  if (!authSecret) {
+    if (kind !== 'local') issues.push('AUTH_SECRET is required unless DATA_SOURCE=local');
+  } else if (authSecret.length < MIN_AUTH_SECRET_LENGTH) {
+    issues.push(`AUTH_SECRET must be at least ${MIN_AUTH_SECRET_LENGTH} characters`);
+  }
+  const sessionTtlMs = readNumber(env, 'AUTH_SESSION_TTL_MS', DEFAULT_SESSION_TTL_MS, issues, { integer: true });
+  const cookieSecure = readBoolean(env, 'AUTH_COOKIE_SECURE', env.NODE_ENV === 'production', issues);
+  const localEnabled = readBoolean(env, 'AUTH_LOCAL_ENABLED', true, issues);
+
+  let oidc: OidcConfig | null = null;
+  const oidcIssuer = read(env, 'OIDC_ISSUER');
+  const oidcClientId = read(env, 'OIDC_CLIENT_ID');
+  const oidcClientSecret = read(env, 'OIDC_CLIENT_SECRET');
+  if (oidcIssuer || oidcClientId || oidcClientSecret) {
+    if (!oidcIssuer || !oidcClientId || !oidcClientSecret) {
+      issues.push('OIDC_ISSUER, OIDC_CLIENT_ID and OIDC_CLIENT_SECRET must be set together');
+    } else {
+      try {
+        if (new URL(oidcIssuer).protocol !== 'https:' && kind !== 'local') {
+          issues.push('OIDC_ISSUER must use https');
+        }
+      } catch {
+        issues.push(`OIDC_ISSUER '${oidcIssuer}' is not a valid URL`);
+      }
+      oidc = {
+        issuer: oidcIssuer.replace(/\/+$/, ''),
+        clientId: oidcClientId,
+        clientSecret: oidcClientSecret,
+        redirectUri: read(env, 'OIDC_REDIRECT_URI'),
+        scopes: read(env, 'OIDC_SCOPES') || DEFAULT_OIDC_SCOPES,
+        officerClaim: read(env, 'OIDC_OFFICER_CLAIM') || DEFAULT_OIDC_OFFICER_CLAIM,
+        displayName: read(env, 'OIDC_DISPLAY_NAME') || 'Single sign-on',
+      };
+    }
+  }
+  if (!localEnabled && !oidc) {
+    issues.push('AUTH_LOCAL_ENABLED=false requires OIDC to be configured');
+  }
+
+  // --- BigQuery (only required when it is the active backend) ---
+  const requireBigQuery = kind === 'bigquery';
+  const projectId = read(env, 'GCP_PROJECT_ID') || '';
+  const datasetId = read(env, 'BQ_DATASET') || '';
+
+  if (!projectId) {
+    if (requireBigQuery) issues.push('GCP_PROJECT_ID is required when DATA_SOURCE=bigquery');
+  } else if (!PROJECT_ID_PATTERN.test(projectId)) {
+    issues.push(`GCP_PROJECT_ID '${projectId}' is not a valid project ID`);
+  }
+
+  if (!datasetId) {
+    if (requireBigQuery) issues.push('BQ_DATASET is required when DATA_SOURCE=bigquery');
+  } else if (!IDENTIFIER_PATTERN.test(datasetId)) {
+    issues.push(`BQ_DATASET '${datasetId}' is not a valid dataset name`);
+  }
+
+  const tables = {} as Record<SharedTableName, string>;
+  for (const [table, envVar] of Object.entries(SHARED_TABLE_ENV_VARS) as [SharedTableName, string][]) {
+    const name = read(env, envVar) || table;
+    if (!IDENTIFIER_PATTERN.test(name)) {
+      issues.push(`${envVar} '${name}' is not a valid table name`);
+    }
+    tables[table] = name;
+  }
+
+  // --- Schemes ---
+  // Offline fixtures ship every scheme; a warehouse deployment opts in to the
+  // schemes whose tables it actually has
+  const rawSchemes = read(env, 'SCHEMES');
+  const enabled: SchemeId[] = [];
+  if (rawSchemes) {
+    const ids = rawSchemes.split(',').map((s) => s.trim().toLowerCase()).filter(Boolean);
+    if (ids.length === 0) {
+      issues.push('SCHEMES must list at least one scheme');
+    }
+    for (const id of ids) {
+      if (!SCHEME_IDS.includes(id as SchemeId)) {
+        issues.push(`SCHEMES contains unknown scheme '${id}' (allowed: ${SCHEME_IDS.join(', ')})`);
+      } else if (!enabled.includes(id as SchemeId)) {
+        enabled.push(id as SchemeId);
+      }
+    }
+  } else {
+    enabled.push(...(kind === 'local' ? SCHEME_IDS : [LEGACY_SCHEME]));
+  }
+
+  const defaultScheme = (read(env, 'DEFAULT_SCHEME') || enabled[0] || LEGACY_SCHEME).toLowerCase() as SchemeId;
+  if (enabled.length > 0 && !enabled.includes(defaultScheme)) {
+    issues.push(`DEFAULT_SCHEME '${defaultScheme}' must be one of the enabled schemes (${enabled.join(', ')})`);
+  }
+
+  const schemeTables = {} as Record<SchemeId, Record<SchemeTableName, string>>;
+  for (const scheme of SCHEME_IDS) {
+    schemeTables[scheme] = {} as Record<SchemeTableName, string>;
+    for (const table of SCHEME_TABLES) {
+      const envVar = tableEnvVars(scheme, table).find((name) => read(env, name));
+      const name = (envVar && read(env, envVar)) || defaultTableName(scheme, table);
+      if (!IDENTIFIER_PATTERN.test(name)) {
+        issues.push(`${envVar} '${name}' is not a valid table name`);
+      }
+      schemeTables[scheme][table] = name;
+    }
+  }
+
+  // Explicit key file must exist; otherwise fall back to ./gcp-key.json, then ADC
+  let keyFilename: string | undefined;
+  const explicitKeyFile = read(env, 'GCP_KEY_FILE');
+  if (explicitKeyFile) {
+    keyFilename = path.resolve(explicitKeyFile);
+    if (requireBigQuery && !fs.existsSync(keyFilename)) {
+      issues.push(`GCP_KEY_FILE does not exist: ${keyFilename}`);
+    }
+  } else {
+    const defaultKeyFile = path.resolve(DEFAULT_KEY_FILE);
+    keyFilename = fs.existsSync(defaultKeyFile) ? defaultKeyFile : undefined;
+  }
+
+  // --- Gemini ---
+  const geminiModel = read(env, 'GEMINI_MODEL') || DEFAULT_GEMINI_MODEL;
+  const geminiBaseUrl = read(env, 'GEMINI_API_BASE_URL') || 'https://generativelanguage.googleapis.com/v1/models';
+  const apiUrl = `${geminiBaseUrl.replace(/\/+$/, '')}/${geminiModel}`;
+  try {
+    if (new URL(apiUrl).protocol !== 'https:') {
+      issues.push('GEMINI_API_BASE_URL must use https');
+    }
+  } catch {
+    issues.push(`GEMINI_API_BASE_URL '${geminiBaseUrl}' is not a valid URL`);
+  }
+
+  const timeoutMs = readNumber(env, 'GEMINI_TIMEOUT_MS', DEFAULT_GEMINI_TIMEOUT_MS, issues, { integer: true });
+
+  // --- Spike detection ---
+  const sigma = {
+    critical: readNumber(env, 'SPIKE_SIGMA_CRITICAL', DEFAULT_SPIKE_SIGMA.critical, issues),
+    high: readNumber(env, 'SPIKE_SIGMA_HIGH', DEFAULT_SPIKE_SIGMA.high, issues),
+    moderate: readNumber(env, 'SPIKE_SIGMA_MODERATE', DEFAULT_SPIKE_SIGMA.moderate, issues),
+  };
+  if (!(sigma.critical > sigma.high && sigma.high > sigma.moderate)) {
+    issues.push('Spike sigma bands must satisfy SPIKE_SIGMA_CRITICAL > SPIKE_SIGMA_HIGH > SPIKE_SIGMA_MODERATE');
+  }
+  const baselineDays = readNumber(env, 'SPIKE_BASELINE_DAYS', DEFAULT_SPIKE_BASELINE_DAYS, issues, { integer: true, min: 2 });
+  const minCount = readNumber(env, 'SPIKE_MIN_COUNT', DEFAULT_SPIKE_MIN_COUNT, issues, { integer: true });
+
+  if (issues.length > 0) {
+    throw new ConfigError(issues);
+  }
+
+  return {
+    dataSource: { kind: kind as DataSourceKind, fixturesDir },
+    migrations: { autoApply },
+    outbox: { dir: outboxDir, retryBaseMs, retryMaxMs },
+    sla: { reviewDays, checkerEnabled, checkIntervalMs, escalationRecipient },
+    accessMonitor,
+    mail,
+    exports: { mappingDir, mappingKey },
+    disclosure: { minCount: disclosureMinCount },
+    auth: { secret: authSecret, sessionTtlMs, cookieSecure, localEnabled, oidc },
+    bigquery: { projectId, datasetId, keyFilename, tables, schemeTables },
+    schemes: { enabled, default: defaultScheme },
+    gemini: { apiKey: read(env, 'GEMINI_API_KEY') || '', apiUrl, timeoutMs },
+    spikes: { sigma, baselineDays, minCount },
+  };
+}
+
+// Singleton config - validated once per server process
+let config: AppConfig | null = null;
+
+export function getConfig(): AppConfig {
+  if (!config) {
+    config = loadConfig();
+  }
+  return config;
+}
@@ -0,0 +1,351 @@
+/// <reference types="vite/client" />
+// Contract tests: routes called in-process against the local data source
+// answer as the OpenAPI document describes (see lib/contract.ts). Read-only
+// routes go through runContractCheck; state-changing routes are called one by
+// one behind the request gate (src/proxy.ts), each test with its own outbox
+// and mail directories and an empty audit trail.
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { ApiResponse } from '@/lib/api';
+import { SESSION_COOKIE, createSession, signValue } from '@/lib/auth';
+import type { AssignmentReport, AuditRecordResult, AuditVerification, CaseTransitionResult, SlaReport, SlaRun } from '@/lib/bigquery';
+import { getConfig } from '@/lib/config';
+import { runContractCheck, type ContractCall, type ContractReport } from '@/lib/contract';
+import { getDataSource } from '@/lib/datasource';
+import { API_OPERATIONS, responseSchema, type ApiOperation } from '@/lib/openapi';
+import type { Role } from '@/lib/rbac';
+import { proxy } from '@/proxy';
+import { NextRequest } from 'next/server';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+type RouteHandler = (request: NextRequest, context: { params: Promise<Record<string, string>> }) => Promise<Response>;
+
+const ORIGIN = 'http://localhost:3000';
+const ADMIN = { officer_id: 'AO-3001', officer_name: 'Vikram Singh', role: 'state_admin' } as const;
+const SUPERVISOR = { officer_id: 'AO-1001', officer_name: 'Rajesh Kumar', role: 'district_supervisor' } as const;
+const AUDITOR = { officer_id: 'AO-1002', officer_name: 'Sunita Sharma', role: 'field_auditor' } as const;
+const VIEWER = { officer_id: 'AO-0001', officer_name: 'Meera Iyer', role: 'viewer' } as const;
+
+// Fixture officers all sign in with this password (README)
+const FIXTURE_PASSWORD = 'janavlokan';
+const OIDC_ISSUER = 'https://login.example.gov.in';
+const LONG_AGO = '2020-01-01T00:00:00.000Z';
+
+// Single sign-on is configured for the OIDC cases; config is read on first use
+vi.stubEnv('OIDC_ISSUER', OIDC_ISSUER);
+vi.stubEnv('OIDC_CLIENT_ID', 'janavlokan');
+vi.stubEnv('OIDC_CLIENT_SECRET', 'secret');
+
+type Officer = { officer_id: string; officer_name: string; role: Role };
+
+const routes = import.meta.glob<Record<string, RouteHandler>>('../app/api/**/route.ts');
+
+// /api/cases/{beneficiary_id} -> ../app/api/cases/[beneficiary_id]/route.ts
+function routeModule(operation: ApiOperation): string {
+  return `../app${operation.path.replace(/\{(\w+)\}/g, '[$1]')}/route.ts`;
+}
+
+function pathParams(operation: ApiOperation, pathname: string): Record<string, string> {
+  const names: string[] = [];
+  const pattern = operation.path.replace(/\{(\w+)\}/g, (_, name: string) => {
+    names.push(name);
+    return '([^/]+)';
+  });
+  const match = pathname.match(new RegExp(`^${pattern}$`));
+  return Object.fromEntries(names.map((name, i) => [name, decodeURIComponent(match?.[i + 1] ?? '')]));
+}
+
+function sessionCookie(officer: Officer): string {
+  return `${SESSION_COOKIE}=${signValue(createSession(officer, 'local'))}`;
+}
+
+// Invoke the route handler directly, as the app router would
+function callAs(cookie: string): ContractCall {
+  return async (operation, url) => {
+    const load = routes[routeModule(operation)];
+    if (!load) throw new Error(`No route module for ${operation.path}`);
+    const handler = (await load())[operation.method];
+    if (!handler) throw new Error(`${operation.path} has no ${operation.method} handler`);
+
+    const request = new NextRequest(url, { method: operation.method, headers: { cookie } });
+    return handler(request, { params: Promise.resolve(pathParams(operation, request.nextUrl.pathname)) });
+  };
+}
+
+describe('API contract', () => {
+  let report: ContractReport;
+
+  beforeAll(async () => {
+    // A rule to fill {rule_id} with
+    const createRule = API_OPERATIONS.find((op) => op.method === 'POST' && op.path === '/api/alerts/rules') as ApiOperation;
+    const routeHandler = (await routes[routeModule(createRule)]())[createRule.method];
+    const created = await routeHandler(
+      new NextRequest(`${ORIGIN}/api/alerts/rules`, {
+        method: 'POST',
+        headers: { cookie: sessionCookie(SUPERVISOR), 'content-type': 'application/json' },
+        body: JSON.stringify({ name: 'Contract test', scheme: 'lpg', trigger: { type: 'new_high_risk' } }),
+      }),
+      { params: Promise.resolve({}) }
+    );
+    expect(created.status).toBe(201);
+
+    report = await runContractCheck(ORIGIN, createSession(ADMIN, 'local'), callAs(sessionCookie(ADMIN)));
+  }, 120_000);
+
+  it('answers every read-only route as documented', () => {
+    const failures = report.results.filter((result) => !result.valid).map(({ url, status, issues }) => ({ url, status, issues }));
+    expect(failures).toEqual([]);
+    expect(report.passed).toBeGreaterThan(0);
+  });
+
+  it('fills every path parameter', () => {
+    expect(report.skipped.filter((skip) => skip.reason.startsWith('No value for'))).toEqual([]);
+  });
+
+  it('does not call routes that write or log data', () => {
+    const called = new Set(report.results.map((result) => `${result.method} ${result.path}`));
+    for (const operation of API_OPERATIONS.filter((op) => op.method !== 'GET' || op.sideEffects)) {
+      expect(called.has(`${operation.method} ${operation.path}`)).toBe(false);
+    }
+  });
+});
+
+// Operation a request is for; a literal path (/api/cases/assign) wins over a
+// path parameter (/api/cases/{beneficiary_id})
+function findOperation(method: string, pathname: string): ApiOperation {
+  const matches = API_OPERATIONS.filter((op) =>
+    op.method === method && new RegExp(`^${op.path.replace(/\{\w+\}/g, '[^/]+')}$`).test(pathname));
+  const operation = matches.find((op) => !op.path.includes('{')) ?? matches[0];
+  if (!operation) throw new Error(`No operation for ${method} ${pathname}`);
+  return operation;
+}
+
+interface Sent<T> {
+  status: number;
+  body: ApiResponse<T> | null;  // null for a redirect
+  response: Response;
+}
+
+/**
+ * Send a request through the request gate and, if it lets it pass, the route
+ * handler; a JSON answer must match the documented schema for its status
+ */
+async function send<T = unknown>(
+  method: string,
+  target: string,
+  { officer, cookie, body }: { officer?: Officer; cookie?: string; body?: unknown } = {}
+): Promise<Sent<T>> {
+  const url = new URL(target, ORIGIN);
+  const operation = findOperation(method, url.pathname);
+  const headers = { cookie: cookie ?? (officer ? sessionCookie(officer) : ''), 'content-type': 'application/json' };
+  const request = () => new NextRequest(url, { method, headers, body: body === undefined ? undefined : JSON.stringify(body) });
+
+  let response: Response = await proxy(request());
+  if (response.headers.get('x-middleware-next')) {
+    const handler = (await routes[routeModule(operation)]())[method];
+    response = await handler(request(), { params: Promise.resolve(pathParams(operation, url.pathname)) });
+  }
+
+  if (operation.format === 'redirect' && response.status < 400) {
+    return { status: response.status, body: null, response };
+  }
+  const json = await response.json();
+  const parsed = responseSchema(operation, response.status).safeParse(json);
+  expect(parsed.error?.issues ?? [], `${method} ${target} -> ${response.status}`).toEqual([]);
+  return { status: response.status, body: json, response };
+}
+
+function dataOf<T>(sent: Sent<T>): T {
+  if (!sent.body?.success) throw new Error(`Expected success, got ${sent.status}: ${sent.body?.error}`);
+  return sent.body.data;
+}
+
+// A HIGH risk LPG beneficiary in a district both the supervisor and the auditor cover
+async function highRiskBeneficiary(): Promise<string> {
+  const dataSource = getDataSource();
+  const [row] = await dataSource.query(`
+    SELECT f.beneficiary_id
+    FROM ${dataSource.table('fraud_with_explanations', 'lpg')} f
+    JOIN ${dataSource.table('Beneficiaries', 'lpg')} b ON f.beneficiary_id = b.beneficiary_id
+    WHERE f.risk_level = 'HIGH' AND b.residence_district = 'Lucknow'
+    ORDER BY f.beneficiary_id
+    LIMIT 1
+  `);
+  expect(row).toBeDefined();
+  return String(row.beneficiary_id);
+}
+
+describe('API contract: state-changing routes', () => {
+  const shared = globalThis as typeof globalThis & { __janavlokanAuditChain?: unknown; __janavlokanOutbox?: unknown };
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'janavlokan-contract-'));
+    const config = getConfig();
+    config.outbox.dir = path.join(dir, 'outbox');
+    config.mail.dir = path.join(dir, 'mail');
+
+    const dataSource = getDataSource();
+    await dataSource.execute(`DELETE FROM ${dataSource.table('audit_trail')}`);
+    await dataSource.execute(`DELETE FROM ${dataSource.table('case_sla')}`);
+    delete shared.__janavlokanAuditChain;
+    delete shared.__janavlokanOutbox;
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  afterAll(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  it('signs in with officer ID and password', async () => {
+    const signedIn = await send('POST', '/api/auth/login', { body: { officer_id: 'AO-1001', password: FIXTURE_PASSWORD } });
+    expect(signedIn.status).toBe(200);
+    expect(signedIn.response.headers.get('set-cookie')).toContain(`${SESSION_COOKIE}=`);
+
+    const wrongPassword = await send('POST', '/api/auth/login', { body: { officer_id: 'AO-1001', password: 'not-the-password' } });
+    const unknownOfficer = await send('POST', '/api/auth/login', { body: { officer_id: 'AO-9999', password: FIXTURE_PASSWORD } });
+    expect(wrongPassword.status).toBe(401);
+    expect(unknownOfficer.status).toBe(401);
+    expect(unknownOfficer.body).toEqual(wrongPassword.body);
+  });
+
+  it('signs in through single sign-on only with a verified email', async () => {
+    const signIn = async (claims: Record<string, unknown>) => {
+      vi.stubGlobal('fetch', async () => Response.json({
+        issuer: OIDC_ISSUER,
+        authorization_endpoint: `${OIDC_ISSUER}/authorize`,
+        token_endpoint: `${OIDC_ISSUER}/token`,
+      }));
+      const started = await send('GET', '/api/auth/oidc/login');
+      const authorize = new URL(started.response.headers.get('location') as string).searchParams;
+      const stateCookie = started.response.headers.get('set-cookie')?.split(';')[0] ?? '';
+
+      const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+      const idToken = `${encode({ alg: 'none' })}.${encode({
+        iss: OIDC_ISSUER,
+        aud: 'janavlokan',
+        exp: Math.floor(Date.now() / 1000) + 300,
+        nonce: authorize.get('nonce'),
+        ...claims,
+      })}.`;
+      vi.stubGlobal('fetch', async () => Response.json({ id_token: idToken }));
+      const callback = `/api/auth/oidc/callback?${new URLSearchParams({ state: authorize.get('state') as string, code: 'code' })}`;
+      return (await send('GET', callback, { cookie: stateCookie })).response;
+    };
+
+    const verified = await signIn({ email: 'rajesh.kumar@example.gov.in', email_verified: true });
+    expect(new URL(verified.headers.get('location') as string).pathname).not.toBe('/login');
+    expect(verified.headers.get('set-cookie')).toContain(`${SESSION_COOKIE}=`);
+
+    const unverified = await signIn({ email: 'rajesh.kumar@example.gov.in' });
+    const loginUrl = new URL(unverified.headers.get('location') as string);
+    expect(loginUrl.pathname).toBe('/login');
+    expect(loginUrl.searchParams.get('error')).toMatch(/not verified/);
+    expect(unverified.headers.get('set-cookie')).not.toContain(`${SESSION_COOKIE}=`);
+  });
+
+  it('moves a case through its lifecycle and rejects transitions its state does not allow', async () => {
+    const beneficiaryId = await highRiskBeneficiary();
+    const casePath = `/api/cases/${beneficiaryId}`;
+
+    const assigned = dataOf(await send<AssignmentReport>('POST', '/api/cases/assign', {
+      officer: SUPERVISOR,
+      body: { scheme: 'lpg', beneficiary_ids: [beneficiaryId], strategy: 'manual', officer_id: AUDITOR.officer_id },
+    }));
+    expect(assigned.assigned).toBe(1);
+    expect(assigned.results[0]).toMatchObject({ assigned: true, officer_id: AUDITOR.officer_id, persisted: 'warehouse' });
+
+    const review = dataOf(await send<CaseTransitionResult>('POST', casePath, {
+      officer: AUDITOR,
+      body: { scheme: 'lpg', action: 'REVIEW_STARTED' },
+    }));
+    expect(review.case).toMatchObject({ state: 'UNDER_REVIEW', assignee_id: AUDITOR.officer_id });
+    expect(review.audit).toMatchObject({ officer_id: AUDITOR.officer_id, action: 'REVIEW_STARTED' });
+
+    // The older form records the same transitions
+    const note = dataOf(await send<AuditRecordResult>('POST', '/api/audit', {
+      officer: AUDITOR,
+      body: { scheme: 'lpg', beneficiary_id: beneficiaryId, action: 'NOTE_ADDED', notes: 'Visited the distributor' },
+    }));
+    expect(note.case.state).toBe('UNDER_REVIEW');
+
+    const closed = dataOf(await send<CaseTransitionResult>('POST', casePath, {
+      officer: SUPERVISOR,
+      body: { scheme: 'lpg', action: 'CLEARED' },
+    }));
+    expect(closed.case).toMatchObject({ state: 'CLOSED', resolution: 'CLEARED' });
+
+    const reopened = await send('POST', casePath, { officer: AUDITOR, body: { scheme: 'lpg', action: 'REVIEW_STARTED' } });
+    expect(reopened.status).toBe(409);
+    expect(reopened.body).toMatchObject({ code: 'CONFLICT', state: 'CLOSED' });
+
+    const verification = dataOf(await send<AuditVerification>('GET', '/api/audit/verify', { officer: SUPERVISOR }));
+    expect(verification).toMatchObject({ valid: true, entries: 4, break_count: 0 });
+  });
+
+  it('escalates overdue cases once and keeps the audit chain intact', async () => {
+    const first = dataOf(await send<SlaRun>('POST', '/api/admin/sla', { officer: ADMIN }));
+    expect(first.results.find((result) => result.scheme === 'lpg')).toMatchObject({ escalated: 0 });
+
+    // Start every LPG clock long ago so the tracked cases are overdue
+    const dataSource = getDataSource();
+    await dataSource.execute(`
+      UPDATE ${dataSource.table('case_sla')}
+      SET flagged_at = @flagged_at
+      WHERE scheme = 'lpg'
+    `, { flagged_at: LONG_AGO });
+
+    const breached = dataOf(await send<SlaRun>('POST', '/api/admin/sla', { officer: ADMIN }));
+    const repeated = dataOf(await send<SlaRun>('POST', '/api/admin/sla', { officer: ADMIN }));
+    const lpg = breached.results.find((result) => result.scheme === 'lpg');
+    expect(lpg?.escalated).toBeGreaterThan(0);
+    expect(lpg).toMatchObject({ escalated: lpg?.overdue, failed: 0 });
+    expect(repeated.results.find((result) => result.scheme === 'lpg')).toMatchObject({ escalated: 0 });
+
+    const report = dataOf(await send<SlaReport>('GET', '/api/admin/sla?scheme=lpg', { officer: ADMIN }));
+    expect(report.overdue.length).toBeGreaterThan(0);
+    expect(report.overdue.every((overdue) => overdue.breached_at !== null)).toBe(true);
+
+    const verification = dataOf(await send<AuditVerification>('GET', '/api/audit/verify', { officer: ADMIN }));
+    expect(verification).toMatchObject({ valid: true, entries: lpg?.escalated, break_count: 0 });
+  });
+
+  it('refuses officers whose role lacks the permission', async () => {
+    const beneficiaryId = await highRiskBeneficiary();
+    const casePath = `/api/cases/${beneficiaryId}`;
+
+    const anonymous = await send('POST', casePath, { body: { scheme: 'lpg', action: 'NOTE_ADDED' } });
+    expect(anonymous.status).toBe(401);
+
+    const denied = [
+      await send('POST', casePath, { officer: VIEWER, body: { scheme: 'lpg', action: 'NOTE_ADDED' } }),
+      await send('POST', '/api/audit', { officer: VIEWER, body: { scheme: 'lpg', beneficiary_id: beneficiaryId, action: 'NOTE_ADDED' } }),
+      await send('POST', '/api/cases/assign', {
+        officer: AUDITOR,
+        body: { scheme: 'lpg', beneficiary_ids: [beneficiaryId], strategy: 'manual', officer_id: AUDITOR.officer_id },
+      }),
+      await send('GET', '/api/audit/verify', { officer: AUDITOR }),
+      await send('POST', '/api/admin/sla', { officer: SUPERVISOR }),
+    ];
+    expect(denied.map((sent) => sent.status)).toEqual([403, 403, 403, 403, 403]);
+
+    // Closing a case needs cases:close, which the route checks against the action
+    await send('POST', '/api/cases/assign', {
+      officer: SUPERVISOR,
+      body: { scheme: 'lpg', beneficiary_ids: [beneficiaryId], strategy: 'manual', officer_id: AUDITOR.officer_id },
+    });
+    await send('POST', casePath, { officer: AUDITOR, body: { scheme: 'lpg', action: 'REVIEW_STARTED' } });
+    const close = await send('POST', casePath, { officer: AUDITOR, body: { scheme: 'lpg', action: 'CONFIRMED' } });
+    expect(close.status).toBe(403);
+
+    // Nothing the refused requests carried reached the audit trail
+    const verification = dataOf(await send<AuditVerification>('GET', '/api/audit/verify', { officer: SUPERVISOR }));
+    expect(verification).toMatchObject({ valid: true, entries: 2 });
+  });
+});
@@ -0,0 +1,165 @@
+// API contract check
+// Calls every read-only route in the OpenAPI document (lib/openapi.ts) and
+// validates each answer against the schema documented for its status. Routes
+// taking `scheme` are also called with an unknown scheme, which must come back
+// as a failure envelope. Writes, GETs with side effects (access logging,
+// export mappings), redirects and the check itself are skipped.
+//
+// The same check runs two ways: GET /api/admin/contract calls this server over
+// HTTP with the caller's session, and the contract tests (npm test) call the
+// route handlers in-process against the local data source.
+//
+// Server-side only.
+
+import { ERROR_STATUS } from '@/lib/api';
+import type { Session } from '@/lib/auth';
+import { API_OPERATIONS, responseSchema, type ApiOperation } from '@/lib/openapi';
+import { NextRequest } from 'next/server';
+
+const CONTRACT_PATH = '/api/admin/contract';
+const MAX_ISSUES = 10;
+
+export interface ContractResult {
+  method: string;
+  path: string;
+  url: string;
+  status: number;
+  valid: boolean;
+  issues: string[];
+}
+
+export interface ContractReport {
+  checked_at: string;
+  passed: number;
+  failed: number;
+  results: ContractResult[];
+  skipped: { method: string; path: string; reason: string }[];
+}
+
+// Answers one call of an operation at an absolute URL
+export type ContractCall = (operation: ApiOperation, url: string) => Promise<Response>;
+
+interface Probe {
+  query: Record<string, string>;
+  expectFailure: boolean;
+}
+
+// Why an operation is not called, or null to call it
+function skipReason(operation: ApiOperation): string | null {
+  if (operation.method !== 'GET') return 'Writes data';
+  if (operation.sideEffects) return operation.sideEffects;
+  if (operation.format === 'redirect') return 'Redirects to the identity provider';
+  if (operation.path === CONTRACT_PATH) return 'This check';
+  return null;
+}
+
+function probes(operation: ApiOperation): Probe[] {
+  const list: Probe[] = [{ query: {}, expectFailure: false }];
+  if (operation.query && 'scheme' in operation.query.shape) {
+    list.push({ query: { scheme: 'no_such_scheme' }, expectFailure: true });
+  }
+  return list;
+}
+
+async function check(operation: ApiOperation, url: string, probe: Probe, call: ContractCall): Promise<ContractResult> {
+  const issues: string[] = [];
+  const res = await call(operation, url);
+
+  let body: unknown;
+  try {
+    body = await res.json();
+  } catch {
+    issues.push(`Response is not JSON (${res.headers.get('content-type') ?? 'no content type'})`);
+  }
+
+  if (body !== undefined) {
+    const parsed = responseSchema(operation, res.status).safeParse(body);
+    if (!parsed.success) {
+      for (const issue of parsed.error.issues.slice(0, MAX_ISSUES)) {
+        issues.push(`${issue.path.join('.') || '(root)'}: ${issue.message}`);
+      }
+    } else if (typeof body === 'object' && body !== null && 'code' in body) {
+      const expected = ERROR_STATUS[body.code as keyof typeof ERROR_STATUS];
+      if (expected !== res.status) issues.push(`Code ${String(body.code)} answered with HTTP ${res.status}, expected ${expected}`);
+    }
+  }
+  if (probe.expectFailure && res.ok) issues.push('Expected a failure for an unknown scheme');
+
+  return { method: operation.method, path: operation.path, url, status: res.status, valid: issues.length === 0, issues };
+}
+
+// First row of a listing, read through the same call (null if there is none)
+async function firstRow(call: ContractCall, origin: string, path: string): Promise<Record<string, unknown> | null> {
+  const operation = API_OPERATIONS.find((op) => op.method === 'GET' && op.path === path.split('?')[0]);
+  if (!operation) return null;
+  try {
+    const body = await (await call(operation, `${origin}${path}`)).json();
+    return body?.data?.[0] ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check the GET routes against the OpenAPI document
+ *
+ * Path parameters are filled with the session's officer ID, the first
+ * high-risk beneficiary and the first alert rule the session can see. Calls
+ * are made one at a time.
+ * @param origin - Base of the URLs passed to call, e.g. http://localhost:3000
+ */
+export async function runContractCheck(origin: string, session: Session, call: ContractCall): Promise<ContractReport> {
+  const pathValues: Record<string, string> = { officer_id: session.officer_id };
+  const beneficiaryId = (await firstRow(call, origin, '/api/beneficiaries/high-risk?limit=1'))?.beneficiary_id;
+  if (typeof beneficiaryId === 'string') pathValues.beneficiary_id = beneficiaryId;
+  const ruleId = (await firstRow(call, origin, '/api/alerts/rules'))?.rule_id;
+  if (typeof ruleId === 'string') pathValues.rule_id = ruleId;
+
+  const results: ContractResult[] = [];
+  const skipped: ContractReport['skipped'] = [];
+
+  for (const operation of API_OPERATIONS) {
+    const reason = skipReason(operation);
+    if (reason) {
+      skipped.push({ method: operation.method, path: operation.path, reason });
+      continue;
+    }
+
+    const missing = Array.from(operation.path.matchAll(/\{(\w+)\}/g), ([, name]) => name).filter((name) => !pathValues[name]);
+    if (missing.length > 0) {
+      skipped.push({ method: operation.method, path: operation.path, reason: `No value for ${missing.join(', ')}` });
+      continue;
+    }
+
+    const path = operation.path.replace(/\{(\w+)\}/g, (_, name: string) => encodeURIComponent(pathValues[name]));
+    for (const probe of probes(operation)) {
+      const search = new URLSearchParams(probe.query).toString();
+      const url = `${origin}${path}${search ? `?${search}` : ''}`;
+      try {
+        results.push(await check(operation, url, probe, call));
+      } catch (error) {
+        results.push({
+          method: operation.method,
+          path: operation.path,
+          url,
+          status: 0,
+          valid: false,
+          issues: [error instanceof Error ? error.message : 'Request failed'],
+        });
+      }
+    }
+  }
+
+  const passed = results.filter((result) => result.valid).length;
+  return { checked_at: new Date().toISOString(), passed, failed: results.length - passed, results, skipped };
+}
+
+/**
+ * Check the live GET routes of this server with the caller's session
+ */
+export function checkContract(request: NextRequest, session: Session): Promise<ContractReport> {
+  const cookie = request.headers.get('cookie') ?? '';
+  return runContractCheck(request.nextUrl.origin, session, (_, url) =>
+    fetch(url, { headers: { cookie }, redirect: 'manual', cache: 'no-store' })
+  );
+}
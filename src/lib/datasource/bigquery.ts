@@ -0,0 +1,54 @@
+import { getBigQueryClient } from '@/lib/bigquery';
+import { getConfig } from '@/lib/config';
+import type { SchemeId } from '@/lib/schemes';
+import type { ColumnType, DataSource, DataRow, DateBucket, QueryParams, SchemeTableName, SharedTableName } from './index';
+
+const DATE_TRUNC_PARTS: Record<DateBucket, string> = {
+  day: 'DAY',
+  week: 'WEEK(MONDAY)',
+  month: 'MONTH',
+};
+
+// BigQuery backend - the production warehouse
+export function createBigQueryDataSource(): DataSource {
+  return {
+    kind: 'bigquery',
+
+    table(name: SchemeTableName | SharedTableName, scheme?: SchemeId): string {
+      const { projectId, datasetId, tables, schemeTables } = getConfig().bigquery;
+      const physical = scheme
+        ? schemeTables[scheme][name as SchemeTableName]
+        : tables[name as SharedTableName];
+      return `\`${projectId}.${datasetId}.${physical}\``;
+    },
+
+    sql: {
+      dateBucket(column: string, bucket: DateBucket): string {
+        return `FORMAT_DATE('%Y-%m-%d', DATE_TRUNC(${column}, ${DATE_TRUNC_PARTS[bucket]}))`;
+      },
+
+      columnType(type: ColumnType): string {
+        return type;
+      },
+
+      // Tables created by hand before migrations existed may already have the column
+      addColumn(table: string, column: string, type: ColumnType): string {
+        return `ALTER TABLE ${table} ADD COLUMN IF NOT EXISTS ${column} ${type}`;
+      },
+    },
+
+    async query<T = DataRow>(sql: string, params?: QueryParams): Promise<T[]> {
+      const bigquery = getBigQueryClient();
+      const [job] = await bigquery.createQueryJob({ query: sql, params });
+      const [rows] = await job.getQueryResults();
+      return rows as T[];
+    },
+
+    async execute(sql: string, params?: QueryParams): Promise<void> {
+      const bigquery = getBigQueryClient();
+      const [job] = await bigquery.createQueryJob({ query: sql, params });
+      // Wait for DML/DDL to finish so failures surface to the caller
+      await job.getQueryResults();
+    },
+  };
+}
@@ -0,0 +1,13 @@
+// Backend error classification shared by both data sources
+// (kept out of index.ts so lib/migrations.ts can use it without an import cycle)
+
+/**
+ * Whether an error from query / execute means a referenced table does not exist
+ * (BigQuery: 404 "Not found: Table ..."; SQLite: "no such table")
+ */
+export function isMissingTableError(error: unknown): boolean {
+  if (!(error instanceof Error)) return false;
+  const { code } = error as Error & { code?: unknown };
+  return (code === 404 && error.message.includes('Not found: Table'))
+    || error.message.includes('no such table');
+}
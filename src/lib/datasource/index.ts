@@ -0,0 +1,138 @@
+// Data-source layer
+// Routes never talk to a warehouse client directly - they go through a
+// DataSource so the same SQL can run against BigQuery or the embedded
+// local backend (sql.js loaded from fixture files, for offline development).
+//
+// Backend is selected with DATA_SOURCE=bigquery|local (see lib/config.ts)
+
+import { getConfig } from '@/lib/config';
+import { applyMigrations } from '@/lib/migrations';
+import type { DATE_BUCKETS } from '@/lib/schemas';
+import type { SchemeId } from '@/lib/schemes';
+import { createBigQueryDataSource } from './bigquery';
+import { createLocalDataSource } from './local';
+
+export { isMissingTableError } from './errors';
+
+export type DataSourceKind = 'bigquery' | 'local';
+
+// Tables every welfare scheme has its own copy of (same layout, own flag columns)
+export type SchemeTableName =
+  | 'fraud_with_explanations'
+  | 'Beneficiaries'
+  | 'Transactions';
+
+// App-owned tables shared by all schemes (created by lib/migrations.ts)
+export type SharedTableName =
+  | 'audit_trail'
+  | 'batch_jobs'
+  | 'alerts'
+  | 'alert_rules'
+  | 'alert_rule_matches'
+  | 'officers'
+  | 'case_sla'
+  | 'access_log'
+  | 'schema_migrations';
+
+// Tables in the fraud-detection dataset that routes are allowed to reference
+export type TableName = SchemeTableName | SharedTableName;
+
+// Calendar bucket for date-grouped queries (weeks start on Monday)
+export type DateBucket = (typeof DATE_BUCKETS)[number];
+
+// Portable column types for app-owned tables (BigQuery spelling)
+export type ColumnType = 'STRING' | 'INT64' | 'FLOAT64' | 'BOOL' | 'TIMESTAMP';
+
+/**
+ * SQL fragments for the few constructs that have no portable spelling
+ * across BigQuery and SQLite. Everything else is written once in plain SQL.
+ */
+export interface SqlDialect {
+  /**
+   * Expression truncating a DATE column to the start of its bucket,
+   * rendered as a 'YYYY-MM-DD' string
+   */
+  dateBucket(column: string, bucket: DateBucket): string;
+
+  // Backend spelling of a column type in CREATE TABLE / ALTER TABLE
+  columnType(type: ColumnType): string;
+
+  /**
+   * ALTER TABLE statement adding a column
+   * Tolerates an existing column where the backend supports it
+   */
+  addColumn(table: string, column: string, type: ColumnType): string;
+}
+
+export type QueryParams = Record<string, unknown>;
+
+// Rows come back untyped from both backends; routes coerce each column explicitly
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type DataRow = Record<string, any>;
+
+export interface DataSource {
+  readonly kind: DataSourceKind;
+
+  /**
+   * Quoted table reference usable inside a FROM / JOIN clause
+   * @param name - Table in the fraud-detection dataset
+   * @param scheme - Welfare scheme whose copy of the table to use
+   */
+  table(name: SchemeTableName, scheme: SchemeId): string;
+  table(name: SharedTableName): string;
+
+  readonly sql: SqlDialect;
+
+  /**
+   * Run a SELECT and return all rows
+   * Parameters are referenced as @name in the SQL for both backends
+   */
+  query<T = DataRow>(sql: string, params?: QueryParams): Promise<T[]>;
+
+  /**
+   * Run a statement that returns no rows (INSERT / UPDATE / DDL)
+   * Resolves only once the statement has completed
+   */
+  execute(sql: string, params?: QueryParams): Promise<void>;
+}
+
+// Apply pending migrations before the first statement (MIGRATIONS_AUTO_APPLY)
+function withAutoMigrate(source: DataSource): DataSource {
+  let migrated: Promise<unknown> | null = null;
+  const ready = () => {
+    if (!migrated) {
+      migrated = applyMigrations(source).catch((error) => {
+        // Retry on the next statement instead of caching the failure
+        migrated = null;
+        throw error;
+      });
+    }
+    return migrated;
+  };
+
+  return {
+    ...source,
+    async query<T = DataRow>(sql: string, params?: QueryParams): Promise<T[]> {
+      await ready();
+      return source.query<T>(sql, params);
+    },
+    async execute(sql: string, params?: QueryParams): Promise<void> {
+      await ready();
+      return source.execute(sql, params);
+    },
+  };
+}
+
+// Singleton data source
+let dataSource: DataSource | null = null;
+
+export function getDataSource(): DataSource {
+  if (!dataSource) {
+    const config = getConfig();
+    const source = config.dataSource.kind === 'local'
+      ? createLocalDataSource()
+      : createBigQueryDataSource();
+    dataSource = config.migrations.autoApply ? withAutoMigrate(source) : source;
+  }
+  return dataSource;
+}
@@ -0,0 +1,200 @@
+import fs from 'fs';
+import path from 'path';
+import initSqlJs, { type Database, type SqlValue } from 'sql.js';
+import { defaultTableName, getConfig } from '@/lib/config';
+import type { SchemeId } from '@/lib/schemes';
+import type { ColumnType, DataSource, DataRow, DateBucket, QueryParams, SchemeTableName, SharedTableName } from './index';
+
+// Embedded local backend (SQLite compiled to WASM via sql.js)
+// Every *.json file in the fixtures directory becomes a table of the same name
+// (scheme tables use the default physical names, e.g. pds_Transactions.json).
+// Data lives in memory only - writes are lost when the server restarts.
+
+// sql.js >= 1.10 ships create_aggregate, but @types/sql.js has not caught up
+interface AggregateFunction<State> {
+  init: () => State;
+  step: (state: State, ...values: SqlValue[]) => State;
+  finalize: (state: State) => SqlValue;
+}
+
+type DatabaseWithAggregates = Database & {
+  create_aggregate<State>(name: string, aggregate: AggregateFunction<State>): Database;
+};
+
+// SQLite storage classes for the portable column types
+// (booleans are 0/1, timestamps ISO-8601 text)
+const COLUMN_TYPES: Record<ColumnType, string> = {
+  STRING: 'TEXT',
+  INT64: 'INTEGER',
+  FLOAT64: 'REAL',
+  BOOL: 'INTEGER',
+  TIMESTAMP: 'TEXT',
+};
+
+// Lazily-initialized database shared by all requests
+// Next.js loads this module separately for the request gate (proxy.ts),
+// instrumentation and the routes - keep one database per process so they all
+// see the same data
+const shared = globalThis as typeof globalThis & { __janavlokanLocalDb?: Promise<Database> | null };
+
+function toSqlValue(value: unknown): SqlValue {
+  if (value === undefined || value === null) return null;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'number' || typeof value === 'string') return value;
+  return JSON.stringify(value);
+}
+
+function inferColumnType(rows: Record<string, unknown>[], column: string): string {
+  const sample = rows.find((row) => row[column] !== null && row[column] !== undefined)?.[column];
+  if (typeof sample === 'boolean') return 'INTEGER';
+  if (typeof sample === 'number') return Number.isInteger(sample) ? 'INTEGER' : 'REAL';
+  return 'TEXT';
+}
+
+function loadFixture(db: Database, table: string, rows: Record<string, unknown>[]): void {
+  const columns = Array.from(new Set(rows.flatMap((row) => Object.keys(row))));
+  if (columns.length === 0) return;
+
+  const columnDefs = columns.map((c) => `"${c}" ${inferColumnType(rows, c)}`).join(', ');
+  db.run(`CREATE TABLE "${table}" (${columnDefs})`);
+
+  const placeholders = columns.map(() => '?').join(', ');
+  const insert = db.prepare(`INSERT INTO "${table}" VALUES (${placeholders})`);
+  try {
+    for (const row of rows) {
+      insert.run(columns.map((c) => toSqlValue(row[c])));
+    }
+  } finally {
+    insert.free();
+  }
+}
+
+// BigQuery functions used by shared route SQL that SQLite lacks
+function registerBigQueryShims(database: Database): void {
+  const db = database as DatabaseWithAggregates;
+
+  db.create_aggregate('COUNTIF', {
+    init: () => 0,
+    step: (count: number, condition: SqlValue) => count + (condition ? 1 : 0),
+    finalize: (count: number) => count,
+  });
+
+  // BigQuery STDDEV is the sample standard deviation
+  db.create_aggregate('STDDEV', {
+    init: () => [] as number[],
+    step: (values: number[], value: SqlValue) => {
+      if (typeof value === 'number') values.push(value);
+      return values;
+    },
+    finalize: (values: number[]) => {
+      if (values.length < 2) return null;
+      const mean = values.reduce((a, b) => a + b, 0) / values.length;
+      const variance = values.reduce((a, b) => a + (b - mean) ** 2, 0) / (values.length - 1);
+      return Math.sqrt(variance);
+    },
+  });
+}
+
+async function openDatabase(): Promise<Database> {
+  const SQL = await initSqlJs({
+    locateFile: (file) => path.join(process.cwd(), 'node_modules', 'sql.js', 'dist', file),
+  });
+  const db = new SQL.Database();
+  registerBigQueryShims(db);
+
+  const { fixturesDir } = getConfig().dataSource;
+  const files = fs.readdirSync(fixturesDir).filter((f) => f.endsWith('.json'));
+
+  for (const file of files) {
+    const rows = JSON.parse(fs.readFileSync(path.join(fixturesDir, file), 'utf-8'));
+    if (!Array.isArray(rows)) {
+      throw new Error(`Fixture ${file} must contain a JSON array of rows`);
+    }
+    loadFixture(db, path.basename(file, '.json'), rows);
+  }
+
+  return db;
+}
+
+function getDatabase(): Promise<Database> {
+  if (!shared.__janavlokanLocalDb) {
+    shared.__janavlokanLocalDb = openDatabase().catch((error) => {
+      // Allow a retry on the next request instead of caching the failure
+      shared.__janavlokanLocalDb = null;
+      throw error;
+    });
+  }
+  return shared.__janavlokanLocalDb;
+}
+
+// Bind only the @params referenced by the statement (sql.js rejects unknown names)
+function bindParams(sql: string, params?: QueryParams): Record<string, SqlValue> {
+  const bound: Record<string, SqlValue> = {};
+  if (!params) return bound;
+  for (const [, name] of sql.matchAll(/@(\w+)/g)) {
+    if (name in params) bound[`@${name}`] = toSqlValue(params[name]);
+  }
+  return bound;
+}
+
+export function createLocalDataSource(): DataSource {
+  return {
+    kind: 'local',
+
+    table(name: SchemeTableName | SharedTableName, scheme?: SchemeId): string {
+      return `\`${scheme ? defaultTableName(scheme, name as SchemeTableName) : name}\``;
+    },
+
+    // Dates are stored as 'YYYY-MM-DD' text in fixtures
+    sql: {
+      dateBucket(column: string, bucket: DateBucket): string {
+        switch (bucket) {
+          case 'week':
+            // Roll forward to Sunday, then back to that week's Monday
+            return `date(${column}, 'weekday 0', '-6 days')`;
+          case 'month':
+            return `strftime('%Y-%m-01', ${column})`;
+          default:
+            return `date(${column})`;
+        }
+      },
+
+      columnType(type: ColumnType): string {
+        return COLUMN_TYPES[type];
+      },
+
+      // SQLite has no ADD COLUMN IF NOT EXISTS - see execute() for fixture tables
+      addColumn(table: string, column: string, type: ColumnType): string {
+        return `ALTER TABLE ${table} ADD COLUMN ${column} ${COLUMN_TYPES[type]}`;
+      },
+    },
+
+    async query<T = DataRow>(sql: string, params?: QueryParams): Promise<T[]> {
+      const db = await getDatabase();
+      const statement = db.prepare(sql);
+      try {
+        statement.bind(bindParams(sql, params));
+        const rows: T[] = [];
+        while (statement.step()) {
+          rows.push(statement.getAsObject() as T);
+        }
+        return rows;
+      } finally {
+        statement.free();
+      }
+    },
+
+    async execute(sql: string, params?: QueryParams): Promise<void> {
+      const db = await getDatabase();
+      try {
+        db.run(sql, bindParams(sql, params));
+      } catch (error) {
+        // A fixture-seeded app table (officers.json) may already have a column
+        // that a later migration adds
+        const duplicateColumn = error instanceof Error && /duplicate column name/i.test(error.message);
+        if (!(duplicateColumn && /^\s*ALTER TABLE .+ ADD COLUMN/i.test(sql))) throw error;
+      }
+    },
+  };
+}
@@ -0,0 +1,44 @@
+import { suppressCount, suppressGroup } from '@/lib/disclosure';
+import { describe, expect, it } from 'vitest';
+
+const K = 5;
+
+describe('suppressCount', () => {
+  it('masks counts from 1 to k-1 only', () => {
+    expect(suppressCount(0, K)).toBe(0);
+    expect(suppressCount(1, K)).toBeNull();
+    expect(suppressCount(4, K)).toBeNull();
+    expect(suppressCount(5, K)).toBe(5);
+  });
+
+  it('publishes everything with k = 1', () => {
+    expect(suppressCount(1, 1)).toBe(1);
+  });
+});
+
+describe('suppressGroup', () => {
+  it('masks small cells (primary suppression)', () => {
+    expect(suppressGroup([3, 20, 30, 12], K)).toMatchObject({ total: 65, suppressed: true });
+    expect(suppressGroup([20, 30, 12], K)).toEqual({ cells: [20, 30, 12], total: 62, suppressed: false });
+  });
+
+  it('masks the next smallest cell so a lone small cell cannot be subtracted out (complementary suppression)', () => {
+    const { cells, total } = suppressGroup([3, 20, 30, 12], K);
+    expect(cells).toEqual([null, 20, 30, null]);
+    expect(total).toBe(65);
+  });
+
+  it('keeps masking until the masked cells add up to at least k', () => {
+    expect(suppressGroup([1, 2, 40, 30, 6], K).cells).toEqual([null, null, 40, 30, null]);
+  });
+
+  it('never masks zeros, and masks every non-zero cell of a small total', () => {
+    expect(suppressGroup([0, 2, 1], K)).toEqual({ cells: [0, null, null], total: null, suppressed: true });
+    expect(suppressGroup([0, 3, 20], K).cells).toEqual([0, null, null]);
+  });
+
+  it('publishes an all-zero group as is', () => {
+    expect(suppressGroup([0, 0, 0], K)).toEqual({ cells: [0, 0, 0], total: 0, suppressed: false });
+    expect(suppressGroup([], K)).toEqual({ cells: [], total: 0, suppressed: false });
+  });
+});
@@ -0,0 +1,68 @@
+// Small-count suppression
+// Aggregate APIs publish counts of beneficiaries. In a small district, day or
+// filter combination a count below k (config disclosure.minCount) can point at
+// individual households, so such counts are masked - returned as null with
+// suppressed: true - before they leave the server:
+//
+//   primary       - every count from 1 to k-1 (zero reveals nobody and stays)
+//   complementary - when the counts of a group add up to a published total,
+//                   more of them (smallest first) are masked until the masked
+//                   cells cannot be worked out by subtraction: at least two,
+//                   together at least k
+//
+// Server-side only.
+
+import { getConfig } from '@/lib/config';
+
+export interface SuppressedGroup {
+  cells: (number | null)[];     // Same order as the input; null = masked
+  total: number | null;         // Masked when the total itself is small
+  suppressed: boolean;          // Anything in the group was masked
+}
+
+// Stands in for a district name whose rows or figures are suppressed
+export const SUPPRESSED_DISTRICT = 'Suppressed';
+
+// k - counts below it are never published
+export function minPublishedCount(): number {
+  return getConfig().disclosure.minCount;
+}
+
+export function isSmallCount(count: number, k = minPublishedCount()): boolean {
+  return count > 0 && count < k;
+}
+
+// Single count with no published total around it
+export function suppressCount(count: number, k = minPublishedCount()): number | null {
+  return isSmallCount(count, k) ? null : count;
+}
+
+/**
+ * Suppress a group of counts whose sum is published (or derivable) as a total
+ * - e.g. district counts against the state count, risk levels against all
+ * beneficiaries
+ */
+export function suppressGroup(counts: number[], k = minPublishedCount()): SuppressedGroup {
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  if (isSmallCount(total, k)) {
+    return { cells: counts.map((count) => (count > 0 ? null : count)), total: null, suppressed: true };
+  }
+
+  const masked = counts.map((count) => isSmallCount(count, k));
+  const maskedSum = () => counts.reduce((sum, count, i) => sum + (masked[i] ? count : 0), 0);
+  const maskedCount = () => masked.filter(Boolean).length;
+
+  // Complementary suppression, smallest remaining count first
+  const order = counts.map((_, i) => i).sort((a, b) => counts[a] - counts[b]);
+  while (maskedCount() > 0 && (maskedCount() < 2 || maskedSum() < k)) {
+    const next = order.find((i) => !masked[i] && counts[i] > 0);
+    if (next === undefined) break;
+    masked[next] = true;
+  }
+
+  return {
+    cells: counts.map((count, i) => (masked[i] ? null : count)),
+    total,
+    suppressed: masked.some(Boolean),
+  };
+}
@@ -0,0 +1,273 @@
+// Risk flag registry
+// Single source of truth for every rule flag: which column it is read from,
+// how much it weighs, how it is labelled and how it is explained. Queries,
+// the Gemini allowlist, static explanations, CSV exports and UI badges are
+// all generated from these entries - adding a flag means adding it here
+// (and the column upstream), nothing else.
+//
+// Flags are computed upstream by deterministic BigQuery rules; nothing here
+// decides risk, it only describes the columns.
+
+import type { SupportedLanguage } from '@/lib/gemini';
+import type { SchemeDefinition, SchemeId } from '@/lib/schemes';
+
+export interface FlagDefinition {
+  id: string;                                   // Stable code (API params, reason codes)
+  column: string;                               // BOOLEAN column in fraud_with_explanations
+  weight: number;                               // Severity weight: 1 = weak signal ... 3 = strong signal
+  label: string;                                // Short UI label
+  reasons: Record<SupportedLanguage, string>;   // Deterministic reason text
+}
+
+export type FlagSeverity = 'high' | 'medium' | 'low';
+
+export const FLAG_REGISTRY: Record<SchemeId, FlagDefinition[]> = {
+  lpg: [
+    {
+      id: 'high_recent_activity',
+      column: 'flag_high_recent_activity',
+      weight: 2,
+      label: 'Recent Activity',
+      reasons: {
+        en: 'Unusually high number of LPG refills detected in the last 30 days',
+        hi: 'पिछले 30 दिनों में असामान्य रूप से अधिक एलपीजी रिफिल पाए गए',
+        hinglish: 'Pichhle 30 dinon mein unusually zyada LPG refills detect hui hain',
+      },
+    },
+    {
+      id: 'multiple_dealers',
+      column: 'flag_multiple_dealers',
+      weight: 3,
+      label: 'Multiple Dealers',
+      reasons: {
+        en: 'Refills recorded from multiple dealers in short time period',
+        hi: 'कम समय में एकाधिक डीलरों से रिफिल दर्ज किए गए',
+        hinglish: 'Multiple dealers se short time mein refills recorded hain',
+      },
+    },
+    {
+      id: 'cross_district',
+      column: 'flag_cross_district',
+      weight: 2,
+      label: 'Cross District',
+      reasons: {
+        en: 'LPG refills detected across different districts',
+        hi: 'विभिन्न जिलों से एलपीजी रिफिल पाए गए',
+        hinglish: 'Alag-alag districts se LPG refills detect hui hain',
+      },
+    },
+    {
+      id: 'high_lifetime_usage',
+      column: 'flag_high_lifetime_usage',
+      weight: 1,
+      label: 'Lifetime Usage',
+      reasons: {
+        en: 'Higher-than-expected lifetime refill count compared to regional norms',
+        hi: 'क्षेत्रीय मानकों की तुलना में अपेक्षा से अधिक जीवनकाल रिफिल संख्या',
+        hinglish: 'Regional norms ki tulna mein lifetime refill count zyada hai',
+      },
+    },
+  ],
+
+  pds: [
+    {
+      id: 'excess_lifting',
+      column: 'flag_excess_lifting',
+      weight: 3,
+      label: 'Excess Lifting',
+      reasons: {
+        en: 'Monthly grain lifted exceeds the household entitlement on the ration card',
+        hi: 'राशन कार्ड पर परिवार की पात्रता से अधिक मासिक अनाज उठाया गया',
+        hinglish: 'Ration card ki entitlement se zyada monthly anaaj uthaya gaya hai',
+      },
+    },
+    {
+      id: 'multiple_fps',
+      column: 'flag_multiple_fps',
+      weight: 3,
+      label: 'Multiple Shops',
+      reasons: {
+        en: 'Ration drawn from multiple fair price shops in the same month',
+        hi: 'एक ही महीने में कई उचित मूल्य दुकानों से राशन लिया गया',
+        hinglish: 'Ek hi mahine mein multiple fair price shops se ration liya gaya hai',
+      },
+    },
+    {
+      id: 'cross_district',
+      column: 'flag_cross_district',
+      weight: 1,
+      label: 'Cross District',
+      reasons: {
+        en: 'Ration drawn in districts other than the registered district',
+        hi: 'पंजीकृत जिले के अलावा अन्य जिलों में राशन लिया गया',
+        hinglish: 'Registered district ke alawa doosre districts mein ration liya gaya hai',
+      },
+    },
+    {
+      id: 'dormant_card_active',
+      column: 'flag_dormant_card_active',
+      weight: 2,
+      label: 'Dormant Card',
+      reasons: {
+        en: 'Ration card inactive for a long period suddenly shows regular lifting',
+        hi: 'लंबे समय से निष्क्रिय राशन कार्ड पर अचानक नियमित उठान दर्ज हुआ',
+        hinglish: 'Lambe samay se inactive ration card par achanak regular lifting dikh rahi hai',
+      },
+    },
+  ],
+
+  fertilizer: [
+    {
+      id: 'excess_quantity',
+      column: 'flag_excess_quantity',
+      weight: 3,
+      label: 'Excess Quantity',
+      reasons: {
+        en: 'Fertilizer purchased exceeds the recommended quantity for the recorded landholding',
+        hi: 'दर्ज भूमि के लिए अनुशंसित मात्रा से अधिक उर्वरक खरीदा गया',
+        hinglish: 'Recorded zameen ke hisaab se recommended quantity se zyada fertilizer kharida gaya hai',
+      },
+    },
+    {
+      id: 'multiple_retailers',
+      column: 'flag_multiple_retailers',
+      weight: 2,
+      label: 'Multiple Retailers',
+      reasons: {
+        en: 'Purchases recorded at multiple retailers in a short time period',
+        hi: 'कम समय में कई विक्रेताओं से खरीद दर्ज की गई',
+        hinglish: 'Short time mein multiple retailers se kharidari recorded hai',
+      },
+    },
+    {
+      id: 'off_season_purchase',
+      column: 'flag_off_season_purchase',
+      weight: 1,
+      label: 'Off-Season',
+      reasons: {
+        en: 'Large purchases recorded outside the sowing season',
+        hi: 'बुवाई के मौसम के बाहर बड़ी खरीद दर्ज की गई',
+        hinglish: 'Buwai season ke bahar badi kharidari recorded hai',
+      },
+    },
+    {
+      id: 'cross_district',
+      column: 'flag_cross_district',
+      weight: 2,
+      label: 'Cross District',
+      reasons: {
+        en: 'Purchases recorded in districts other than where the land is registered',
+        hi: 'भूमि पंजीकृत जिले के अलावा अन्य जिलों में खरीद दर्ज की गई',
+        hinglish: 'Zameen ke registered district ke alawa doosre districts mein kharidari hui hai',
+      },
+    },
+  ],
+
+  pension: [
+    {
+      id: 'shared_bank_account',
+      column: 'flag_shared_bank_account',
+      weight: 3,
+      label: 'Shared Account',
+      reasons: {
+        en: 'Bank account linked to more than one pensioner',
+        hi: 'बैंक खाता एक से अधिक पेंशनभोगियों से जुड़ा है',
+        hinglish: 'Bank account ek se zyada pensioners se linked hai',
+      },
+    },
+    {
+      id: 'life_certificate_overdue',
+      column: 'flag_life_certificate_overdue',
+      weight: 3,
+      label: 'Life Cert. Overdue',
+      reasons: {
+        en: 'Pension credited although the annual life certificate is overdue',
+        hi: 'वार्षिक जीवन प्रमाण पत्र लंबित होने के बावजूद पेंशन जमा की गई',
+        hinglish: 'Annual life certificate pending hone ke bawajood pension credit hui hai',
+      },
+    },
+    {
+      id: 'age_mismatch',
+      column: 'flag_age_mismatch',
+      weight: 2,
+      label: 'Age Mismatch',
+      reasons: {
+        en: 'Recorded age does not match the scheme eligibility criteria',
+        hi: 'दर्ज आयु योजना की पात्रता शर्तों से मेल नहीं खाती',
+        hinglish: 'Recorded age scheme ki eligibility criteria se match nahi karti',
+      },
+    },
+    {
+      id: 'cross_district',
+      column: 'flag_cross_district',
+      weight: 1,
+      label: 'Cross District',
+      reasons: {
+        en: 'Pension withdrawn in districts other than the registered district',
+        hi: 'पंजीकृत जिले के अलावा अन्य जिलों में पेंशन निकाली गई',
+        hinglish: 'Registered district ke alawa doosre districts mein pension nikali gayi hai',
+      },
+    },
+  ],
+};
+
+// Columns are interpolated into SQL - refuse anything that is not a plain identifier
+const COLUMN_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+for (const [scheme, flags] of Object.entries(FLAG_REGISTRY)) {
+  for (const flag of flags) {
+    if (!COLUMN_PATTERN.test(flag.column) || !COLUMN_PATTERN.test(flag.id)) {
+      throw new Error(`Invalid flag registry entry '${flag.id}' for scheme ${scheme}`);
+    }
+  }
+}
+
+export function findFlag(scheme: SchemeDefinition, id: string): FlagDefinition | undefined {
+  return scheme.flags.find((flag) => flag.id === id);
+}
+
+export function flagSeverity(flag: FlagDefinition): FlagSeverity {
+  if (flag.weight >= 3) return 'high';
+  if (flag.weight >= 2) return 'medium';
+  return 'low';
+}
+
+// Raised flags, strongest first
+export function raisedFlags(scheme: SchemeDefinition, flags: Record<string, boolean>): FlagDefinition[] {
+  return scheme.flags
+    .filter((flag) => flags[flag.id])
+    .sort((a, b) => b.weight - a.weight);
+}
+
+// Sum of the weights of the raised flags
+export function severityScore(scheme: SchemeDefinition, flags: Record<string, boolean>): number {
+  return raisedFlags(scheme, flags).reduce((total, flag) => total + flag.weight, 0);
+}
+
+// ============================================
+// SQL generation
+// ============================================
+
+const qualify = (column: string, tableAlias?: string) => (tableAlias ? `${tableAlias}.${column}` : column);
+
+// SELECT-list fragment for the scheme's flag columns, e.g. "f.flag_a, f.flag_b"
+export function flagColumns(scheme: SchemeDefinition, tableAlias?: string): string {
+  return scheme.flags.map((flag) => qualify(flag.column, tableAlias)).join(',\n        ');
+}
+
+// WHERE condition on a single flag
+export function flagCondition(flag: FlagDefinition, value: boolean, tableAlias?: string): string {
+  return `${qualify(flag.column, tableAlias)} = ${value ? 'TRUE' : 'FALSE'}`;
+}
+
+// Weighted flag count as a SQL expression (same value as severityScore)
+export function severityExpression(scheme: SchemeDefinition, tableAlias?: string): string {
+  if (scheme.flags.length === 0) return '0';
+  return `(${scheme.flags
+    .map((flag) => `CASE WHEN ${qualify(flag.column, tableAlias)} THEN ${flag.weight} ELSE 0 END`)
+    .join(' + ')})`;
+}
+
+// Read the flag columns of a row into { <flag id>: boolean }
+export function readFlags(scheme: SchemeDefinition, row: Record<string, unknown>): Record<string, boolean> {
+  return Object.fromEntries(scheme.flags.map((flag) => [flag.id, Boolean(row[flag.column])]));
+}
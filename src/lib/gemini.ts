@@ -7,18 +7,20 @@
 // - Never expose this key in client-side code or browser
 // - Rotate the key periodically and restrict it to specific APIs in Google Cloud Console
 // - This file should only be imported in server-side code (API routes)
+//
+// Model, endpoint and request timeout come from lib/config.ts
+// (GEMINI_MODEL, GEMINI_API_BASE_URL, GEMINI_TIMEOUT_MS)
 
-const GEMINI_API_KEY = process.env.GEMINI_API_KEY || '';
-const GEMINI_API_URL = 'https://generativelanguage.googleapis.com/v1/models/gemini-3-flash';
-
-// Configurable timeout for Gemini API requests (in milliseconds)
-const GEMINI_REQUEST_TIMEOUT = 10_000; // 10 seconds
+import { getConfig } from '@/lib/config';
+import { findFlag, raisedFlags } from '@/lib/flags';
+import type { LANGUAGES } from '@/lib/schemas';
+import type { SchemeDefinition } from '@/lib/schemes';
 
 // Shared default language for consistency across all functions
 export const DEFAULT_LANGUAGE: SupportedLanguage = 'en';
 
 // Type definition for supported languages
-export type SupportedLanguage = 'en' | 'hi' | 'hinglish';
+export type SupportedLanguage = (typeof LANGUAGES)[number];
 
 // ============================================
 // Input Sanitization Helpers (Prompt Injection Prevention)
@@ -27,14 +29,12 @@ export type SupportedLanguage = 'en' | 'hi' | 'hinglish';
 // Allowlist of valid risk levels
 const ALLOWED_RISK_LEVELS = ['HIGH', 'MEDIUM', 'LOW'] as const;
 
-// Allowlist of valid reason codes
-const ALLOWED_REASON_CODES = [
-  'high_recent_activity',
-  'multiple_dealers',
-  'cross_district',
-  'high_lifetime_usage',
-  'normal',
-] as const;
+// Reason codes are the scheme's flag ids plus 'normal' (no flag raised)
+const NORMAL_REASON = 'normal';
+
+function allowedReasonCodes(scheme: SchemeDefinition): string[] {
+  return [...scheme.flags.map(flag => flag.id), NORMAL_REASON];
+}
 
 /**
  * Sanitize risk level against allowlist to prevent prompt injection
@@ -53,91 +53,62 @@ function sanitizeRiskLevel(riskLevel: string): string {
  * Sanitize reason codes against allowlist to prevent prompt injection
  * Strips control characters and validates each code
  * @param reasonCodes - Array of raw reason codes
+ * @param scheme - Scheme whose flag ids are the allowlist
  * @returns Array of validated reason codes
  */
-function sanitizeReasonCodes(reasonCodes: string[]): string[] {
-  if (!Array.isArray(reasonCodes)) return ['normal'];
-  
+function sanitizeReasonCodes(reasonCodes: string[], scheme: SchemeDefinition): string[] {
+  if (!Array.isArray(reasonCodes)) return [NORMAL_REASON];
+  const allowed = allowedReasonCodes(scheme);
+
   const sanitized = reasonCodes
     .map(code => {
       // Strip control characters and newlines
       const cleaned = code?.toLowerCase()?.trim()?.replace(/[\x00-\x1f\x7f]/g, '') || '';
       // Validate against allowlist
-      if (ALLOWED_REASON_CODES.includes(cleaned as typeof ALLOWED_REASON_CODES[number])) {
+      if (allowed.includes(cleaned)) {
         return cleaned;
       }
       return null;
     })
     .filter((code): code is string => code !== null);
   
-  return sanitized.length > 0 ? sanitized : ['normal'];
+  return sanitized.length > 0 ? sanitized : [NORMAL_REASON];
 }
-// Reason code to human-readable mapping (used as fallback)
-const REASON_TEMPLATES: Record<string, Record<string, string>> = {
-  en: {
-    high_recent_activity: 'Unusually high number of LPG refills detected in the last 30 days',
-    multiple_dealers: 'Refills recorded from multiple dealers in short time period',
-    cross_district: 'LPG refills detected across different districts',
-    high_lifetime_usage: 'Higher-than-expected lifetime refill count compared to regional norms',
-    normal: 'Refill behavior aligns with historical and regional norms',
-  },
-  hi: {
-    high_recent_activity: 'पिछले 30 दिनों में असामान्य रूप से अधिक एलपीजी रिफिल पाए गए',
-    multiple_dealers: 'कम समय में एकाधिक डीलरों से रिफिल दर्ज किए गए',
-    cross_district: 'विभिन्न जिलों से एलपीजी रिफिल पाए गए',
-    high_lifetime_usage: 'क्षेत्रीय मानकों की तुलना में अपेक्षा से अधिक जीवनकाल रिफिल संख्या',
-    normal: 'रिफिल व्यवहार ऐतिहासिक और क्षेत्रीय मानकों के अनुरूप है',
-  },
-  hinglish: {
-    high_recent_activity: 'Pichhle 30 dinon mein unusually zyada LPG refills detect hui hain',
-    multiple_dealers: 'Multiple dealers se short time mein refills recorded hain',
-    cross_district: 'Alag-alag districts se LPG refills detect hui hain',
-    high_lifetime_usage: 'Regional norms ki tulna mein lifetime refill count zyada hai',
-    normal: 'Refill behavior historical aur regional norms ke according hai',
-  },
-};
-
-// Convert flag codes to reason strings
-export function flagsToReasonCodes(flags: {
-  flag_high_recent_activity: boolean;
-  flag_multiple_dealers: boolean;
-  flag_cross_district: boolean;
-  flag_high_lifetime_usage: boolean;
-}): string[] {
-  const reasons: string[] = [];
-  
-  if (flags.flag_high_recent_activity) reasons.push('high_recent_activity');
-  if (flags.flag_multiple_dealers) reasons.push('multiple_dealers');
-  if (flags.flag_cross_district) reasons.push('cross_district');
-  if (flags.flag_high_lifetime_usage) reasons.push('high_lifetime_usage');
-  
-  if (reasons.length === 0) reasons.push('normal');
-  
-  return reasons;
+// Convert flag values ({ <flag id>: boolean }) to reason codes, strongest flag first
+export function flagsToReasonCodes(flags: Record<string, boolean>, scheme: SchemeDefinition): string[] {
+  const reasons = raisedFlags(scheme, flags).map(flag => flag.id);
+  return reasons.length > 0 ? reasons : [NORMAL_REASON];
 }
 
 // Get static explanations (fallback - no API call)
+// Reason text is defined per scheme in lib/schemes.ts
 export function getStaticExplanations(
   reasonCodes: string[],
+  scheme: SchemeDefinition,
   language: SupportedLanguage = DEFAULT_LANGUAGE
 ): string[] {
-  const templates = REASON_TEMPLATES[language] || REASON_TEMPLATES[DEFAULT_LANGUAGE];
-  return reasonCodes.map(code => templates[code] || templates.normal);
+  return reasonCodes.map(code => {
+    const text = findFlag(scheme, code)?.reasons ?? scheme.normalReason;
+    return text[language] || text[DEFAULT_LANGUAGE];
+  });
 }
 
 // Generate AI-powered explanation via Gemini (with safety guards)
 export async function generateGeminiExplanation(
   riskLevel: string,
   reasonCodes: string[],
+  scheme: SchemeDefinition,
   language: SupportedLanguage = DEFAULT_LANGUAGE
 ): Promise<string> {
   // Sanitize inputs to prevent prompt injection
   const safeRiskLevel = sanitizeRiskLevel(riskLevel);
-  const safeReasonCodes = sanitizeReasonCodes(reasonCodes);
+  const safeReasonCodes = sanitizeReasonCodes(reasonCodes, scheme);
   
+  const gemini = getConfig().gemini;
+
   // If no API key, use static fallback
-  if (!GEMINI_API_KEY) {
-    const staticReasons = getStaticExplanations(safeReasonCodes, language);
+  if (!gemini.apiKey) {
+    const staticReasons = getStaticExplanations(safeReasonCodes, scheme, language);
     return staticReasons.join('\n');
   }
 
@@ -158,9 +129,10 @@ Rules:
 - Do NOT use words like "suspicious", "fraud", "illegal", "criminal"
 - Use neutral, administrative language
 
+Scheme: ${scheme.name}
 Risk Level: ${safeRiskLevel}
 Reasons:
-${safeReasonCodes.map(r => `- ${r}`).join('\n')}
+${getStaticExplanations(safeReasonCodes, scheme, 'en').map(r => `- ${r}`).join('\n')}
 
 Output Language: ${languageMap[language] || languageMap[DEFAULT_LANGUAGE]}
 Tone: Clear, non-accusatory, human-readable
@@ -169,16 +141,16 @@ Generate a brief explanation (2-3 sentences max) suitable for a government offic
 
   // Create AbortController for request timeout
   const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), GEMINI_REQUEST_TIMEOUT);
+  const timeoutId = setTimeout(() => controller.abort(), gemini.timeoutMs);
 
   try {
     // SECURITY: API key sent via header, not URL query parameter
     // This prevents key exposure in server logs, browser history, and referrer headers
-    const response = await fetch(GEMINI_API_URL, {
+    const response = await fetch(gemini.apiUrl, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'x-goog-api-key': GEMINI_API_KEY, // Secure header-based authentication
+        'x-goog-api-key': gemini.apiKey, // Secure header-based authentication
       },
       body: JSON.stringify({
         contents: [{ role: 'user', parts: [{ text: prompt }] }],
@@ -196,7 +168,7 @@ Generate a brief explanation (2-3 sentences max) suitable for a government offic
     if (!response.ok) {
       // SECURITY: Only log status code, never log request URL or headers that might contain sensitive data
       console.error('Gemini API error: HTTP', response.status);
-      return getStaticExplanations(safeReasonCodes, language).join('\n');
+      return getStaticExplanations(safeReasonCodes, scheme, language).join('\n');
     }
 
     const data = await response.json();
@@ -210,7 +182,7 @@ Generate a brief explanation (2-3 sentences max) suitable for a government offic
 
     if (hasBlockedWord || !explanation.trim()) {
       console.warn('Gemini output filtered due to policy constraints');
-      return getStaticExplanations(safeReasonCodes, language).join('\n');
+      return getStaticExplanations(safeReasonCodes, scheme, language).join('\n');
     }
 
     return explanation.trim();
@@ -220,13 +192,13 @@ Generate a brief explanation (2-3 sentences max) suitable for a government offic
     
     // Handle abort/timeout specifically
     if (error instanceof Error && error.name === 'AbortError') {
-      console.error('Gemini API request timed out after', GEMINI_REQUEST_TIMEOUT, 'ms');
-      return getStaticExplanations(safeReasonCodes, language).join('\n');
+      console.error('Gemini API request timed out after', gemini.timeoutMs, 'ms');
+      return getStaticExplanations(safeReasonCodes, scheme, language).join('\n');
     }
     
     // SECURITY: Avoid logging full error objects that might contain request details
     console.error('Gemini API call failed:', error instanceof Error ? error.message : 'Unknown error');
-    return getStaticExplanations(safeReasonCodes, language).join('\n');
+    return getStaticExplanations(safeReasonCodes, scheme, language).join('\n');
   }
 }
 
@@ -0,0 +1,24 @@
+import { getDataSource } from '@/lib/datasource';
+import { createDistrictFilter } from '@/lib/jurisdiction';
+import { describe, expect, it } from 'vitest';
+
+describe('district filter', () => {
+  it('matches padded and differently cased district names in SQL and includes() alike', async () => {
+    const dataSource = getDataSource();
+    const [beneficiary] = await dataSource.query(`
+      SELECT beneficiary_id FROM ${dataSource.table('Beneficiaries', 'lpg')} WHERE residence_district = 'Patna' LIMIT 1
+    `);
+    await dataSource.execute(`
+      UPDATE ${dataSource.table('Beneficiaries', 'lpg')} SET residence_district = '  PATNA ' WHERE beneficiary_id = @id
+    `, { id: beneficiary.beneficiary_id });
+
+    const filter = createDistrictFilter({ statewide: false, districts: ['Patna '] });
+    const rows = await dataSource.query(`
+      SELECT beneficiary_id, residence_district FROM ${filter.table('Beneficiaries', 'lpg')}
+    `, filter.params);
+
+    expect(rows.map((row) => row.beneficiary_id)).toContain(beneficiary.beneficiary_id);
+    expect(rows.every((row) => filter.includes(row.residence_district))).toBe(true);
+    expect(filter.includes('Varanasi')).toBe(false);
+  });
+});
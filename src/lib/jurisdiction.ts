@@ -0,0 +1,182 @@
+// Jurisdiction scoping
+// A district officer only sees beneficiaries whose residence_district is one
+// of the districts on their profile (officers.districts); state admins and
+// officers marked statewide see everything.
+//
+// Routes read scheme tables through a Scope instead of the data source:
+// scope.table() swaps each table for a subquery holding only in-scope rows
+// (Transactions and fraud_with_explanations via the beneficiary's
+// residence_district), so every query on it is filtered without its own
+// WHERE clause. Pass scope.params along with the query's own parameters.
+// Tables outside a scheme (audit_trail, case lists) are filtered with
+// scope.beneficiaryFilter() or scope.visibleBeneficiaries() instead.
+//
+// Server-side only.
+
+import { recordAccess } from '@/lib/access';
+import { requireSession, type Session } from '@/lib/auth';
+import { getDataSource, type QueryParams, type SchemeTableName } from '@/lib/datasource';
+import { getOfficer, type Officer } from '@/lib/officers';
+import type { SchemeId } from '@/lib/schemes';
+import type { NextRequest } from 'next/server';
+
+export interface Jurisdiction {
+  statewide: boolean;
+  districts: string[];          // Ignored when statewide
+}
+
+// Row filtering for a jurisdiction, with or without a request behind it
+export interface DistrictFilter {
+  jurisdiction: Jurisdiction;
+  table(name: SchemeTableName, scheme: SchemeId): string;
+  params: QueryParams;          // Bound by the scoped table expressions
+  includes(district: string | null): boolean;
+  /** SQL condition keeping rows whose `column` is an in-scope beneficiary of the scheme */
+  beneficiaryFilter(column: string, scheme: SchemeId): string;
+}
+
+export interface Scope extends DistrictFilter {
+  session: Session;
+  /** The given beneficiary IDs that are in scope */
+  visibleBeneficiaries(scheme: SchemeId, beneficiaryIds: string[]): Promise<Set<string>>;
+  /**
+   * Refuse a detail lookup outside the jurisdiction (logged)
+   * @throws JurisdictionError if the beneficiary is unknown or out of scope
+   */
+  requireBeneficiary(scheme: SchemeId, beneficiaryId: string): Promise<void>;
+}
+
+// Beneficiary IDs looked up per query by visibleBeneficiaries
+const ID_BATCH_SIZE = 500;
+
+// Signed-in officer asked for a beneficiary outside their districts
+export class JurisdictionError extends Error {
+  constructor(beneficiaryId: string) {
+    super(`Beneficiary ${beneficiaryId} is outside your jurisdiction`);
+    this.name = 'JurisdictionError';
+  }
+}
+
+/**
+ * Districts an officer may see, from their roster entry
+ */
+export function officerJurisdiction(officer: Officer): Jurisdiction {
+  if (officer.role === 'state_admin') return { statewide: true, districts: [] };
+  if (!officer.active) return { statewide: false, districts: [] };
+  return { statewide: officer.statewide, districts: officer.districts };
+}
+
+/**
+ * Districts the signed-in officer may see (looked up on every request, so a
+ * changed profile applies at once)
+ */
+export async function getJurisdiction(session: Session): Promise<Jurisdiction> {
+  if (session.role === 'state_admin') return { statewide: true, districts: [] };
+
+  const officer = await getOfficer(session.officer_id);
+  if (!officer) return { statewide: false, districts: [] };
+  return officerJurisdiction({ ...officer, role: session.role });
+}
+
+// District names match ignoring case and surrounding spaces - in SQL and in
+// includes() alike, so a route check never disagrees with the rows it returns
+const normalizeDistrict = (district: string) => district.trim().toLowerCase();
+
+function districtCondition(jurisdiction: Jurisdiction, column: string): string {
+  if (jurisdiction.districts.length === 0) return '1 = 0';
+  return `LOWER(TRIM(${column})) IN (${jurisdiction.districts.map((_, i) => `@jurisdiction_district${i}`).join(', ')})`;
+}
+
+/**
+ * Row filtering for a jurisdiction without a signed-in request - for work done
+ * on an officer's behalf in the background (alert rules)
+ */
+export function createDistrictFilter(jurisdiction: Jurisdiction): DistrictFilter {
+  const dataSource = getDataSource();
+  const wanted = new Set(jurisdiction.districts.map(normalizeDistrict));
+
+  const filter: DistrictFilter = {
+    jurisdiction,
+    params: jurisdiction.statewide
+      ? {}
+      : Object.fromEntries(jurisdiction.districts.map((d, i) => [`jurisdiction_district${i}`, normalizeDistrict(d)])),
+
+    table(name: SchemeTableName, scheme: SchemeId): string {
+      const table = dataSource.table(name, scheme);
+      if (jurisdiction.statewide) return table;
+
+      return name === 'Beneficiaries'
+        ? `(SELECT * FROM ${table} WHERE ${districtCondition(jurisdiction, 'residence_district')})`
+        : `(SELECT * FROM ${table} WHERE ${filter.beneficiaryFilter('beneficiary_id', scheme)})`;
+    },
+
+    beneficiaryFilter(column: string, scheme: SchemeId): string {
+      if (jurisdiction.statewide) return '1 = 1';
+      return `${column} IN (SELECT beneficiary_id FROM ${dataSource.table('Beneficiaries', scheme)} WHERE ${districtCondition(jurisdiction, 'residence_district')})`;
+    },
+
+    includes(district: string | null): boolean {
+      return jurisdiction.statewide || (!!district && wanted.has(normalizeDistrict(district)));
+    },
+  };
+  return filter;
+}
+
+function createScope(request: NextRequest, session: Session, jurisdiction: Jurisdiction): Scope {
+  const dataSource = getDataSource();
+
+  const scope: Scope = {
+    ...createDistrictFilter(jurisdiction),
+    session,
+
+    async visibleBeneficiaries(scheme: SchemeId, beneficiaryIds: string[]): Promise<Set<string>> {
+      if (jurisdiction.statewide) return new Set(beneficiaryIds);
+
+      const visible = new Set<string>();
+      for (let start = 0; start < beneficiaryIds.length; start += ID_BATCH_SIZE) {
+        const batch = beneficiaryIds.slice(start, start + ID_BATCH_SIZE);
+        const rows = await dataSource.query(`
+          SELECT beneficiary_id
+          FROM ${scope.table('Beneficiaries', scheme)}
+          WHERE beneficiary_id IN (${batch.map((_, i) => `@beneficiary_id${i}`).join(', ')})
+        `, { ...scope.params, ...Object.fromEntries(batch.map((id, i) => [`beneficiary_id${i}`, id])) });
+        for (const row of rows) visible.add(row.beneficiary_id);
+      }
+      return visible;
+    },
+
+    async requireBeneficiary(scheme: SchemeId, beneficiaryId: string): Promise<void> {
+      if (jurisdiction.statewide) return;
+
+      const rows = await dataSource.query(`
+        SELECT residence_district
+        FROM ${dataSource.table('Beneficiaries', scheme)}
+        WHERE beneficiary_id = @beneficiary_id
+      `, { beneficiary_id: beneficiaryId });
+      // Unknown IDs get the same answer, so a 403 does not reveal that a beneficiary exists
+      if (rows.some((row) => scope.includes(row.residence_district))) return;
+
+      await recordAccess({
+        officer_id: session.officer_id,
+        officer_name: session.officer_name,
+        role: session.role,
+        method: request.method,
+        path: request.nextUrl.pathname,
+        permission: null,
+        outcome: 'DENIED',
+        reason: `Beneficiary ${beneficiaryId} (${scheme}) outside jurisdiction`,
+      });
+      throw new JurisdictionError(beneficiaryId);
+    },
+  };
+  return scope;
+}
+
+/**
+ * Scope of the signed-in officer for this request
+ * @throws AuthError if the request is not signed in
+ */
+export async function getScope(request: NextRequest): Promise<Scope> {
+  const session = requireSession(request);
+  return createScope(request, session, await getJurisdiction(session));
+}
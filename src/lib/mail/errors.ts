@@ -0,0 +1,12 @@
+// Delivery error shared by the mail transports
+// (kept out of index.ts so the transports can use it without an import cycle)
+
+export class MailDeliveryError extends Error {
+  constructor(
+    message: string,
+    public readonly permanent: boolean    // Retrying cannot help (5xx reply, bad address, refused credentials)
+  ) {
+    super(message);
+    this.name = 'MailDeliveryError';
+  }
+}
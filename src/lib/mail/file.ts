@@ -0,0 +1,28 @@
+import fs from 'fs';
+import path from 'path';
+import { MailDeliveryError } from './errors';
+import { formatMessage, type MailMessage, type MailTransport } from './index';
+
+// File transport for development
+// Each message is written to MAIL_DIR as an .eml file (open it in any mail
+// client) instead of being sent. Deliveries are reported as QUEUED - nothing
+// has left the machine.
+
+export function createFileTransport(dir: string, from: string): MailTransport {
+  return {
+    kind: 'file',
+
+    async send(message: MailMessage) {
+      const { raw, messageId } = formatMessage(message, from);
+      const name = `${new Date().toISOString().replace(/[:.]/g, '-')}-${messageId.slice(1, 9)}.eml`;
+      const file = path.join(dir, name);
+      try {
+        await fs.promises.mkdir(dir, { recursive: true });
+        await fs.promises.writeFile(file, raw);
+      } catch (error) {
+        throw new MailDeliveryError(`Could not write ${file}: ${error instanceof Error ? error.message : error}`, false);
+      }
+      return { status: 'QUEUED', message_id: messageId, detail: `Written to ${file}` };
+    },
+  };
+}
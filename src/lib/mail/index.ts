@@ -0,0 +1,106 @@
+// Mail layer
+// Alerts are emailed through a MailTransport so the same code can deliver via
+// an SMTP relay or, in development, write each message to a local directory
+// as an .eml file instead of sending it.
+//
+// Transport is selected with MAIL_TRANSPORT=smtp|file (see lib/config.ts)
+//
+// Server-side only.
+
+import { getConfig } from '@/lib/config';
+import { v4 as uuidv4 } from 'uuid';
+import { createFileTransport } from './file';
+import { createSmtpTransport } from './smtp';
+
+export { MailDeliveryError } from './errors';
+
+export type MailTransportKind = 'smtp' | 'file';
+
+export interface MailMessage {
+  to: string[];
+  subject: string;
+  text: string;
+  headers?: Record<string, string>;   // Extra headers, e.g. X-JanAvlokan-Alert-Id
+}
+
+export interface MailDelivery {
+  // SENT = accepted by the mail server; QUEUED = written out for later pickup, not sent
+  status: 'SENT' | 'QUEUED';
+  message_id: string;
+  detail: string;                     // Server reply or file written
+}
+
+export interface MailTransport {
+  readonly kind: MailTransportKind;
+
+  /**
+   * Deliver one message
+   * @throws MailDeliveryError - `permanent` tells whether a retry can succeed
+   */
+  send(message: MailMessage): Promise<MailDelivery>;
+}
+
+// Header values must stay on one line or they could inject headers of their own
+function headerValue(value: string): string {
+  return value.replace(/[\r\n]+/g, ' ').trim();
+}
+
+// RFC 2047 encoded-word for non-ASCII header text
+function encodeHeader(value: string): string {
+  const clean = headerValue(value);
+  return /^[\x20-\x7e]*$/.test(clean) ? clean : `=?UTF-8?B?${Buffer.from(clean, 'utf-8').toString('base64')}?=`;
+}
+
+/**
+ * Bare address of a mailbox, e.g. 'Alerts <alerts@example.org>' -> 'alerts@example.org'
+ */
+export function mailboxAddress(mailbox: string): string {
+  const match = mailbox.match(/<([^>]+)>/);
+  return (match ? match[1] : mailbox).trim();
+}
+
+/**
+ * Split a comma-separated recipient setting into addresses
+ */
+export function parseRecipients(value: string | null | undefined): string[] {
+  return (value ?? '').split(',').map((part) => part.trim()).filter(Boolean);
+}
+
+/**
+ * The message as an RFC 5322 document (CRLF line endings, base64 body)
+ * @returns The document and the Message-ID it carries
+ */
+export function formatMessage(message: MailMessage, from: string): { raw: string; messageId: string } {
+  const domain = mailboxAddress(from).split('@')[1] || 'localhost';
+  const messageId = `<${uuidv4()}@${domain}>`;
+  const headers: Record<string, string> = {
+    From: headerValue(from),
+    To: message.to.map(headerValue).join(', '),
+    Subject: encodeHeader(message.subject),
+    Date: new Date().toUTCString(),
+    'Message-ID': messageId,
+    'MIME-Version': '1.0',
+    'Content-Type': 'text/plain; charset=utf-8',
+    'Content-Transfer-Encoding': 'base64',
+  };
+  for (const [name, value] of Object.entries(message.headers ?? {})) {
+    headers[name.replace(/[^A-Za-z0-9-]/g, '')] = headerValue(value);
+  }
+
+  const body = Buffer.from(message.text, 'utf-8').toString('base64').match(/.{1,76}/g) ?? [];
+  const raw = [...Object.entries(headers).map(([name, value]) => `${name}: ${value}`), '', ...body, ''].join('\r\n');
+  return { raw, messageId };
+}
+
+// Singleton transport
+let transport: MailTransport | null = null;
+
+export function getMailTransport(): MailTransport {
+  if (!transport) {
+    const { mail } = getConfig();
+    transport = mail.transport === 'smtp' && mail.smtp
+      ? createSmtpTransport(mail.smtp, mail.from)
+      : createFileTransport(mail.dir, mail.from);
+  }
+  return transport;
+}
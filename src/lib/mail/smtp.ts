@@ -0,0 +1,193 @@
+import net from 'net';
+import os from 'os';
+import tls from 'tls';
+import type { SmtpConfig } from '@/lib/config';
+import { MailDeliveryError } from './errors';
+import { formatMessage, mailboxAddress, type MailMessage, type MailTransport } from './index';
+
+// SMTP transport
+// A minimal SMTP client (RFC 5321) on node's net / tls: EHLO, STARTTLS when
+// the server offers it, AUTH PLAIN when credentials are configured, then one
+// message per connection. 4xx replies and connection problems are transient
+// (the alert is retried later); 5xx replies are permanent.
+//
+// Any SMTP sink works for local testing, e.g.
+//   python3 -m smtpd -n -c DebuggingServer localhost:1025   (Python <= 3.11)
+// with SMTP_HOST=localhost SMTP_PORT=1025.
+
+interface Reply {
+  code: number;
+  lines: string[];              // Text of each reply line, without the code
+}
+
+interface Connection {
+  // Wait for the next reply and check its code
+  expect(expected: number[], context: string): Promise<Reply>;
+  command(line: string, expected: number[], context: string): Promise<Reply>;
+  startTls(): Promise<void>;
+  close(): void;
+}
+
+const ADDRESS_PATTERN = /^[^\s<>@]+@[^\s<>@]+$/;
+
+function replyText(reply: Reply): string {
+  return `${reply.code} ${reply.lines.join(' ')}`.trim();
+}
+
+// EHLO argument - the host name, or a placeholder when it is not a usable domain
+function clientName(): string {
+  const name = os.hostname();
+  return /^[A-Za-z0-9.-]+$/.test(name) ? name : 'localhost';
+}
+
+function hasExtension(ehlo: Reply, name: string): boolean {
+  return ehlo.lines.some((line) => line.split(' ')[0].toUpperCase() === name);
+}
+
+function openConnection(config: SmtpConfig): Connection {
+  let buffer = '';
+  let lines: string[] = [];
+  const replies: Reply[] = [];
+  let waiter: { resolve: (reply: Reply) => void; reject: (error: Error) => void } | null = null;
+  let closedWith: Error | null = null;
+
+  const deliverReply = (reply: Reply) => {
+    if (waiter) {
+      const { resolve } = waiter;
+      waiter = null;
+      resolve(reply);
+    } else {
+      replies.push(reply);
+    }
+  };
+
+  const fail = (error: Error) => {
+    closedWith ??= error;
+    if (waiter) {
+      const { reject } = waiter;
+      waiter = null;
+      reject(closedWith);
+    }
+  };
+
+  // Multi-line replies continue with "250-..." and end with "250 ..."
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString('utf-8');
+    let end: number;
+    while ((end = buffer.indexOf('\n')) >= 0) {
+      const line = buffer.slice(0, end).replace(/\r$/, '');
+      buffer = buffer.slice(end + 1);
+      lines.push(line.slice(4));
+      if (line.charAt(3) !== '-') {
+        deliverReply({ code: Number(line.slice(0, 3)), lines });
+        lines = [];
+      }
+    }
+  };
+
+  const attach = (target: net.Socket) => {
+    target.on('data', onData);
+    target.on('error', (error) => fail(new MailDeliveryError(`${config.host}:${config.port}: ${error.message}`, false)));
+    target.on('close', () => fail(new MailDeliveryError('Connection closed by the mail server', false)));
+    target.setTimeout(config.timeoutMs, () => {
+      fail(new MailDeliveryError(`No reply from ${config.host}:${config.port} within ${config.timeoutMs} ms`, false));
+      target.destroy();
+    });
+  };
+
+  let socket: net.Socket = config.secure
+    ? tls.connect({ host: config.host, port: config.port, servername: config.host })
+    : net.connect({ host: config.host, port: config.port });
+  attach(socket);
+
+  const nextReply = (): Promise<Reply> => {
+    const reply = replies.shift();
+    if (reply) return Promise.resolve(reply);
+    if (closedWith) return Promise.reject(closedWith);
+    return new Promise((resolve, reject) => {
+      waiter = { resolve, reject };
+    });
+  };
+
+  const expect = async (expected: number[], context: string): Promise<Reply> => {
+    const reply = await nextReply();
+    if (!expected.includes(reply.code)) {
+      throw new MailDeliveryError(`${context} refused: ${replyText(reply)}`, reply.code >= 500);
+    }
+    return reply;
+  };
+
+  return {
+    expect,
+
+    command(line, expected, context) {
+      socket.write(`${line}\r\n`);
+      return expect(expected, context);
+    },
+
+    // Re-wrap the plain socket after the server's 220 to STARTTLS
+    startTls() {
+      const plain = socket;
+      for (const event of ['data', 'error', 'close', 'timeout']) plain.removeAllListeners(event);
+      plain.setTimeout(0);
+      return new Promise<void>((resolve) => {
+        socket = tls.connect({ socket: plain, servername: config.host }, () => resolve());
+        attach(socket);
+        socket.once('error', () => resolve());    // Reported by the next command
+      });
+    },
+
+    close() {
+      socket.destroy();
+    },
+  };
+}
+
+export function createSmtpTransport(config: SmtpConfig, from: string): MailTransport {
+  return {
+    kind: 'smtp',
+
+    async send(message: MailMessage) {
+      const recipients = message.to.map(mailboxAddress);
+      const invalid = [mailboxAddress(from), ...recipients].filter((address) => !ADDRESS_PATTERN.test(address));
+      if (invalid.length > 0) throw new MailDeliveryError(`Invalid address: ${invalid.join(', ')}`, true);
+      if (recipients.length === 0) throw new MailDeliveryError('No recipients', true);
+
+      const { raw, messageId } = formatMessage(message, from);
+      const connection = openConnection(config);
+      try {
+        await connection.expect([220], 'Connection');
+        let ehlo = await connection.command(`EHLO ${clientName()}`, [250], 'EHLO');
+
+        let secure = config.secure;
+        if (!secure && hasExtension(ehlo, 'STARTTLS')) {
+          await connection.command('STARTTLS', [220], 'STARTTLS');
+          await connection.startTls();
+          secure = true;
+          ehlo = await connection.command(`EHLO ${clientName()}`, [250], 'EHLO');
+        }
+
+        if (config.user) {
+          if (!secure) {
+            throw new MailDeliveryError(`${config.host} does not offer TLS - SMTP credentials are never sent in clear text`, true);
+          }
+          const token = Buffer.from(`\0${config.user}\0${config.password ?? ''}`, 'utf-8').toString('base64');
+          await connection.command(`AUTH PLAIN ${token}`, [235], 'Authentication');
+        }
+
+        await connection.command(`MAIL FROM:<${mailboxAddress(from)}>`, [250], 'Sender');
+        for (const recipient of recipients) {
+          await connection.command(`RCPT TO:<${recipient}>`, [250, 251], `Recipient ${recipient}`);
+        }
+        await connection.command('DATA', [354], 'DATA');
+        // Lines starting with a dot are doubled so they cannot end the message early
+        const accepted = await connection.command(`${raw.replace(/^\./gm, '..')}.`, [250], 'Message');
+        await connection.command('QUIT', [221], 'QUIT').catch(() => undefined);
+
+        return { status: 'SENT', message_id: messageId, detail: replyText(accepted) };
+      } finally {
+        connection.close();
+      }
+    },
+  };
+}
@@ -0,0 +1,373 @@
+// Schema migrations for app-owned tables
+// The fraud-detection tables (fraud_with_explanations, Beneficiaries,
+// Transactions) are produced upstream; everything the app itself writes -
+// audit trail, batch jobs, alerts, officers, access log - is created and
+// evolved here.
+//
+// Migrations are append-only: never edit or reorder an applied version, add a
+// new one instead. Applied versions are recorded in schema_migrations.
+// Steps are declarative so the same migration runs on BigQuery and the local
+// backend (see SqlDialect.columnType / addColumn).
+
+import type { ColumnType, DataSource, SharedTableName } from '@/lib/datasource';
+import { isMissingTableError } from '@/lib/datasource/errors';
+
+export interface ColumnDefinition {
+  name: string;
+  type: ColumnType;
+  required?: boolean;           // NOT NULL
+}
+
+export type MigrationStep =
+  | { kind: 'createTable'; table: SharedTableName; columns: ColumnDefinition[] }
+  | { kind: 'addColumn'; table: SharedTableName; column: ColumnDefinition };
+
+export interface Migration {
+  version: number;              // Strictly increasing, never reused
+  name: string;
+  steps: MigrationStep[];
+}
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  applied_at: string | null;    // null = pending
+}
+
+export interface MigrationStatus {
+  current_version: number;      // Highest applied version (0 = none)
+  latest_version: number;
+  pending: number;
+  migrations: AppliedMigration[];
+}
+
+// Returned by routes when an app-owned table is missing
+export const MIGRATIONS_REQUIRED =
+  'Application tables are missing - apply schema migrations (POST /api/admin/migrations)';
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'create_app_tables',
+    steps: [
+      {
+        kind: 'createTable',
+        table: 'audit_trail',
+        columns: [
+          { name: 'audit_id', type: 'STRING', required: true },
+          { name: 'beneficiary_id', type: 'STRING', required: true },
+          { name: 'action', type: 'STRING', required: true },
+          { name: 'officer_id', type: 'STRING' },
+          { name: 'officer_name', type: 'STRING' },
+          { name: 'notes', type: 'STRING' },
+          { name: 'previous_status', type: 'STRING' },
+          { name: 'new_status', type: 'STRING' },
+          { name: 'created_at', type: 'TIMESTAMP', required: true },
+        ],
+      },
+      {
+        kind: 'createTable',
+        table: 'batch_jobs',
+        columns: [
+          { name: 'job_id', type: 'STRING', required: true },
+          { name: 'scheme', type: 'STRING', required: true },
+          { name: 'job_type', type: 'STRING', required: true },
+          { name: 'status', type: 'STRING', required: true },
+          { name: 'started_at', type: 'TIMESTAMP', required: true },
+          { name: 'completed_at', type: 'TIMESTAMP' },
+          { name: 'records_processed', type: 'INT64' },
+          { name: 'error_message', type: 'STRING' },
+        ],
+      },
+      {
+        kind: 'createTable',
+        table: 'alerts',
+        columns: [
+          { name: 'alert_id', type: 'STRING', required: true },
+          { name: 'scheme', type: 'STRING', required: true },
+          { name: 'beneficiary_id', type: 'STRING', required: true },
+          { name: 'risk_score', type: 'FLOAT64' },
+          { name: 'reason', type: 'STRING' },
+          { name: 'recipient', type: 'STRING' },
+          { name: 'delivery_status', type: 'STRING', required: true },
+          { name: 'created_at', type: 'TIMESTAMP', required: true },
+        ],
+      },
+    ],
+  },
+  {
+    // Audit entries predate multi-scheme support; rows without it are LPG
+    version: 2,
+    name: 'audit_trail_scheme',
+    steps: [
+      { kind: 'addColumn', table: 'audit_trail', column: { name: 'scheme', type: 'STRING' } },
+    ],
+  },
+  {
+    // Officer roster for case assignment; ASSIGNED entries name the assignee
+    version: 3,
+    name: 'officers_and_assignee',
+    steps: [
+      {
+        kind: 'createTable',
+        table: 'officers',
+        columns: [
+          { name: 'officer_id', type: 'STRING', required: true },
+          { name: 'officer_name', type: 'STRING', required: true },
+          { name: 'email', type: 'STRING' },
+          { name: 'districts', type: 'STRING' },
+          { name: 'active', type: 'BOOL', required: true },
+          { name: 'created_at', type: 'TIMESTAMP', required: true },
+          { name: 'updated_at', type: 'TIMESTAMP', required: true },
+        ],
+      },
+      { kind: 'addColumn', table: 'audit_trail', column: { name: 'assignee_id', type: 'STRING' } },
+    ],
+  },
+  {
+    // When each case first needed review, and when it breached its SLA
+    version: 4,
+    name: 'case_sla',
+    steps: [
+      {
+        kind: 'createTable',
+        table: 'case_sla',
+        columns: [
+          { name: 'scheme', type: 'STRING', required: true },
+          { name: 'beneficiary_id', type: 'STRING', required: true },
+          { name: 'flagged_at', type: 'TIMESTAMP', required: true },
+          { name: 'breached_at', type: 'TIMESTAMP' },
+          { name: 'escalation_alert_id', type: 'STRING' },
+        ],
+      },
+    ],
+  },
+  {
+    // Hash chain making the audit trail tamper-evident (see lib/audit.ts)
+    version: 5,
+    name: 'audit_trail_hash_chain',
+    steps: [
+      { kind: 'addColumn', table: 'audit_trail', column: { name: 'chain_seq', type: 'INT64' } },
+      { kind: 'addColumn', table: 'audit_trail', column: { name: 'prev_hash', type: 'STRING' } },
+      { kind: 'addColumn', table: 'audit_trail', column: { name: 'entry_hash', type: 'STRING' } },
+    ],
+  },
+  {
+    version: 6,
+    name: 'officer_credentials',
+    steps: [
+      { kind: 'addColumn', table: 'officers', column: { name: 'password_hash', type: 'STRING' } },
+    ],
+  },
+  {
+    version: 7,
+    name: 'roles_and_access_log',
+    steps: [
+      { kind: 'addColumn', table: 'officers', column: { name: 'role', type: 'STRING' } },
+      {
+        kind: 'createTable',
+        table: 'access_log',
+        columns: [
+          { name: 'log_id', type: 'STRING', required: true },
+          { name: 'officer_id', type: 'STRING' },
+          { name: 'officer_name', type: 'STRING' },
+          { name: 'role', type: 'STRING' },
+          { name: 'method', type: 'STRING' },
+          { name: 'path', type: 'STRING' },
+          { name: 'permission', type: 'STRING' },
+          { name: 'outcome', type: 'STRING', required: true },
+          { name: 'reason', type: 'STRING' },
+          { name: 'created_at', type: 'TIMESTAMP', required: true },
+        ],
+      },
+    ],
+  },
+  {
+    version: 8,
+    name: 'officer_jurisdiction',
+    steps: [
+      { kind: 'addColumn', table: 'officers', column: { name: 'statewide', type: 'BOOL' } },
+    ],
+  },
+  {
+    // Reads of beneficiary records (detail, search, export) in the access log
+    version: 9,
+    name: 'access_log_records',
+    steps: [
+      { kind: 'addColumn', table: 'access_log', column: { name: 'scheme', type: 'STRING' } },
+      { kind: 'addColumn', table: 'access_log', column: { name: 'beneficiary_ids', type: 'STRING' } },
+      { kind: 'addColumn', table: 'access_log', column: { name: 'record_count', type: 'INT64' } },
+    ],
+  },
+  {
+    // Alert email delivery tracking (lib/alerts.ts)
+    version: 10,
+    name: 'alert_delivery',
+    steps: [
+      { kind: 'addColumn', table: 'alerts', column: { name: 'transport', type: 'STRING' } },
+      { kind: 'addColumn', table: 'alerts', column: { name: 'delivery_attempts', type: 'INT64' } },
+      { kind: 'addColumn', table: 'alerts', column: { name: 'delivered_at', type: 'TIMESTAMP' } },
+      { kind: 'addColumn', table: 'alerts', column: { name: 'delivery_error', type: 'STRING' } },
+      { kind: 'addColumn', table: 'alerts', column: { name: 'message_id', type: 'STRING' } },
+    ],
+  },
+  {
+    // Alert rules (lib/rules.ts) and what each has already alerted on. Rule
+    // alerts about a dealer or district store an empty beneficiary_id.
+    version: 11,
+    name: 'alert_rules',
+    steps: [
+      {
+        kind: 'createTable',
+        table: 'alert_rules',
+        columns: [
+          { name: 'rule_id', type: 'STRING', required: true },
+          { name: 'name', type: 'STRING', required: true },
+          { name: 'scheme', type: 'STRING', required: true },
+          { name: 'trigger_type', type: 'STRING', required: true },
+          { name: 'trigger_params', type: 'STRING' },
+          { name: 'districts', type: 'STRING' },
+          { name: 'subscribers', type: 'STRING' },
+          { name: 'owner_id', type: 'STRING', required: true },
+          { name: 'enabled', type: 'BOOL' },
+          { name: 'created_at', type: 'TIMESTAMP', required: true },
+          { name: 'updated_at', type: 'TIMESTAMP', required: true },
+          { name: 'last_evaluated_at', type: 'TIMESTAMP' },
+          { name: 'last_error', type: 'STRING' },
+        ],
+      },
+      {
+        kind: 'createTable',
+        table: 'alert_rule_matches',
+        columns: [
+          { name: 'rule_id', type: 'STRING', required: true },
+          { name: 'match_key', type: 'STRING', required: true },
+          { name: 'alert_id', type: 'STRING' },
+          { name: 'matched_at', type: 'TIMESTAMP', required: true },
+        ],
+      },
+      { kind: 'addColumn', table: 'alerts', column: { name: 'rule_id', type: 'STRING' } },
+    ],
+  },
+  {
+    // Alert kinds (lib/alerts.ts): access anomalies name the officer and their
+    // view count instead of a beneficiary
+    version: 12,
+    name: 'alert_kinds',
+    steps: [
+      { kind: 'addColumn', table: 'alerts', column: { name: 'kind', type: 'STRING' } },
+      { kind: 'addColumn', table: 'alerts', column: { name: 'officer_id', type: 'STRING' } },
+      { kind: 'addColumn', table: 'alerts', column: { name: 'view_count', type: 'INT64' } },
+    ],
+  },
+  {
+    version: 13,
+    name: 'alert_delivery_claims',
+    steps: [
+      { kind: 'addColumn', table: 'alerts', column: { name: 'delivery_claim', type: 'STRING' } },
+      { kind: 'addColumn', table: 'alerts', column: { name: 'claimed_at', type: 'TIMESTAMP' } },
+    ],
+  },
+  {
+    // Set on the first chain entry only (lib/audit.ts)
+    version: 14,
+    name: 'audit_chain_legacy_count',
+    steps: [
+      { kind: 'addColumn', table: 'audit_trail', column: { name: 'legacy_entries', type: 'INT64' } },
+    ],
+  },
+];
+
+// Catch edits that would corrupt the version history at startup
+MIGRATIONS.forEach((migration, i) => {
+  if (i > 0 && migration.version <= MIGRATIONS[i - 1].version) {
+    throw new Error(`Migration versions must be strictly increasing (${migration.name})`);
+  }
+});
+
+const SCHEMA_MIGRATIONS_COLUMNS: ColumnDefinition[] = [
+  { name: 'version', type: 'INT64', required: true },
+  { name: 'name', type: 'STRING', required: true },
+  { name: 'applied_at', type: 'TIMESTAMP', required: true },
+];
+
+function columnSql(dataSource: DataSource, column: ColumnDefinition): string {
+  return `${column.name} ${dataSource.sql.columnType(column.type)}${column.required ? ' NOT NULL' : ''}`;
+}
+
+function stepSql(dataSource: DataSource, step: MigrationStep): string {
+  const table = dataSource.table(step.table);
+  if (step.kind === 'addColumn') {
+    // Added columns are always nullable - existing rows have no value
+    return dataSource.sql.addColumn(table, step.column.name, step.column.type);
+  }
+  const columns = step.columns.map((column) => columnSql(dataSource, column)).join(',\n        ');
+  return `CREATE TABLE IF NOT EXISTS ${table} (\n        ${columns}\n      )`;
+}
+
+async function readApplied(dataSource: DataSource): Promise<Map<number, string>> {
+  try {
+    const rows = await dataSource.query(`
+      SELECT version, applied_at
+      FROM ${dataSource.table('schema_migrations')}
+    `);
+    return new Map(rows.map((row) => [Number(row.version), row.applied_at?.value || row.applied_at]));
+  } catch (error) {
+    // Nothing has been applied yet
+    if (isMissingTableError(error)) return new Map();
+    throw error;
+  }
+}
+
+/**
+ * Applied and pending migrations, without changing anything
+ */
+export async function getMigrationStatus(dataSource: DataSource): Promise<MigrationStatus> {
+  const applied = await readApplied(dataSource);
+  const migrations = MIGRATIONS.map(({ version, name }) => ({
+    version,
+    name,
+    applied_at: applied.get(version) ?? null,
+  }));
+  const appliedVersions = migrations.filter((m) => m.applied_at !== null).map((m) => m.version);
+
+  return {
+    current_version: Math.max(0, ...appliedVersions),
+    latest_version: MIGRATIONS[MIGRATIONS.length - 1]?.version ?? 0,
+    pending: migrations.length - appliedVersions.length,
+    migrations,
+  };
+}
+
+/**
+ * Apply every pending migration in version order
+ * Each version is recorded only after all its steps succeed, and tables are
+ * created IF NOT EXISTS, so a run that failed part-way can be retried.
+ * @returns Status after applying
+ */
+export async function applyMigrations(dataSource: DataSource): Promise<MigrationStatus> {
+  await dataSource.execute(
+    `CREATE TABLE IF NOT EXISTS ${dataSource.table('schema_migrations')} (
+        ${SCHEMA_MIGRATIONS_COLUMNS.map((column) => columnSql(dataSource, column)).join(',\n        ')}
+      )`
+  );
+
+  const applied = await readApplied(dataSource);
+
+  for (const migration of MIGRATIONS) {
+    if (applied.has(migration.version)) continue;
+
+    for (const step of migration.steps) {
+      await dataSource.execute(stepSql(dataSource, step));
+    }
+
+    await dataSource.execute(
+      `INSERT INTO ${dataSource.table('schema_migrations')} (version, name, applied_at)
+      VALUES (@version, @name, @applied_at)`,
+      { version: migration.version, name: migration.name, applied_at: new Date().toISOString() }
+    );
+    console.log(`Applied migration ${migration.version} (${migration.name})`);
+  }
+
+  return getMigrationStatus(dataSource);
+}
@@ -0,0 +1,161 @@
+// Officer roster
+// Officers who can be assigned cases, with the districts they cover. A case
+// can only be assigned to an active officer whose districts include the
+// beneficiary's residence_district. The districts are also the officer's
+// jurisdiction - the data they may see (lib/jurisdiction.ts) - unless they
+// are statewide.
+//
+// Password hashes (local sign-in, see lib/auth.ts) live in the same table but
+// never leave this module except through getOfficerCredentials.
+//
+// Server-side only.
+
+import { getDataSource, type DataRow } from '@/lib/datasource';
+import { DEFAULT_ROLE, isRole, type Role } from '@/lib/rbac';
+
+export interface Officer {
+  officer_id: string;
+  officer_name: string;
+  email: string | null;
+  districts: string[];          // residence_district values this officer covers
+  statewide: boolean;           // Sees every district (state admins always do)
+  role: Role;
+  active: boolean;              // Inactive officers keep their history but get no new cases
+  created_at: string;
+  updated_at: string;
+}
+
+export interface OfficerInput {
+  officer_id: string;
+  officer_name: string;
+  email?: string | null;
+  districts: string[];
+  statewide?: boolean;
+  role?: Role;                  // Unset = keep the current role (new officers: DEFAULT_ROLE)
+  active?: boolean;
+  password_hash?: string;       // Unset = keep the current password (if any)
+}
+
+// Districts are stored as one comma-separated column (portable to SQLite)
+function parseDistricts(value: unknown): string[] {
+  return String(value ?? '')
+    .split(',')
+    .map((district) => district.trim())
+    .filter(Boolean);
+}
+
+function toOfficer(row: DataRow): Officer {
+  return {
+    officer_id: row.officer_id,
+    officer_name: row.officer_name,
+    email: row.email || null,
+    districts: parseDistricts(row.districts),
+    statewide: row.statewide === true || row.statewide === 1,
+    role: isRole(row.role) ? row.role : DEFAULT_ROLE,
+    active: row.active === true || row.active === 1,
+    created_at: row.created_at?.value || row.created_at,
+    updated_at: row.updated_at?.value || row.updated_at,
+  };
+}
+
+// District names are matched ignoring case and surrounding spaces (as lib/jurisdiction does)
+export function coversDistrict(officer: Officer, district: string | null): boolean {
+  if (!district) return false;
+  const wanted = district.trim().toLowerCase();
+  return officer.districts.some((d) => d.trim().toLowerCase() === wanted);
+}
+
+/**
+ * Officer with the stored password hash, for local sign-in
+ * @returns null if there is no such officer
+ */
+export async function getOfficerCredentials(
+  officerId: string
+): Promise<{ officer: Officer; password_hash: string | null } | null> {
+  const dataSource = getDataSource();
+  const rows = await dataSource.query(`
+    SELECT *
+    FROM ${dataSource.table('officers')}
+    WHERE officer_id = @officer_id
+  `, { officer_id: officerId });
+  return rows[0] ? { officer: toOfficer(rows[0]), password_hash: rows[0].password_hash || null } : null;
+}
+
+/**
+ * Officer identified by an external identity (OIDC) - matched on email only,
+ * case-insensitively, so an identity provider can never name an officer_id
+ */
+export async function findOfficerByEmail(email: string): Promise<Officer | null> {
+  const dataSource = getDataSource();
+  const rows = await dataSource.query(`
+    SELECT *
+    FROM ${dataSource.table('officers')}
+    WHERE LOWER(email) = LOWER(@email)
+    ORDER BY officer_id
+  `, { email });
+  return rows[0] ? toOfficer(rows[0]) : null;
+}
+
+export async function listOfficers(): Promise<Officer[]> {
+  const dataSource = getDataSource();
+  const rows = await dataSource.query(`
+    SELECT *
+    FROM ${dataSource.table('officers')}
+    ORDER BY officer_id
+  `);
+  return rows.map(toOfficer);
+}
+
+export async function getOfficer(officerId: string): Promise<Officer | null> {
+  const dataSource = getDataSource();
+  const rows = await dataSource.query(`
+    SELECT *
+    FROM ${dataSource.table('officers')}
+    WHERE officer_id = @officer_id
+  `, { officer_id: officerId });
+  return rows[0] ? toOfficer(rows[0]) : null;
+}
+
+/**
+ * Add an officer, or update the name, email, districts, statewide flag, role,
+ * active flag and (if given) password hash of an existing one
+ * @returns The stored officer and whether it was newly created
+ */
+export async function saveOfficer(input: OfficerInput): Promise<{ officer: Officer; created: boolean }> {
+  const dataSource = getDataSource();
+  const existing = await getOfficer(input.officer_id);
+  const now = new Date().toISOString();
+  const values = {
+    officer_id: input.officer_id,
+    officer_name: input.officer_name,
+    email: input.email || '',
+    districts: Array.from(new Set(input.districts.map((d) => d.trim()).filter(Boolean))).join(','),
+    statewide: input.statewide ?? existing?.statewide ?? false,
+    role: input.role ?? existing?.role ?? DEFAULT_ROLE,
+    active: input.active ?? existing?.active ?? true,
+    updated_at: now,
+  };
+
+  const passwordHash = input.password_hash ? { password_hash: input.password_hash } : {};
+
+  if (existing) {
+    await dataSource.execute(`
+      UPDATE ${dataSource.table('officers')}
+      SET officer_name = @officer_name, email = @email, districts = @districts,
+          statewide = @statewide, role = @role,
+          active = @active, updated_at = @updated_at${input.password_hash ? ', password_hash = @password_hash' : ''}
+      WHERE officer_id = @officer_id
+    `, { ...values, ...passwordHash });
+  } else {
+    await dataSource.execute(`
+      INSERT INTO ${dataSource.table('officers')}
+      (officer_id, officer_name, email, districts, statewide, role, active, created_at, updated_at${input.password_hash ? ', password_hash' : ''})
+      VALUES (@officer_id, @officer_name, @email, @districts, @statewide, @role, @active, @created_at, @updated_at${input.password_hash ? ', @password_hash' : ''})
+    `, { ...values, ...passwordHash, created_at: now });
+  }
+
+  return {
+    officer: toOfficer({ ...values, created_at: existing?.created_at ?? now }),
+    created: !existing,
+  };
+}
@@ -0,0 +1,59 @@
+import { AuthError } from '@/lib/auth';
+import { beginOidcLogin, completeOidcLogin } from '@/lib/oidc';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+
+const ISSUER = 'https://login.example.gov.in';
+const CLIENT_ID = 'janavlokan';
+
+function idToken(claims: Record<string, unknown>): string {
+  const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  return `${encode({ alg: 'none' })}.${encode(claims)}.`;
+}
+
+// Sign in through a stub provider whose ID token carries these claims
+async function signIn(claims: Record<string, unknown>) {
+  const { url, stateCookie } = await beginOidcLogin('http://localhost:3000', '/');
+  const authorize = new URL(url).searchParams;
+  vi.stubGlobal('fetch', async () => Response.json({
+    id_token: idToken({
+      iss: ISSUER,
+      aud: CLIENT_ID,
+      exp: Math.floor(Date.now() / 1000) + 300,
+      nonce: authorize.get('nonce'),
+      ...claims,
+    }),
+  }));
+  return completeOidcLogin(new URLSearchParams({ state: authorize.get('state') as string, code: 'code' }), stateCookie);
+}
+
+describe('OIDC sign-in', () => {
+  beforeAll(() => {
+    vi.stubEnv('OIDC_ISSUER', ISSUER);
+    vi.stubEnv('OIDC_CLIENT_ID', CLIENT_ID);
+    vi.stubEnv('OIDC_CLIENT_SECRET', 'secret');
+    vi.stubGlobal('fetch', async () => Response.json({
+      issuer: ISSUER,
+      authorization_endpoint: `${ISSUER}/authorize`,
+      token_endpoint: `${ISSUER}/token`,
+    }));
+  });
+
+  afterAll(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  it('maps a verified email to its officer', async () => {
+    const { session } = await signIn({ email: 'Rajesh.Kumar@example.gov.in', email_verified: true });
+    expect(session).toMatchObject({ officer_id: 'AO-1001', role: 'district_supervisor' });
+  });
+
+  it('refuses an unverified email', async () => {
+    await expect(signIn({ email: 'rajesh.kumar@example.gov.in' })).rejects.toThrow(AuthError);
+    await expect(signIn({ email: 'rajesh.kumar@example.gov.in', email_verified: 'true' })).rejects.toThrow(/not verified/);
+  });
+
+  it('never matches an officer ID', async () => {
+    await expect(signIn({ email: 'AO-1001', email_verified: true })).rejects.toThrow(/No active officer/);
+  });
+});
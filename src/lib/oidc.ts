@@ -0,0 +1,182 @@
+// OIDC sign-in
+// Authorization code flow with PKCE against the issuer configured in
+// OIDC_ISSUER. The ID token comes straight from the token endpoint over TLS
+// with our client secret, so its claims are checked (issuer, audience,
+// expiry, nonce) without verifying the signature (OIDC Core 3.1.3.7).
+//
+// The identity is mapped to an active officer by the email address in the
+// configured claim (email by default), and only if the provider has verified
+// it (email_verified); an identity with no matching officer cannot sign in.
+//
+// Server-side only.
+
+import crypto from 'crypto';
+import { AuthError, createSession, signValue, verifyValue, type Session } from '@/lib/auth';
+import { getConfig, type OidcConfig } from '@/lib/config';
+import { findOfficerByEmail } from '@/lib/officers';
+
+export const OIDC_STATE_COOKIE = 'janavlokan_oidc';
+
+// Time allowed between leaving for the identity provider and returning
+export const OIDC_STATE_TTL_MS = 10 * 60_000;
+
+const PROVIDER_TIMEOUT_MS = 10_000;
+
+interface ProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+}
+
+// Kept in a signed cookie for the callback
+interface LoginState {
+  state: string;
+  nonce: string;
+  code_verifier: string;
+  redirect_uri: string;
+  next: string;
+  expires_at: number;
+}
+
+let cachedMetadata: { issuer: string; metadata: ProviderMetadata } | null = null;
+
+function requireOidc(): OidcConfig {
+  const { oidc } = getConfig().auth;
+  if (!oidc) throw new AuthError('OIDC sign-in is not configured');
+  return oidc;
+}
+
+async function getProviderMetadata(oidc: OidcConfig): Promise<ProviderMetadata> {
+  if (cachedMetadata?.issuer === oidc.issuer) return cachedMetadata.metadata;
+
+  const res = await fetch(`${oidc.issuer}/.well-known/openid-configuration`, {
+    signal: AbortSignal.timeout(PROVIDER_TIMEOUT_MS),
+  });
+  if (!res.ok) throw new Error(`OIDC discovery failed: HTTP ${res.status}`);
+
+  const metadata = (await res.json()) as ProviderMetadata;
+  if (metadata.issuer?.replace(/\/+$/, '') !== oidc.issuer) {
+    throw new Error(`OIDC discovery returned issuer '${metadata.issuer}', expected '${oidc.issuer}'`);
+  }
+  if (!metadata.authorization_endpoint || !metadata.token_endpoint) {
+    throw new Error('OIDC discovery document lacks authorization or token endpoint');
+  }
+  cachedMetadata = { issuer: oidc.issuer, metadata };
+  return metadata;
+}
+
+function randomToken(): string {
+  return crypto.randomBytes(32).toString('base64url');
+}
+
+/**
+ * Start a sign-in: the URL to send the browser to and the signed state cookie
+ * value to set alongside the redirect
+ * @param origin - Origin of this app, used when OIDC_REDIRECT_URI is unset
+ * @param next - App path to return to after signing in
+ */
+export async function beginOidcLogin(origin: string, next: string): Promise<{ url: string; stateCookie: string }> {
+  const oidc = requireOidc();
+  const metadata = await getProviderMetadata(oidc);
+
+  const loginState: LoginState = {
+    state: randomToken(),
+    nonce: randomToken(),
+    code_verifier: randomToken(),
+    redirect_uri: oidc.redirectUri || `${origin}/api/auth/oidc/callback`,
+    next,
+    expires_at: Date.now() + OIDC_STATE_TTL_MS,
+  };
+
+  const url = new URL(metadata.authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: 'code',
+    client_id: oidc.clientId,
+    redirect_uri: loginState.redirect_uri,
+    scope: oidc.scopes,
+    state: loginState.state,
+    nonce: loginState.nonce,
+    code_challenge: crypto.createHash('sha256').update(loginState.code_verifier).digest('base64url'),
+    code_challenge_method: 'S256',
+  }).toString();
+
+  return { url: url.toString(), stateCookie: signValue(loginState) };
+}
+
+function decodeIdToken(idToken: string): Record<string, unknown> {
+  const payload = idToken.split('.')[1];
+  if (!payload) throw new AuthError('Identity provider returned a malformed ID token');
+  try {
+    return JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+  } catch {
+    throw new AuthError('Identity provider returned a malformed ID token');
+  }
+}
+
+/**
+ * Finish a sign-in from the provider's callback
+ * @param params - Query parameters of the callback request
+ * @param stateCookie - Value of OIDC_STATE_COOKIE
+ * @returns Session for the matching officer, and the path to return to
+ * @throws AuthError if the response is invalid or matches no active officer
+ */
+export async function completeOidcLogin(
+  params: URLSearchParams,
+  stateCookie: string | undefined
+): Promise<{ session: Session; next: string }> {
+  const oidc = requireOidc();
+  const loginState = verifyValue<LoginState>(stateCookie);
+
+  if (params.get('error')) {
+    throw new AuthError(`Identity provider refused sign-in: ${params.get('error_description') || params.get('error')}`);
+  }
+  if (!loginState || loginState.expires_at < Date.now()) {
+    throw new AuthError('Sign-in expired - please try again');
+  }
+  if (params.get('state') !== loginState.state) {
+    throw new AuthError('Sign-in state mismatch - please try again');
+  }
+  const code = params.get('code');
+  if (!code) throw new AuthError('Identity provider returned no authorization code');
+
+  const metadata = await getProviderMetadata(oidc);
+  const res = await fetch(metadata.token_endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+    body: new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: loginState.redirect_uri,
+      client_id: oidc.clientId,
+      client_secret: oidc.clientSecret,
+      code_verifier: loginState.code_verifier,
+    }),
+    signal: AbortSignal.timeout(PROVIDER_TIMEOUT_MS),
+  });
+  const tokens = await res.json().catch(() => ({}));
+  if (!res.ok || typeof tokens.id_token !== 'string') {
+    throw new AuthError(`Token exchange failed: ${tokens.error_description || tokens.error || `HTTP ${res.status}`}`);
+  }
+
+  const claims = decodeIdToken(tokens.id_token);
+  const audience = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (String(claims.iss).replace(/\/+$/, '') !== oidc.issuer) throw new AuthError('ID token issuer mismatch');
+  if (!audience.includes(oidc.clientId)) throw new AuthError('ID token audience mismatch');
+  if (typeof claims.exp !== 'number' || claims.exp * 1000 < Date.now()) throw new AuthError('ID token expired');
+  if (claims.nonce !== loginState.nonce) throw new AuthError('ID token nonce mismatch');
+
+  const email = claims[oidc.officerClaim];
+  if (typeof email !== 'string' || !email) {
+    throw new AuthError(`ID token has no '${oidc.officerClaim}' claim`);
+  }
+  // Anyone can put an officer's address on an unverified account
+  if (claims.email_verified !== true) {
+    throw new AuthError(`The identity provider has not verified ${email}`);
+  }
+  const officer = await findOfficerByEmail(email);
+  if (!officer || !officer.active) {
+    throw new AuthError(`No active officer is registered for ${email}`);
+  }
+
+  return { session: createSession(officer, 'oidc'), next: loginState.next };
+}
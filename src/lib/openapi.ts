@@ -0,0 +1,989 @@
+// OpenAPI document
+// Describes every route under src/app/api as OpenAPI 3.1. Parameters and
+// request bodies are generated from the zod request schemas the routes parse
+// with (lib/schemas.ts); payloads from the response schemas below, each
+// checked against the TypeScript type the route returns so the two cannot
+// drift. The same schemas validate live responses in the contract check
+// (lib/contract.ts).
+//
+// Served at /api/openapi.json and browsed on the /api-reference page.
+//
+// Server-side only.
+
+import type { AccessRecord } from '@/lib/access';
+import type { AlertRecord } from '@/lib/alerts';
+import { ERROR_STATUS, type ApiFailure, type Pagination, type ResponseMeta } from '@/lib/api';
+import type { AuditAction, AuditEntry, ChainBreak, ChainHead } from '@/lib/audit';
+import { SESSION_COOKIE, type SessionInfo } from '@/lib/auth';
+import type {
+  AlertCandidate,
+  AlertDeliveryReport,
+  AlertRetryRun,
+  AlertRuleDetail,
+  AlertRuleEngineReport,
+  AlertSent,
+  AssignmentReport,
+  AuditExport,
+  AuditRecordResult,
+  AuditVerification,
+  AuthProviders,
+  BatchJobStatus,
+  BatchRefreshResult,
+  BeneficiaryDetail,
+  BeneficiarySearchResult,
+  CaseList,
+  CaseTransitionResult,
+  DashboardSummary,
+  DistrictRisk,
+  ExportRow,
+  HighRiskBeneficiary,
+  MigrationReport,
+  OfficerQueue,
+  OutboxReplay,
+  QueueCase,
+  Reidentification,
+  ReidentifiedRow,
+  RiskDistribution,
+  RosterOfficer,
+  SchemeInfo,
+  SchemeList,
+  SessionState,
+  SlaReport,
+  SlaRun,
+  SpikeContribution,
+  TemporalSpike,
+  TimeSeriesDataPoint,
+} from '@/lib/bigquery';
+import type { CaseDetail, CaseSummary } from '@/lib/cases';
+import type { ContractReport } from '@/lib/contract';
+import type { Jurisdiction } from '@/lib/jurisdiction';
+import type { AppliedMigration } from '@/lib/migrations';
+import type { Officer } from '@/lib/officers';
+import type { OutboxStatus, ReplayResult } from '@/lib/outbox';
+import { PERMISSIONS, isPublicRoute, routePermission } from '@/lib/rbac';
+import type { AlertRule, AlertRuleResult, AlertRuleRun } from '@/lib/rules';
+import {
+  ACCESS_OUTCOMES,
+  ALERT_KINDS,
+  ASSIGNMENT_STRATEGIES,
+  CASE_ACTIONS,
+  CASE_STATES,
+  DELIVERY_STATUSES,
+  ROLES,
+  SCHEME_IDS,
+  accessLogQuery,
+  alertBody,
+  alertListQuery,
+  alertRuleBody,
+  alertRuleQuery,
+  assignBody,
+  auditEntryBody,
+  auditExportQuery,
+  auditTrailQuery,
+  auditVerifyQuery,
+  batchJobQuery,
+  batchRefreshBody,
+  beneficiaryDetailQuery,
+  caseTransitionBody,
+  casesQuery,
+  highRiskQuery,
+  loginBody,
+  officerBody,
+  reidentifyBody,
+  schemeQuery,
+  searchQuery,
+  temporalSpikesQuery,
+  timeSeriesQuery,
+  type AlertTrigger,
+} from '@/lib/schemas';
+import type { OverdueCase, SlaCheckResult, SlaCheckerStatus } from '@/lib/sla';
+import { z } from 'zod';
+
+type JsonSchema = Record<string, unknown>;
+
+// Named schemas, emitted under components.schemas and referenced by $ref
+const components = z.registry<{ id: string }>();
+
+function named<T extends z.ZodType>(id: string, schema: T): T {
+  components.add(schema, { id });
+  return schema;
+}
+
+// ============================================
+// Building blocks
+// ============================================
+
+const nullableString = z.string().nullable();
+const schemeId = z.enum(SCHEME_IDS);
+const caseState = z.enum(CASE_STATES);
+const caseResolution = z.enum(['CONFIRMED', 'CLEARED']);
+const writeOutcome = z.enum(['warehouse', 'outbox']);
+const mailTransport = z.enum(['smtp', 'file']);
+const flagValues = z.record(z.string(), z.boolean());
+
+// Null where the count is below disclosure.minCount (see lib/disclosure.ts)
+const count = z.number().nullable();
+
+const AUDIT_ACTIONS = [...CASE_ACTIONS, 'REVIEWED', 'FLAGGED', 'EXPORTED', 'SLA_BREACHED'] as const;
+const auditAction = z.enum(AUDIT_ACTIONS) satisfies z.ZodType<AuditAction>;
+
+// ============================================
+// Envelope
+// ============================================
+
+const pagination = named('Pagination', z.strictObject({
+  limit: z.number(),
+  total_count: z.number().optional(),
+  sort: z.string().optional(),
+  next_cursor: nullableString.optional(),
+  has_more: z.boolean().optional(),
+}) satisfies z.ZodType<Pagination>);
+
+const responseMeta = named('ResponseMeta', z.strictObject({
+  generated_at: z.string(),
+  query_ms: z.number(),
+  scheme: schemeId.optional(),
+  data_freshness: nullableString.optional(),
+  pagination: pagination.optional(),
+}) satisfies z.ZodType<ResponseMeta>);
+
+const apiFailure = named('ApiFailure', z.strictObject({
+  success: z.literal(false),
+  error: z.string(),
+  code: z.enum(Object.keys(ERROR_STATUS) as [keyof typeof ERROR_STATUS, ...(keyof typeof ERROR_STATUS)[]]),
+  fields: z.array(z.strictObject({ field: z.string(), code: z.string(), message: z.string() })).optional(),
+  state: caseState.optional(),
+}) satisfies z.ZodType<ApiFailure>);
+
+function envelope(data: z.ZodType) {
+  return z.strictObject({ success: z.literal(true), data, meta: responseMeta });
+}
+
+// ============================================
+// Payloads
+// ============================================
+
+const dashboardSummary = named('DashboardSummary', z.strictObject({
+  total_beneficiaries: count,
+  high_risk: count,
+  medium_risk: count,
+  low_risk: count,
+  overdue_cases: count,
+  min_count: z.number(),
+  suppressed: z.boolean(),
+}) satisfies z.ZodType<DashboardSummary>);
+
+const riskDistribution = named('RiskDistribution', z.strictObject({
+  risk_level: z.string(),
+  count,
+  suppressed: z.boolean(),
+}) satisfies z.ZodType<RiskDistribution>);
+
+const highRiskBeneficiary = named('HighRiskBeneficiary', z.strictObject({
+  beneficiary_id: z.string(),
+  risk_level: z.string(),
+  mean_squared_error: z.number(),
+  flags: flagValues,
+  flag_severity: z.number(),
+  residence_district: z.string(),
+}) satisfies z.ZodType<HighRiskBeneficiary>);
+
+const beneficiarySearchResult = named('BeneficiarySearchResult', z.strictObject({
+  beneficiary_id: z.string(),
+  residence_district: z.string(),
+  risk_level: z.string(),
+  mean_squared_error: z.number().nullable(),
+  exact_match: z.boolean(),
+}) satisfies z.ZodType<BeneficiarySearchResult>);
+
+const beneficiaryDetail = named('BeneficiaryDetail', z.strictObject({
+  beneficiary_id: z.string(),
+  scheme: schemeId,
+  risk_level: z.string(),
+  mean_squared_error: z.number(),
+  flags: flagValues,
+  flag_severity: z.number(),
+  reasons: z.array(z.string()),
+  gemini_explanation: z.string().optional(),
+}) satisfies z.ZodType<BeneficiaryDetail>);
+
+const districtRisk = named('DistrictRisk', z.strictObject({
+  residence_district: z.string(),
+  anomaly_count: count,
+  suppressed: z.boolean(),
+}) satisfies z.ZodType<DistrictRisk>);
+
+const timeSeriesDataPoint = named('TimeSeriesDataPoint', z.strictObject({
+  date: z.string(),
+  high_risk_count: count,
+  medium_risk_count: count,
+  low_risk_count: count,
+  total_anomalies: count,
+  suppressed: z.boolean(),
+}) satisfies z.ZodType<TimeSeriesDataPoint>);
+
+const spikeContribution = named('SpikeContribution', z.strictObject({
+  district: z.string(),
+  anomaly_count: count,
+  avg_baseline: z.number().nullable(),
+  excess: z.number().nullable(),
+  z_score: z.number().nullable(),
+  suppressed: z.boolean(),
+}) satisfies z.ZodType<SpikeContribution>);
+
+const temporalSpike = named('TemporalSpike', z.strictObject({
+  date: z.string(),
+  scope: z.enum(['STATE', 'DISTRICT']),
+  district: nullableString,
+  spike_type: z.enum(['CRITICAL', 'HIGH', 'MODERATE']),
+  anomaly_count: z.number(),
+  avg_baseline: z.number(),
+  baseline_stddev: z.number(),
+  z_score: z.number(),
+  deviation_percentage: z.number(),
+  baseline_window: z.strictObject({ from: z.string(), to: z.string(), days: z.number() }),
+  affected_districts: z.array(z.string()),
+  contributions: z.array(spikeContribution),
+}) satisfies z.ZodType<TemporalSpike>);
+
+const alertCandidate = named('AlertCandidate', z.strictObject({
+  beneficiary_id: z.string(),
+  risk_score: z.number(),
+}) satisfies z.ZodType<AlertCandidate>);
+
+const alertRecord = named('AlertRecord', z.strictObject({
+  alert_id: z.string(),
+  kind: z.enum(ALERT_KINDS),
+  scheme: schemeId,
+  beneficiary_id: nullableString,
+  risk_score: z.number().nullable(),
+  rule_id: nullableString,
+  officer_id: nullableString,
+  view_count: z.number().nullable(),
+  reason: z.string(),
+  recipient: z.string(),
+  delivery_status: z.enum(DELIVERY_STATUSES),
+  transport: mailTransport.nullable(),
+  delivery_attempts: z.number(),
+  delivered_at: nullableString,
+  delivery_error: nullableString,
+  message_id: nullableString,
+  created_at: z.string(),
+}) satisfies z.ZodType<AlertRecord>);
+
+const alertSent = named('AlertSent', z.strictObject({
+  message: z.string(),
+  alert: alertRecord,
+}) satisfies z.ZodType<AlertSent>);
+
+const alertDeliveryReport = named('AlertDeliveryReport', z.strictObject({
+  transport: mailTransport,
+  pending: z.number(),
+  alerts: z.array(alertRecord),
+}) satisfies z.ZodType<AlertDeliveryReport>);
+
+const alertRetryRun = named('AlertRetryRun', z.strictObject({
+  transport: mailTransport,
+  attempted: z.number(),
+  sent: z.number(),
+  queued: z.number(),
+  failed: z.number(),
+  pending: z.number(),
+}) satisfies z.ZodType<AlertRetryRun>);
+
+const alertTrigger = named('AlertTrigger', z.discriminatedUnion('type', [
+  z.strictObject({ type: z.literal('new_high_risk') }),
+  z.strictObject({ type: z.literal('dealer_flag'), flag: z.string(), more_than: z.number() }),
+  z.strictObject({ type: z.literal('district_spike'), sigma: z.number() }),
+  z.strictObject({ type: z.literal('sla_overdue') }),
+]) satisfies z.ZodType<AlertTrigger>);
+
+const alertRule = named('AlertRule', z.strictObject({
+  rule_id: z.string(),
+  name: z.string(),
+  scheme: schemeId,
+  trigger: alertTrigger,
+  districts: z.array(z.string()),
+  subscribers: z.array(z.string()),
+  owner_id: z.string(),
+  enabled: z.boolean(),
+  created_at: z.string(),
+  updated_at: z.string(),
+  last_evaluated_at: nullableString,
+  last_error: nullableString,
+}) satisfies z.ZodType<AlertRule>);
+
+const alertRuleDetail = named('AlertRuleDetail', z.strictObject({
+  rule: alertRule,
+  alerts: z.array(alertRecord),
+}) satisfies z.ZodType<AlertRuleDetail>);
+
+const alertRuleRun = named('AlertRuleRun', z.strictObject({
+  scheme: schemeId,
+  cause: z.string(),
+  started_at: z.string(),
+  finished_at: z.string(),
+  results: z.array(z.strictObject({
+    rule_id: z.string(),
+    name: z.string(),
+    matches: z.number(),
+    alerted: z.number(),
+    deferred: z.number(),
+    failed: z.number(),
+    error: nullableString,
+  }) satisfies z.ZodType<AlertRuleResult>),
+}) satisfies z.ZodType<AlertRuleRun>);
+
+const alertRuleEngineReport = named('AlertRuleEngineReport', z.strictObject({
+  enabled_rules: z.number(),
+  runs: z.array(alertRuleRun),
+}) satisfies z.ZodType<AlertRuleEngineReport>);
+
+const chainHead = named('ChainHead', z.strictObject({
+  chain_seq: z.number(),
+  entry_hash: z.string(),
+  created_at: z.string(),
+}) satisfies z.ZodType<ChainHead>);
+
+const exportRow = named('ExportRow', z.strictObject({
+  pseudonym: z.string().optional(),
+  beneficiary_id: z.string().optional(),
+  risk_level: z.string(),
+  mean_squared_error: z.number(),
+  flags: flagValues,
+  flag_severity: z.number(),
+  residence_district: z.string().optional(),
+}) satisfies z.ZodType<ExportRow>);
+
+const auditExport = named('AuditExport', z.strictObject({
+  export_id: nullableString,
+  identifiers: z.enum(['pseudonym', 'beneficiary_id']),
+  filters: z.strictObject({ risk_level: nullableString, district: nullableString }),
+  jurisdiction: z.union([z.literal('statewide'), z.array(z.string())]),
+  audit_chain_head: chainHead.nullable(),
+  records: z.array(exportRow),
+}) satisfies z.ZodType<AuditExport>);
+
+const reidentifiedRow = named('ReidentifiedRow', z.strictObject({
+  pseudonym: z.string(),
+  beneficiary_id: nullableString,
+  error: nullableString,
+}) satisfies z.ZodType<ReidentifiedRow>);
+
+const reidentification = named('Reidentification', z.strictObject({
+  export_id: z.string(),
+  exported_at: z.string(),
+  exported_by: z.string(),
+  results: z.array(reidentifiedRow),
+}) satisfies z.ZodType<Reidentification>);
+
+const officerFields = {
+  officer_id: z.string(),
+  officer_name: z.string(),
+  email: nullableString,
+  districts: z.array(z.string()),
+  statewide: z.boolean(),
+  role: z.enum(ROLES),
+  active: z.boolean(),
+  created_at: z.string(),
+  updated_at: z.string(),
+};
+
+const officer = named('Officer', z.strictObject(officerFields) satisfies z.ZodType<Officer>);
+
+const rosterOfficer = named('RosterOfficer', z.strictObject({
+  ...officerFields,
+  assignable: z.boolean(),
+  open_cases: z.number(),
+  last_assigned_at: nullableString,
+}) satisfies z.ZodType<RosterOfficer>);
+
+const caseFields = {
+  beneficiary_id: z.string(),
+  scheme: schemeId,
+  state: caseState,
+  resolution: caseResolution.nullable(),
+  opened_at: nullableString,
+  updated_at: nullableString,
+  last_action: auditAction.nullable(),
+  last_officer: nullableString,
+  assignee_id: nullableString,
+  assigned_at: nullableString,
+  entries: z.number(),
+};
+
+const caseSummary = named('CaseSummary', z.strictObject(caseFields) satisfies z.ZodType<CaseSummary>);
+
+const queueCase = named('QueueCase', z.strictObject({
+  ...caseFields,
+  risk_level: nullableString,
+  mean_squared_error: z.number().nullable(),
+  residence_district: nullableString,
+}) satisfies z.ZodType<QueueCase>);
+
+const officerQueue = named('OfficerQueue', z.strictObject({
+  officer,
+  cases: z.array(queueCase),
+}) satisfies z.ZodType<OfficerQueue>);
+
+const schemeInfo = named('SchemeInfo', z.strictObject({
+  id: schemeId,
+  name: z.string(),
+  short_name: z.string(),
+  flags: z.array(z.strictObject({ id: z.string(), label: z.string(), weight: z.number() })),
+}) satisfies z.ZodType<SchemeInfo>);
+
+const schemeList = named('SchemeList', z.strictObject({
+  default_scheme: schemeId,
+  schemes: z.array(schemeInfo),
+}) satisfies z.ZodType<SchemeList>);
+
+const batchJobStatus = named('BatchJobStatus', z.strictObject({
+  job_id: z.string(),
+  scheme: schemeId,
+  job_type: z.string(),
+  status: z.enum(['QUEUED', 'RUNNING', 'COMPLETED', 'FAILED']),
+  started_at: z.string(),
+  completed_at: z.string().optional(),
+  records_processed: z.number().optional(),
+  error_message: z.string().optional(),
+}) satisfies z.ZodType<BatchJobStatus>);
+
+const batchRefreshResult = named('BatchRefreshResult', z.strictObject({
+  message: z.string(),
+  job: batchJobStatus,
+  summary: z.strictObject({
+    total_processed: count,
+    high_risk: count,
+    medium_risk: count,
+    low_risk: count,
+    min_count: z.number(),
+    last_updated: z.string(),
+  }),
+  note: z.string(),
+}) satisfies z.ZodType<BatchRefreshResult>);
+
+const auditEntry = named('AuditEntry', z.strictObject({
+  audit_id: z.string(),
+  beneficiary_id: z.string(),
+  scheme: schemeId,
+  action: auditAction,
+  officer_id: z.string(),
+  officer_name: z.string(),
+  notes: z.string(),
+  previous_status: z.string(),
+  new_status: z.string(),
+  assignee_id: z.string().optional(),
+  created_at: z.string(),
+  chain_seq: z.number().optional(),
+  prev_hash: z.string().optional(),
+  entry_hash: z.string().optional(),
+  legacy_entries: z.number().optional(),
+}) satisfies z.ZodType<AuditEntry>);
+
+const caseDetail = named('CaseDetail', z.strictObject({
+  ...caseFields,
+  allowed_actions: z.array(z.enum(CASE_ACTIONS)),
+  history: z.array(auditEntry),
+}) satisfies z.ZodType<CaseDetail>);
+
+const caseList = named('CaseList', z.strictObject({
+  cases: z.array(caseSummary),
+  counts: z.record(caseState, z.number()),
+}) satisfies z.ZodType<CaseList>);
+
+const transitionFields = {
+  case: caseDetail,
+  audit: auditEntry,
+  persisted: writeOutcome,
+};
+
+const caseTransitionResult = named(
+  'CaseTransitionResult',
+  z.strictObject(transitionFields) satisfies z.ZodType<CaseTransitionResult>
+);
+
+const auditRecordResult = named('AuditRecordResult', z.strictObject({
+  ...transitionFields,
+  message: z.string(),
+}) satisfies z.ZodType<AuditRecordResult>);
+
+const assignmentReport = named('AssignmentReport', z.strictObject({
+  strategy: z.enum(ASSIGNMENT_STRATEGIES),
+  assigned: z.number(),
+  results: z.array(z.strictObject({
+    beneficiary_id: z.string(),
+    district: nullableString,
+    assigned: z.boolean(),
+    officer_id: nullableString,
+    officer_name: nullableString,
+    persisted: writeOutcome.nullable(),
+    error: nullableString,
+  })),
+}) satisfies z.ZodType<AssignmentReport>);
+
+const chainBreak = named('ChainBreak', z.strictObject({
+  kind: z.enum(['content', 'link', 'gap', 'duplicate', 'unchained']),
+  chain_seq: z.number().nullable(),
+  audit_id: z.string(),
+  message: z.string(),
+}) satisfies z.ZodType<ChainBreak>);
+
+const auditVerification = named('AuditVerification', z.strictObject({
+  verified_at: z.string(),
+  valid: z.boolean(),
+  entries: z.number(),
+  legacy_entries: z.number(),
+  pending_entries: z.number(),
+  head: chainHead.nullable(),
+  expected_head_found: z.boolean().nullable(),
+  break_count: z.number(),
+  breaks: z.array(chainBreak),
+}) satisfies z.ZodType<AuditVerification>);
+
+const authProviders = named('AuthProviders', z.strictObject({
+  local: z.boolean(),
+  oidc: z.strictObject({ name: z.string() }).nullable(),
+}) satisfies z.ZodType<AuthProviders>);
+
+const sessionInfo = named('SessionInfo', z.strictObject({
+  officer_id: z.string(),
+  officer_name: z.string(),
+  role: z.enum(ROLES),
+  permissions: z.array(z.enum(PERMISSIONS)),
+  provider: z.enum(['local', 'oidc']),
+  issued_at: z.string(),
+  expires_at: z.string(),
+}) satisfies z.ZodType<SessionInfo>);
+
+const jurisdiction = named('Jurisdiction', z.strictObject({
+  statewide: z.boolean(),
+  districts: z.array(z.string()),
+}) satisfies z.ZodType<Jurisdiction>);
+
+const sessionState = named('SessionState', z.strictObject({
+  session: sessionInfo,
+  jurisdiction: jurisdiction.nullable(),
+}) satisfies z.ZodType<SessionState>);
+
+const loginResult = named('LoginResult', z.strictObject({ session: sessionInfo }));
+
+const overdueCase = named('OverdueCase', z.strictObject({
+  beneficiary_id: z.string(),
+  risk_level: z.enum(['HIGH', 'MEDIUM']),
+  risk_score: z.number(),
+  state: caseState,
+  flagged_at: z.string(),
+  due_at: z.string(),
+  breached_at: nullableString,
+}) satisfies z.ZodType<OverdueCase>);
+
+const slaCheckResult = named('SlaCheckResult', z.strictObject({
+  scheme: z.string(),
+  overdue: z.number(),
+  escalated: z.number(),
+  failed: z.number(),
+}) satisfies z.ZodType<SlaCheckResult>);
+
+const slaCheckerStatus = named('SlaCheckerStatus', z.strictObject({
+  enabled: z.boolean(),
+  interval_ms: z.number(),
+  review_days: z.strictObject({ HIGH: z.number(), MEDIUM: z.number() }),
+  last_run_at: nullableString,
+  last_error: nullableString,
+  last_results: z.array(slaCheckResult),
+}) satisfies z.ZodType<SlaCheckerStatus>);
+
+const slaReport = named('SlaReport', z.strictObject({
+  checker: slaCheckerStatus,
+  overdue: z.array(overdueCase),
+}) satisfies z.ZodType<SlaReport>);
+
+const slaRun = named('SlaRun', z.strictObject({
+  results: z.array(slaCheckResult),
+  checker: slaCheckerStatus,
+}) satisfies z.ZodType<SlaRun>);
+
+const outboxFields = {
+  backlog: z.number(),
+  oldest_enqueued_at: nullableString,
+  by_table: z.record(z.string(), z.number()),
+  last_error: nullableString,
+  last_replay_at: nullableString,
+  next_retry_at: nullableString,
+};
+
+const outboxStatus = named('OutboxStatus', z.strictObject(outboxFields) satisfies z.ZodType<OutboxStatus>);
+
+const outboxReplay = named('OutboxReplay', z.strictObject({
+  ...outboxFields,
+  replay: z.strictObject({
+    delivered: z.number(),
+    failed: z.number(),
+    skipped: z.number(),
+    backlog: z.number(),
+  }) satisfies z.ZodType<ReplayResult>,
+}) satisfies z.ZodType<OutboxReplay>);
+
+const migrationReport = named('MigrationReport', z.strictObject({
+  backend: z.enum(['bigquery', 'local']),
+  auto_apply: z.boolean().optional(),
+  applied: z.number().optional(),
+  current_version: z.number(),
+  latest_version: z.number(),
+  pending: z.number(),
+  migrations: z.array(z.strictObject({
+    version: z.number(),
+    name: z.string(),
+    applied_at: nullableString,
+  }) satisfies z.ZodType<AppliedMigration>),
+}) satisfies z.ZodType<MigrationReport>);
+
+const accessRecord = named('AccessRecord', z.strictObject({
+  log_id: z.string(),
+  officer_id: z.string(),
+  officer_name: z.string(),
+  role: z.string(),
+  method: z.string(),
+  path: z.string(),
+  permission: nullableString,
+  outcome: z.enum(ACCESS_OUTCOMES),
+  reason: z.string(),
+  scheme: nullableString,
+  beneficiary_ids: z.array(z.string()),
+  record_count: z.number().nullable(),
+  created_at: z.string(),
+}) satisfies z.ZodType<AccessRecord>);
+
+const contractResult = z.strictObject({
+  method: z.string(),
+  path: z.string(),
+  url: z.string(),
+  status: z.number(),
+  valid: z.boolean(),
+  issues: z.array(z.string()),
+});
+
+const contractReport = named('ContractReport', z.strictObject({
+  checked_at: z.string(),
+  passed: z.number(),
+  failed: z.number(),
+  results: z.array(contractResult),
+  skipped: z.array(z.strictObject({ method: z.string(), path: z.string(), reason: z.string() })),
+}) satisfies z.ZodType<ContractReport>);
+
+// ============================================
+// Operations
+// ============================================
+
+export interface ApiOperation {
+  method: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  path: string;                 // OpenAPI template, e.g. /api/cases/{beneficiary_id}
+  tag: string;
+  summary: string;
+  description?: string;
+  query?: z.ZodObject;
+  body?: z.ZodType;
+  data?: z.ZodType;             // Payload of the success envelope
+  success?: number[];           // Success statuses (default 200)
+  format?: 'redirect' | 'document' | 'csv';   // Answers that are not (only) the JSON envelope
+  sideEffects?: string;         // What a GET writes or logs - contract checks do not call it
+}
+
+const FLAG_FILTERS = 'Also accepts `flag_<id>=true|false` for each rule flag of the scheme (see `GET /api/schemes`).';
+
+export const API_OPERATIONS: ApiOperation[] = [
+  // Sign-in
+  { method: 'GET', path: '/api/auth/providers', tag: 'Auth', summary: 'Sign-in methods offered on the login page', data: authProviders },
+  { method: 'POST', path: '/api/auth/login', tag: 'Auth', summary: 'Sign in with officer ID and password; sets the session cookie', body: loginBody, data: loginResult },
+  { method: 'POST', path: '/api/auth/logout', tag: 'Auth', summary: 'Sign out (clears the session cookie)', data: z.null() },
+  { method: 'GET', path: '/api/auth/session', tag: 'Auth', summary: 'Signed-in officer and their jurisdiction', data: sessionState },
+  { method: 'GET', path: '/api/auth/oidc/login', tag: 'Auth', summary: 'Redirect to the single sign-on provider', format: 'redirect' },
+  { method: 'GET', path: '/api/auth/oidc/callback', tag: 'Auth', summary: 'Single sign-on return; sets the session cookie and redirects', format: 'redirect' },
+
+  // Schemes & dashboard
+  { method: 'GET', path: '/api/schemes', tag: 'Schemes', summary: 'Enabled welfare schemes and their rule flags', data: schemeList },
+  { method: 'GET', path: '/api/dashboard/summary', tag: 'Dashboard', summary: 'Beneficiary counts by risk level and overdue cases', query: schemeQuery, data: dashboardSummary },
+  { method: 'GET', path: '/api/dashboard/distribution', tag: 'Dashboard', summary: 'Beneficiary counts per risk level', query: schemeQuery, data: z.array(riskDistribution) },
+  { method: 'GET', path: '/api/geo/district-risk', tag: 'Dashboard', summary: 'High-risk beneficiaries per district (heatmap)', query: schemeQuery, data: z.array(districtRisk) },
+
+  // Beneficiaries
+  {
+    method: 'GET', path: '/api/beneficiaries/high-risk', tag: 'Beneficiaries', summary: 'Filtered, sorted and paged list of scored beneficiaries',
+    description: `Keyset paged: pass \`meta.pagination.next_cursor\` as \`cursor\` for the next page. ${FLAG_FILTERS}`,
+    query: highRiskQuery, data: z.array(highRiskBeneficiary),
+  },
+  {
+    method: 'GET', path: '/api/beneficiaries/search', tag: 'Beneficiaries', summary: 'Look up beneficiaries by ID prefix, district or flags',
+    description: FLAG_FILTERS, query: searchQuery, data: z.array(beneficiarySearchResult),
+    sideEffects: 'Logs the records returned (SEARCHED)',
+  },
+  {
+    method: 'GET', path: '/api/beneficiaries/{beneficiary_id}', tag: 'Beneficiaries', summary: 'Risk profile with the reasons behind it',
+    query: beneficiaryDetailQuery, data: beneficiaryDetail,
+    sideEffects: 'Logs a record view (VIEWED), which counts towards the view-volume alert',
+  },
+
+  // Analytics
+  { method: 'GET', path: '/api/analytics/time-series', tag: 'Analytics', summary: 'Anomalies per day, week or month', query: timeSeriesQuery, data: z.array(timeSeriesDataPoint) },
+  { method: 'GET', path: '/api/analytics/temporal-spikes', tag: 'Analytics', summary: 'Days with anomaly counts well above their baseline', query: temporalSpikesQuery, data: z.array(temporalSpike) },
+
+  // Cases
+  { method: 'GET', path: '/api/cases', tag: 'Cases', summary: 'Cases with their lifecycle state, and counts per state', query: casesQuery, data: caseList },
+  { method: 'GET', path: '/api/cases/{beneficiary_id}', tag: 'Cases', summary: 'Case state, allowed actions and history', query: schemeQuery, data: caseDetail },
+  {
+    method: 'POST', path: '/api/cases/{beneficiary_id}', tag: 'Cases', summary: 'Apply a lifecycle action to a case',
+    description: '`409 CONFLICT` (with `state`) if the action is not allowed in the current state; `202` if the write was queued in the outbox.',
+    body: caseTransitionBody, data: caseTransitionResult, success: [200, 202],
+  },
+  { method: 'POST', path: '/api/cases/assign', tag: 'Cases', summary: 'Assign cases manually or by workload', body: assignBody, data: assignmentReport },
+
+  // Audit
+  { method: 'GET', path: '/api/audit', tag: 'Audit', summary: 'Audit trail entries, newest first', query: auditTrailQuery, data: z.array(auditEntry) },
+  { method: 'POST', path: '/api/audit', tag: 'Audit', summary: 'Record a case action (older form of POST /api/cases/{beneficiary_id})', body: auditEntryBody, data: auditRecordResult, success: [200, 202] },
+  { method: 'GET', path: '/api/audit/verify', tag: 'Audit', summary: 'Verify the audit trail hash chain', query: auditVerifyQuery, data: auditVerification },
+  {
+    method: 'GET', path: '/api/audit/export', tag: 'Audit', summary: 'Pseudonymized export of scored beneficiaries',
+    description: '`format=csv` answers with a CSV download instead of the envelope.',
+    query: auditExportQuery, data: auditExport, format: 'csv',
+    sideEffects: 'Stores a pseudonym mapping and logs every exported record (EXPORTED)',
+  },
+  { method: 'POST', path: '/api/audit/export/reidentify', tag: 'Audit', summary: 'Resolve export pseudonyms to beneficiary IDs (logged)', body: reidentifyBody, data: reidentification },
+
+  // Officers
+  { method: 'GET', path: '/api/officers', tag: 'Officers', summary: 'Officer roster with open case counts', data: z.array(rosterOfficer) },
+  { method: 'POST', path: '/api/officers', tag: 'Officers', summary: 'Create or update an officer (201 when created)', body: officerBody, data: officer, success: [200, 201] },
+  { method: 'GET', path: '/api/officers/{officer_id}/queue', tag: 'Officers', summary: 'Open cases assigned to an officer', query: schemeQuery, data: officerQueue },
+
+  // Alerts & batch jobs
+  { method: 'GET', path: '/api/alerts/email', tag: 'Alerts', summary: 'Highest-risk beneficiaries to alert on', query: schemeQuery, data: z.array(alertCandidate) },
+  {
+    method: 'POST', path: '/api/alerts/email', tag: 'Alerts', summary: 'Raise an alert for a beneficiary and email it',
+    description: '`200` when the mail server accepted the email, `202` when it is queued (development mail directory, or a retry ' +
+      'after a transient failure), `502 DELIVERY_FAILED` when it was refused. The alert is recorded in every case.',
+    body: alertBody, data: alertSent, success: [200, 202],
+  },
+  { method: 'GET', path: '/api/alerts/rules', tag: 'Alerts', summary: 'Your alert rules (all rules for state admins)', query: alertRuleQuery, data: z.array(alertRule) },
+  {
+    method: 'POST', path: '/api/alerts/rules', tag: 'Alerts', summary: 'Create an alert rule',
+    description: 'Rules are evaluated after each batch refresh of their scheme; each new match raises one alert, emailed to the ' +
+      'owner and subscribers who cover its district. Matches are limited to what the owner may see.',
+    body: alertRuleBody, data: alertRule, success: [201],
+  },
+  { method: 'GET', path: '/api/alerts/rules/{rule_id}', tag: 'Alerts', summary: 'An alert rule and the alerts it raised', data: alertRuleDetail },
+  {
+    method: 'PUT', path: '/api/alerts/rules/{rule_id}', tag: 'Alerts', summary: 'Replace the settings of an alert rule',
+    description: 'A new scheme or trigger starts the rule afresh - what it matched before may be alerted again.',
+    body: alertRuleBody, data: alertRule,
+  },
+  { method: 'DELETE', path: '/api/alerts/rules/{rule_id}', tag: 'Alerts', summary: 'Delete an alert rule (its alerts are kept)', data: alertRule },
+  {
+    method: 'GET', path: '/api/batch/refresh', tag: 'Batch', summary: 'One batch job (job_id) or the most recent jobs',
+    query: batchJobQuery, data: z.union([batchJobStatus, z.array(batchJobStatus)]),
+  },
+  { method: 'POST', path: '/api/batch/refresh', tag: 'Batch', summary: 'Re-score a scheme', body: batchRefreshBody, data: batchRefreshResult },
+
+  // Administration
+  { method: 'GET', path: '/api/admin/alerts', tag: 'Admin', summary: 'Recent alerts with their email delivery status', query: alertListQuery, data: alertDeliveryReport },
+  { method: 'POST', path: '/api/admin/alerts', tag: 'Admin', summary: 'Retry deferred alert emails now', data: alertRetryRun },
+  { method: 'GET', path: '/api/admin/rules', tag: 'Admin', summary: 'Enabled alert rules and their latest evaluation', data: alertRuleEngineReport },
+  { method: 'POST', path: '/api/admin/rules', tag: 'Admin', summary: 'Evaluate every alert rule now', data: alertRuleEngineReport },
+  { method: 'GET', path: '/api/admin/access-log', tag: 'Admin', summary: 'Query the access log', query: accessLogQuery, data: z.array(accessRecord) },
+  { method: 'GET', path: '/api/admin/migrations', tag: 'Admin', summary: 'Schema migration status', data: migrationReport },
+  { method: 'POST', path: '/api/admin/migrations', tag: 'Admin', summary: 'Apply pending schema migrations', data: migrationReport },
+  { method: 'GET', path: '/api/admin/outbox', tag: 'Admin', summary: 'Audit outbox backlog', data: outboxStatus },
+  { method: 'POST', path: '/api/admin/outbox', tag: 'Admin', summary: 'Replay the audit outbox now', data: outboxReplay },
+  { method: 'GET', path: '/api/admin/sla', tag: 'Admin', summary: 'SLA checker status and overdue cases', query: schemeQuery, data: slaReport },
+  { method: 'POST', path: '/api/admin/sla', tag: 'Admin', summary: 'Run the SLA checker now', data: slaRun },
+  { method: 'GET', path: '/api/admin/contract', tag: 'Admin', summary: 'Check live GET responses against this document', data: contractReport },
+
+  { method: 'GET', path: '/api/openapi.json', tag: 'Docs', summary: 'This document', format: 'document' },
+];
+
+// ============================================
+// Validation of live responses
+// ============================================
+
+const openApiShape = z.looseObject({ openapi: z.string(), paths: z.record(z.string(), z.unknown()) });
+
+/**
+ * Schema a response of the operation must match, by status: the success
+ * envelope for a success status, the failure envelope otherwise
+ */
+export function responseSchema(operation: ApiOperation, status: number): z.ZodType {
+  if (operation.format === 'document' && status === 200) return openApiShape;
+  const success = operation.success ?? [200];
+  if (operation.data && success.includes(status)) return envelope(operation.data);
+  return apiFailure;
+}
+
+// ============================================
+// Document
+// ============================================
+
+let cachedDocument: JsonSchema | null = null;
+
+// components.schemas.<id> for registered schemas, an inline schema otherwise
+function toJsonSchema(schema: z.ZodType, io: 'input' | 'output' = 'output'): JsonSchema {
+  const registered = components.get(schema);
+  if (registered) return { $ref: `#/components/schemas/${registered.id}` };
+
+  const converted = z.toJSONSchema(schema, { metadata: components, io, unrepresentable: 'any' }) as JsonSchema;
+  delete converted.$schema;
+  delete converted.$defs;
+  return JSON.parse(JSON.stringify(converted).replaceAll('"#/$defs/', '"#/components/schemas/'));
+}
+
+// Drops the null branch of `scheme` - null is only meaningful in JSON bodies
+function withoutNull(schema: JsonSchema): JsonSchema {
+  const branches = schema.anyOf as JsonSchema[] | undefined;
+  if (!branches) return schema;
+  const rest = branches.filter((branch) => branch.type !== 'null');
+  return rest.length === 1 ? rest[0] : { ...schema, anyOf: rest };
+}
+
+// Parameters documented with the values they parse to (enums, bounds, defaults);
+// a parameter is required only if it has no default
+function requestShape(schema: z.ZodType): JsonSchema {
+  const output = toJsonSchema(schema, 'output');
+  const input = z.toJSONSchema(schema, { io: 'input', unrepresentable: 'any' }) as JsonSchema;
+  const required = (input.required as string[] | undefined) ?? [];
+  const shape: JsonSchema = { ...output, required };
+  if (required.length === 0) delete shape.required;
+  return shape;
+}
+
+function parameters(operation: ApiOperation): JsonSchema[] {
+  const pathParams = Array.from(operation.path.matchAll(/\{(\w+)\}/g), ([, name]) => ({
+    name,
+    in: 'path',
+    required: true,
+    schema: { type: 'string' },
+  }));
+  if (!operation.query) return pathParams;
+
+  const shape = requestShape(operation.query);
+  const required = new Set((shape.required as string[] | undefined) ?? []);
+  const queryParams = Object.entries((shape.properties ?? {}) as Record<string, JsonSchema>).map(([name, property]) => {
+    const schema = withoutNull(property);
+    return {
+      name,
+      in: 'query',
+      required: required.has(name),
+      schema,
+      // Lists are sent comma-separated in one parameter
+      ...(schema.type === 'array' ? { style: 'form', explode: false } : {}),
+    };
+  });
+  return [...pathParams, ...queryParams];
+}
+
+function responses(operation: ApiOperation): JsonSchema {
+  const failure = { $ref: '#/components/responses/Failure' };
+  switch (operation.format) {
+    case 'redirect':
+      return { 302: { description: 'Redirect (errors are reported on /login)' } };
+    case 'document':
+      return { 200: { description: 'OpenAPI document', content: { 'application/json': { schema: { type: 'object' } } } } };
+  }
+
+  // Same shape as envelope(), written out so data is a $ref rather than inlined
+  const schema = {
+    type: 'object',
+    required: ['success', 'data', 'meta'],
+    additionalProperties: false,
+    properties: {
+      success: { const: true },
+      data: toJsonSchema(operation.data ?? z.null()),
+      meta: { $ref: '#/components/schemas/ResponseMeta' },
+    },
+  };
+
+  const success: JsonSchema = {};
+  for (const status of operation.success ?? [200]) {
+    const content: JsonSchema = { 'application/json': { schema } };
+    if (operation.format === 'csv') content['text/csv'] = { schema: { type: 'string' } };
+    success[status] = { description: status === 202 ? 'Accepted - queued in the audit outbox' : 'Success', content };
+  }
+  return { ...success, default: failure };
+}
+
+// e.g. GET /api/cases/{beneficiary_id} -> getCasesByBeneficiaryId
+function operationId(operation: ApiOperation): string {
+  const words = operation.path
+    .replace(/^\/api\//, '')
+    .replace(/\{(\w+)\}/g, 'by_$1')
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean);
+  return operation.method.toLowerCase() + words.map((word) => word[0].toUpperCase() + word.slice(1)).join('');
+}
+
+function toOperation(operation: ApiOperation): JsonSchema {
+  // Path parameters only need to match the access rule's pattern
+  const concretePath = operation.path.replace(/\{\w+\}/g, 'x');
+  const isPublic = isPublicRoute(concretePath);
+  const permission = isPublic ? null : routePermission(operation.method, concretePath);
+
+  return {
+    tags: [operation.tag],
+    summary: operation.summary,
+    ...(operation.description ? { description: operation.description } : {}),
+    operationId: operationId(operation),
+    ...(isPublic ? { security: [] } : {}),
+    'x-permission': permission,
+    parameters: parameters(operation),
+    ...(operation.body
+      ? { requestBody: { required: true, content: { 'application/json': { schema: requestShape(operation.body) } } } }
+      : {}),
+    responses: responses(operation),
+  };
+}
+
+/**
+ * The OpenAPI 3.1 document for every route (built once)
+ */
+export function getOpenApiDocument(): JsonSchema {
+  if (cachedDocument) return cachedDocument;
+
+  const paths: Record<string, JsonSchema> = {};
+  for (const operation of API_OPERATIONS) {
+    paths[operation.path] = { ...paths[operation.path], [operation.method.toLowerCase()]: toOperation(operation) };
+  }
+
+  const { schemas } = z.toJSONSchema(components, { uri: (id) => `#/components/schemas/${id}` }) as { schemas: Record<string, JsonSchema> };
+  for (const schema of Object.values(schemas)) {
+    delete schema.$schema;
+    delete schema.$id;
+  }
+
+  cachedDocument = {
+    openapi: '3.1.0',
+    info: {
+      title: 'JanAvlokan API',
+      version: '1.0.0',
+      description:
+        'Risk, case and audit APIs of the JanAvlokan subsidy leakage platform. Every JSON answer is the envelope ' +
+        '`{ success: true, data, meta }` or `{ success: false, error, code }`. Data is scoped to one welfare scheme ' +
+        '(`scheme`, default from the server) and to the signed-in officer\'s districts. `x-permission` names the ' +
+        'permission an operation needs.',
+    },
+    servers: [{ url: '/' }],
+    tags: Array.from(new Set(API_OPERATIONS.map((op) => op.tag)), (name) => ({ name })),
+    security: [{ session: [] }],
+    paths,
+    components: {
+      securitySchemes: {
+        session: { type: 'apiKey', in: 'cookie', name: SESSION_COOKIE, description: 'Set by POST /api/auth/login' },
+      },
+      responses: {
+        Failure: {
+          description: `Failure - \`code\` is one of ${Object.entries(ERROR_STATUS).map(([code, status]) => `${code} (${status})`).join(', ')}`,
+          content: { 'application/json': { schema: { $ref: '#/components/schemas/ApiFailure' } } },
+        },
+      },
+      schemas,
+    },
+  };
+  return cachedDocument;
+}
+
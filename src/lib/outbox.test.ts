@@ -0,0 +1,69 @@
+import { getDataSource } from '@/lib/datasource';
+import { insertWithOutbox, pendingRows, replayOutbox } from '@/lib/outbox';
+import { describe, expect, it, vi } from 'vitest';
+
+// Writes of some rows fail; INSERTs can be held until released
+const warehouse = vi.hoisted(() => ({ failing: new Set<unknown>(), hold: null as Promise<void> | null }));
+
+vi.mock('@/lib/datasource', async (importOriginal) => {
+  const original = await importOriginal<typeof import('@/lib/datasource')>();
+  return {
+    ...original,
+    getDataSource: () => {
+      const source = original.getDataSource();
+      return {
+        ...source,
+        async execute(sql: string, params?: Record<string, unknown>) {
+          if (sql.includes('INSERT')) {
+            if (warehouse.failing.has(params?.log_id)) throw new Error('Warehouse unavailable');
+            await warehouse.hold;
+          }
+          return source.execute(sql, params);
+        },
+      };
+    },
+  };
+});
+
+function accessRow(logId: string) {
+  return { log_id: logId, outcome: 'DENIED', reason: 'Test', created_at: new Date().toISOString() };
+}
+
+async function storedLogIds(): Promise<string[]> {
+  const dataSource = getDataSource();
+  const rows = await dataSource.query(`SELECT log_id FROM ${dataSource.table('access_log')} ORDER BY log_id`);
+  return rows.map((row) => row.log_id);
+}
+
+describe('outbox', () => {
+  it('queues a failed write and delivers it on replay', async () => {
+    warehouse.failing.add('log-1');
+    expect(await insertWithOutbox('access_log', accessRow('log-1'))).toBe('outbox');
+    expect((await pendingRows('access_log')).map((row) => row.log_id)).toEqual(['log-1']);
+
+    warehouse.failing.delete('log-1');
+    expect(await replayOutbox(true)).toMatchObject({ delivered: 1, failed: 0, backlog: 0 });
+    expect(await pendingRows('access_log')).toEqual([]);
+    expect(await storedLogIds()).toContain('log-1');
+  });
+
+  it('answers readers while a replay waits on the warehouse, and keeps rows queued meanwhile', async () => {
+    warehouse.failing.add('log-2');
+    await insertWithOutbox('access_log', accessRow('log-2'));
+    warehouse.failing.delete('log-2');
+
+    let release!: () => void;
+    warehouse.hold = new Promise((resolve) => { release = resolve; });
+    const replay = replayOutbox(true);
+
+    // Not blocked behind the held INSERT
+    expect((await pendingRows('access_log')).map((row) => row.log_id)).toEqual(['log-2']);
+    warehouse.failing.add('log-3');
+    expect(await insertWithOutbox('access_log', accessRow('log-3'))).toBe('outbox');
+
+    warehouse.hold = null;
+    release();
+    expect(await replay).toMatchObject({ delivered: 1, backlog: 1 });
+    expect((await pendingRows('access_log')).map((row) => row.log_id)).toEqual(['log-3']);
+  });
+});
@@ -0,0 +1,353 @@
+// Durable outbox for app-table writes
+// A warehouse INSERT can fail (outage, quota, missing table). For the audit
+// trail that must not lose the officer's action, so the row is appended to a
+// local JSON-lines file instead and replayed to the warehouse with retries.
+//
+// File format (append-only, one JSON record per line):
+//   { "type": "entry", "entry": {...} }        - queued row; later lines for the same id replace it
+//   { "type": "delivered", "key": "..." }      - row reached the warehouse
+// The file is compacted after each replay so it only holds the backlog.
+//
+// Delivery is at-least-once: before inserting, replay checks the table's key
+// column so a row written just before a crash is not inserted twice.
+//
+// The proxy (access log of refused requests), instrumentation and the routes
+// are separate module instances in Next.js, so the file lock and replay state
+// live on globalThis: compaction must never race an append from another bundle.
+// The lock is only held for file operations - replay snapshots the backlog,
+// talks to the warehouse without it and takes it again to record outcomes and
+// compact, so readers (pendingRows) never wait on a slow warehouse.
+//
+// Server-side only; the outbox lives on the local disk of the server process.
+
+import fs from 'fs';
+import path from 'path';
+import { getConfig } from '@/lib/config';
+import { getDataSource, type QueryParams, type SharedTableName } from '@/lib/datasource';
+
+export interface OutboxEntry {
+  table: SharedTableName;
+  id: string;                       // Value of the table's key column
+  row: QueryParams;                 // Column -> value, as for the original INSERT
+  enqueued_at: string;
+  attempts: number;                 // Failed replay attempts so far
+  last_attempt_at: string | null;
+  last_error: string | null;        // Error of the original write or last replay
+}
+
+export interface OutboxStatus {
+  backlog: number;
+  oldest_enqueued_at: string | null;
+  by_table: Partial<Record<SharedTableName, number>>;
+  last_error: string | null;
+  last_replay_at: string | null;
+  next_retry_at: string | null;     // Earliest time a queued row becomes due
+}
+
+export interface ReplayResult {
+  delivered: number;
+  failed: number;
+  skipped: number;                  // Not yet due (backing off)
+  backlog: number;
+}
+
+// Where the row was persisted by insertWithOutbox
+export type WriteOutcome = 'warehouse' | 'outbox';
+
+type OutboxRecord =
+  | { type: 'entry'; entry: OutboxEntry }
+  | { type: 'delivered'; key: string; delivered_at: string };
+
+// Column identifying a row in each table that may be queued
+const KEY_COLUMNS: Partial<Record<SharedTableName, string>> = {
+  audit_trail: 'audit_id',
+  access_log: 'log_id',
+};
+
+const OUTBOX_FILE = 'outbox.jsonl';
+
+interface OutboxState {
+  fileLock: Promise<unknown>;       // File operations are serialized so appends never interleave with compaction
+  lastReplayAt: string | null;
+  backlogChecked: boolean;          // Outbox file looked at since this process started
+  replayInFlight: Promise<ReplayResult> | null;
+  replayTimer: ReturnType<typeof setInterval> | null;
+}
+
+// One outbox state per process, shared by every module instance
+const shared = globalThis as typeof globalThis & { __janavlokanOutbox?: OutboxState };
+
+function outboxState(): OutboxState {
+  shared.__janavlokanOutbox ??= {
+    fileLock: Promise.resolve(),
+    lastReplayAt: null,
+    backlogChecked: false,
+    replayInFlight: null,
+    replayTimer: null,
+  };
+  return shared.__janavlokanOutbox;
+}
+
+function withFileLock<T>(operation: () => Promise<T>): Promise<T> {
+  const state = outboxState();
+  const result = state.fileLock.then(operation);
+  state.fileLock = result.catch(() => undefined);
+  return result;
+}
+
+function outboxPath(): string {
+  return path.join(getConfig().outbox.dir, OUTBOX_FILE);
+}
+
+const entryKey = (entry: Pick<OutboxEntry, 'table' | 'id'>) => `${entry.table}:${entry.id}`;
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Write and fsync - the entry must survive a crash once the route has answered
+async function appendRecords(records: OutboxRecord[]): Promise<void> {
+  const file = outboxPath();
+  await fs.promises.mkdir(path.dirname(file), { recursive: true });
+  const handle = await fs.promises.open(file, 'a');
+  try {
+    await handle.appendFile(records.map((record) => `${JSON.stringify(record)}\n`).join(''));
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+}
+
+// Queued entries in enqueue order
+async function readBacklog(): Promise<OutboxEntry[]> {
+  let content: string;
+  try {
+    content = await fs.promises.readFile(outboxPath(), 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+
+  const entries = new Map<string, OutboxEntry>();
+  const lines = content.split('\n').filter((line) => line.trim() !== '');
+  lines.forEach((line, i) => {
+    let record: OutboxRecord;
+    try {
+      record = JSON.parse(line);
+    } catch {
+      // A crash mid-append can only tear the last line
+      if (i === lines.length - 1) return;
+      throw new Error(`Corrupt outbox record on line ${i + 1} of ${outboxPath()}`);
+    }
+    if (record.type === 'entry') {
+      const key = entryKey(record.entry);
+      const previous = entries.get(key);
+      // Keep the original position so replay order follows enqueue order
+      entries.set(key, previous ? { ...previous, ...record.entry } : record.entry);
+    } else {
+      entries.delete(record.key);
+    }
+  });
+  return Array.from(entries.values());
+}
+
+// Rewrite the file with only the backlog (atomic rename)
+async function compact(backlog: OutboxEntry[]): Promise<void> {
+  const file = outboxPath();
+  if (backlog.length === 0) {
+    await fs.promises.rm(file, { force: true });
+    return;
+  }
+  const temp = `${file}.tmp`;
+  await fs.promises.writeFile(
+    temp,
+    backlog.map((entry) => `${JSON.stringify({ type: 'entry', entry })}\n`).join('')
+  );
+  await fs.promises.rename(temp, file);
+}
+
+// Exponential backoff per entry, capped
+function nextAttemptAt(entry: OutboxEntry): number {
+  if (entry.attempts === 0 || !entry.last_attempt_at) return 0;
+  const { retryBaseMs, retryMaxMs } = getConfig().outbox;
+  const delay = Math.min(retryBaseMs * 2 ** (entry.attempts - 1), retryMaxMs);
+  return new Date(entry.last_attempt_at).getTime() + delay;
+}
+
+function insertSql(table: SharedTableName, row: QueryParams): string {
+  const columns = Object.keys(row);
+  return `
+    INSERT INTO ${getDataSource().table(table)}
+    (${columns.join(', ')})
+    VALUES (${columns.map((column) => `@${column}`).join(', ')})
+  `;
+}
+
+async function alreadyWritten(entry: OutboxEntry): Promise<boolean> {
+  const dataSource = getDataSource();
+  const keyColumn = KEY_COLUMNS[entry.table] as string;
+  const rows = await dataSource.query(`
+    SELECT COUNT(*) AS matches
+    FROM ${dataSource.table(entry.table)}
+    WHERE ${keyColumn} = @key
+  `, { key: entry.id });
+  return Number(rows[0]?.matches) > 0;
+}
+
+// Retry on an interval while there is a backlog; stops once it is empty
+function ensureReplayTimer(): void {
+  const state = outboxState();
+  if (state.replayTimer) return;
+  state.replayTimer = setInterval(() => {
+    replayOutbox().catch((error) => console.error('Outbox replay failed:', error));
+  }, getConfig().outbox.retryBaseMs);
+  // Never keep the process alive just for the outbox
+  state.replayTimer.unref?.();
+}
+
+function stopReplayTimer(): void {
+  const state = outboxState();
+  if (state.replayTimer) clearInterval(state.replayTimer);
+  state.replayTimer = null;
+}
+
+/**
+ * Insert a row into an app-owned table, queueing it in the outbox if the
+ * warehouse write fails
+ * @returns Where the row was persisted
+ * @throws If the outbox write fails too - the row is then lost and the caller must report failure
+ */
+export async function insertWithOutbox(table: SharedTableName, row: QueryParams): Promise<WriteOutcome> {
+  const keyColumn = KEY_COLUMNS[table];
+  if (!keyColumn || typeof row[keyColumn] !== 'string') {
+    throw new Error(`Table ${table} cannot be written through the outbox`);
+  }
+
+  try {
+    await getDataSource().execute(insertSql(table, row), row);
+  } catch (error) {
+    console.error(`Write to ${table} failed, queueing in outbox:`, errorMessage(error));
+    const entry: OutboxEntry = {
+      table,
+      id: row[keyColumn] as string,
+      row,
+      enqueued_at: new Date().toISOString(),
+      attempts: 0,
+      last_attempt_at: null,
+      last_error: errorMessage(error),
+    };
+    await withFileLock(() => appendRecords([{ type: 'entry', entry }]));
+    ensureReplayTimer();
+    return 'outbox';
+  }
+
+  // The warehouse is reachable - a good moment to drain anything queued earlier
+  // (including rows left over from before a restart)
+  const { replayTimer, backlogChecked } = outboxState();
+  if (replayTimer || !backlogChecked) {
+    replayOutbox().catch((error) => console.error('Outbox replay failed:', error));
+  }
+  return 'warehouse';
+}
+
+/**
+ * Try to deliver every queued row that is due for a retry
+ * Concurrent calls share one replay.
+ * @param force - Ignore backoff and attempt every queued row
+ */
+export function replayOutbox(force = false): Promise<ReplayResult> {
+  const state = outboxState();
+  if (!state.replayInFlight) {
+    state.replayInFlight = replay(force).finally(() => {
+      state.replayInFlight = null;
+    });
+  }
+  return state.replayInFlight;
+}
+
+async function replay(force: boolean): Promise<ReplayResult> {
+  const backlog = await withFileLock(readBacklog);
+  const result: ReplayResult = { delivered: 0, failed: 0, skipped: 0, backlog: 0 };
+  const now = Date.now();
+
+  for (const entry of backlog) {
+    if (!force && nextAttemptAt(entry) > now) {
+      result.skipped++;
+      continue;
+    }
+
+    let outcome: OutboxRecord;
+    try {
+      if (!(await alreadyWritten(entry))) {
+        await getDataSource().execute(insertSql(entry.table, entry.row), entry.row);
+      }
+      outcome = { type: 'delivered', key: entryKey(entry), delivered_at: new Date().toISOString() };
+      result.delivered++;
+    } catch (error) {
+      outcome = {
+        type: 'entry',
+        entry: { ...entry, attempts: entry.attempts + 1, last_attempt_at: new Date().toISOString(), last_error: errorMessage(error) },
+      };
+      result.failed++;
+    }
+    // Recorded as soon as it is known so a crash before compaction cannot replay it
+    await withFileLock(() => appendRecords([outcome]));
+  }
+
+  // Re-read under the lock: rows queued while replaying stay in the backlog
+  const remaining = await withFileLock(async () => {
+    const current = await readBacklog();
+    await compact(current);
+    return current;
+  });
+  const state = outboxState();
+  state.lastReplayAt = new Date().toISOString();
+  state.backlogChecked = true;
+  result.backlog = remaining.length;
+
+  if (remaining.length === 0) {
+    stopReplayTimer();
+  } else {
+    ensureReplayTimer();
+  }
+  if (result.delivered > 0 || result.failed > 0) {
+    console.log(`Outbox replay: ${result.delivered} delivered, ${result.failed} failed, ${result.backlog} queued`);
+  }
+  return result;
+}
+
+/**
+ * Rows of a table that are queued but not yet in the warehouse
+ * (readers that must reflect every recorded action merge these in)
+ */
+export async function pendingRows(table: SharedTableName): Promise<QueryParams[]> {
+  const backlog = await withFileLock(readBacklog);
+  return backlog.filter((entry) => entry.table === table).map((entry) => entry.row);
+}
+
+/**
+ * Backlog summary for the admin status endpoint
+ * Also (re)starts the replay timer after a restart with a non-empty outbox.
+ */
+export async function getOutboxStatus(): Promise<OutboxStatus> {
+  const backlog = await withFileLock(readBacklog);
+  if (backlog.length > 0) ensureReplayTimer();
+
+  const byTable: Partial<Record<SharedTableName, number>> = {};
+  for (const entry of backlog) {
+    byTable[entry.table] = (byTable[entry.table] ?? 0) + 1;
+  }
+  const latestFailure = backlog
+    .filter((entry) => entry.last_error)
+    .sort((a, b) => (b.last_attempt_at ?? b.enqueued_at).localeCompare(a.last_attempt_at ?? a.enqueued_at))[0];
+  const nextRetry = Math.min(...backlog.map(nextAttemptAt));
+
+  return {
+    backlog: backlog.length,
+    oldest_enqueued_at: backlog[0]?.enqueued_at ?? null,
+    by_table: byTable,
+    last_error: latestFailure?.last_error ?? null,
+    last_replay_at: outboxState().lastReplayAt,
+    next_retry_at: backlog.length > 0 ? new Date(Math.max(nextRetry, Date.now())).toISOString() : null,
+  };
+}
@@ -0,0 +1,129 @@
+// Keyset (cursor) pagination helpers
+// Pages are addressed by the sort-key values of the last row already seen,
+// not by OFFSET, so deep pages cost the same as the first and rows don't
+// shift between pages when new data lands.
+//
+// Sort columns are always resolved through an allowlist - only the SQL
+// expressions defined by the route ever reach the query text.
+
+export type SortDirection = 'ASC' | 'DESC';
+
+export interface SortColumn {
+  expression: string;          // SQL expression used in ORDER BY / WHERE
+  alias: string;               // Column alias in the SELECT list (read back for the cursor)
+}
+
+export interface SortKey {
+  field: string;
+  column: SortColumn;
+  direction: SortDirection;
+}
+
+export type CursorValue = string | number | boolean | null;
+
+export class PaginationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PaginationError';
+  }
+}
+
+/**
+ * Parse a sort spec like "-mean_squared_error,beneficiary_id"
+ * ('-' prefix = descending). The tiebreaker field is appended when missing
+ * so every row has a unique position and the keyset never skips rows.
+ */
+export function parseSort(
+  spec: string | null,
+  columns: Record<string, SortColumn>,
+  defaults: string,
+  tiebreaker: string
+): SortKey[] {
+  const fields = (spec || defaults).split(',').map((f) => f.trim()).filter(Boolean);
+  const keys: SortKey[] = [];
+
+  for (const raw of fields) {
+    const descending = raw.startsWith('-');
+    const field = descending ? raw.slice(1) : raw;
+    const column = columns[field];
+    if (!column) {
+      throw new PaginationError(`Cannot sort by '${field}' (allowed: ${Object.keys(columns).join(', ')})`);
+    }
+    if (keys.some((k) => k.field === field)) {
+      throw new PaginationError(`Duplicate sort field '${field}'`);
+    }
+    keys.push({ field, column, direction: descending ? 'DESC' : 'ASC' });
+  }
+
+  if (!keys.some((k) => k.field === tiebreaker)) {
+    keys.push({ field: tiebreaker, column: columns[tiebreaker], direction: 'ASC' });
+  }
+  return keys;
+}
+
+export function formatSort(keys: SortKey[]): string {
+  return keys.map((k) => `${k.direction === 'DESC' ? '-' : ''}${k.field}`).join(',');
+}
+
+export function orderByClause(keys: SortKey[]): string {
+  return `ORDER BY ${keys.map((k) => `${k.column.expression} ${k.direction}`).join(', ')}`;
+}
+
+// Cursors are opaque to clients: base64url JSON of { sort, values }
+export function encodeCursor(keys: SortKey[], row: Record<string, unknown>): string {
+  const values = keys.map((k) => row[k.column.alias] as CursorValue);
+  return Buffer.from(JSON.stringify({ s: formatSort(keys), v: values })).toString('base64url');
+}
+
+/**
+ * Decode a cursor and check it was issued for the same sort order
+ * @throws PaginationError on malformed or mismatched cursors
+ */
+export function decodeCursor(cursor: string, keys: SortKey[]): CursorValue[] {
+  let decoded: { s?: unknown; v?: unknown };
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+  } catch {
+    throw new PaginationError('Malformed cursor');
+  }
+
+  if (decoded.s !== formatSort(keys)) {
+    throw new PaginationError('Cursor was issued for a different sort order');
+  }
+  const values = decoded.v;
+  if (
+    !Array.isArray(values) ||
+    values.length !== keys.length ||
+    !values.every((v) => v === null || ['string', 'number', 'boolean'].includes(typeof v))
+  ) {
+    throw new PaginationError('Malformed cursor');
+  }
+  return values as CursorValue[];
+}
+
+/**
+ * WHERE condition selecting rows strictly after the cursor position:
+ *   (k1 > v1) OR (k1 = v1 AND k2 > v2) OR ...
+ * with > / < chosen per column direction
+ */
+export function keysetCondition(
+  keys: SortKey[],
+  values: CursorValue[],
+  paramPrefix = 'cursor'
+): { sql: string; params: Record<string, CursorValue> } {
+  const params: Record<string, CursorValue> = {};
+  const branches: string[] = [];
+
+  keys.forEach((key, i) => {
+    const terms: string[] = [];
+    for (let j = 0; j < i; j++) {
+      terms.push(`${keys[j].column.expression} = @${paramPrefix}${j}`);
+    }
+    const op = key.direction === 'DESC' ? '<' : '>';
+    terms.push(`${key.column.expression} ${op} @${paramPrefix}${i}`);
+    branches.push(`(${terms.join(' AND ')})`);
+    params[`${paramPrefix}${i}`] = values[i];
+  });
+
+  return { sql: `(${branches.join(' OR ')})`, params };
+}
@@ -0,0 +1,151 @@
+// Pseudonymized exports
+// Audit report exports carry a random token per row instead of the
+// beneficiary_id. Tokens are drawn fresh for every export, so the same
+// beneficiary cannot be linked across two exported files.
+//
+// The token -> beneficiary_id mapping of each export is kept in a local file
+// (config exports.mappingDir), encrypted with AES-256-GCM under
+// EXPORT_MAPPING_KEY or a key derived from the session secret. Only the
+// re-identification endpoint reads it back, for specific tokens.
+//
+// Mappings live on the server that made the export, and become unreadable if
+// their key (or, without EXPORT_MAPPING_KEY, AUTH_SECRET) changes.
+//
+// Server-side only.
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { deriveKey } from '@/lib/auth';
+import { getConfig } from '@/lib/config';
+import type { SchemeId } from '@/lib/schemes';
+import { v4 as uuidv4 } from 'uuid';
+
+export interface PseudonymizedExport {
+  export_id: string;
+  tokens: Map<string, string>;  // beneficiary_id -> token
+}
+
+// Stored per export; only `payload` holds beneficiary IDs
+interface MappingFile {
+  export_id: string;
+  scheme: SchemeId;
+  officer_id: string;
+  created_at: string;
+  iv: string;                   // base64url
+  tag: string;
+  payload: string;              // Encrypted JSON { token: beneficiary_id }
+}
+
+export interface ExportMapping {
+  export_id: string;
+  scheme: SchemeId;
+  officer_id: string;           // Who made the export
+  created_at: string;
+  lookup(token: string): string | null;
+}
+
+const TOKEN_PREFIX = 'PSN-';
+const EXPORT_ID_PATTERN = /^[0-9a-f-]{36}$/;
+
+// Export unknown, or its mapping cannot be read back
+export class ExportMappingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExportMappingError';
+  }
+}
+
+function mappingKey(): Buffer {
+  const { mappingKey } = getConfig().exports;
+  return mappingKey
+    ? crypto.createHash('sha256').update(mappingKey).digest()
+    : deriveKey('export-mapping');
+}
+
+function mappingFile(exportId: string): string {
+  return path.join(getConfig().exports.mappingDir, `${exportId}.json`);
+}
+
+function newToken(taken: Set<string>): string {
+  for (;;) {
+    const token = TOKEN_PREFIX + crypto.randomBytes(6).toString('hex').toUpperCase();
+    if (!taken.has(token)) return token;
+  }
+}
+
+/**
+ * Draw tokens for the rows of one export and store the encrypted mapping
+ * @throws If the mapping cannot be written - the export must then not go out
+ */
+export async function pseudonymize(
+  scheme: SchemeId,
+  officerId: string,
+  beneficiaryIds: string[]
+): Promise<PseudonymizedExport> {
+  const exportId = uuidv4();
+  const tokens = new Map<string, string>();
+  const taken = new Set<string>();
+  for (const id of beneficiaryIds) {
+    if (tokens.has(id)) continue;
+    const token = newToken(taken);
+    taken.add(token);
+    tokens.set(id, token);
+  }
+
+  // export_id is bound to the ciphertext, so a mapping cannot be passed off as another export's
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', mappingKey(), iv);
+  cipher.setAAD(Buffer.from(exportId));
+  const plain = JSON.stringify(Object.fromEntries(Array.from(tokens, ([id, token]) => [token, id])));
+  const payload = Buffer.concat([cipher.update(plain, 'utf8'), cipher.final()]);
+
+  const file: MappingFile = {
+    export_id: exportId,
+    scheme,
+    officer_id: officerId,
+    created_at: new Date().toISOString(),
+    iv: iv.toString('base64url'),
+    tag: cipher.getAuthTag().toString('base64url'),
+    payload: payload.toString('base64url'),
+  };
+  await fs.promises.mkdir(getConfig().exports.mappingDir, { recursive: true });
+  await fs.promises.writeFile(mappingFile(exportId), JSON.stringify(file), { flag: 'wx', mode: 0o600 });
+
+  return { export_id: exportId, tokens };
+}
+
+/**
+ * Decrypt the mapping of one export
+ * @throws ExportMappingError if there is no such export or its mapping cannot be decrypted
+ */
+export async function loadExportMapping(exportId: string): Promise<ExportMapping> {
+  if (!EXPORT_ID_PATTERN.test(exportId)) throw new ExportMappingError(`Unknown export: ${exportId}`);
+
+  let file: MappingFile;
+  try {
+    file = JSON.parse(await fs.promises.readFile(mappingFile(exportId), 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') throw new ExportMappingError(`Unknown export: ${exportId}`);
+    throw error;
+  }
+
+  let mapping: Record<string, string>;
+  try {
+    const decipher = crypto.createDecipheriv('aes-256-gcm', mappingKey(), Buffer.from(file.iv, 'base64url'));
+    decipher.setAAD(Buffer.from(exportId));
+    decipher.setAuthTag(Buffer.from(file.tag, 'base64url'));
+    const plain = Buffer.concat([decipher.update(Buffer.from(file.payload, 'base64url')), decipher.final()]);
+    mapping = JSON.parse(plain.toString('utf8'));
+  } catch {
+    throw new ExportMappingError(`Mapping of export ${exportId} cannot be decrypted (was the key changed?)`);
+  }
+
+  return {
+    export_id: file.export_id,
+    scheme: file.scheme,
+    officer_id: file.officer_id,
+    created_at: file.created_at,
+    lookup: (token) => (Object.prototype.hasOwnProperty.call(mapping, token) ? mapping[token] : null),
+  };
+}
@@ -0,0 +1,146 @@
+// Roles and permissions
+// Each officer has one role; a role grants a fixed set of permissions. Every
+// API route is mapped to the permission it needs in ROUTE_PERMISSIONS, which
+// the request gate (src/proxy.ts) enforces before the route runs - a route
+// missing from the table is denied. Routes whose requirement depends on the
+// request body (case actions) refine it with authorize().
+//
+// Denied attempts are written to the access log (lib/access.ts).
+//
+// Server-side only.
+
+import { recordAccess } from '@/lib/access';
+import type { Session } from '@/lib/auth';
+import type { CaseAction } from '@/lib/audit';
+import { ROLES } from '@/lib/schemas';
+import type { NextRequest } from 'next/server';
+
+export type Role = (typeof ROLES)[number];
+
+// Officers created before roles existed keep working as auditors
+export const DEFAULT_ROLE: Role = 'field_auditor';
+
+export const PERMISSIONS = [
+  'data:read',          // Dashboards, beneficiaries, cases, audit trail, roster
+  'cases:act',          // Review, note, field verification, escalation
+  'cases:close',        // Close a case as confirmed or cleared
+  'cases:assign',
+  'alerts:send',
+  'alerts:rules',       // Own alert rules (state admins manage everyone's)
+  'audit:export',       // Pseudonymized exports
+  'audit:export_ids',   // Exports with real beneficiary IDs
+  'audit:reidentify',   // Look up the beneficiaries behind export pseudonyms
+  'audit:verify',
+  'batch:refresh',
+  'officers:manage',
+  'admin',              // Migrations, outbox, SLA checker, alert rules run, access log
+] as const;
+export type Permission = (typeof PERMISSIONS)[number];
+
+// Each role includes everything the one before it can do
+const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  viewer: ['data:read'],
+  field_auditor: ['data:read', 'cases:act', 'alerts:send'],
+  district_supervisor: [
+    'data:read', 'cases:act', 'alerts:send', 'alerts:rules', 'cases:close', 'cases:assign', 'audit:export', 'audit:reidentify',
+    'audit:verify',
+  ],
+  state_admin: PERMISSIONS,
+};
+
+interface RoutePermission {
+  method: string;               // '*' = any method
+  path: RegExp;
+  permission: Permission;
+}
+
+// Open without signing in: sign-in itself, the scheme list used by public pages
+// and the API description
+const PUBLIC_API_PREFIXES = ['/api/auth/', '/api/schemes', '/api/openapi.json'];
+
+const ROUTE_PERMISSIONS: RoutePermission[] = [
+  { method: 'GET', path: /^\/api\/(dashboard|analytics|geo|beneficiaries)\//, permission: 'data:read' },
+  { method: 'GET', path: /^\/api\/cases(\/[^/]+)?$/, permission: 'data:read' },
+  { method: 'POST', path: /^\/api\/cases\/assign$/, permission: 'cases:assign' },
+  { method: 'POST', path: /^\/api\/cases\/[^/]+$/, permission: 'cases:act' },
+  { method: 'GET', path: /^\/api\/audit$/, permission: 'data:read' },
+  { method: 'POST', path: /^\/api\/audit$/, permission: 'cases:act' },
+  { method: 'GET', path: /^\/api\/audit\/export$/, permission: 'audit:export' },
+  { method: 'POST', path: /^\/api\/audit\/export\/reidentify$/, permission: 'audit:reidentify' },
+  { method: 'GET', path: /^\/api\/audit\/verify$/, permission: 'audit:verify' },
+  { method: 'GET', path: /^\/api\/officers(\/[^/]+\/queue)?$/, permission: 'data:read' },
+  { method: 'POST', path: /^\/api\/officers$/, permission: 'officers:manage' },
+  { method: 'GET', path: /^\/api\/alerts\/email$/, permission: 'data:read' },
+  { method: 'POST', path: /^\/api\/alerts\/email$/, permission: 'alerts:send' },
+  { method: '*', path: /^\/api\/alerts\/rules(\/[^/]+)?$/, permission: 'alerts:rules' },
+  { method: 'GET', path: /^\/api\/batch\/refresh$/, permission: 'data:read' },
+  { method: 'POST', path: /^\/api\/batch\/refresh$/, permission: 'batch:refresh' },
+  { method: '*', path: /^\/api\/admin\//, permission: 'admin' },
+];
+
+// Closing a case is a supervisor decision; every other action is auditor work
+const CLOSING_ACTIONS: readonly CaseAction[] = ['CONFIRMED', 'CLEARED'];
+
+// The user is signed in but lacks the permission
+export class PermissionError extends Error {
+  readonly permission: Permission | null;
+
+  constructor(message: string, permission: Permission | null) {
+    super(message);
+    this.name = 'PermissionError';
+    this.permission = permission;
+  }
+}
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && (ROLES as readonly string[]).includes(value);
+}
+
+export function permissionsFor(role: Role): Permission[] {
+  return [...ROLE_PERMISSIONS[role]];
+}
+
+export function hasPermission(role: Role, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
+
+export function isPublicRoute(pathname: string): boolean {
+  return PUBLIC_API_PREFIXES.some((prefix) => pathname.startsWith(prefix));
+}
+
+/**
+ * Permission a request needs
+ * @returns null if no rule covers the route (such requests are denied)
+ */
+export function routePermission(method: string, pathname: string): Permission | null {
+  const rule = ROUTE_PERMISSIONS.find((r) => (r.method === '*' || r.method === method) && r.path.test(pathname));
+  return rule?.permission ?? null;
+}
+
+export function actionPermission(action: CaseAction): Permission {
+  return CLOSING_ACTIONS.includes(action) ? 'cases:close' : 'cases:act';
+}
+
+/**
+ * Check that the signed-in officer holds a permission, logging the attempt if not
+ * @param permission - null for a route no rule covers (always denied)
+ * @throws PermissionError if the officer's role lacks the permission
+ */
+export async function authorize(request: NextRequest, session: Session, permission: Permission | null): Promise<void> {
+  if (permission && hasPermission(session.role, permission)) return;
+
+  const reason = permission
+    ? `Role ${session.role} lacks permission ${permission}`
+    : 'No access rule covers this route';
+  await recordAccess({
+    officer_id: session.officer_id,
+    officer_name: session.officer_name,
+    role: session.role,
+    method: request.method,
+    path: request.nextUrl.pathname,
+    permission,
+    outcome: 'DENIED',
+    reason,
+  });
+  throw new PermissionError(permission ? `Permission denied: ${permission} required` : 'Permission denied', permission);
+}
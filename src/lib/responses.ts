@@ -0,0 +1,119 @@
+// Route responses
+// Builds the envelope described in lib/api.ts: ok() for a payload, fail() for
+// a refusal the route decides on, errorResponse() for whatever a route's
+// try block threw - the error classes of the lib modules map to one code each.
+//
+// Server-side only.
+
+import { AccessLogError } from '@/lib/access';
+import { ERROR_STATUS, apiFailure, type ApiFailure, type ApiSuccess, type ErrorCode, type ResponseMeta } from '@/lib/api';
+import { AssignmentError } from '@/lib/assignment';
+import { AuthError } from '@/lib/auth';
+import { CaseTransitionError } from '@/lib/cases';
+import { getDataSource, isMissingTableError } from '@/lib/datasource';
+import { JurisdictionError } from '@/lib/jurisdiction';
+import { MIGRATIONS_REQUIRED } from '@/lib/migrations';
+import { PaginationError } from '@/lib/pagination';
+import { ExportMappingError } from '@/lib/pseudonyms';
+import { PermissionError } from '@/lib/rbac';
+import { AlertRuleError } from '@/lib/rules';
+import { SchemeError, type SchemeId } from '@/lib/schemes';
+import { ValidationError } from '@/lib/validation';
+import { NextResponse } from 'next/server';
+
+// Last completed batch refresh per scheme, re-read at most once a minute
+const FRESHNESS_TTL_MS = 60_000;
+const freshnessCache = new Map<SchemeId, { value: string | null; readAt: number }>();
+
+/**
+ * Success envelope
+ * @param started - Date.now() when the route began handling the request
+ */
+export function ok<T>(
+  data: T,
+  started = Date.now(),
+  meta: Omit<ResponseMeta, 'generated_at' | 'query_ms'> = {},
+  init?: ResponseInit
+): NextResponse<ApiSuccess<T>> {
+  return NextResponse.json(
+    {
+      success: true,
+      data,
+      meta: { generated_at: new Date().toISOString(), query_ms: Date.now() - started, ...meta },
+    },
+    init
+  );
+}
+
+export function fail(code: ErrorCode, error: string, extra?: Pick<ApiFailure, 'fields' | 'state'>): NextResponse<ApiFailure> {
+  return NextResponse.json(apiFailure(code, error, extra), { status: ERROR_STATUS[code] });
+}
+
+/**
+ * Failure envelope for an error thrown while handling a request; anything
+ * unexpected is logged under `label` and answered with 500
+ */
+export function errorResponse(error: unknown, label: string): NextResponse<ApiFailure> {
+  if (error instanceof ValidationError) {
+    return fail('VALIDATION_FAILED', error.message, { fields: error.fields });
+  }
+  if (error instanceof AuthError) {
+    return fail('UNAUTHENTICATED', error.message);
+  }
+  if (error instanceof PermissionError || error instanceof JurisdictionError) {
+    return fail('FORBIDDEN', error.message);
+  }
+  if (error instanceof SchemeError || error instanceof PaginationError || error instanceof AssignmentError) {
+    return fail('BAD_REQUEST', error.message);
+  }
+  if (error instanceof ExportMappingError || error instanceof AlertRuleError) {
+    return fail('NOT_FOUND', error.message);
+  }
+  if (error instanceof CaseTransitionError) {
+    return fail('CONFLICT', error.message, { state: error.state });
+  }
+  if (isMissingTableError(error)) {
+    return fail('MIGRATIONS_REQUIRED', MIGRATIONS_REQUIRED);
+  }
+  if (error instanceof AccessLogError) {
+    return fail('ACCESS_LOG_UNAVAILABLE', error.message);
+  }
+  console.error(`${label}:`, error);
+  const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+  return fail('INTERNAL_ERROR', errorMessage);
+}
+
+/**
+ * When the scheme's data was last refreshed: completed_at of its latest
+ * COMPLETED batch job (null if none is recorded or batch_jobs is missing)
+ */
+export async function dataFreshness(scheme: SchemeId): Promise<string | null> {
+  const cached = freshnessCache.get(scheme);
+  if (cached && Date.now() - cached.readAt < FRESHNESS_TTL_MS) return cached.value;
+
+  let value: string | null = null;
+  try {
+    const dataSource = getDataSource();
+    const rows = await dataSource.query(`
+      SELECT MAX(completed_at) AS completed_at
+      FROM ${dataSource.table('batch_jobs')}
+      WHERE scheme = @scheme AND status = 'COMPLETED'
+    `, { scheme });
+    const completedAt = rows[0]?.completed_at?.value || rows[0]?.completed_at;
+    value = completedAt ? new Date(completedAt).toISOString() : null;
+  } catch (error) {
+    if (!isMissingTableError(error)) throw error;
+  }
+  freshnessCache.set(scheme, { value, readAt: Date.now() });
+  return value;
+}
+
+// A batch refresh of the scheme just completed
+export function noteRefresh(scheme: SchemeId, completedAt: string): void {
+  freshnessCache.set(scheme, { value: completedAt, readAt: Date.now() });
+}
+
+// meta for a response covering one scheme's data
+export async function schemeMeta(scheme: SchemeId): Promise<Pick<ResponseMeta, 'scheme' | 'data_freshness'>> {
+  return { scheme, data_freshness: await dataFreshness(scheme) };
+}
@@ -0,0 +1,672 @@
+// Alert rules
+// Officers with the alerts:rules permission define their own triggers on a
+// scheme's data. A scheme's enabled rules are evaluated after each batch
+// refresh of it (and on demand, POST /api/admin/rules); every new match raises
+// one alert (lib/alerts.ts) emailed to the rule's subscribers who cover the
+// district it happened in.
+//
+// Triggers:
+//   new_high_risk  - a beneficiary is HIGH risk. The rule's first successful
+//                    evaluation only records the beneficiaries already HIGH,
+//                    so it alerts on the ones that turn HIGH afterwards
+//   dealer_flag    - more than N beneficiaries with a rule flag transact at one dealer
+//   district_spike - a district's anomaly count on the latest day with data is
+//                    `sigma` standard deviations above its rolling baseline
+//                    (same baseline as /api/analytics/temporal-spikes)
+//   sla_overdue    - an unreviewed case is past its review deadline (lib/sla.ts;
+//                    needs the SLA checker to record when cases were flagged)
+//
+// A rule sees what its owner sees: matches come from the owner's jurisdiction,
+// narrowed to the rule's districts, looked up at every evaluation. Each match
+// is alerted once per rule (alert_rule_matches).
+//
+// The scheduler in instrumentation and the manual-run route are separate
+// module instances in Next.js, so runs in flight live on globalThis: both
+// share one run of a scheme rather than evaluating its rules side by side.
+//
+// Server-side only.
+
+import { listAlerts, raiseAlert, type AlertRecord } from '@/lib/alerts';
+import { addDays, rollingBaseline, toIsoDate, zScore } from '@/lib/analytics';
+import type { Session } from '@/lib/auth';
+import { getConfig } from '@/lib/config';
+import { getDataSource, type DataRow, type QueryParams } from '@/lib/datasource';
+import { findFlag, flagCondition } from '@/lib/flags';
+import {
+  createDistrictFilter,
+  getJurisdiction,
+  officerJurisdiction,
+  type DistrictFilter,
+  type Jurisdiction,
+} from '@/lib/jurisdiction';
+import { coversDistrict, getOfficer, listOfficers, type Officer } from '@/lib/officers';
+import { hasPermission } from '@/lib/rbac';
+import type { ALERT_TRIGGERS, AlertTrigger } from '@/lib/schemas';
+import { SCHEMES, getEnabledSchemes, type SchemeId } from '@/lib/schemes';
+import { getOverdueCases } from '@/lib/sla';
+import { invalidField } from '@/lib/validation';
+import { v4 as uuidv4 } from 'uuid';
+
+export type AlertTriggerType = (typeof ALERT_TRIGGERS)[number];
+
+export interface AlertRule {
+  rule_id: string;
+  name: string;
+  scheme: SchemeId;
+  trigger: AlertTrigger;
+  districts: string[];          // Empty = the owner's whole jurisdiction
+  subscribers: string[];        // Officer IDs alerted besides the owner
+  owner_id: string;
+  enabled: boolean;
+  created_at: string;
+  updated_at: string;
+  last_evaluated_at: string | null;   // Last successful evaluation (null = none yet)
+  last_error: string | null;    // Why the last evaluation failed
+}
+
+export interface AlertRuleInput {
+  name: string;
+  scheme: SchemeId;
+  trigger: AlertTrigger;
+  districts: string[];
+  subscribers: string[];
+  enabled: boolean;
+}
+
+export interface AlertRuleResult {
+  rule_id: string;
+  name: string;
+  matches: number;              // Everything matching now, alerted before or not
+  alerted: number;              // New matches alerted in this run
+  deferred: number;             // New matches left for the next run (MAX_ALERTS_PER_RUN)
+  failed: number;               // Alerts that could not be raised (retried next run)
+  error: string | null;
+}
+
+export interface AlertRuleRun {
+  scheme: SchemeId;
+  cause: string;                // e.g. 'batch batch_1718...' or 'manual'
+  started_at: string;
+  finished_at: string;
+  results: AlertRuleResult[];
+}
+
+interface RuleMatch {
+  key: string;                  // Identifies the match within its rule
+  district: string | null;      // Where it happened - decides which subscribers are told
+  beneficiary_id?: string;
+  risk_score?: number;
+  reason: string;
+}
+
+// Caps the alerts one rule can send per run (e.g. a dealer_flag rule with a low threshold)
+const MAX_ALERTS_PER_RUN = 50;
+
+// Beneficiary IDs looked up per query
+const ID_BATCH_SIZE = 500;
+
+const NO_JURISDICTION: Jurisdiction = { statewide: false, districts: [] };
+
+interface RunState {
+  runsInFlight: Map<SchemeId, Promise<AlertRuleRun>>;
+  lastRuns: Map<SchemeId, AlertRuleRun>;
+}
+
+// One run state per process, shared by every module instance
+const shared = globalThis as typeof globalThis & { __janavlokanRuleRuns?: RunState };
+
+function runState(): RunState {
+  shared.__janavlokanRuleRuns ??= { runsInFlight: new Map(), lastRuns: new Map() };
+  return shared.__janavlokanRuleRuns;
+}
+
+// Rule unknown, or not one the officer may see
+export class AlertRuleError extends Error {
+  constructor(ruleId: string) {
+    super(`Alert rule ${ruleId} not found`);
+    this.name = 'AlertRuleError';
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function toIso(value: unknown): string | null {
+  const raw = (value as { value?: unknown } | null)?.value ?? value;
+  return raw ? new Date(raw as string).toISOString() : null;
+}
+
+// Lists are stored as one comma-separated column (portable to SQLite)
+function parseList(value: unknown): string[] {
+  return String(value ?? '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function toRule(row: DataRow): AlertRule {
+  return {
+    rule_id: row.rule_id,
+    name: row.name,
+    scheme: row.scheme,
+    trigger: { type: row.trigger_type, ...JSON.parse(row.trigger_params || '{}') },
+    districts: parseList(row.districts),
+    subscribers: parseList(row.subscribers),
+    owner_id: row.owner_id,
+    enabled: row.enabled === true || row.enabled === 1,
+    created_at: toIso(row.created_at) as string,
+    updated_at: toIso(row.updated_at) as string,
+    last_evaluated_at: toIso(row.last_evaluated_at),
+    last_error: row.last_error || null,
+  };
+}
+
+// The trigger's settings; its type has a column of its own
+function triggerParams(trigger: AlertTrigger): string {
+  const params: Record<string, unknown> = { ...trigger };
+  delete params.type;
+  return JSON.stringify(params);
+}
+
+function canManage(session: Session, rule: AlertRule): boolean {
+  return rule.owner_id === session.officer_id || hasPermission(session.role, 'admin');
+}
+
+// ============================================
+// Rules
+// ============================================
+
+async function ownerJurisdiction(ownerId: string, session: Session): Promise<Jurisdiction> {
+  if (ownerId === session.officer_id) return getJurisdiction(session);
+  const owner = await getOfficer(ownerId);
+  return owner ? officerJurisdiction(owner) : NO_JURISDICTION;
+}
+
+/**
+ * Check what the request schema cannot: the flag exists in the scheme, the
+ * districts are the owner's and the subscribers are on the roster
+ * @throws ValidationError naming the field
+ */
+async function validateRule(input: AlertRuleInput, ownerId: string, jurisdiction: Jurisdiction): Promise<AlertRuleInput> {
+  const scheme = SCHEMES[input.scheme];
+  if (input.trigger.type === 'dealer_flag' && !findFlag(scheme, input.trigger.flag)) {
+    throw invalidField('trigger.flag', `must be one of: ${scheme.flags.map((flag) => flag.id).join(', ')}`);
+  }
+
+  if (!jurisdiction.statewide) {
+    const covered = new Set(jurisdiction.districts.map((d) => d.toLowerCase()));
+    const outside = input.districts.filter((d) => !covered.has(d.toLowerCase()));
+    if (outside.length > 0) throw invalidField('districts', `outside the owner's jurisdiction: ${outside.join(', ')}`);
+  }
+
+  const roster = new Set((await listOfficers()).map((officer) => officer.officer_id));
+  const unknown = input.subscribers.filter((id) => !roster.has(id));
+  if (unknown.length > 0) throw invalidField('subscribers', `unknown officer: ${unknown.join(', ')}`);
+
+  return { ...input, subscribers: input.subscribers.filter((id) => id !== ownerId) };
+}
+
+/**
+ * Rules, oldest first
+ * @param options.owner_id - Only this officer's rules
+ */
+export async function listRules(options: { scheme?: SchemeId; owner_id?: string; enabled?: boolean } = {}): Promise<AlertRule[]> {
+  const params: QueryParams = {};
+  const conditions: string[] = [];
+  if (options.scheme) {
+    conditions.push('scheme = @scheme');
+    params.scheme = options.scheme;
+  }
+  if (options.owner_id) {
+    conditions.push('owner_id = @owner_id');
+    params.owner_id = options.owner_id;
+  }
+  if (options.enabled !== undefined) {
+    conditions.push(`enabled = ${options.enabled ? 'TRUE' : 'FALSE'}`);
+  }
+
+  const dataSource = getDataSource();
+  const rows = await dataSource.query(`
+    SELECT *
+    FROM ${dataSource.table('alert_rules')}
+    ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+    ORDER BY created_at, rule_id
+  `, params);
+  return rows.map(toRule);
+}
+
+/**
+ * A rule the officer owns (any rule for state admins)
+ * @throws AlertRuleError if there is no such rule or it is someone else's
+ */
+export async function getRule(ruleId: string, session: Session): Promise<AlertRule> {
+  const dataSource = getDataSource();
+  const rows = await dataSource.query(`
+    SELECT *
+    FROM ${dataSource.table('alert_rules')}
+    WHERE rule_id = @rule_id
+  `, { rule_id: ruleId });
+  const rule = rows[0] ? toRule(rows[0]) : null;
+  // Other officers' rules get the same answer as unknown ones
+  if (!rule || !canManage(session, rule)) throw new AlertRuleError(ruleId);
+  return rule;
+}
+
+/**
+ * The alerts a rule has raised, newest first
+ */
+export function getRuleAlerts(ruleId: string, limit: number): Promise<AlertRecord[]> {
+  return listAlerts({ rule_id: ruleId, limit });
+}
+
+/**
+ * Create a rule owned by the signed-in officer
+ * @throws ValidationError if the flag, districts or subscribers are not acceptable
+ */
+export async function createRule(session: Session, input: AlertRuleInput): Promise<AlertRule> {
+  const valid = await validateRule(input, session.officer_id, await getJurisdiction(session));
+  const now = new Date().toISOString();
+  const rule: AlertRule = {
+    rule_id: uuidv4(),
+    ...valid,
+    owner_id: session.officer_id,
+    created_at: now,
+    updated_at: now,
+    last_evaluated_at: null,
+    last_error: null,
+  };
+
+  const dataSource = getDataSource();
+  await dataSource.execute(`
+    INSERT INTO ${dataSource.table('alert_rules')}
+    (rule_id, name, scheme, trigger_type, trigger_params, districts, subscribers, owner_id, enabled, created_at, updated_at)
+    VALUES (@rule_id, @name, @scheme, @trigger_type, @trigger_params, @districts, @subscribers, @owner_id, @enabled, @created_at, @updated_at)
+  `, {
+    rule_id: rule.rule_id,
+    name: rule.name,
+    scheme: rule.scheme,
+    trigger_type: rule.trigger.type,
+    trigger_params: triggerParams(rule.trigger),
+    districts: rule.districts.join(','),
+    subscribers: rule.subscribers.join(','),
+    owner_id: rule.owner_id,
+    enabled: rule.enabled,
+    created_at: rule.created_at,
+    updated_at: rule.updated_at,
+  });
+  return rule;
+}
+
+/**
+ * Replace a rule's settings (the owner stays the same). A changed scheme or
+ * trigger starts the rule afresh: what it matched before is forgotten.
+ * @throws AlertRuleError if the officer may not manage the rule
+ * @throws ValidationError if the flag, districts or subscribers are not acceptable
+ */
+export async function updateRule(session: Session, ruleId: string, input: AlertRuleInput): Promise<AlertRule> {
+  const existing = await getRule(ruleId, session);
+  const valid = await validateRule(input, existing.owner_id, await ownerJurisdiction(existing.owner_id, session));
+  const restart = valid.scheme !== existing.scheme || JSON.stringify(valid.trigger) !== JSON.stringify(existing.trigger);
+  const rule: AlertRule = {
+    ...existing,
+    ...valid,
+    updated_at: new Date().toISOString(),
+    last_evaluated_at: restart ? null : existing.last_evaluated_at,
+  };
+
+  const dataSource = getDataSource();
+  if (restart) {
+    await dataSource.execute(`
+      DELETE FROM ${dataSource.table('alert_rule_matches')}
+      WHERE rule_id = @rule_id
+    `, { rule_id: ruleId });
+  }
+  await dataSource.execute(`
+    UPDATE ${dataSource.table('alert_rules')}
+    SET name = @name, scheme = @scheme, trigger_type = @trigger_type, trigger_params = @trigger_params,
+        districts = @districts, subscribers = @subscribers, enabled = @enabled, updated_at = @updated_at
+        ${restart ? ', last_evaluated_at = NULL, last_error = NULL' : ''}
+    WHERE rule_id = @rule_id
+  `, {
+    rule_id: ruleId,
+    name: rule.name,
+    scheme: rule.scheme,
+    trigger_type: rule.trigger.type,
+    trigger_params: triggerParams(rule.trigger),
+    districts: rule.districts.join(','),
+    subscribers: rule.subscribers.join(','),
+    enabled: rule.enabled,
+    updated_at: rule.updated_at,
+  });
+  return restart ? { ...rule, last_error: null } : rule;
+}
+
+/**
+ * Delete a rule and its match history (the alerts it raised are kept)
+ * @throws AlertRuleError if the officer may not manage the rule
+ */
+export async function deleteRule(session: Session, ruleId: string): Promise<AlertRule> {
+  const rule = await getRule(ruleId, session);
+  const dataSource = getDataSource();
+  await dataSource.execute(`
+    DELETE FROM ${dataSource.table('alert_rule_matches')}
+    WHERE rule_id = @rule_id
+  `, { rule_id: ruleId });
+  await dataSource.execute(`
+    DELETE FROM ${dataSource.table('alert_rules')}
+    WHERE rule_id = @rule_id
+  `, { rule_id: ruleId });
+  return rule;
+}
+
+// ============================================
+// Triggers
+// ============================================
+
+// The owner's jurisdiction limited to the rule's districts
+function ruleJurisdiction(rule: AlertRule, owner: Officer | undefined): Jurisdiction {
+  const jurisdiction = owner ? officerJurisdiction(owner) : NO_JURISDICTION;
+  if (rule.districts.length === 0) return jurisdiction;
+  if (jurisdiction.statewide) return { statewide: false, districts: rule.districts };
+
+  const covered = new Set(jurisdiction.districts.map((d) => d.toLowerCase()));
+  return { statewide: false, districts: rule.districts.filter((d) => covered.has(d.toLowerCase())) };
+}
+
+async function residenceDistricts(scheme: SchemeId, beneficiaryIds: string[]): Promise<Map<string, string | null>> {
+  const dataSource = getDataSource();
+  const districts = new Map<string, string | null>();
+  for (let start = 0; start < beneficiaryIds.length; start += ID_BATCH_SIZE) {
+    const batch = beneficiaryIds.slice(start, start + ID_BATCH_SIZE);
+    const rows = await dataSource.query(`
+      SELECT beneficiary_id, residence_district
+      FROM ${dataSource.table('Beneficiaries', scheme)}
+      WHERE beneficiary_id IN (${batch.map((_, i) => `@beneficiary_id${i}`).join(', ')})
+    `, Object.fromEntries(batch.map((id, i) => [`beneficiary_id${i}`, id])));
+    for (const row of rows) districts.set(row.beneficiary_id, row.residence_district || null);
+  }
+  return districts;
+}
+
+async function newHighRisk(rule: AlertRule, filter: DistrictFilter): Promise<RuleMatch[]> {
+  const dataSource = getDataSource();
+  const rows = await dataSource.query(`
+    SELECT f.beneficiary_id, f.mean_squared_error, b.residence_district
+    FROM ${filter.table('fraud_with_explanations', rule.scheme)} f
+    JOIN ${dataSource.table('Beneficiaries', rule.scheme)} b
+      ON b.beneficiary_id = f.beneficiary_id
+    WHERE f.risk_level = 'HIGH'
+  `, filter.params);
+
+  return rows.map((row) => ({
+    key: row.beneficiary_id,
+    district: row.residence_district || null,
+    beneficiary_id: row.beneficiary_id,
+    risk_score: Number(row.mean_squared_error),
+    reason: `Rule "${rule.name}": beneficiary ${row.beneficiary_id} (${row.residence_district || 'district unknown'}) is now HIGH risk`,
+  }));
+}
+
+async function dealerFlag(
+  rule: AlertRule,
+  trigger: Extract<AlertTrigger, { type: 'dealer_flag' }>,
+  filter: DistrictFilter
+): Promise<RuleMatch[]> {
+  const flag = findFlag(SCHEMES[rule.scheme], trigger.flag);
+  if (!flag) throw new Error(`Flag ${trigger.flag} is not defined for scheme ${rule.scheme}`);
+
+  const dataSource = getDataSource();
+  const rows = await dataSource.query(`
+    SELECT t.dealer_id, MAX(t.dealer_district) AS dealer_district, COUNT(DISTINCT t.beneficiary_id) AS flagged
+    FROM ${filter.table('Transactions', rule.scheme)} t
+    JOIN ${dataSource.table('fraud_with_explanations', rule.scheme)} f
+      ON f.beneficiary_id = t.beneficiary_id
+    WHERE ${flagCondition(flag, true, 'f')}
+    GROUP BY t.dealer_id
+    HAVING COUNT(DISTINCT t.beneficiary_id) > @more_than
+  `, { ...filter.params, more_than: trigger.more_than });
+
+  return rows.map((row) => ({
+    key: row.dealer_id,
+    district: row.dealer_district || null,
+    reason: `Rule "${rule.name}": ${Number(row.flagged)} beneficiaries flagged ${flag.label} transacted at dealer ` +
+      `${row.dealer_id} (${row.dealer_district || 'district unknown'}) - more than ${trigger.more_than}`,
+  }));
+}
+
+async function districtSpike(
+  rule: AlertRule,
+  trigger: Extract<AlertTrigger, { type: 'district_spike' }>,
+  filter: DistrictFilter
+): Promise<RuleMatch[]> {
+  const { baselineDays, minCount } = getConfig().spikes;
+  const dataSource = getDataSource();
+
+  const latestRows = await dataSource.query(`
+    SELECT MAX(transaction_date) AS latest
+    FROM ${dataSource.table('Transactions', rule.scheme)}
+  `);
+  const latest = toIsoDate(latestRows[0]?.latest);
+  if (!latest) return [];
+
+  // Daily anomaly counts per district, as in the temporal spikes route
+  const rows = await dataSource.query(`
+    SELECT
+      t.transaction_date AS day,
+      b.residence_district,
+      COUNT(DISTINCT t.beneficiary_id) AS anomaly_count
+    FROM ${dataSource.table('Transactions', rule.scheme)} t
+    JOIN ${dataSource.table('fraud_with_explanations', rule.scheme)} f
+    ON t.beneficiary_id = f.beneficiary_id
+    JOIN ${filter.table('Beneficiaries', rule.scheme)} b
+    ON t.beneficiary_id = b.beneficiary_id
+    WHERE f.risk_level IN ('HIGH', 'MEDIUM')
+    AND t.transaction_date BETWEEN DATE(@from) AND DATE(@to)
+    GROUP BY day, b.residence_district
+  `, { ...filter.params, from: addDays(latest, -baselineDays), to: latest });
+
+  const districtSeries = new Map<string, Map<string, number>>();
+  for (const row of rows) {
+    const day = toIsoDate(row.day);
+    if (!day) continue;
+    const district: string = row.residence_district || 'Unknown';
+    if (!districtSeries.has(district)) districtSeries.set(district, new Map());
+    districtSeries.get(district)!.set(day, Number(row.anomaly_count));
+  }
+
+  const matches: RuleMatch[] = [];
+  for (const [district, series] of districtSeries) {
+    const count = series.get(latest) || 0;
+    if (count < minCount) continue;
+    const baseline = rollingBaseline(series, latest, baselineDays);
+    const z = zScore(count, baseline);
+    if (z < trigger.sigma) continue;
+    matches.push({
+      key: `${district}:${latest}`,
+      district,
+      reason: `Rule "${rule.name}": ${count} anomalous beneficiaries in ${district} on ${latest}, ` +
+        `${z.toFixed(1)} sigma above the ${baselineDays}-day baseline of ${baseline.mean.toFixed(1)} (threshold ${trigger.sigma} sigma)`,
+    });
+  }
+  return matches;
+}
+
+async function slaOverdue(rule: AlertRule, filter: DistrictFilter): Promise<RuleMatch[]> {
+  const overdue = await getOverdueCases(SCHEMES[rule.scheme], new Date(), filter);
+  const districts = await residenceDistricts(rule.scheme, overdue.map((c) => c.beneficiary_id));
+
+  return overdue.map((c) => ({
+    key: c.beneficiary_id,
+    district: districts.get(c.beneficiary_id) ?? null,
+    beneficiary_id: c.beneficiary_id,
+    risk_score: c.risk_score,
+    reason: `Rule "${rule.name}": ${c.risk_level} risk case of beneficiary ${c.beneficiary_id} is ${c.state} ` +
+      `past its review deadline (due ${c.due_at.slice(0, 10)})`,
+  }));
+}
+
+function findMatches(rule: AlertRule, filter: DistrictFilter): Promise<RuleMatch[]> {
+  const { trigger } = rule;
+  switch (trigger.type) {
+    case 'new_high_risk':
+      return newHighRisk(rule, filter);
+    case 'dealer_flag':
+      return dealerFlag(rule, trigger, filter);
+    case 'district_spike':
+      return districtSpike(rule, trigger, filter);
+    case 'sla_overdue':
+      return slaOverdue(rule, filter);
+  }
+}
+
+// ============================================
+// Evaluation
+// ============================================
+
+/**
+ * Email addresses of the owner and subscribers who are active, have an email
+ * and cover the match's district; ALERT_RECIPIENT if nobody does, so a match
+ * is never dropped
+ */
+function recipientsFor(rule: AlertRule, match: RuleMatch, officers: Map<string, Officer>): string {
+  const emails = [rule.owner_id, ...rule.subscribers]
+    .map((id) => officers.get(id))
+    .filter((officer): officer is Officer => !!officer?.active && !!officer.email)
+    .filter((officer) => !match.district || officerJurisdiction(officer).statewide || coversDistrict(officer, match.district))
+    .map((officer) => officer.email as string);
+  return Array.from(new Set(emails)).join(',') || getConfig().mail.alertRecipient;
+}
+
+async function matchedKeys(ruleId: string): Promise<Set<string>> {
+  const dataSource = getDataSource();
+  const rows = await dataSource.query(`
+    SELECT match_key
+    FROM ${dataSource.table('alert_rule_matches')}
+    WHERE rule_id = @rule_id
+  `, { rule_id: ruleId });
+  return new Set(rows.map((row) => row.match_key));
+}
+
+// alert_id is null for matches recorded without an alert (a new_high_risk rule's first run)
+async function recordMatch(ruleId: string, key: string, alertId: string | null, now: string): Promise<void> {
+  const dataSource = getDataSource();
+  await dataSource.execute(`
+    INSERT INTO ${dataSource.table('alert_rule_matches')} (rule_id, match_key, alert_id, matched_at)
+    VALUES (@rule_id, @match_key, ${alertId ? '@alert_id' : 'NULL'}, @matched_at)
+  `, { rule_id: ruleId, match_key: key, matched_at: now, ...(alertId ? { alert_id: alertId } : {}) });
+}
+
+// A failed evaluation keeps last_evaluated_at, so a new_high_risk rule that
+// never completed one still records its baseline first
+async function saveEvaluation(ruleId: string, evaluatedAt: string, error: string | null): Promise<void> {
+  const dataSource = getDataSource();
+  if (error) {
+    await dataSource.execute(`
+      UPDATE ${dataSource.table('alert_rules')}
+      SET last_error = @error
+      WHERE rule_id = @rule_id
+    `, { rule_id: ruleId, error });
+    return;
+  }
+  await dataSource.execute(`
+    UPDATE ${dataSource.table('alert_rules')}
+    SET last_evaluated_at = @evaluated_at, last_error = NULL
+    WHERE rule_id = @rule_id
+  `, { rule_id: ruleId, evaluated_at: evaluatedAt });
+}
+
+async function evaluateRule(rule: AlertRule, officers: Map<string, Officer>): Promise<AlertRuleResult> {
+  const result: AlertRuleResult = { rule_id: rule.rule_id, name: rule.name, matches: 0, alerted: 0, deferred: 0, failed: 0, error: null };
+  const now = new Date().toISOString();
+
+  try {
+    const owner = officers.get(rule.owner_id);
+    if (!owner?.active) throw new Error(`Owner ${rule.owner_id} is inactive or not on the roster`);
+
+    const matches = await findMatches(rule, createDistrictFilter(ruleJurisdiction(rule, owner)));
+    const seen = await matchedKeys(rule.rule_id);
+    const fresh = matches.filter((match) => !seen.has(match.key));
+    result.matches = matches.length;
+
+    // "New" HIGH risk means since the rule's first successful evaluation
+    if (rule.trigger.type === 'new_high_risk' && !rule.last_evaluated_at) {
+      for (const match of fresh) await recordMatch(rule.rule_id, match.key, null, now);
+    } else {
+      result.deferred = Math.max(0, fresh.length - MAX_ALERTS_PER_RUN);
+      for (const match of fresh.slice(0, MAX_ALERTS_PER_RUN)) {
+        try {
+          const alert = await raiseAlert({
+            scheme: rule.scheme,
+            beneficiary_id: match.beneficiary_id,
+            risk_score: match.risk_score,
+            reason: match.reason,
+            recipient: recipientsFor(rule, match, officers),
+            rule_id: rule.rule_id,
+          });
+          await recordMatch(rule.rule_id, match.key, alert.alert_id, now);
+          result.alerted++;
+        } catch (error) {
+          console.error(`Alert rule ${rule.rule_id} could not alert on ${match.key}:`, errorMessage(error));
+          result.failed++;
+        }
+      }
+    }
+  } catch (error) {
+    result.error = errorMessage(error);
+    console.error(`Alert rule ${rule.rule_id} evaluation failed:`, result.error);
+  }
+
+  await saveEvaluation(rule.rule_id, now, result.error).catch((error) => {
+    console.error(`Evaluation of alert rule ${rule.rule_id} not recorded:`, errorMessage(error));
+  });
+  return result;
+}
+
+/**
+ * Evaluate a scheme's enabled rules and alert on new matches
+ * Concurrent calls for a scheme share one run.
+ * @param cause - What started the run, e.g. the batch job
+ */
+export function evaluateRules(scheme: SchemeId, cause: string): Promise<AlertRuleRun> {
+  const { runsInFlight, lastRuns } = runState();
+  let run = runsInFlight.get(scheme);
+  if (!run) {
+    run = (async () => {
+      const startedAt = new Date().toISOString();
+      const [rules, officers] = await Promise.all([listRules({ scheme, enabled: true }), listOfficers()]);
+      const byId = new Map(officers.map((officer) => [officer.officer_id, officer]));
+
+      const results: AlertRuleResult[] = [];
+      for (const rule of rules) {
+        results.push(await evaluateRule(rule, byId));
+      }
+
+      const finished: AlertRuleRun = { scheme, cause, started_at: startedAt, finished_at: new Date().toISOString(), results };
+      lastRuns.set(scheme, finished);
+      const alerted = results.reduce((sum, r) => sum + r.alerted, 0);
+      if (alerted > 0) console.log(`Alert rules (${scheme}, ${cause}): ${alerted} alert(s) raised`);
+      return finished;
+    })().finally(() => {
+      runsInFlight.delete(scheme);
+    });
+    runsInFlight.set(scheme, run);
+  }
+  return run;
+}
+
+/**
+ * Evaluate the rules of every enabled scheme, one scheme at a time
+ */
+export async function evaluateAllRules(cause: string): Promise<AlertRuleRun[]> {
+  const runs: AlertRuleRun[] = [];
+  for (const scheme of getEnabledSchemes()) {
+    runs.push(await evaluateRules(scheme.id, cause));
+  }
+  return runs;
+}
+
+// Latest run of each scheme since the server started
+export function getRuleRuns(): AlertRuleRun[] {
+  return Array.from(runState().lastRuns.values());
+}
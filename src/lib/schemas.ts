@@ -0,0 +1,385 @@
+// Request schemas
+// The query parameters and JSON bodies every API route accepts, declared once
+// with zod. Routes parse requests through lib/validation.ts; client fetchers
+// build their requests from the input types below, so the two cannot drift.
+//
+// The enum values the API accepts (schemes, roles, case actions and states,
+// ...) are defined here and imported by the server modules that use them.
+//
+// Shared with the browser - import nothing server-side here.
+
+import { z } from 'zod';
+
+// ============================================
+// Values accepted by the API
+// ============================================
+
+export const SCHEME_IDS = ['lpg', 'pds', 'fertilizer', 'pension'] as const;
+export const RISK_LEVELS = ['HIGH', 'MEDIUM', 'LOW'] as const;
+export const LANGUAGES = ['en', 'hi', 'hinglish'] as const;
+export const DATE_BUCKETS = ['day', 'week', 'month'] as const;
+export const ROLES = ['viewer', 'field_auditor', 'district_supervisor', 'state_admin'] as const;
+export const ASSIGNMENT_STRATEGIES = ['manual', 'round_robin', 'least_loaded'] as const;
+export const ACCESS_OUTCOMES = ['DENIED', 'VIEWED', 'SEARCHED', 'EXPORTED', 'REIDENTIFIED', 'ANOMALY'] as const;
+// Email delivery of an alert (LOGGED = raised before delivery existed)
+export const DELIVERY_STATUSES = ['SENDING', 'SENT', 'QUEUED', 'FAILED', 'LOGGED'] as const;
+// What an alert is about: a beneficiary at risk, an alert rule match, or an
+// officer viewing unusually many records
+export const ALERT_KINDS = ['RISK', 'RULE', 'ACCESS_ANOMALY'] as const;
+// What an alert rule watches for (see lib/rules.ts)
+export const ALERT_TRIGGERS = ['new_high_risk', 'dealer_flag', 'district_spike', 'sla_overdue'] as const;
+
+// Officer actions that move a case through its lifecycle (see lib/cases.ts)
+export const CASE_ACTIONS = [
+  'ASSIGNED',
+  'REVIEW_STARTED',
+  'FIELD_VERIFICATION_REQUESTED',
+  'ESCALATED',
+  'CONFIRMED',
+  'CLEARED',
+  'NOTE_ADDED',
+] as const;
+
+export const CASE_STATES = [
+  'OPEN',
+  'ASSIGNED',
+  'UNDER_REVIEW',
+  'FIELD_VERIFICATION',
+  'ESCALATED',
+  'CLOSED',
+] as const;
+
+export const MIN_PASSWORD_LENGTH = 8;
+export const MAX_NOTES_LENGTH = 2000;
+export const MAX_RULE_SUBSCRIBERS = 50;
+
+// ============================================
+// Building blocks
+// ============================================
+
+// Query values arrive as strings; case-insensitive enums are normalized first
+function oneOf<const T extends readonly [string, ...string[]]>(values: T, normalize: (value: string) => string = (v) => v) {
+  return z
+    .string()
+    .trim()
+    .transform(normalize)
+    .pipe(z.enum(values, { error: `must be one of: ${values.join(', ')}` }));
+}
+
+const upper = (value: string) => value.toUpperCase();
+const lower = (value: string) => value.toLowerCase();
+
+const text = (max: number) =>
+  z.string().trim().max(max, { error: `must be at most ${max} characters` });
+
+const requiredText = (max: number) =>
+  z.string({ error: 'is required' }).trim().min(1, { error: 'is required' }).max(max, { error: `must be at most ${max} characters` });
+
+// null = the default scheme, as clients send it before one is selected
+const scheme = oneOf(SCHEME_IDS, lower).nullish();
+
+const isoDate = z.iso.date({ error: 'must be a valid date (YYYY-MM-DD)' });
+
+// Date or full timestamp; a bare date is kept as is so the route can widen `to` to the end of that day
+const isoTimestamp = z.union([isoDate, z.iso.datetime({ offset: true })], {
+  error: 'must be a valid date or timestamp',
+});
+
+function wholeNumber(min: number, max: number) {
+  const error = `must be a whole number from ${min} to ${max}`;
+  return z.coerce.number({ error }).int({ error }).min(min, { error }).max(max, { error });
+}
+
+const limit = (fallback: number, max: number) => wholeNumber(1, max).default(fallback);
+
+const finiteNumber = z.coerce.number({ error: 'must be a number' });
+
+/** true / false (also 1 / 0, yes / no) - used for the flag_<id> filters */
+export const booleanParam = oneOf(['true', '1', 'yes', 'false', '0', 'no'], lower)
+  .transform((value) => ['true', '1', 'yes'].includes(value));
+
+// Comma-separated list in one parameter, trimmed and de-duplicated
+function commaList(max: number, label: string) {
+  return z
+    .string()
+    .transform((value) => Array.from(new Set(value.split(',').map((item) => item.trim()).filter(Boolean))))
+    .pipe(z.array(z.string()).max(max, { error: `at most ${max} ${label} per request` }));
+}
+
+// Districts are stored comma-separated, so a name must not contain one
+const districtName = z.string().trim().min(1).refine((district) => !district.includes(','), { error: 'must not contain commas' });
+
+// Array in a JSON body, trimmed and de-duplicated
+function idArray(max: number, label: string) {
+  return z
+    .array(z.string().trim(), { error: `must be a non-empty array of ${label}` })
+    .transform((ids) => Array.from(new Set(ids.filter(Boolean))))
+    .pipe(z.array(z.string())
+      .min(1, { error: `must be a non-empty array of ${label}` })
+      .max(max, { error: `at most ${max} ${label} per request` }));
+}
+
+// ============================================
+// Query parameters
+// ============================================
+
+/** ?scheme= only - dashboard, heatmap, alert candidates, queues, SLA report */
+export const schemeQuery = z.object({ scheme });
+
+export const beneficiaryDetailQuery = z.object({
+  scheme,
+  lang: oneOf(LANGUAGES, lower).default('en'),
+});
+
+/** flag_<id>=true|false filters are per scheme and checked by the route */
+export const highRiskQuery = z.looseObject({
+  scheme,
+  limit: limit(50, 200),
+  risk_level: z
+    .string()
+    .transform((value) => value.split(',').map((level) => level.trim().toUpperCase()))
+    .pipe(z.array(z.enum(RISK_LEVELS, { error: `must be one or more of: ${RISK_LEVELS.join(', ')}` })))
+    .optional(),
+  district: text(100).optional(),
+  min_score: finiteNumber.optional(),
+  max_score: finiteNumber.optional(),
+  sort: text(200).optional(),
+  cursor: text(2000).optional(),
+});
+
+export const searchQuery = z.looseObject({
+  scheme,
+  limit: limit(10, 50),
+  q: text(64).transform(upper).optional(),
+  match: oneOf(['exact', 'prefix'], lower).default('prefix'),
+  district: text(100).optional(),
+});
+
+export const timeSeriesQuery = z.object({
+  scheme,
+  bucket: oneOf(DATE_BUCKETS, lower).default('day'),
+  flag: text(64).transform(lower).optional(),
+  district: text(100).optional(),
+  from: isoDate.optional(),
+  to: isoDate.optional(),
+  days: limit(30, 1827),          // Trailing window for clients that send no `from`
+});
+
+export const temporalSpikesQuery = z.object({
+  scheme,
+  scope: oneOf(['all', 'state', 'district'], lower).default('all'),
+  window: wholeNumber(7, 90).optional(),     // Baseline days (default SPIKE_BASELINE_DAYS)
+  limit: limit(20, 100),
+  district: text(100).optional(),
+  from: isoDate.optional(),
+  to: isoDate.optional(),
+});
+
+export const casesQuery = z.object({
+  scheme,
+  limit: limit(100, 500),
+  beneficiary_id: commaList(200, 'beneficiary IDs').optional(),
+  state: oneOf(CASE_STATES, upper).optional(),
+});
+
+export const auditTrailQuery = z.object({
+  scheme,
+  beneficiary_id: text(64).optional(),
+  limit: limit(50, 200),
+});
+
+export const auditExportQuery = z.object({
+  scheme,
+  identifiers: oneOf(['pseudonym', 'beneficiary_id'], lower).default('pseudonym'),
+  risk_level: oneOf(RISK_LEVELS, upper).optional(),
+  district: text(100).optional(),
+  format: oneOf(['json', 'csv'], lower).default('json'),
+  limit: limit(500, 5000),
+});
+
+export const auditVerifyQuery = z.object({
+  head: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .regex(/^[0-9a-f]{64}$/, { error: 'must be a 64-character hex SHA-256 hash' })
+    .optional(),
+});
+
+export const accessLogQuery = z.object({
+  officer_id: text(64).optional(),
+  beneficiary_id: text(64).optional(),
+  outcome: oneOf(ACCESS_OUTCOMES, upper).optional(),
+  from: isoTimestamp.optional(),
+  to: isoTimestamp.optional(),
+  limit: limit(100, 1000),
+});
+
+export const batchJobQuery = z.object({
+  job_id: text(100).optional(),
+});
+
+// ============================================
+// JSON bodies
+// ============================================
+
+export const loginBody = z.object({
+  officer_id: requiredText(64),
+  password: z.string({ error: 'is required' }).min(1, { error: 'is required' }),
+});
+
+export const officerBody = z.object({
+  officer_id: requiredText(64),
+  officer_name: requiredText(200),
+  email: z.union([z.literal(''), z.email({ error: 'must be an email address' })]).optional(),
+  districts: z.array(districtName, { error: 'must be an array of district names' }),
+  statewide: z.boolean({ error: 'must be true or false' }).optional(),
+  role: z.enum(ROLES, { error: `must be one of: ${ROLES.join(', ')}` }).optional(),
+  active: z.boolean({ error: 'must be true or false' }).optional(),
+  password: z.string().min(MIN_PASSWORD_LENGTH, { error: `must be at least ${MIN_PASSWORD_LENGTH} characters` }).optional(),
+});
+
+// ASSIGNED is only accepted by POST /api/cases/assign, which checks districts
+const caseAction = z
+  .enum(CASE_ACTIONS, { error: `must be one of: ${CASE_ACTIONS.join(', ')}` })
+  .refine((action) => action !== 'ASSIGNED', { error: 'Cases are assigned with POST /api/cases/assign' });
+
+/** POST /api/cases/[beneficiary_id] - acting officer comes from the session */
+export const caseTransitionBody = z.object({
+  action: caseAction,
+  notes: text(MAX_NOTES_LENGTH).optional(),
+  scheme,
+});
+
+/** POST /api/audit - the older form of a case transition */
+export const auditEntryBody = caseTransitionBody.extend({
+  beneficiary_id: requiredText(64),
+});
+
+export const assignBody = z
+  .object({
+    scheme,
+    beneficiary_ids: idArray(200, 'beneficiary IDs'),
+    strategy: z.enum(ASSIGNMENT_STRATEGIES, { error: `must be one of: ${ASSIGNMENT_STRATEGIES.join(', ')}` }),
+    officer_id: text(64).optional(),
+    notes: text(MAX_NOTES_LENGTH).optional(),
+  })
+  .refine((body) => body.strategy !== 'manual' || body.officer_id, {
+    path: ['officer_id'],
+    error: 'is required for manual assignment',
+  });
+
+export const reidentifyBody = z.object({
+  export_id: requiredText(64),
+  tokens: z
+    .array(z.string().trim().toUpperCase(), { error: 'must be a non-empty array' })
+    .transform((tokens) => Array.from(new Set(tokens.filter(Boolean))))
+    .pipe(z.array(z.string()).min(1, { error: 'must be a non-empty array' }).max(50, { error: 'at most 50 tokens per request' })),
+  reason: z
+    .string({ error: 'is required' })
+    .trim()
+    .min(10, { error: 'must explain why re-identification is needed (at least 10 characters)' })
+    .max(MAX_NOTES_LENGTH),
+});
+
+export const alertBody = z.object({
+  beneficiary_id: requiredText(64),
+  risk_score: z.number({ error: 'must be a number' }),
+  reason: text(1000).default(''),
+  scheme,
+});
+
+export const alertListQuery = z.object({
+  status: oneOf(DELIVERY_STATUSES, upper).optional(),
+  kind: oneOf(ALERT_KINDS, upper).optional(),
+  limit: limit(50, 500),
+});
+
+export const alertRuleQuery = z.object({
+  scheme: oneOf(SCHEME_IDS, lower).optional(),   // Unset = rules of every scheme
+});
+
+const alertTrigger = z.discriminatedUnion('type', [
+  // A beneficiary turns HIGH risk
+  z.object({ type: z.literal('new_high_risk') }),
+  // More than `more_than` beneficiaries with a rule flag transact at one dealer
+  z.object({
+    type: z.literal('dealer_flag'),
+    flag: requiredText(64).transform(lower),
+    more_than: wholeNumber(0, 100_000),
+  }),
+  // A district's daily anomaly count `sigma` standard deviations above its baseline
+  z.object({
+    type: z.literal('district_spike'),
+    sigma: z.number({ error: 'must be a number' }).min(1, { error: 'must be from 1 to 10' }).max(10, { error: 'must be from 1 to 10' }).default(2),
+  }),
+  // An unreviewed case passes its review deadline (see lib/sla.ts)
+  z.object({ type: z.literal('sla_overdue') }),
+], { error: `type must be one of: ${ALERT_TRIGGERS.join(', ')}` });
+
+/** POST /api/alerts/rules and PUT /api/alerts/rules/[rule_id] - the owner comes from the session */
+export const alertRuleBody = z.object({
+  name: requiredText(200),
+  scheme,
+  trigger: alertTrigger,
+  districts: z
+    .array(districtName, { error: 'must be an array of district names' })
+    .transform((districts) => Array.from(new Set(districts)))
+    .default([]),                 // Empty = the owner's whole jurisdiction
+  subscribers: z
+    .array(requiredText(64), { error: 'must be an array of officer IDs' })
+    .transform((ids) => Array.from(new Set(ids)))
+    .pipe(z.array(z.string()).max(MAX_RULE_SUBSCRIBERS, { error: `at most ${MAX_RULE_SUBSCRIBERS} subscribers` }))
+    .default([]),                 // Officer IDs besides the owner
+  enabled: z.boolean({ error: 'must be true or false' }).default(true),
+});
+
+export const batchRefreshBody = z.object({
+  scheme,
+  job_type: z
+    .string()
+    .trim()
+    .regex(/^[A-Z_]{1,64}$/, { error: 'must be an upper-case job type, e.g. FULL_REFRESH' })
+    .default('FULL_REFRESH'),
+});
+
+// ============================================
+// Types for client fetchers (what a request may send)
+// ============================================
+
+export type SchemeQuery = z.input<typeof schemeQuery>;
+export type BeneficiaryDetailQuery = z.input<typeof beneficiaryDetailQuery>;
+export type HighRiskQuery = z.input<typeof highRiskQuery>;
+export type SearchQuery = z.input<typeof searchQuery>;
+export type TimeSeriesQuery = z.input<typeof timeSeriesQuery>;
+export type TemporalSpikesQuery = z.input<typeof temporalSpikesQuery>;
+export type CasesQuery = z.input<typeof casesQuery>;
+export type AuditTrailQuery = z.input<typeof auditTrailQuery>;
+export type AuditExportQuery = z.input<typeof auditExportQuery>;
+export type AuditVerifyQuery = z.input<typeof auditVerifyQuery>;
+export type AccessLogQuery = z.input<typeof accessLogQuery>;
+export type BatchJobQuery = z.input<typeof batchJobQuery>;
+export type LoginBody = z.input<typeof loginBody>;
+export type OfficerBody = z.input<typeof officerBody>;
+export type CaseTransitionBody = z.input<typeof caseTransitionBody>;
+export type AuditEntryBody = z.input<typeof auditEntryBody>;
+export type AssignBody = z.input<typeof assignBody>;
+export type ReidentifyBody = z.input<typeof reidentifyBody>;
+export type AlertBody = z.input<typeof alertBody>;
+export type AlertListQuery = z.input<typeof alertListQuery>;
+export type AlertRuleQuery = z.input<typeof alertRuleQuery>;
+export type AlertRuleBody = z.input<typeof alertRuleBody>;
+export type AlertTrigger = z.output<typeof alertTrigger>;
+export type BatchRefreshBody = z.input<typeof batchRefreshBody>;
+
+/**
+ * Query string for a typed query object (empty values are left out)
+ */
+export function toSearchParams(query: object): URLSearchParams {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value === undefined || value === null || value === '') continue;
+    params.set(key, String(value));
+  }
+  return params;
+}
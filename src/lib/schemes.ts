@@ -0,0 +1,97 @@
+// Welfare schemes monitored by JanAvlokan
+// Every scheme has its own copy of fraud_with_explanations, Beneficiaries and
+// Transactions with the same layout - only the rule flag columns and the
+// wording of the reasons differ. Flags live in the registry in lib/flags.ts;
+// table names come from lib/config.ts.
+//
+// Routes take ?scheme=<id>; without it the configured default scheme is used.
+
+import { getConfig } from '@/lib/config';
+import { FLAG_REGISTRY, type FlagDefinition } from '@/lib/flags';
+import type { SupportedLanguage } from '@/lib/gemini';
+import type { SCHEME_IDS } from '@/lib/schemas';
+
+export type SchemeId = (typeof SCHEME_IDS)[number];
+
+export interface SchemeDefinition {
+  id: SchemeId;
+  name: string;
+  shortName: string;
+  flags: FlagDefinition[];
+  normalReason: Record<SupportedLanguage, string>;  // Shown when no flag is raised
+}
+
+export const SCHEMES: Record<SchemeId, SchemeDefinition> = {
+  lpg: {
+    id: 'lpg',
+    name: 'LPG Subsidy (PAHAL)',
+    shortName: 'LPG',
+    flags: FLAG_REGISTRY.lpg,
+    normalReason: {
+      en: 'Refill behavior aligns with historical and regional norms',
+      hi: 'रिफिल व्यवहार ऐतिहासिक और क्षेत्रीय मानकों के अनुरूप है',
+      hinglish: 'Refill behavior historical aur regional norms ke according hai',
+    },
+  },
+
+  pds: {
+    id: 'pds',
+    name: 'Public Distribution System (Ration)',
+    shortName: 'PDS',
+    flags: FLAG_REGISTRY.pds,
+    normalReason: {
+      en: 'Ration lifting aligns with entitlement and regional norms',
+      hi: 'राशन उठान पात्रता और क्षेत्रीय मानकों के अनुरूप है',
+      hinglish: 'Ration lifting entitlement aur regional norms ke according hai',
+    },
+  },
+
+  fertilizer: {
+    id: 'fertilizer',
+    name: 'Fertilizer Subsidy',
+    shortName: 'Fertilizer',
+    flags: FLAG_REGISTRY.fertilizer,
+    normalReason: {
+      en: 'Purchase pattern aligns with landholding and seasonal norms',
+      hi: 'खरीद पैटर्न भूमि और मौसमी मानकों के अनुरूप है',
+      hinglish: 'Kharidari pattern landholding aur seasonal norms ke according hai',
+    },
+  },
+
+  pension: {
+    id: 'pension',
+    name: 'Social Security Pension',
+    shortName: 'Pension',
+    flags: FLAG_REGISTRY.pension,
+    normalReason: {
+      en: 'Disbursement pattern aligns with scheme rules',
+      hi: 'वितरण पैटर्न योजना नियमों के अनुरूप है',
+      hinglish: 'Disbursement pattern scheme rules ke according hai',
+    },
+  },
+};
+
+export class SchemeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SchemeError';
+  }
+}
+
+// Schemes this deployment serves, in configured order
+export function getEnabledSchemes(): SchemeDefinition[] {
+  return getConfig().schemes.enabled.map((id) => SCHEMES[id]);
+}
+
+/**
+ * Resolve the ?scheme= parameter of a request
+ * @throws SchemeError if the scheme is unknown or not enabled
+ */
+export function resolveScheme(value: string | null | undefined): SchemeDefinition {
+  const { enabled, default: defaultScheme } = getConfig().schemes;
+  const id = (value?.trim().toLowerCase() || defaultScheme) as SchemeId;
+  if (!enabled.includes(id)) {
+    throw new SchemeError(`Unknown or disabled scheme '${id}' (available: ${enabled.join(', ')})`);
+  }
+  return SCHEMES[id];
+}
@@ -0,0 +1,42 @@
+import * as alerts from '@/lib/alerts';
+import { readAuditHistory } from '@/lib/audit';
+import { getDataSource } from '@/lib/datasource';
+import { SCHEMES } from '@/lib/schemes';
+import { runSlaCheck } from '@/lib/sla';
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/lib/alerts', async (importOriginal) => {
+  const original = await importOriginal<typeof alerts>();
+  return { ...original, raiseAlert: vi.fn(original.raiseAlert) };
+});
+
+const LONG_AGO = '2020-01-01T00:00:00.000Z';
+
+describe('SLA escalation', () => {
+  it('writes one SLA_BREACHED entry per breach, even if the alert fails', async () => {
+    const dataSource = getDataSource();
+    // Start every clock long ago so the flagged cases are overdue
+    await runSlaCheck();
+    await dataSource.execute(`
+      UPDATE ${dataSource.table('case_sla')}
+      SET flagged_at = @flagged_at, breached_at = NULL, escalation_alert_id = NULL
+      WHERE scheme = 'lpg'
+    `, { flagged_at: LONG_AGO });
+    const [tracked] = await dataSource.query(`SELECT COUNT(*) AS n FROM ${dataSource.table('case_sla')} WHERE scheme = 'lpg'`);
+    expect(Number(tracked.n)).toBeGreaterThan(0);
+
+    vi.mocked(alerts.raiseAlert).mockRejectedValue(new Error('alerts table unavailable'));
+    const [failedRun] = await runSlaCheck();
+    expect(failedRun).toMatchObject({ scheme: 'lpg', escalated: 0 });
+    expect(failedRun.overdue).toBeGreaterThan(0);
+    expect(failedRun.failed).toBe(failedRun.overdue);
+
+    vi.mocked(alerts.raiseAlert).mockReset();
+    const [secondRun] = await runSlaCheck();
+    expect(secondRun).toMatchObject({ escalated: 0, failed: 0 });
+
+    const breaches = (await readAuditHistory(SCHEMES.lpg.id)).filter((entry) => entry.action === 'SLA_BREACHED');
+    expect(breaches).toHaveLength(failedRun.overdue);
+    expect(new Set(breaches.map((entry) => entry.beneficiary_id)).size).toBe(breaches.length);
+  });
+});
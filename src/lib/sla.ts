@@ -0,0 +1,284 @@
+// Review SLAs
+// A case flagged at a risk level with an SLA (HIGH, MEDIUM) must be reviewed -
+// moved past ASSIGNED in its lifecycle - within the configured number of days.
+//
+// fraud_with_explanations has no timestamp, so the clock starts when the
+// checker first sees the beneficiary at an SLA risk level (case_sla.flagged_at).
+// The deadline follows the current risk level, so a MEDIUM case that turns
+// HIGH gets the shorter HIGH deadline from the same start.
+//
+// The background checker (started from instrumentation.ts) records newly
+// flagged cases and escalates each overdue case once: it claims the breach
+// (case_sla.breached_at), then writes an SLA_BREACHED audit entry and raises an
+// alert to the supervisors. Claiming first means a failure further on can never
+// append a second SLA_BREACHED entry to the hash-chained trail.
+//
+// Server-side only.
+
+import { raiseAlert } from '@/lib/alerts';
+import { recordAuditEntry } from '@/lib/audit';
+import { loadCases, type CaseState } from '@/lib/cases';
+import { getConfig } from '@/lib/config';
+import { getDataSource } from '@/lib/datasource';
+import type { DistrictFilter } from '@/lib/jurisdiction';
+import { getEnabledSchemes, type SchemeDefinition } from '@/lib/schemes';
+import { v4 as uuidv4 } from 'uuid';
+
+export type SlaRiskLevel = 'HIGH' | 'MEDIUM';
+
+const SLA_RISK_LEVELS: readonly SlaRiskLevel[] = ['HIGH', 'MEDIUM'] as const;
+
+// States in which a case still counts as unreviewed
+const UNREVIEWED_STATES: readonly CaseState[] = ['OPEN', 'ASSIGNED'] as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface OverdueCase {
+  beneficiary_id: string;
+  risk_level: SlaRiskLevel;
+  risk_score: number;
+  state: CaseState;
+  flagged_at: string;
+  due_at: string;
+  breached_at: string | null;   // Set once the checker has escalated it
+}
+
+export interface SlaCheckResult {
+  scheme: string;
+  overdue: number;
+  escalated: number;            // Newly escalated in this run
+  failed: number;               // Escalations that could not be written (retried next run)
+}
+
+export interface SlaCheckerStatus {
+  enabled: boolean;
+  interval_ms: number;
+  review_days: Record<SlaRiskLevel, number>;
+  last_run_at: string | null;
+  last_error: string | null;
+  last_results: SlaCheckResult[];
+}
+
+interface CheckerState {
+  lastRunAt: string | null;
+  lastError: string | null;
+  lastResults: SlaCheckResult[];
+  checkInFlight: Promise<SlaCheckResult[]> | null;
+  checkTimer: ReturnType<typeof setInterval> | null;
+}
+
+// The checker is started from instrumentation, which Next.js loads as a separate
+// module instance from the routes - keep its state per process so
+// /api/admin/sla reports (and shares) the same runs
+const shared = globalThis as typeof globalThis & { __janavlokanSlaChecker?: CheckerState };
+
+function checkerState(): CheckerState {
+  shared.__janavlokanSlaChecker ??= {
+    lastRunAt: null,
+    lastError: null,
+    lastResults: [],
+    checkInFlight: null,
+    checkTimer: null,
+  };
+  return shared.__janavlokanSlaChecker;
+}
+
+function toIso(value: unknown): string {
+  const raw = (value as { value?: string } | null)?.value ?? value;
+  return new Date(String(raw)).toISOString();
+}
+
+// Start the clock for beneficiaries newly at an SLA risk level (set-based, one statement)
+async function trackFlaggedCases(scheme: SchemeDefinition, now: string): Promise<void> {
+  const dataSource = getDataSource();
+  await dataSource.execute(`
+    INSERT INTO ${dataSource.table('case_sla')} (scheme, beneficiary_id, flagged_at)
+    SELECT @scheme, f.beneficiary_id, @now
+    FROM ${dataSource.table('fraud_with_explanations', scheme.id)} f
+    WHERE f.risk_level IN ('HIGH', 'MEDIUM')
+      AND NOT EXISTS (
+        SELECT 1
+        FROM ${dataSource.table('case_sla')} s
+        WHERE s.scheme = @scheme AND s.beneficiary_id = f.beneficiary_id
+      )
+  `, { scheme: scheme.id, now });
+}
+
+/**
+ * Unreviewed cases past their review deadline, longest overdue first
+ * (includes ones the checker has not escalated yet)
+ * @param scope - Only count the officer's districts (the checker passes none)
+ */
+export async function getOverdueCases(scheme: SchemeDefinition, now = new Date(), scope?: DistrictFilter): Promise<OverdueCase[]> {
+  const { reviewDays } = getConfig().sla;
+  const dataSource = getDataSource();
+  const cutoffs = Object.fromEntries(
+    SLA_RISK_LEVELS.map((level) => [`cutoff_${level}`, new Date(now.getTime() - reviewDays[level] * DAY_MS).toISOString()])
+  );
+
+  const rows = await dataSource.query(`
+    SELECT s.beneficiary_id, s.flagged_at, s.breached_at, f.risk_level, f.mean_squared_error
+    FROM ${dataSource.table('case_sla')} s
+    JOIN ${(scope ?? dataSource).table('fraud_with_explanations', scheme.id)} f
+      ON f.beneficiary_id = s.beneficiary_id
+    WHERE s.scheme = @scheme
+      AND (${SLA_RISK_LEVELS.map((level) => `(f.risk_level = '${level}' AND s.flagged_at < @cutoff_${level})`).join(' OR ')})
+  `, { ...scope?.params, scheme: scheme.id, ...cutoffs });
+  // Only the overdue cases' histories are replayed, not the whole scheme's
+  const cases = await loadCases(scheme.id, rows.map((row) => row.beneficiary_id));
+
+  return rows
+    .map((row) => {
+      const level = row.risk_level as SlaRiskLevel;
+      const flaggedAt = toIso(row.flagged_at);
+      return {
+        beneficiary_id: row.beneficiary_id,
+        risk_level: level,
+        risk_score: Number(row.mean_squared_error),
+        state: cases.get(row.beneficiary_id)?.state ?? 'OPEN',
+        flagged_at: flaggedAt,
+        due_at: new Date(new Date(flaggedAt).getTime() + reviewDays[level] * DAY_MS).toISOString(),
+        breached_at: row.breached_at ? toIso(row.breached_at) : null,
+      };
+    })
+    .filter((c) => UNREVIEWED_STATES.includes(c.state))
+    .sort((a, b) => a.due_at.localeCompare(b.due_at));
+}
+
+/**
+ * Claim the breach, then write the audit entry and raise the alert
+ * escalation_alert_id holds the claim until the alert's ID replaces it.
+ * @returns false if the breach was already claimed (by another run or instance)
+ */
+async function escalate(scheme: SchemeDefinition, overdue: OverdueCase, now: string): Promise<boolean> {
+  const { reviewDays, escalationRecipient } = getConfig().sla;
+  const reason = `${overdue.risk_level} risk case not reviewed within ${reviewDays[overdue.risk_level]} days ` +
+    `(flagged ${overdue.flagged_at.slice(0, 10)}, due ${overdue.due_at.slice(0, 10)}) - escalated to supervisors`;
+
+  const dataSource = getDataSource();
+  const claim = uuidv4();
+  const key = { scheme: scheme.id, beneficiary_id: overdue.beneficiary_id };
+  await dataSource.execute(`
+    UPDATE ${dataSource.table('case_sla')}
+    SET breached_at = @breached_at, escalation_alert_id = @claim
+    WHERE scheme = @scheme AND beneficiary_id = @beneficiary_id AND breached_at IS NULL
+  `, { ...key, breached_at: now, claim });
+  const [claimed] = await dataSource.query(`
+    SELECT escalation_alert_id
+    FROM ${dataSource.table('case_sla')}
+    WHERE scheme = @scheme AND beneficiary_id = @beneficiary_id
+  `, key);
+  if (claimed?.escalation_alert_id !== claim) return false;
+
+  try {
+    await recordAuditEntry({
+      audit_id: uuidv4(),
+      beneficiary_id: overdue.beneficiary_id,
+      scheme: scheme.id,
+      action: 'SLA_BREACHED',
+      officer_id: 'SYSTEM',
+      officer_name: 'SLA Monitor',
+      notes: reason,
+      previous_status: overdue.risk_level,
+      new_status: overdue.risk_level,
+      created_at: now,
+    });
+  } catch (error) {
+    // Nothing reached the trail - release the claim so the next run retries
+    await dataSource.execute(`
+      UPDATE ${dataSource.table('case_sla')}
+      SET breached_at = NULL, escalation_alert_id = NULL
+      WHERE scheme = @scheme AND beneficiary_id = @beneficiary_id AND escalation_alert_id = @claim
+    `, { ...key, claim }).catch((releaseError) => console.error('SLA breach claim not released:', releaseError));
+    throw error;
+  }
+
+  const alert = await raiseAlert({
+    scheme: scheme.id,
+    beneficiary_id: overdue.beneficiary_id,
+    risk_score: overdue.risk_score,
+    reason,
+    recipient: escalationRecipient,
+  });
+
+  await dataSource.execute(`
+    UPDATE ${dataSource.table('case_sla')}
+    SET escalation_alert_id = @alert_id
+    WHERE scheme = @scheme AND beneficiary_id = @beneficiary_id AND escalation_alert_id = @claim
+  `, { ...key, alert_id: alert.alert_id, claim });
+  return true;
+}
+
+async function checkScheme(scheme: SchemeDefinition): Promise<SlaCheckResult> {
+  const now = new Date();
+  await trackFlaggedCases(scheme, now.toISOString());
+
+  const overdue = await getOverdueCases(scheme, now);
+  const result: SlaCheckResult = { scheme: scheme.id, overdue: overdue.length, escalated: 0, failed: 0 };
+
+  for (const c of overdue.filter((o) => !o.breached_at)) {
+    try {
+      if (await escalate(scheme, c, now.toISOString())) result.escalated++;
+    } catch (error) {
+      console.error(`SLA escalation failed for ${scheme.id}/${c.beneficiary_id}:`, error instanceof Error ? error.message : error);
+      result.failed++;
+    }
+  }
+  return result;
+}
+
+/**
+ * Check every enabled scheme for SLA breaches and escalate new ones
+ * Concurrent calls share one run.
+ */
+export function runSlaCheck(): Promise<SlaCheckResult[]> {
+  const state = checkerState();
+  if (!state.checkInFlight) {
+    state.checkInFlight = (async () => {
+      try {
+        const results: SlaCheckResult[] = [];
+        for (const scheme of getEnabledSchemes()) {
+          results.push(await checkScheme(scheme));
+        }
+        state.lastResults = results;
+        state.lastError = null;
+        const escalated = results.reduce((sum, r) => sum + r.escalated, 0);
+        if (escalated > 0) console.log(`SLA check: ${escalated} case(s) escalated`);
+        return results;
+      } catch (error) {
+        state.lastError = error instanceof Error ? error.message : String(error);
+        throw error;
+      } finally {
+        state.lastRunAt = new Date().toISOString();
+        state.checkInFlight = null;
+      }
+    })();
+  }
+  return state.checkInFlight;
+}
+
+// Run now and then on the configured interval (no-op if disabled or already running)
+export function startSlaChecker(): void {
+  const { checkerEnabled, checkIntervalMs } = getConfig().sla;
+  const state = checkerState();
+  if (!checkerEnabled || state.checkTimer) return;
+
+  const run = () => runSlaCheck().catch((error) => console.error('SLA check failed:', error));
+  state.checkTimer = setInterval(run, checkIntervalMs);
+  // Never keep the process alive just for the checker
+  state.checkTimer.unref?.();
+  run();
+}
+
+export function getSlaCheckerStatus(): SlaCheckerStatus {
+  const { checkerEnabled, checkIntervalMs, reviewDays } = getConfig().sla;
+  const { lastRunAt, lastError, lastResults } = checkerState();
+  return {
+    enabled: checkerEnabled,
+    interval_ms: checkIntervalMs,
+    review_days: reviewDays,
+    last_run_at: lastRunAt,
+    last_error: lastError,
+    last_results: lastResults,
+  };
+}
@@ -0,0 +1,79 @@
+// Request validation
+// Routes read their query parameters and JSON bodies through parseQuery /
+// parseBody with a schema from lib/schemas.ts. Anything that does not match
+// throws ValidationError, which routes answer with 400, code VALIDATION_FAILED
+// and one entry per field (see errorResponse in lib/responses.ts).
+//
+// Server-side only.
+
+import type { FieldError } from '@/lib/api';
+import type { NextRequest } from 'next/server';
+import { z } from 'zod';
+
+// The request does not match its schema
+export class ValidationError extends Error {
+  readonly fields: FieldError[];
+
+  constructor(fields: FieldError[]) {
+    super(fields.map((f) => `${f.field}: ${f.message}`).join('; '));
+    this.name = 'ValidationError';
+    this.fields = fields;
+  }
+}
+
+function toFieldErrors(error: z.ZodError, root: string): FieldError[] {
+  return error.issues.map((issue) => ({
+    field: issue.path.length > 0 ? issue.path.map(String).join('.') : root,
+    code: issue.code,
+    message: issue.message,
+  }));
+}
+
+/**
+ * Parse the query string; empty parameters count as absent
+ * @throws ValidationError listing every invalid parameter
+ */
+export function parseQuery<S extends z.ZodType>(request: NextRequest, schema: S): z.output<S> {
+  const query: Record<string, string> = {};
+  request.nextUrl.searchParams.forEach((value, key) => {
+    if (value.trim() !== '') query[key] = value;
+  });
+  const result = schema.safeParse(query);
+  if (!result.success) throw new ValidationError(toFieldErrors(result.error, 'query'));
+  return result.data;
+}
+
+/**
+ * Parse the JSON body
+ * @throws ValidationError if the body is not JSON or lists every invalid field
+ */
+export async function parseBody<S extends z.ZodType>(request: NextRequest, schema: S): Promise<z.output<S>> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    throw new ValidationError([{ field: 'body', code: 'invalid_json', message: 'must be a JSON object' }]);
+  }
+  const result = schema.safeParse(body);
+  if (!result.success) throw new ValidationError(toFieldErrors(result.error, 'body'));
+  return result.data;
+}
+
+/**
+ * Check one value the schema could not know about (e.g. a scheme's flag filters)
+ * @throws ValidationError for that field
+ */
+export function parseField<S extends z.ZodType>(field: string, value: unknown, schema: S): z.output<S> {
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    throw new ValidationError(toFieldErrors(result.error, field).map((f) => ({ ...f, field })));
+  }
+  return result.data;
+}
+
+/**
+ * A field that is well-formed but not acceptable for this request
+ */
+export function invalidField(field: string, message: string): ValidationError {
+  return new ValidationError([{ field, code: 'custom', message }]);
+}
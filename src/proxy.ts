@@ -0,0 +1,48 @@
+// Request gate
+// Every API route needs a signed-in officer except the public ones (sign-in,
+// the scheme list and the API description), and the officer's role must
+// grant the permission the route is mapped to (lib/rbac.ts); data pages send
+// visitors to /login first. Routes still read the officer from the session
+// themselves.
+
+import { apiFailure } from '@/lib/api';
+import { getSession } from '@/lib/auth';
+import { PermissionError, authorize, isPublicRoute, routePermission } from '@/lib/rbac';
+import { NextRequest, NextResponse } from 'next/server';
+
+const PROTECTED_PAGES = ['/dashboard', '/analytics', '/queue'];
+
+export async function proxy(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  const isApi = pathname.startsWith('/api/');
+  if (isApi && isPublicRoute(pathname)) return NextResponse.next();
+
+  const session = getSession(request);
+  if (!session) {
+    if (isApi) {
+      return NextResponse.json(apiFailure('UNAUTHENTICATED', 'Authentication required'), { status: 401 });
+    }
+    if (PROTECTED_PAGES.some((page) => pathname === page || pathname.startsWith(`${page}/`))) {
+      const loginUrl = new URL('/login', request.nextUrl.origin);
+      loginUrl.searchParams.set('next', `${pathname}${search}`);
+      return NextResponse.redirect(loginUrl);
+    }
+    return NextResponse.next();
+  }
+
+  if (isApi) {
+    try {
+      await authorize(request, session, routePermission(request.method, pathname));
+    } catch (error) {
+      if (error instanceof PermissionError) {
+        return NextResponse.json(apiFailure('FORBIDDEN', error.message), { status: 403 });
+      }
+      throw error;
+    }
+  }
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: ['/api/:path*', '/dashboard/:path*', '/analytics/:path*', '/queue/:path*'],
+};
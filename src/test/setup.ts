@@ -0,0 +1,22 @@
+// Test setup, run before each test file
+// Every file gets its own outbox, mail and export-mapping directories and a
+// fresh in-memory local database, so files never see each other's writes.
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll } from 'vitest';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'janavlokan-test-'));
+process.env.OUTBOX_DIR = path.join(dir, 'outbox');
+process.env.MAIL_DIR = path.join(dir, 'mail');
+process.env.EXPORT_MAPPING_DIR = path.join(dir, 'export-mappings');
+
+// Process-wide state (local database, locks, timers) lives on globalThis
+for (const key of Object.keys(globalThis).filter((name) => name.startsWith('__janavlokan'))) {
+  delete (globalThis as Record<string, unknown>)[key];
+}
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
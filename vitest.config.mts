@@ -0,0 +1,18 @@
+import { fileURLToPath } from 'url';
+import { defineConfig } from 'vitest/config';
+
+// Tests run against the offline local backend (fixtures/local), never BigQuery
+export default defineConfig({
+  resolve: {
+    alias: { '@': fileURLToPath(new URL('./src', import.meta.url)) },
+  },
+  test: {
+    environment: 'node',
+    include: ['src/**/*.test.ts'],
+    setupFiles: ['src/test/setup.ts'],
+    env: {
+      DATA_SOURCE: 'local',
+      SLA_CHECK_ENABLED: 'false',
+    },
+  },
+});